@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "sessions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill one session per existing refresh token family
+INSERT INTO "sessions" ("id", "userId", "createdAt", "lastUsedAt", "revokedAt")
+SELECT
+    "familyId",
+    MIN("userId"),
+    MIN("createdAt"),
+    MAX("createdAt"),
+    CASE WHEN BOOL_AND("revokedAt" IS NOT NULL) THEN MAX("revokedAt") END
+FROM "refresh_tokens"
+GROUP BY "familyId";
+
+-- DropIndex
+DROP INDEX "refresh_tokens_familyId_idx";
+
+-- AlterTable
+ALTER TABLE "refresh_tokens" RENAME COLUMN "familyId" TO "sessionId";
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_sessionId_idx" ON "refresh_tokens"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "sessions_userId_idx" ON "sessions"("userId");
+
+-- CreateIndex
+CREATE INDEX "sessions_userId_revokedAt_idx" ON "sessions"("userId", "revokedAt");
+
+-- AddForeignKey
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refresh_tokens" ADD CONSTRAINT "refresh_tokens_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "Role" AS ENUM ('user', 'manager', 'admin');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "role" "Role" NOT NULL DEFAULT 'user';
+
+-- CreateIndex
+CREATE INDEX "users_role_idx" ON "users"("role");
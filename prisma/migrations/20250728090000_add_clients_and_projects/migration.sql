@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE "work_entries" ADD COLUMN     "projectId" TEXT;
+
+-- CreateTable
+CREATE TABLE "clients" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "archivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "clients_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "projects" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "clientId" TEXT,
+    "name" TEXT NOT NULL,
+    "color" TEXT,
+    "archivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "projects_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "work_entries_userId_projectId_idx" ON "work_entries"("userId", "projectId");
+
+-- CreateIndex
+CREATE INDEX "clients_userId_archivedAt_idx" ON "clients"("userId", "archivedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "clients_userId_name_key" ON "clients"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "projects_userId_archivedAt_idx" ON "projects"("userId", "archivedAt");
+
+-- CreateIndex
+CREATE INDEX "projects_clientId_idx" ON "projects"("clientId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "projects_userId_name_key" ON "projects"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "work_entries" ADD CONSTRAINT "work_entries_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "clients" ADD CONSTRAINT "clients_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "projects" ADD CONSTRAINT "projects_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "projects" ADD CONSTRAINT "projects_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "work_entries" ALTER COLUMN "endTime" DROP NOT NULL;
+
+-- CreateIndex
+-- Each user can have at most one running timer (an entry without an end time).
+-- Partial indexes can't be expressed in schema.prisma, so this one only lives here.
+CREATE UNIQUE INDEX "work_entries_userId_running_key" ON "work_entries"("userId") WHERE "endTime" IS NULL;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "work_entries" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "work_entries_userId_deletedAt_idx" ON "work_entries"("userId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "work_entries_deletedAt_idx" ON "work_entries"("deletedAt");
+
+-- Running timers in the trash don't count towards the one-per-user limit
+DROP INDEX "work_entries_userId_running_key";
+CREATE UNIQUE INDEX "work_entries_userId_running_key" ON "work_entries"("userId") WHERE "endTime" IS NULL AND "deletedAt" IS NULL;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "work_entry_revisions" (
+    "id" TEXT NOT NULL,
+    "workEntryId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "before" JSONB,
+    "after" JSONB,
+    "revertedToId" TEXT,
+    "ipAddress" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "work_entry_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "work_entry_revisions_workEntryId_createdAt_idx" ON "work_entry_revisions"("workEntryId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "work_entry_revisions_userId_createdAt_idx" ON "work_entry_revisions"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "work_entry_revisions" ADD CONSTRAINT "work_entry_revisions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "user_settings" (
+    "userId" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "weekStart" TEXT NOT NULL DEFAULT 'monday',
+    "locale" TEXT NOT NULL DEFAULT 'en-US',
+    "dateFormat" TEXT NOT NULL DEFAULT 'YYYY-MM-DD',
+    "defaultEntryMinutes" INTEGER NOT NULL DEFAULT 60,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_settings_pkey" PRIMARY KEY ("userId")
+);
+
+-- AddForeignKey
+ALTER TABLE "user_settings" ADD CONSTRAINT "user_settings_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+-- Stored generated column so duration can be sorted and filtered on across the whole result set
+ALTER TABLE "work_entries" ADD COLUMN "durationSeconds" INTEGER
+    GENERATED ALWAYS AS (EXTRACT(EPOCH FROM ("endTime" - "startTime"))::integer) STORED;
+
+-- CreateIndex
+CREATE INDEX "work_entries_userId_durationSeconds_idx" ON "work_entries"("userId", "durationSeconds");
@@ -0,0 +1,7 @@
+-- AlterTable
+-- Stored generated column so descriptions are only parsed when they change
+ALTER TABLE "work_entries" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', "description")) STORED;
+
+-- CreateIndex
+CREATE INDEX "work_entries_searchVector_idx" ON "work_entries" USING GIN ("searchVector");
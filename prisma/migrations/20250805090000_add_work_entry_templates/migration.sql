@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "work_entry_templates" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "description" TEXT NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "durationMinutes" INTEGER NOT NULL,
+    "tags" TEXT[],
+    "frequency" TEXT NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "byWeekday" TEXT[],
+    "byMonthDay" INTEGER,
+    "startDate" DATE NOT NULL,
+    "endDate" DATE,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "work_entry_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "work_entry_templates_userId_idx" ON "work_entry_templates"("userId");
+
+-- CreateIndex
+CREATE INDEX "work_entry_templates_projectId_idx" ON "work_entry_templates"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "work_entry_templates" ADD CONSTRAINT "work_entry_templates_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "work_entry_templates" ADD CONSTRAINT "work_entry_templates_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
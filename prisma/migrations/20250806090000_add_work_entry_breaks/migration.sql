@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "work_entry_breaks" (
+    "id" TEXT NOT NULL,
+    "workEntryId" TEXT NOT NULL,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "work_entry_breaks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "work_entry_breaks_workEntryId_startTime_idx" ON "work_entry_breaks"("workEntryId", "startTime");
+
+-- AddForeignKey
+ALTER TABLE "work_entry_breaks" ADD CONSTRAINT "work_entry_breaks_workEntryId_fkey" FOREIGN KEY ("workEntryId") REFERENCES "work_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "work_entries" ADD COLUMN "breakSeconds" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+-- The generation expression of a column can't be changed, so the duration is generated again net of breaks
+DROP INDEX "work_entries_userId_durationSeconds_idx";
+ALTER TABLE "work_entries" DROP COLUMN "durationSeconds";
+ALTER TABLE "work_entries" ADD COLUMN "durationSeconds" INTEGER
+    GENERATED ALWAYS AS (EXTRACT(EPOCH FROM ("endTime" - "startTime"))::integer - "breakSeconds") STORED;
+
+-- CreateIndex
+CREATE INDEX "work_entries_userId_durationSeconds_idx" ON "work_entries"("userId", "durationSeconds");
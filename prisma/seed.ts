@@ -23,6 +23,22 @@ async function main(): Promise<void> {
 
   console.log('✅ Demo user created:', demoUser.email);
 
+  // Create demo admin (can access operational health endpoints)
+  const adminUser = await prisma.user.upsert({
+    where: { email: 'admin@bloomtech.com' },
+    update: { role: 'admin' },
+    create: {
+      email: 'admin@bloomtech.com',
+      password: hashedPassword,
+      firstName: 'Admin',
+      lastName: 'User',
+      role: 'admin',
+      emailVerified: true,
+    },
+  });
+
+  console.log('✅ Admin user created:', adminUser.email);
+
   // Create sample work entries
   await prisma.workEntry.create({
     data: {
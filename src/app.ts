@@ -3,7 +3,13 @@ import compression from 'compression';
 import { config } from './config/app.config';
 import authRoutes from './routes/auth.routes';
 import workEntryRoutes from './routes/work-entry.routes';
+import projectRoutes from './routes/project.routes';
+import clientRoutes from './routes/client.routes';
+import tagRoutes from './routes/tag.routes';
+import settingsRoutes from './routes/settings.routes';
+import templateRoutes from './routes/template.routes';
 import healthRoutes from './routes/health.routes';
+import adminRoutes from './routes/admin.routes';
 
 // Enhanced security middleware
 import {
@@ -52,6 +58,12 @@ app.get('/', (_req, res) => {
 // API routes with tiered rate limiting
 app.use(`${config.app.apiPrefix}/auth`, authRateLimit, authRoutes); // Strict rate limiting for auth
 app.use(`${config.app.apiPrefix}/work-entries`, apiRateLimit, workEntryRoutes); // Standard rate limiting for API
+app.use(`${config.app.apiPrefix}/projects`, apiRateLimit, projectRoutes); // Standard rate limiting for API
+app.use(`${config.app.apiPrefix}/clients`, apiRateLimit, clientRoutes); // Standard rate limiting for API
+app.use(`${config.app.apiPrefix}/tags`, apiRateLimit, tagRoutes); // Standard rate limiting for API
+app.use(`${config.app.apiPrefix}/templates`, apiRateLimit, templateRoutes); // Standard rate limiting for API
+app.use(`${config.app.apiPrefix}/settings`, apiRateLimit, settingsRoutes); // Standard rate limiting for API
+app.use(`${config.app.apiPrefix}/admin`, apiRateLimit, adminRoutes); // Standard rate limiting for API
 
 // 404 handler
 app.use('*', (_req, res) => {
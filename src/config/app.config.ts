@@ -17,15 +17,42 @@ interface JWTConfig {
   refreshSecret: string;
   expiresIn: string;
   refreshExpiresIn: string;
+  refreshTokenPurgeIntervalMs: number;
 }
 
 interface SecurityConfig {
   bcryptRounds: number;
+  passwordResetTokenTtlMs: number;
   rateLimitWindowMs: number;
   rateLimitMax: number;
   corsOrigin: string[];
 }
 
+interface EmailVerificationConfig {
+  tokenTtlMs: number;
+  unverifiedWorkEntryLimit: number;
+}
+
+interface WorkEntryConfig {
+  overlapPolicy: 'reject' | 'allow' | 'trim';
+  trashRetentionDays: number;
+  trashPurgeIntervalMs: number;
+}
+
+interface MfaConfig {
+  issuer: string;
+  challengeExpiresIn: string;
+  encryptionKey: string;
+  recoveryCodeCount: number;
+}
+
+interface MailConfig {
+  transport: 'outbox' | 'console';
+  from: string;
+  outboxDir: string;
+  appUrl: string;
+}
+
 interface DatabaseConfig {
   url: string;
   poolMin: number;
@@ -64,15 +91,50 @@ export const jwtConfig: JWTConfig = {
   refreshSecret: process.env.JWT_REFRESH_SECRET!,
   expiresIn: process.env.JWT_EXPIRES_IN || '24h',
   refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
+  // How often stored refresh tokens past their expiry are deleted
+  refreshTokenPurgeIntervalMs: parseInt(process.env.JWT_REFRESH_PURGE_INTERVAL_MS || '3600000', 10),
 };
 
 export const securityConfig: SecurityConfig = {
   bcryptRounds: parseInt(process.env.BCRYPT_ROUNDS || '12', 10),
+  passwordResetTokenTtlMs: parseInt(process.env.PASSWORD_RESET_TOKEN_TTL_MS || '3600000', 10),
   rateLimitWindowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10),
   rateLimitMax: parseInt(process.env.RATE_LIMIT_MAX || '100', 10),
   corsOrigin: process.env.CORS_ORIGIN?.split(',') || ['http://localhost:3000'],
 };
 
+export const emailVerificationConfig: EmailVerificationConfig = {
+  tokenTtlMs: parseInt(process.env.EMAIL_VERIFICATION_TOKEN_TTL_MS || '86400000', 10),
+  // Work entries an unverified user may create; -1 removes the limit
+  unverifiedWorkEntryLimit: parseInt(process.env.UNVERIFIED_WORK_ENTRY_LIMIT || '10', 10),
+};
+
+const overlapPolicies = ['reject', 'allow', 'trim'] as const;
+
+export const workEntryConfig: WorkEntryConfig = {
+  // What happens when a work entry overlaps another one; can be overridden per request
+  overlapPolicy:
+    overlapPolicies.find((policy) => policy === process.env.WORK_ENTRY_OVERLAP_POLICY) ?? 'reject',
+  // Deleted work entries stay in the trash this long before they are purged for good
+  trashRetentionDays: parseInt(process.env.WORK_ENTRY_TRASH_RETENTION_DAYS || '30', 10),
+  trashPurgeIntervalMs: parseInt(process.env.WORK_ENTRY_TRASH_PURGE_INTERVAL_MS || '3600000', 10),
+};
+
+export const mfaConfig: MfaConfig = {
+  issuer: process.env.MFA_ISSUER || 'BloomTech Work Tracker',
+  challengeExpiresIn: process.env.MFA_CHALLENGE_EXPIRES_IN || '5m',
+  // Falls back to the JWT secret so development works without extra setup
+  encryptionKey: process.env.MFA_ENCRYPTION_KEY || process.env.JWT_SECRET!,
+  recoveryCodeCount: parseInt(process.env.MFA_RECOVERY_CODE_COUNT || '10', 10),
+};
+
+export const mailConfig: MailConfig = {
+  transport: process.env.MAIL_TRANSPORT === 'console' ? 'console' : 'outbox',
+  from: process.env.MAIL_FROM || 'BloomTech Work Tracker <no-reply@bloomtech.local>',
+  outboxDir: process.env.MAIL_OUTBOX_DIR || 'outbox',
+  appUrl: process.env.APP_URL || 'http://localhost:3001',
+};
+
 export const databaseConfig: DatabaseConfig = {
   url: process.env.DATABASE_URL!,
   poolMin: parseInt(process.env.DATABASE_POOL_MIN || '2', 10),
@@ -94,6 +156,10 @@ export const config = {
   app: appConfig,
   jwt: jwtConfig,
   security: securityConfig,
+  emailVerification: emailVerificationConfig,
+  workEntries: workEntryConfig,
+  mfa: mfaConfig,
+  mail: mailConfig,
   database: databaseConfig,
   logging: loggingConfig,
   pagination: paginationConfig,
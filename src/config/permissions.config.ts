@@ -0,0 +1,24 @@
+import type { Permission, Role } from '../types/auth.types';
+
+/**
+ * Permissions granted to each role
+ * Roles are cumulative: managers can do everything users can, admins everything managers can
+ */
+const userPermissions: Permission[] = ['work-entries:read', 'work-entries:write'];
+
+const managerPermissions: Permission[] = [...userPermissions, 'system:monitor', 'users:read'];
+
+const adminPermissions: Permission[] = [...managerPermissions, 'system:manage', 'users:manage'];
+
+export const rolePermissions: Record<Role, readonly Permission[]> = {
+  user: userPermissions,
+  manager: managerPermissions,
+  admin: adminPermissions,
+};
+
+/**
+ * Check whether a role grants a permission
+ */
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return rolePermissions[role].includes(permission);
+}
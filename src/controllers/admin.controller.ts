@@ -0,0 +1,265 @@
+import type { Request, Response } from 'express';
+import { AdminService } from '../services/admin.service';
+import { AuthError } from '../services/auth.service';
+import { validateSchema, adminActionSchema, updateUserRoleSchema } from '../utils/validation.utils';
+import type { AdminUserFilters, AuditContext, AuditLogFilters } from '../types/admin.types';
+
+/**
+ * Identify the admin making the request for the audit trail
+ * Sends a 401 and returns null if the request is not authenticated
+ */
+function getAuditContext(req: Request, res: Response): AuditContext | null {
+  if (!req.userId) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+      code: 'NOT_AUTHENTICATED',
+    });
+    return null;
+  }
+
+  return { actorId: req.userId, ipAddress: req.ip || null };
+}
+
+function sendError(res: Response, error: unknown, label: string): void {
+  if (error instanceof AuthError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      code: error.code,
+    });
+    return;
+  }
+
+  console.error(`${label} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: 'Internal server error',
+    code: 'INTERNAL_ERROR',
+  });
+}
+
+function logAdminAction(action: string, context: AuditContext, targetUserId: string): void {
+  console.warn(`🛡️ Admin ${action}`, {
+    actorId: context.actorId,
+    targetUserId,
+    ip: context.ipAddress,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Search and page through users
+ */
+export async function listUsers(req: Request, res: Response): Promise<void> {
+  try {
+    // Query was validated and defaulted by validateQuery
+    const result = await AdminService.listUsers(req.query as unknown as AdminUserFilters);
+
+    res.status(200).json({
+      success: true,
+      message: 'Users retrieved successfully',
+      data: result,
+    });
+  } catch (error) {
+    sendError(res, error, 'Admin list users');
+  }
+}
+
+/**
+ * Get a user with activity details
+ */
+export async function getUser(req: Request, res: Response): Promise<void> {
+  try {
+    const user = await AdminService.getUserDetails(req.params.id as string);
+
+    res.status(200).json({
+      success: true,
+      message: 'User retrieved successfully',
+      data: { user },
+    });
+  } catch (error) {
+    sendError(res, error, 'Admin get user');
+  }
+}
+
+/**
+ * Change a user's role
+ */
+export async function updateUserRole(req: Request, res: Response): Promise<void> {
+  try {
+    const context = getAuditContext(req, res);
+    if (!context) return;
+
+    const userId = req.params.id as string;
+    const { role } = validateSchema(updateUserRoleSchema, req.body);
+    await AdminService.changeRole(context, userId, role);
+
+    logAdminAction('Role Change', context, userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Role updated successfully',
+      data: { user: await AdminService.getUserDetails(userId) },
+    });
+  } catch (error) {
+    sendError(res, error, 'Admin update role');
+  }
+}
+
+/**
+ * Disable a user's account
+ */
+export async function disableUser(req: Request, res: Response): Promise<void> {
+  try {
+    const context = getAuditContext(req, res);
+    if (!context) return;
+
+    const userId = req.params.id as string;
+    const { reason } = validateSchema(adminActionSchema, req.body);
+    await AdminService.disableUser(context, userId, reason);
+
+    logAdminAction('Account Disabled', context, userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Account disabled. The user has been signed out of all sessions',
+    });
+  } catch (error) {
+    sendError(res, error, 'Admin disable user');
+  }
+}
+
+/**
+ * Re-enable a disabled account
+ */
+export async function enableUser(req: Request, res: Response): Promise<void> {
+  try {
+    const context = getAuditContext(req, res);
+    if (!context) return;
+
+    const userId = req.params.id as string;
+    const { reason } = validateSchema(adminActionSchema, req.body);
+    await AdminService.enableUser(context, userId, reason);
+
+    logAdminAction('Account Enabled', context, userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Account enabled',
+    });
+  } catch (error) {
+    sendError(res, error, 'Admin enable user');
+  }
+}
+
+/**
+ * Require a user to reset their password before signing in again
+ */
+export async function forcePasswordReset(req: Request, res: Response): Promise<void> {
+  try {
+    const context = getAuditContext(req, res);
+    if (!context) return;
+
+    const userId = req.params.id as string;
+    const { reason } = validateSchema(adminActionSchema, req.body);
+    await AdminService.forcePasswordReset(context, userId, reason);
+
+    logAdminAction('Password Reset Forced', context, userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Password reset required. A reset link has been emailed to the user',
+    });
+  } catch (error) {
+    sendError(res, error, 'Admin force password reset');
+  }
+}
+
+/**
+ * Lift a login lockout caused by repeated failed attempts
+ */
+export async function unlockUser(req: Request, res: Response): Promise<void> {
+  try {
+    const context = getAuditContext(req, res);
+    if (!context) return;
+
+    const userId = req.params.id as string;
+    const wasLocked = await AdminService.unlockUser(context, userId);
+
+    logAdminAction('Account Unlocked', context, userId);
+
+    res.status(200).json({
+      success: true,
+      message: wasLocked ? 'Account unlocked' : 'Account was not locked',
+      data: { wasLocked },
+    });
+  } catch (error) {
+    sendError(res, error, 'Admin unlock user');
+  }
+}
+
+/**
+ * Delete a user - soft by default, permanently with ?hard=true
+ */
+export async function deleteUser(req: Request, res: Response): Promise<void> {
+  try {
+    const context = getAuditContext(req, res);
+    if (!context) return;
+
+    const userId = req.params.id as string;
+    // Query was validated and transformed by validateQuery
+    const { hard } = req.query as unknown as { hard: boolean };
+    await AdminService.deleteUser(context, userId, { hard });
+
+    logAdminAction(hard ? 'User Permanently Deleted' : 'User Deleted', context, userId);
+
+    res.status(200).json({
+      success: true,
+      message: hard ? 'User permanently deleted' : 'User deleted. It can be restored',
+    });
+  } catch (error) {
+    sendError(res, error, 'Admin delete user');
+  }
+}
+
+/**
+ * Restore a soft-deleted user
+ */
+export async function restoreUser(req: Request, res: Response): Promise<void> {
+  try {
+    const context = getAuditContext(req, res);
+    if (!context) return;
+
+    const userId = req.params.id as string;
+    await AdminService.restoreUser(context, userId);
+
+    logAdminAction('User Restored', context, userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'User restored',
+      data: { user: await AdminService.getUserDetails(userId) },
+    });
+  } catch (error) {
+    sendError(res, error, 'Admin restore user');
+  }
+}
+
+/**
+ * Page through the audit trail of admin actions
+ */
+export async function listAuditLog(req: Request, res: Response): Promise<void> {
+  try {
+    // Query was validated and defaulted by validateQuery
+    const result = await AdminService.listAuditLog(req.query as unknown as AuditLogFilters);
+
+    res.status(200).json({
+      success: true,
+      message: 'Audit log retrieved successfully',
+      data: result,
+    });
+  } catch (error) {
+    sendError(res, error, 'Admin audit log');
+  }
+}
@@ -1,11 +1,23 @@
 import type { Request, Response } from 'express';
 import { AuthService, AuthError } from '../services/auth.service';
-import { validateSchema, refreshTokenSchema } from '../utils/validation.utils';
+import {
+  validateSchema,
+  refreshTokenSchema,
+  logoutSchema,
+  emailVerificationSchema,
+  mfaEnableSchema,
+  mfaVerifySchema,
+  currentPasswordSchema,
+  createPersonalAccessTokenSchema,
+  updatePersonalAccessTokenSchema,
+} from '../utils/validation.utils';
 import {
   enhancedCreateUserSchema,
   enhancedLoginSchema,
   validateWithSecurity,
   passwordChangeSchema,
+  enhancedPasswordResetSchema,
+  enhancedPasswordResetConfirmSchema,
 } from '../utils/security-validation.utils';
 import {
   trackFailedAttempt,
@@ -43,7 +55,10 @@ export async function register(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    const authResponse = await AuthService.register(validationResult.data);
+    const authResponse = await AuthService.register(validationResult.data, {
+      ipAddress: req.ip || null,
+      userAgent: req.get('User-Agent') || null,
+    });
 
     // Log successful registration for security monitoring
     console.log('✅ User Registration Success', {
@@ -55,7 +70,7 @@ export async function register(req: Request, res: Response): Promise<void> {
 
     res.status(201).json({
       success: true,
-      message: 'User registered successfully',
+      message: 'User registered successfully. Please check your email to verify your address',
       data: authResponse,
     });
   } catch (error) {
@@ -150,12 +165,32 @@ export async function login(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    const authResponse = await AuthService.login(validationResult.data);
+    const authResponse = await AuthService.login(validationResult.data, {
+      ipAddress: clientIP,
+      userAgent: req.get('User-Agent') || null,
+    });
 
     // Clear failed attempts on successful login
     clearFailedAttempts(email);
     clearFailedAttempts(clientIP);
 
+    // Password was correct but a second factor is still required
+    if ('mfaRequired' in authResponse) {
+      console.log('🔐 MFA Challenge Issued', {
+        email,
+        ip: clientIP,
+        userAgent: req.get('User-Agent'),
+        timestamp: new Date().toISOString(),
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication required',
+        data: authResponse,
+      });
+      return;
+    }
+
     // Log successful login for security monitoring
     console.log('✅ User Login Success', {
       email,
@@ -431,6 +466,201 @@ export async function changePassword(req: Request, res: Response): Promise<void>
   }
 }
 
+/**
+ * Request a password reset email
+ * Always responds the same way so registered emails cannot be discovered
+ */
+export async function forgotPassword(req: Request, res: Response): Promise<void> {
+  try {
+    const validationResult = validateWithSecurity(
+      enhancedPasswordResetSchema,
+      req.body,
+      'password-reset-request'
+    );
+
+    if (!validationResult.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: validationResult.errors,
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    await AuthService.requestPasswordReset(validationResult.data);
+
+    console.log('🔑 Password Reset Requested', {
+      email: validationResult.data.email,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      timestamp: new Date().toISOString(),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'If an account exists for that email, a password reset link has been sent',
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+      return;
+    }
+
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+}
+
+/**
+ * Reset password using a token from the reset email
+ */
+export async function resetPassword(req: Request, res: Response): Promise<void> {
+  try {
+    const validationResult = validateWithSecurity(
+      enhancedPasswordResetConfirmSchema,
+      req.body,
+      'password-reset-confirm'
+    );
+
+    if (!validationResult.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: validationResult.errors,
+        code: 'VALIDATION_ERROR',
+      });
+      return;
+    }
+
+    await AuthService.resetPassword(validationResult.data);
+
+    console.log('🔐 Password Reset Completed', {
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      timestamp: new Date().toISOString(),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Password reset successfully. Please log in with your new password',
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      console.warn('🔒 Password Reset Error', {
+        code: error.code,
+        ip: req.ip,
+        timestamp: new Date().toISOString(),
+      });
+
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+      return;
+    }
+
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+}
+
+/**
+ * Verify the user's email address using the token from the verification email
+ */
+export async function verifyEmail(req: Request, res: Response): Promise<void> {
+  try {
+    const { token } = validateSchema(emailVerificationSchema, req.body);
+    const user = await AuthService.verifyEmail({ token });
+
+    console.log('✅ Email Verified', {
+      userId: user.id,
+      ip: req.ip,
+      timestamp: new Date().toISOString(),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Email verified successfully',
+      data: { user },
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      console.warn('🔒 Email Verification Error', {
+        code: error.code,
+        ip: req.ip,
+        timestamp: new Date().toISOString(),
+      });
+
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+      return;
+    }
+
+    console.error('Verify email error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+}
+
+/**
+ * Send a new verification email to the current user
+ */
+export async function resendVerification(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        code: 'NOT_AUTHENTICATED',
+      });
+      return;
+    }
+
+    await AuthService.resendVerification(req.userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Verification email sent',
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+      return;
+    }
+
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+}
+
 /**
  * Delete user account
  */
@@ -471,17 +701,628 @@ export async function deleteAccount(req: Request, res: Response): Promise<void>
 }
 
 /**
- * Logout user (currently just a client-side action, but endpoint for completeness)
+ * Logout user by revoking the current session server-side
  */
 export async function logout(req: Request, res: Response): Promise<void> {
-  // In a stateless JWT system, logout is typically handled client-side
-  // by removing the token from storage. This endpoint exists for
-  // consistency and potential future blacklisting features.
+  try {
+    if (!req.userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        code: 'NOT_AUTHENTICATED',
+      });
+      return;
+    }
 
-  res.status(200).json({
-    success: true,
-    message: 'Logged out successfully',
-  });
+    const { refreshToken } = validateSchema(logoutSchema, req.body ?? {});
+    await AuthService.logout(req.userId, req.sessionId, refreshToken);
+
+    res.status(200).json({
+      success: true,
+      message: 'Logged out successfully',
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+      return;
+    }
+
+    console.error('Logout error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+}
+
+/**
+ * List the current user's active sessions
+ */
+export async function getSessions(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        code: 'NOT_AUTHENTICATED',
+      });
+      return;
+    }
+
+    const sessions = await AuthService.listSessions(req.userId, req.sessionId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Sessions retrieved successfully',
+      data: { sessions },
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+      return;
+    }
+
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+}
+
+/**
+ * Revoke one of the current user's sessions
+ */
+export async function revokeSession(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        code: 'NOT_AUTHENTICATED',
+      });
+      return;
+    }
+
+    const sessionId = req.params.id!;
+    await AuthService.revokeSession(req.userId, sessionId);
+
+    console.log('🔒 Session Revoked', {
+      userId: req.userId,
+      sessionId,
+      ip: req.ip,
+      timestamp: new Date().toISOString(),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked successfully',
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+      return;
+    }
+
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+}
+
+/**
+ * Sign out everywhere else - revoke every session except the current one
+ */
+export async function revokeOtherSessions(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        code: 'NOT_AUTHENTICATED',
+      });
+      return;
+    }
+
+    const revokedCount = await AuthService.revokeOtherSessions(req.userId, req.sessionId);
+
+    console.log('🔒 Other Sessions Revoked', {
+      userId: req.userId,
+      revokedCount,
+      ip: req.ip,
+      timestamp: new Date().toISOString(),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Signed out of all other sessions',
+      data: { revokedCount },
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+      return;
+    }
+
+    console.error('Revoke other sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+}
+
+/**
+ * Complete login for an MFA-enabled user with an authenticator or recovery code
+ */
+export async function verifyMfa(req: Request, res: Response): Promise<void> {
+  try {
+    const validatedData = validateSchema(mfaVerifySchema, req.body);
+    const authResponse = await AuthService.verifyMfaLogin(validatedData, {
+      ipAddress: req.ip || null,
+      userAgent: req.get('User-Agent') || null,
+    });
+
+    console.log('✅ User Login Success', {
+      email: authResponse.user.email,
+      method: validatedData.recoveryCode ? 'recovery-code' : 'totp',
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      timestamp: new Date().toISOString(),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Login successful',
+      data: authResponse,
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      console.warn('🔒 Failed MFA Attempt', {
+        code: error.code,
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+        timestamp: new Date().toISOString(),
+      });
+
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+      return;
+    }
+
+    console.error('MFA verification error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+}
+
+/**
+ * Start two-factor enrollment for the current user
+ */
+export async function setupMfa(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        code: 'NOT_AUTHENTICATED',
+      });
+      return;
+    }
+
+    const setup = await AuthService.setupMfa(req.userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Add the secret to your authenticator app, then confirm with a code',
+      data: setup,
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+      return;
+    }
+
+    console.error('MFA setup error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+}
+
+/**
+ * Confirm two-factor enrollment and return one-time recovery codes
+ */
+export async function enableMfa(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        code: 'NOT_AUTHENTICATED',
+      });
+      return;
+    }
+
+    const { code } = validateSchema(mfaEnableSchema, req.body);
+    const recoveryCodes = await AuthService.enableMfa(req.userId, code);
+
+    console.log('🔐 MFA Enabled', {
+      userId: req.userId,
+      ip: req.ip,
+      timestamp: new Date().toISOString(),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe',
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+      return;
+    }
+
+    console.error('MFA enable error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+}
+
+/**
+ * Turn off two-factor authentication (requires the current password)
+ */
+export async function disableMfa(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        code: 'NOT_AUTHENTICATED',
+      });
+      return;
+    }
+
+    const { password } = validateSchema(currentPasswordSchema, req.body);
+    await AuthService.disableMfa(req.userId, password);
+
+    console.warn('🔓 MFA Disabled', {
+      userId: req.userId,
+      ip: req.ip,
+      timestamp: new Date().toISOString(),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+      return;
+    }
+
+    console.error('MFA disable error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+}
+
+/**
+ * Replace the current user's recovery codes (requires the current password)
+ */
+export async function regenerateRecoveryCodes(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        code: 'NOT_AUTHENTICATED',
+      });
+      return;
+    }
+
+    const { password } = validateSchema(currentPasswordSchema, req.body);
+    const recoveryCodes = await AuthService.regenerateRecoveryCodes(req.userId, password);
+
+    console.log('🔐 MFA Recovery Codes Regenerated', {
+      userId: req.userId,
+      ip: req.ip,
+      timestamp: new Date().toISOString(),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Recovery codes regenerated. Previous codes no longer work',
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+      return;
+    }
+
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+}
+
+/**
+ * List the current user's personal access tokens
+ */
+export async function getPersonalAccessTokens(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        code: 'NOT_AUTHENTICATED',
+      });
+      return;
+    }
+
+    const tokens = await AuthService.listPersonalAccessTokens(req.userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Access tokens retrieved successfully',
+      data: { tokens },
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+      return;
+    }
+
+    console.error('Get access tokens error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+}
+
+/**
+ * Create a personal access token (the raw token is only returned once)
+ */
+export async function createPersonalAccessToken(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        code: 'NOT_AUTHENTICATED',
+      });
+      return;
+    }
+
+    const validatedData = validateSchema(createPersonalAccessTokenSchema, req.body);
+    const created = await AuthService.createPersonalAccessToken(req.userId, validatedData);
+
+    console.log('🔑 Access Token Created', {
+      userId: req.userId,
+      tokenId: created.personalAccessToken.id,
+      scopes: created.personalAccessToken.scopes,
+      ip: req.ip,
+      timestamp: new Date().toISOString(),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Access token created. Copy it now - it will not be shown again',
+      data: created,
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+      return;
+    }
+
+    console.error('Create access token error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+}
+
+/**
+ * Get one of the current user's personal access tokens
+ */
+export async function getPersonalAccessToken(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        code: 'NOT_AUTHENTICATED',
+      });
+      return;
+    }
+
+    const token = await AuthService.getPersonalAccessToken(req.userId, req.params.id!);
+
+    res.status(200).json({
+      success: true,
+      message: 'Access token retrieved successfully',
+      data: { token },
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+      return;
+    }
+
+    console.error('Get access token error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+}
+
+/**
+ * Rename one of the current user's personal access tokens
+ */
+export async function updatePersonalAccessToken(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        code: 'NOT_AUTHENTICATED',
+      });
+      return;
+    }
+
+    const validatedData = validateSchema(updatePersonalAccessTokenSchema, req.body);
+    const token = await AuthService.updatePersonalAccessToken(
+      req.userId,
+      req.params.id!,
+      validatedData
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Access token updated successfully',
+      data: { token },
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+      return;
+    }
+
+    console.error('Update access token error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+}
+
+/**
+ * Revoke one of the current user's personal access tokens
+ */
+export async function revokePersonalAccessToken(req: Request, res: Response): Promise<void> {
+  try {
+    if (!req.userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        code: 'NOT_AUTHENTICATED',
+      });
+      return;
+    }
+
+    const tokenId = req.params.id!;
+    await AuthService.revokePersonalAccessToken(req.userId, tokenId);
+
+    console.log('🔒 Access Token Revoked', {
+      userId: req.userId,
+      tokenId,
+      ip: req.ip,
+      timestamp: new Date().toISOString(),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Access token revoked successfully',
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+      });
+      return;
+    }
+
+    console.error('Revoke access token error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    });
+  }
 }
 
 /**
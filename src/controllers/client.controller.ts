@@ -0,0 +1,159 @@
+import { Response } from 'express';
+import { clientService } from '../services/client.service';
+import { ProjectError } from '../services/project.service';
+import { AuthenticatedRequest } from '../types/auth.types';
+import {
+  projectParamsSchema,
+  clientFiltersSchema,
+  createClientSchema,
+  updateClientSchema,
+} from '../utils/project-validation.utils';
+
+// Extended request type with proper Express Request properties
+interface ClientRequest extends AuthenticatedRequest {
+  query: any;
+  params: any;
+  body: any;
+}
+
+/**
+ * Send the response for a failed client request
+ */
+function handleClientError(res: Response, error: any, fallbackMessage: string): void {
+  if (error.name === 'ZodError') {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid input data',
+      errors: error.errors,
+    });
+    return;
+  }
+
+  if (error instanceof ProjectError) {
+    res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+      code: error.code,
+    });
+    return;
+  }
+
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+  });
+}
+
+export class ClientController {
+  /**
+   * GET /api/clients
+   * List the authenticated user's clients
+   */
+  async getClients(req: ClientRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const filters = clientFiltersSchema.parse(req.query);
+
+      const clients = await clientService.listClients(userId, filters);
+
+      res.status(200).json({
+        success: true,
+        message: 'Clients retrieved successfully',
+        data: clients,
+      });
+    } catch (error: any) {
+      console.error('Get clients error:', error);
+      handleClientError(res, error, 'Failed to retrieve clients');
+    }
+  }
+
+  /**
+   * POST /api/clients
+   * Create a new client
+   */
+  async createClient(req: ClientRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const validatedData = createClientSchema.parse(req.body);
+
+      const client = await clientService.createClient(userId, validatedData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Client created successfully',
+        data: client,
+      });
+    } catch (error: any) {
+      console.error('Create client error:', error);
+      handleClientError(res, error, 'Failed to create client');
+    }
+  }
+
+  /**
+   * GET /api/clients/:id
+   * Get a specific client by ID
+   */
+  async getClientById(req: ClientRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { id } = projectParamsSchema.parse(req.params);
+
+      const client = await clientService.getClientById(userId, id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Client retrieved successfully',
+        data: client,
+      });
+    } catch (error: any) {
+      console.error('Get client error:', error);
+      handleClientError(res, error, 'Failed to retrieve client');
+    }
+  }
+
+  /**
+   * PATCH /api/clients/:id
+   * Rename or archive a client
+   */
+  async updateClient(req: ClientRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { id } = projectParamsSchema.parse(req.params);
+      const validatedData = updateClientSchema.parse(req.body);
+
+      const client = await clientService.updateClient(userId, id, validatedData);
+
+      res.status(200).json({
+        success: true,
+        message: 'Client updated successfully',
+        data: client,
+      });
+    } catch (error: any) {
+      console.error('Update client error:', error);
+      handleClientError(res, error, 'Failed to update client');
+    }
+  }
+
+  /**
+   * DELETE /api/clients/:id
+   * Delete a client, keeping its projects without a client
+   */
+  async deleteClient(req: ClientRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { id } = projectParamsSchema.parse(req.params);
+
+      await clientService.deleteClient(userId, id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Client deleted successfully',
+      });
+    } catch (error: any) {
+      console.error('Delete client error:', error);
+      handleClientError(res, error, 'Failed to delete client');
+    }
+  }
+}
+
+export const clientController = new ClientController();
@@ -0,0 +1,133 @@
+import { Response } from 'express';
+import { importService, ImportError } from '../services/import.service';
+import { ProjectError } from '../services/project.service';
+import { AuthenticatedRequest } from '../types/auth.types';
+import type { ImportResponse } from '../types/import.types';
+import { csvImportSchema, trackerImportSchema } from '../utils/import-validation.utils';
+import { overlapPolicyQuerySchema } from '../utils/work-entry-validation.utils';
+
+// Extended request type with proper Express Request properties
+interface ImportRequest extends AuthenticatedRequest {
+  query: any;
+  params: any;
+  body: any;
+  ip?: string;
+}
+
+/**
+ * Send the response for a failed import request
+ */
+function handleImportError(res: Response, error: any, fallbackMessage: string): void {
+  if (error.name === 'ZodError') {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid input data',
+      errors: error.errors,
+    });
+    return;
+  }
+
+  if (error instanceof ImportError || error instanceof ProjectError) {
+    res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+      code: error.code,
+    });
+    return;
+  }
+
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+  });
+}
+
+/**
+ * Send the response for a preview or a completed import
+ */
+function sendImportResult(res: Response, result: ImportResponse): void {
+  if (result.dryRun) {
+    res.status(200).json({
+      success: true,
+      message: 'Import preview generated successfully',
+      data: result,
+    });
+    return;
+  }
+
+  if (!result.result) {
+    res.status(400).json({
+      success: false,
+      message: 'The file has invalid rows; nothing was imported',
+      data: result,
+    });
+    return;
+  }
+
+  if (result.result.mode === 'atomic' && result.result.summary.failed > 0) {
+    res.status(409).json({
+      success: false,
+      message: 'A row could not be imported; nothing was imported',
+      data: result,
+    });
+    return;
+  }
+
+  res.status(200).json({
+    success: true,
+    message: `Imported ${result.result.summary.succeeded} work entries`,
+    data: result,
+  });
+}
+
+export class ImportController {
+  /**
+   * POST /api/work-entries/import/csv
+   * Preview or import work entries from CSV
+   */
+  async importCsv(req: ImportRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const validatedData = csvImportSchema.parse(req.body);
+      const { overlap } = overlapPolicyQuerySchema.parse(req.query);
+
+      const result = await importService.importCsv(
+        userId,
+        validatedData,
+        { actorId: userId, ipAddress: req.ip || null },
+        overlap
+      );
+
+      sendImportResult(res, result);
+    } catch (error: any) {
+      console.error('CSV import error:', error);
+      handleImportError(res, error, 'Failed to import work entries');
+    }
+  }
+
+  /**
+   * POST /api/work-entries/import/tracker
+   * Preview or import a Toggl Track, Clockify or Harvest export file
+   */
+  async importTrackerExport(req: ImportRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const validatedData = trackerImportSchema.parse(req.body);
+      const { overlap } = overlapPolicyQuerySchema.parse(req.query);
+
+      const result = await importService.importTrackerExport(
+        userId,
+        validatedData,
+        { actorId: userId, ipAddress: req.ip || null },
+        overlap
+      );
+
+      sendImportResult(res, result);
+    } catch (error: any) {
+      console.error('Tracker import error:', error);
+      handleImportError(res, error, 'Failed to import work entries');
+    }
+  }
+}
+
+export const importController = new ImportController();
@@ -0,0 +1,158 @@
+import { Response } from 'express';
+import { projectService, ProjectError } from '../services/project.service';
+import { AuthenticatedRequest } from '../types/auth.types';
+import {
+  projectParamsSchema,
+  projectFiltersSchema,
+  createProjectSchema,
+  updateProjectSchema,
+} from '../utils/project-validation.utils';
+
+// Extended request type with proper Express Request properties
+interface ProjectRequest extends AuthenticatedRequest {
+  query: any;
+  params: any;
+  body: any;
+}
+
+/**
+ * Send the response for a failed project request
+ */
+function handleProjectError(res: Response, error: any, fallbackMessage: string): void {
+  if (error.name === 'ZodError') {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid input data',
+      errors: error.errors,
+    });
+    return;
+  }
+
+  if (error instanceof ProjectError) {
+    res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+      code: error.code,
+    });
+    return;
+  }
+
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+  });
+}
+
+export class ProjectController {
+  /**
+   * GET /api/projects
+   * List the authenticated user's projects
+   */
+  async getProjects(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const filters = projectFiltersSchema.parse(req.query);
+
+      const projects = await projectService.listProjects(userId, filters);
+
+      res.status(200).json({
+        success: true,
+        message: 'Projects retrieved successfully',
+        data: projects,
+      });
+    } catch (error: any) {
+      console.error('Get projects error:', error);
+      handleProjectError(res, error, 'Failed to retrieve projects');
+    }
+  }
+
+  /**
+   * POST /api/projects
+   * Create a new project
+   */
+  async createProject(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const validatedData = createProjectSchema.parse(req.body);
+
+      const project = await projectService.createProject(userId, validatedData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Project created successfully',
+        data: project,
+      });
+    } catch (error: any) {
+      console.error('Create project error:', error);
+      handleProjectError(res, error, 'Failed to create project');
+    }
+  }
+
+  /**
+   * GET /api/projects/:id
+   * Get a specific project by ID
+   */
+  async getProjectById(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { id } = projectParamsSchema.parse(req.params);
+
+      const project = await projectService.getProjectById(userId, id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Project retrieved successfully',
+        data: project,
+      });
+    } catch (error: any) {
+      console.error('Get project error:', error);
+      handleProjectError(res, error, 'Failed to retrieve project');
+    }
+  }
+
+  /**
+   * PATCH /api/projects/:id
+   * Update or archive a project
+   */
+  async updateProject(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { id } = projectParamsSchema.parse(req.params);
+      const validatedData = updateProjectSchema.parse(req.body);
+
+      const project = await projectService.updateProject(userId, id, validatedData);
+
+      res.status(200).json({
+        success: true,
+        message: 'Project updated successfully',
+        data: project,
+      });
+    } catch (error: any) {
+      console.error('Update project error:', error);
+      handleProjectError(res, error, 'Failed to update project');
+    }
+  }
+
+  /**
+   * DELETE /api/projects/:id
+   * Delete a project, leaving its work entries unassigned
+   */
+  async deleteProject(req: ProjectRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { id } = projectParamsSchema.parse(req.params);
+
+      await projectService.deleteProject(userId, id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Project deleted successfully',
+      });
+    } catch (error: any) {
+      console.error('Delete project error:', error);
+      handleProjectError(res, error, 'Failed to delete project');
+    }
+  }
+}
+
+export const projectController = new ProjectController();
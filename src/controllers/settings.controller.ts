@@ -0,0 +1,75 @@
+import { Response } from 'express';
+import { settingsService } from '../services/settings.service';
+import { AuthenticatedRequest } from '../types/auth.types';
+import { updateSettingsSchema } from '../utils/settings-validation.utils';
+
+// Extended request type with proper Express Request properties
+interface SettingsRequest extends AuthenticatedRequest {
+  query: any;
+  params: any;
+  body: any;
+}
+
+export class SettingsController {
+  /**
+   * GET /api/settings
+   * Get the authenticated user's settings
+   */
+  async getSettings(req: SettingsRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+
+      const settings = await settingsService.getSettings(userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Settings retrieved successfully',
+        data: settings,
+      });
+    } catch (error: any) {
+      console.error('Get settings error:', error);
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve settings',
+      });
+    }
+  }
+
+  /**
+   * PATCH /api/settings
+   * Update the authenticated user's settings
+   */
+  async updateSettings(req: SettingsRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const validatedData = updateSettingsSchema.parse(req.body);
+
+      const settings = await settingsService.updateSettings(userId, validatedData);
+
+      res.status(200).json({
+        success: true,
+        message: 'Settings updated successfully',
+        data: settings,
+      });
+    } catch (error: any) {
+      console.error('Update settings error:', error);
+
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid input data',
+          errors: error.errors,
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update settings',
+      });
+    }
+  }
+}
+
+export const settingsController = new SettingsController();
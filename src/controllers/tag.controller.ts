@@ -0,0 +1,180 @@
+import { Response } from 'express';
+import { tagService, TagError } from '../services/tag.service';
+import { AuthenticatedRequest } from '../types/auth.types';
+import {
+  tagParamsSchema,
+  createTagSchema,
+  updateTagSchema,
+  mergeTagSchema,
+} from '../utils/tag-validation.utils';
+
+// Extended request type with proper Express Request properties
+interface TagRequest extends AuthenticatedRequest {
+  query: any;
+  params: any;
+  body: any;
+}
+
+/**
+ * Send the response for a failed tag request
+ */
+function handleTagError(res: Response, error: any, fallbackMessage: string): void {
+  if (error.name === 'ZodError') {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid input data',
+      errors: error.errors,
+    });
+    return;
+  }
+
+  if (error instanceof TagError) {
+    res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+      code: error.code,
+    });
+    return;
+  }
+
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+  });
+}
+
+export class TagController {
+  /**
+   * GET /api/tags
+   * List the authenticated user's tags
+   */
+  async getTags(req: TagRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+
+      const tags = await tagService.listTags(userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Tags retrieved successfully',
+        data: tags,
+      });
+    } catch (error: any) {
+      console.error('Get tags error:', error);
+      handleTagError(res, error, 'Failed to retrieve tags');
+    }
+  }
+
+  /**
+   * POST /api/tags
+   * Create a new tag
+   */
+  async createTag(req: TagRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const validatedData = createTagSchema.parse(req.body);
+
+      const tag = await tagService.createTag(userId, validatedData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Tag created successfully',
+        data: tag,
+      });
+    } catch (error: any) {
+      console.error('Create tag error:', error);
+      handleTagError(res, error, 'Failed to create tag');
+    }
+  }
+
+  /**
+   * GET /api/tags/:id
+   * Get a specific tag by ID
+   */
+  async getTagById(req: TagRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { id } = tagParamsSchema.parse(req.params);
+
+      const tag = await tagService.getTagById(userId, id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Tag retrieved successfully',
+        data: tag,
+      });
+    } catch (error: any) {
+      console.error('Get tag error:', error);
+      handleTagError(res, error, 'Failed to retrieve tag');
+    }
+  }
+
+  /**
+   * PATCH /api/tags/:id
+   * Rename or recolour a tag
+   */
+  async updateTag(req: TagRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { id } = tagParamsSchema.parse(req.params);
+      const validatedData = updateTagSchema.parse(req.body);
+
+      const tag = await tagService.updateTag(userId, id, validatedData);
+
+      res.status(200).json({
+        success: true,
+        message: 'Tag updated successfully',
+        data: tag,
+      });
+    } catch (error: any) {
+      console.error('Update tag error:', error);
+      handleTagError(res, error, 'Failed to update tag');
+    }
+  }
+
+  /**
+   * POST /api/tags/:id/merge
+   * Merge a tag into another one
+   */
+  async mergeTag(req: TagRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { id } = tagParamsSchema.parse(req.params);
+      const { targetTagId } = mergeTagSchema.parse(req.body);
+
+      const tag = await tagService.mergeTag(userId, id, targetTagId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Tags merged successfully',
+        data: tag,
+      });
+    } catch (error: any) {
+      console.error('Merge tag error:', error);
+      handleTagError(res, error, 'Failed to merge tags');
+    }
+  }
+
+  /**
+   * DELETE /api/tags/:id
+   * Delete a tag, removing it from all work entries
+   */
+  async deleteTag(req: TagRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { id } = tagParamsSchema.parse(req.params);
+
+      await tagService.deleteTag(userId, id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Tag deleted successfully',
+      });
+    } catch (error: any) {
+      console.error('Delete tag error:', error);
+      handleTagError(res, error, 'Failed to delete tag');
+    }
+  }
+}
+
+export const tagController = new TagController();
@@ -0,0 +1,190 @@
+import { Response } from 'express';
+import { templateService, TemplateError } from '../services/template.service';
+import { ProjectError } from '../services/project.service';
+import { AuthenticatedRequest } from '../types/auth.types';
+import { overlapPolicyQuerySchema } from '../utils/work-entry-validation.utils';
+import {
+  templateParamsSchema,
+  createTemplateSchema,
+  updateTemplateSchema,
+  materializeTemplateSchema,
+} from '../utils/template-validation.utils';
+
+// Extended request type with proper Express Request properties
+interface TemplateRequest extends AuthenticatedRequest {
+  query: any;
+  params: any;
+  body: any;
+  ip?: string;
+}
+
+/**
+ * Send the response for a failed template request
+ */
+function handleTemplateError(res: Response, error: any, fallbackMessage: string): void {
+  if (error.name === 'ZodError') {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid input data',
+      errors: error.errors,
+    });
+    return;
+  }
+
+  if (error instanceof TemplateError || error instanceof ProjectError) {
+    res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+      code: error.code,
+    });
+    return;
+  }
+
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+  });
+}
+
+export class TemplateController {
+  /**
+   * GET /api/templates
+   * List the authenticated user's work entry templates
+   */
+  async getTemplates(req: TemplateRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+
+      const templates = await templateService.listTemplates(userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Templates retrieved successfully',
+        data: templates,
+      });
+    } catch (error: any) {
+      console.error('Get templates error:', error);
+      handleTemplateError(res, error, 'Failed to retrieve templates');
+    }
+  }
+
+  /**
+   * POST /api/templates
+   * Create a new work entry template
+   */
+  async createTemplate(req: TemplateRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const validatedData = createTemplateSchema.parse(req.body);
+
+      const template = await templateService.createTemplate(userId, validatedData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Template created successfully',
+        data: template,
+      });
+    } catch (error: any) {
+      console.error('Create template error:', error);
+      handleTemplateError(res, error, 'Failed to create template');
+    }
+  }
+
+  /**
+   * GET /api/templates/:id
+   * Get a specific template by ID
+   */
+  async getTemplateById(req: TemplateRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { id } = templateParamsSchema.parse(req.params);
+
+      const template = await templateService.getTemplateById(userId, id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Template retrieved successfully',
+        data: template,
+      });
+    } catch (error: any) {
+      console.error('Get template error:', error);
+      handleTemplateError(res, error, 'Failed to retrieve template');
+    }
+  }
+
+  /**
+   * PATCH /api/templates/:id
+   * Update a template
+   */
+  async updateTemplate(req: TemplateRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { id } = templateParamsSchema.parse(req.params);
+      const validatedData = updateTemplateSchema.parse(req.body);
+
+      const template = await templateService.updateTemplate(userId, id, validatedData);
+
+      res.status(200).json({
+        success: true,
+        message: 'Template updated successfully',
+        data: template,
+      });
+    } catch (error: any) {
+      console.error('Update template error:', error);
+      handleTemplateError(res, error, 'Failed to update template');
+    }
+  }
+
+  /**
+   * DELETE /api/templates/:id
+   * Delete a template, keeping the entries created from it
+   */
+  async deleteTemplate(req: TemplateRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { id } = templateParamsSchema.parse(req.params);
+
+      await templateService.deleteTemplate(userId, id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Template deleted successfully',
+      });
+    } catch (error: any) {
+      console.error('Delete template error:', error);
+      handleTemplateError(res, error, 'Failed to delete template');
+    }
+  }
+
+  /**
+   * POST /api/templates/:id/materialize
+   * Create work entries for a template's occurrences between two days
+   */
+  async materializeTemplate(req: TemplateRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { id } = templateParamsSchema.parse(req.params);
+      const range = materializeTemplateSchema.parse(req.body);
+      const { overlap } = overlapPolicyQuerySchema.parse(req.query);
+
+      const result = await templateService.materializeTemplate(
+        userId,
+        id,
+        range,
+        { actorId: userId, ipAddress: req.ip || null },
+        overlap
+      );
+
+      res.status(200).json({
+        success: true,
+        message: `Created ${result.created} work entries from template`,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Materialize template error:', error);
+      handleTemplateError(res, error, 'Failed to create work entries from template');
+    }
+  }
+}
+
+export const templateController = new TemplateController();
@@ -1,22 +1,69 @@
 import { Response } from 'express';
-import { workEntryService } from '../services/work-entry.service';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  workEntryService,
+  WorkEntryOverlapError,
+  WorkEntryDurationError,
+  IndexedBulkOperation,
+} from '../services/work-entry.service';
+import { ProjectError } from '../services/project.service';
+import { exportService } from '../services/export.service';
+import { settingsService } from '../services/settings.service';
 import { AuthenticatedRequest } from '../types/auth.types';
+import type { BulkOperationResult, RevisionContext } from '../types/work-entry.types';
+import { getLocalDate } from '../utils/timezone.utils';
 
 // Extended request type with proper Express Request properties
 interface WorkEntryRequest extends AuthenticatedRequest {
   query: any;
   params: any;
   body: any;
+  ip?: string;
 }
 import {
   workEntryParamsSchema,
   workEntryFiltersSchema,
+  overlapPolicyQuerySchema,
+  exportFormatQuerySchema,
+  trashQuerySchema,
+  revertWorkEntrySchema,
+  statsSeriesQuerySchema,
 } from '../utils/work-entry-validation.utils';
 import {
   enhancedCreateWorkEntrySchema,
   enhancedUpdateWorkEntrySchema,
+  enhancedStartTimerSchema,
+  enhancedStopTimerSchema,
+  enhancedBulkWorkEntrySchema,
+  enhancedBulkOperationSchema,
+  bulkOperationKindSchema,
+  entryTimesSchema,
 } from '../utils/security-validation.utils';
 
+// Who is making a change, recorded in the work entry's history
+function getRevisionContext(req: WorkEntryRequest): RevisionContext {
+  return { actorId: req.userId!, ipAddress: req.ip || null };
+}
+
+// A new entry without an end time lasts the user's default entry length
+async function withDefaultEndTime(userId: string, body: unknown): Promise<unknown> {
+  const times = entryTimesSchema.safeParse(body);
+  if (!times.success || times.data.endTime !== undefined) {
+    return body;
+  }
+
+  const startTime = new Date(times.data.startTime);
+  if (Number.isNaN(startTime.getTime())) {
+    return body;
+  }
+
+  const { defaultEntryMinutes } = await settingsService.getSettings(userId);
+  const endTime = new Date(startTime.getTime() + defaultEntryMinutes * 60 * 1000);
+
+  return { ...(body as Record<string, unknown>), endTime: endTime.toISOString() };
+}
+
 export class WorkEntryController {
   /**
    * GET /api/work-entries
@@ -64,9 +111,17 @@ export class WorkEntryController {
       const userId = req.userId!;
 
       // Validate request body
-      const validatedData = enhancedCreateWorkEntrySchema.parse(req.body);
+      const validatedData = enhancedCreateWorkEntrySchema.parse(
+        await withDefaultEndTime(userId, req.body)
+      );
+      const { overlap } = overlapPolicyQuerySchema.parse(req.query);
 
-      const workEntry = await workEntryService.createWorkEntry(userId, validatedData);
+      const workEntry = await workEntryService.createWorkEntry(
+        userId,
+        validatedData,
+        getRevisionContext(req),
+        overlap
+      );
 
       res.status(201).json({
         success: true,
@@ -85,6 +140,34 @@ export class WorkEntryController {
         return;
       }
 
+      if (error instanceof WorkEntryOverlapError) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          code: 'WORK_ENTRY_OVERLAP',
+          conflicts: error.conflicts,
+        });
+        return;
+      }
+
+      if (error instanceof WorkEntryDurationError) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          code: 'INVALID_DURATION',
+        });
+        return;
+      }
+
+      if (error instanceof ProjectError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message,
+          code: error.code,
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         message: 'Failed to create work entry',
@@ -148,8 +231,15 @@ export class WorkEntryController {
       // Validate params and body
       const { id } = workEntryParamsSchema.parse(req.params);
       const validatedData = enhancedUpdateWorkEntrySchema.parse(req.body);
+      const { overlap } = overlapPolicyQuerySchema.parse(req.query);
 
-      const workEntry = await workEntryService.updateWorkEntry(userId, id, validatedData);
+      const workEntry = await workEntryService.updateWorkEntry(
+        userId,
+        id,
+        validatedData,
+        getRevisionContext(req),
+        overlap
+      );
 
       res.status(200).json({
         success: true,
@@ -168,6 +258,34 @@ export class WorkEntryController {
         return;
       }
 
+      if (error instanceof WorkEntryOverlapError) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          code: 'WORK_ENTRY_OVERLAP',
+          conflicts: error.conflicts,
+        });
+        return;
+      }
+
+      if (error instanceof WorkEntryDurationError) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          code: 'INVALID_DURATION',
+        });
+        return;
+      }
+
+      if (error instanceof ProjectError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message,
+          code: error.code,
+        });
+        return;
+      }
+
       if (error.message.includes('not found') || error.message.includes('access denied')) {
         res.status(404).json({
           success: false,
@@ -193,7 +311,7 @@ export class WorkEntryController {
 
   /**
    * DELETE /api/work-entries/:id
-   * Delete a specific work entry
+   * Move a specific work entry to the trash
    */
   async deleteWorkEntry(req: WorkEntryRequest, res: Response): Promise<void> {
     try {
@@ -202,7 +320,7 @@ export class WorkEntryController {
       // Validate params
       const { id } = workEntryParamsSchema.parse(req.params);
 
-      await workEntryService.deleteWorkEntry(userId, id);
+      await workEntryService.deleteWorkEntry(userId, id, getRevisionContext(req));
 
       res.status(200).json({
         success: true,
@@ -235,6 +353,592 @@ export class WorkEntryController {
     }
   }
 
+  /**
+   * GET /api/work-entries/trash
+   * List the authenticated user's deleted work entries
+   */
+  async getTrash(req: WorkEntryRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+
+      const query = trashQuerySchema.parse(req.query);
+
+      const result = await workEntryService.getTrash(userId, query);
+
+      res.status(200).json({
+        success: true,
+        message: 'Trash retrieved successfully',
+        ...result,
+      });
+    } catch (error: any) {
+      console.error('Get trash error:', error);
+
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid query parameters',
+          errors: error.errors,
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve trash',
+      });
+    }
+  }
+
+  /**
+   * POST /api/work-entries/:id/restore
+   * Restore a work entry from the trash
+   */
+  async restoreWorkEntry(req: WorkEntryRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+
+      const { id } = workEntryParamsSchema.parse(req.params);
+      const { overlap } = overlapPolicyQuerySchema.parse(req.query);
+
+      const workEntry = await workEntryService.restoreWorkEntry(
+        userId,
+        id,
+        getRevisionContext(req),
+        overlap
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Work entry restored successfully',
+        data: workEntry,
+      });
+    } catch (error: any) {
+      console.error('Restore work entry error:', error);
+
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid input data',
+          errors: error.errors,
+        });
+        return;
+      }
+
+      if (error instanceof WorkEntryOverlapError) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          code: 'WORK_ENTRY_OVERLAP',
+          conflicts: error.conflicts,
+        });
+        return;
+      }
+
+      if (error instanceof WorkEntryDurationError) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          code: 'INVALID_DURATION',
+        });
+        return;
+      }
+
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          message: 'Work entry not found in trash',
+        });
+        return;
+      }
+
+      if (error.message.includes('already running')) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to restore work entry',
+      });
+    }
+  }
+
+  /**
+   * GET /api/work-entries/:id/history
+   * List the revisions of a specific work entry, newest first
+   */
+  async getWorkEntryHistory(req: WorkEntryRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+
+      const { id } = workEntryParamsSchema.parse(req.params);
+
+      const revisions = await workEntryService.getWorkEntryHistory(userId, id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Work entry history retrieved successfully',
+        data: revisions,
+      });
+    } catch (error: any) {
+      console.error('Get work entry history error:', error);
+
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid work entry ID',
+          errors: error.errors,
+        });
+        return;
+      }
+
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        res.status(404).json({
+          success: false,
+          message: 'Work entry not found',
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve work entry history',
+      });
+    }
+  }
+
+  /**
+   * POST /api/work-entries/:id/revert
+   * Revert a specific work entry to the values it had after one of its revisions
+   */
+  async revertWorkEntry(req: WorkEntryRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+
+      const { id } = workEntryParamsSchema.parse(req.params);
+      const { revisionId } = revertWorkEntrySchema.parse(req.body);
+      const { overlap } = overlapPolicyQuerySchema.parse(req.query);
+
+      const workEntry = await workEntryService.revertWorkEntry(
+        userId,
+        id,
+        revisionId,
+        getRevisionContext(req),
+        overlap
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Work entry reverted successfully',
+        data: workEntry,
+      });
+    } catch (error: any) {
+      console.error('Revert work entry error:', error);
+
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid input data',
+          errors: error.errors,
+        });
+        return;
+      }
+
+      if (error instanceof WorkEntryOverlapError) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          code: 'WORK_ENTRY_OVERLAP',
+          conflicts: error.conflicts,
+        });
+        return;
+      }
+
+      if (error instanceof WorkEntryDurationError) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          code: 'INVALID_DURATION',
+        });
+        return;
+      }
+
+      if (error instanceof ProjectError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message,
+          code: error.code,
+        });
+        return;
+      }
+
+      if (error.message.startsWith('Cannot revert')) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+
+      if (error.message === 'Revision not found') {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+
+      if (error.message.includes('not found') || error.message.includes('access denied')) {
+        res.status(404).json({
+          success: false,
+          message: 'Work entry not found',
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to revert work entry',
+      });
+    }
+  }
+
+  /**
+   * GET /api/work-entries/timer
+   * Get the running timer for the authenticated user (null when none is running)
+   */
+  async getRunningTimer(req: WorkEntryRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+
+      const timer = await workEntryService.getRunningTimer(userId);
+
+      res.status(200).json({
+        success: true,
+        message: timer ? 'Running timer retrieved successfully' : 'No timer is running',
+        data: timer,
+      });
+    } catch (error: any) {
+      console.error('Get running timer error:', error);
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve running timer',
+      });
+    }
+  }
+
+  /**
+   * POST /api/work-entries/timer/start
+   * Start a timer for the authenticated user
+   */
+  async startTimer(req: WorkEntryRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+
+      // Validate request body
+      const validatedData = enhancedStartTimerSchema.parse(req.body);
+
+      const timer = await workEntryService.startTimer(
+        userId,
+        validatedData,
+        getRevisionContext(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Timer started successfully',
+        data: timer,
+      });
+    } catch (error: any) {
+      console.error('Start timer error:', error);
+
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid input data',
+          errors: error.errors,
+        });
+        return;
+      }
+
+      if (error instanceof ProjectError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message,
+          code: error.code,
+        });
+        return;
+      }
+
+      if (error.message.includes('already running')) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to start timer',
+      });
+    }
+  }
+
+  /**
+   * POST /api/work-entries/timer/stop
+   * Stop the running timer for the authenticated user
+   */
+  async stopTimer(req: WorkEntryRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+
+      // Validate request body
+      const validatedData = enhancedStopTimerSchema.parse(req.body);
+      const { overlap } = overlapPolicyQuerySchema.parse(req.query);
+
+      const workEntry = await workEntryService.stopTimer(
+        userId,
+        validatedData,
+        getRevisionContext(req),
+        overlap
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Timer stopped successfully',
+        data: workEntry,
+      });
+    } catch (error: any) {
+      console.error('Stop timer error:', error);
+
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid input data',
+          errors: error.errors,
+        });
+        return;
+      }
+
+      if (error instanceof WorkEntryOverlapError) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          code: 'WORK_ENTRY_OVERLAP',
+          conflicts: error.conflicts,
+        });
+        return;
+      }
+
+      if (error.message.includes('No timer is running')) {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to stop timer',
+      });
+    }
+  }
+
+  /**
+   * GET /api/work-entries/conflicts
+   * Report overlapping work entries in the authenticated user's existing data
+   */
+  async getWorkEntryConflicts(req: WorkEntryRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+
+      // Reuse the listing filters for the optional date range
+      const { startDate, endDate } = workEntryFiltersSchema.parse(req.query);
+
+      const conflicts = await workEntryService.getWorkEntryConflicts(userId, startDate, endDate);
+
+      res.status(200).json({
+        success: true,
+        message: 'Work entry conflicts retrieved successfully',
+        data: conflicts,
+      });
+    } catch (error: any) {
+      console.error('Get work entry conflicts error:', error);
+
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid query parameters',
+          errors: error.errors,
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve work entry conflicts',
+      });
+    }
+  }
+
+  /**
+   * GET /api/work-entries/export
+   * Download the authenticated user's work entries as CSV, JSON Lines or iCalendar
+   */
+  async exportWorkEntries(req: WorkEntryRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+
+      // The export takes the listing filters; page and limit are ignored
+      const filters = workEntryFiltersSchema.parse(req.query);
+      const { format } = exportFormatQuerySchema.parse(req.query);
+
+      const chunks = exportService.exportWorkEntries(userId, filters, format);
+      // Read the first chunk before sending headers so early failures still get a JSON error
+      const first = await chunks.next();
+
+      // Name the file after today in the user's time zone
+      const { timezone } = await settingsService.getSettings(userId);
+      const date = getLocalDate(new Date(), timezone);
+      res.status(200);
+      res.setHeader('Content-Type', exportService.getContentType(format));
+      res.setHeader('Content-Disposition', `attachment; filename="work-entries-${date}.${format}"`);
+
+      // The pipeline waits for the client to keep up and stops reading from the database once
+      // the client has gone away
+      await pipeline(
+        Readable.from(
+          (async function* () {
+            if (!first.done) {
+              yield first.value;
+              yield* chunks;
+            }
+          })()
+        ),
+        res
+      );
+    } catch (error: any) {
+      // The client went away mid-download; there is no one left to respond to
+      if (error.code === 'ERR_STREAM_PREMATURE_CLOSE') {
+        return;
+      }
+
+      console.error('Export work entries error:', error);
+
+      // Part of the file has been sent; cut the download short rather than end it cleanly
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid query parameters',
+          errors: error.errors,
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to export work entries',
+      });
+    }
+  }
+
+  /**
+   * POST /api/work-entries/bulk
+   * Create, update and delete several work entries in one request
+   */
+  async bulkWorkEntries(req: WorkEntryRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+
+      // Validate the envelope, then each operation so errors can be keyed by index
+      const { mode, operations } = enhancedBulkWorkEntrySchema.parse(req.body);
+      const { overlap } = overlapPolicyQuerySchema.parse(req.query);
+
+      const valid: IndexedBulkOperation[] = [];
+      const rejected: BulkOperationResult[] = [];
+
+      operations.forEach((rawOperation, index) => {
+        const parsed = enhancedBulkOperationSchema.safeParse(rawOperation);
+
+        if (parsed.success) {
+          valid.push({ index, operation: parsed.data });
+          return;
+        }
+
+        const kind = bulkOperationKindSchema.safeParse(rawOperation);
+        rejected.push({
+          index,
+          op: kind.success ? kind.data.op : null,
+          status: 'failed',
+          error: { message: 'Invalid input data', errors: parsed.error.errors },
+        });
+      });
+
+      const result = await workEntryService.bulkWorkEntries(
+        userId,
+        mode,
+        valid,
+        getRevisionContext(req),
+        rejected,
+        overlap
+      );
+
+      if (mode === 'atomic' && rejected.length > 0) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid operations; no changes were saved',
+          data: result,
+        });
+        return;
+      }
+
+      if (mode === 'atomic' && !result.committed) {
+        res.status(409).json({
+          success: false,
+          message: 'An operation failed; no changes were saved',
+          data: result,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message:
+          result.summary.failed > 0
+            ? `Bulk operation completed with ${result.summary.failed} failed operations`
+            : 'Bulk operation completed successfully',
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Bulk work entries error:', error);
+
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid input data',
+          errors: error.errors,
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to apply bulk operations',
+      });
+    }
+  }
+
   /**
    * GET /api/work-entries/stats
    * Get work entry statistics for the authenticated user
@@ -266,6 +970,41 @@ export class WorkEntryController {
       });
     }
   }
+  /**
+   * GET /api/work-entries/stats/series
+   * Get hours worked per day, week or month for dashboards
+   */
+  async getWorkEntryStatsSeries(req: WorkEntryRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.userId!;
+
+      const query = statsSeriesQuerySchema.parse(req.query);
+
+      const series = await workEntryService.getWorkEntryStatsSeries(userId, query);
+
+      res.status(200).json({
+        success: true,
+        message: 'Work entry statistics series retrieved successfully',
+        data: series,
+      });
+    } catch (error: any) {
+      console.error('Get work entry stats series error:', error);
+
+      if (error.name === 'ZodError') {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid query parameters',
+          errors: error.errors,
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to retrieve work entry statistics series',
+      });
+    }
+  }
 }
 
 export const workEntryController = new WorkEntryController();
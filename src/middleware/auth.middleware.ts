@@ -1,7 +1,18 @@
 import type { Request, Response, NextFunction } from 'express';
 import { verifyAccessToken, extractTokenFromHeader, JWTError } from '../utils/jwt.utils';
 import { AuthService } from '../services/auth.service';
-import type { AuthenticatedRequest, User } from '../types/auth.types';
+import { SessionService } from '../services/session.service';
+import {
+  PersonalAccessTokenService,
+  isPersonalAccessToken,
+} from '../services/personal-access-token.service';
+import { hasPermission } from '../config/permissions.config';
+import type {
+  AuthenticatedRequest,
+  User,
+  Permission,
+  PersonalAccessTokenScope,
+} from '../types/auth.types';
 
 /**
  * Extend Express Request type to include user data
@@ -11,10 +22,40 @@ declare global {
     interface Request {
       user?: User;
       userId?: string;
+      sessionId?: string;
+      personalAccessTokenId?: string;
+      tokenScopes?: PersonalAccessTokenScope[];
     }
   }
 }
 
+/**
+ * Resolve a personal access token to its user
+ * Returns null if the token is unknown, revoked or expired, or the user no longer exists
+ */
+async function resolvePersonalAccessToken(
+  token: string
+): Promise<{ user: User; tokenId: string; scopes: PersonalAccessTokenScope[] } | null> {
+  const personalAccessToken = await PersonalAccessTokenService.authenticate(token);
+
+  if (!personalAccessToken) {
+    return null;
+  }
+
+  const user = await AuthService.getUserById(personalAccessToken.userId);
+
+  if (!user) {
+    return null;
+  }
+
+  // Record usage without holding up the request
+  PersonalAccessTokenService.touch(personalAccessToken).catch((touchError) => {
+    console.error('Failed to update access token usage:', touchError);
+  });
+
+  return { user, tokenId: personalAccessToken.id, scopes: personalAccessToken.scopes };
+}
+
 /**
  * Authentication middleware that verifies JWT tokens and adds user to request
  */
@@ -32,10 +73,53 @@ export async function authenticate(req: Request, res: Response, next: NextFuncti
       return;
     }
 
+    // Personal access tokens are opaque and looked up by hash rather than verified as JWTs
+    if (isPersonalAccessToken(token)) {
+      const resolved = await resolvePersonalAccessToken(token);
+
+      if (!resolved) {
+        res.status(401).json({
+          error: 'Authentication failed',
+          message: 'Access token is invalid, expired or revoked',
+          code: 'INVALID_TOKEN',
+        });
+        return;
+      }
+
+      req.user = resolved.user;
+      req.userId = resolved.user.id;
+      req.personalAccessTokenId = resolved.tokenId;
+      req.tokenScopes = resolved.scopes;
+
+      next();
+      return;
+    }
+
     try {
       // Verify the token
       const decoded = verifyAccessToken(token);
 
+      // Reject tokens whose session has been signed out
+      if (decoded.sessionId) {
+        const session = await SessionService.getActiveSession(decoded.sessionId);
+
+        if (!session || session.userId !== decoded.userId) {
+          res.status(401).json({
+            error: 'Authentication failed',
+            message: 'Session has been revoked',
+            code: 'SESSION_REVOKED',
+          });
+          return;
+        }
+
+        // Record activity without holding up the request
+        SessionService.touch(session).catch((touchError) => {
+          console.error('Failed to update session activity:', touchError);
+        });
+
+        req.sessionId = session.id;
+      }
+
       // Get user from database to ensure they still exist
       const user = await AuthService.getUserById(decoded.userId);
 
@@ -110,13 +194,35 @@ export async function optionalAuthenticate(
       return;
     }
 
+    if (isPersonalAccessToken(token)) {
+      const resolved = await resolvePersonalAccessToken(token);
+
+      if (resolved) {
+        req.user = resolved.user;
+        req.userId = resolved.user.id;
+        req.personalAccessTokenId = resolved.tokenId;
+        req.tokenScopes = resolved.scopes;
+      }
+
+      next();
+      return;
+    }
+
     try {
       const decoded = verifyAccessToken(token);
+
+      // Treat tokens from revoked sessions as anonymous
+      if (decoded.sessionId && !(await SessionService.getActiveSession(decoded.sessionId))) {
+        next();
+        return;
+      }
+
       const user = await AuthService.getUserById(decoded.userId);
 
       if (user) {
         req.user = user;
         req.userId = user.id;
+        if (decoded.sessionId) req.sessionId = decoded.sessionId;
       }
 
       next();
@@ -175,6 +281,76 @@ export function requireOwnership(userIdParam = 'userId') {
   };
 }
 
+/**
+ * Middleware to require permissions granted by the user's role
+ * Must run after authenticate. Personal access tokens must also carry each permission as a scope
+ */
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user || !req.userId) {
+      res.status(401).json({
+        error: 'Authentication required',
+        message: 'User not authenticated',
+        code: 'NOT_AUTHENTICATED',
+      });
+      return;
+    }
+
+    const role = req.user.role;
+    const missingPermission = permissions.find((permission) => !hasPermission(role, permission));
+
+    if (missingPermission) {
+      console.warn('🚫 Permission Denied', {
+        userId: req.userId,
+        role,
+        permission: missingPermission,
+        path: req.originalUrl,
+        ip: req.ip,
+        timestamp: new Date().toISOString(),
+      });
+
+      res.status(403).json({
+        error: 'Access denied',
+        message: 'You do not have permission to perform this action',
+        code: 'INSUFFICIENT_PERMISSIONS',
+      });
+      return;
+    }
+
+    const tokenScopes: readonly Permission[] | undefined = req.tokenScopes;
+    const missingScope =
+      tokenScopes && permissions.find((permission) => !tokenScopes.includes(permission));
+
+    if (missingScope) {
+      res.status(403).json({
+        error: 'Access denied',
+        message: `This access token is missing the required scope: ${missingScope}`,
+        code: 'INSUFFICIENT_SCOPE',
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Middleware to reject personal access tokens on account management endpoints
+ * Prevents a leaked script token from being used to take over the account
+ */
+export function requireSession(req: Request, res: Response, next: NextFunction): void {
+  if (req.personalAccessTokenId) {
+    res.status(403).json({
+      error: 'Access denied',
+      message: 'This endpoint cannot be used with a personal access token',
+      code: 'SESSION_REQUIRED',
+    });
+    return;
+  }
+
+  next();
+}
+
 /**
  * Rate limiting middleware for authentication endpoints
  */
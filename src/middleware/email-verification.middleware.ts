@@ -0,0 +1,112 @@
+import type { Request, Response, NextFunction } from 'express';
+import { emailVerificationConfig } from '../config/app.config';
+import { templateService } from '../services/template.service';
+import { workEntryService } from '../services/work-entry.service';
+import { parseCsv } from '../utils/csv.utils';
+import { materializeTemplateSchema } from '../utils/template-validation.utils';
+import { readTrackerExport } from '../utils/tracker-import.utils';
+
+/**
+ * Work entries a request would create
+ * Bulk requests count their create operations, imports their rows and template materializations
+ * their occurrences; a dry run creates none
+ */
+async function countRequestedEntries(req: Request): Promise<number> {
+  if (Array.isArray(req.body?.operations)) {
+    return req.body.operations.filter((operation: any) => operation?.op === 'create').length;
+  }
+
+  if (typeof req.body?.csv === 'string') {
+    if (req.body.dryRun !== false) {
+      return 0;
+    }
+
+    try {
+      const delimiter = typeof req.body.delimiter === 'string' ? req.body.delimiter : ',';
+      const records = parseCsv(req.body.csv, delimiter).length;
+      return req.body.hasHeader === false ? records : Math.max(records - 1, 0);
+    } catch {
+      // Malformed files are rejected by the import itself
+      return 0;
+    }
+  }
+
+  if (typeof req.body?.content === 'string') {
+    if (req.body.dryRun !== false) {
+      return 0;
+    }
+
+    try {
+      return readTrackerExport(req.body.content, { timezone: 'UTC' }).rows.length;
+    } catch {
+      // Unrecognised files are rejected by the import itself
+      return 0;
+    }
+  }
+
+  if (typeof req.params?.id === 'string' && typeof req.body?.startDate === 'string') {
+    const range = materializeTemplateSchema.safeParse(req.body);
+    if (!range.success) {
+      // Invalid ranges are rejected by the materialization itself
+      return 0;
+    }
+
+    try {
+      return await templateService.countOccurrences(req.userId!, req.params.id, range.data);
+    } catch {
+      // Unknown templates are rejected by the materialization itself
+      return 0;
+    }
+  }
+
+  return 1;
+}
+
+/**
+ * Limit how many work entries a user can create before verifying their email address
+ * Must run after authenticate so req.user is populated
+ */
+export async function enforceUnverifiedWorkEntryLimit(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user || !req.userId) {
+      res.status(401).json({
+        error: 'Authentication required',
+        message: 'User not authenticated',
+        code: 'NOT_AUTHENTICATED',
+      });
+      return;
+    }
+
+    const limit = emailVerificationConfig.unverifiedWorkEntryLimit;
+
+    // A negative limit disables the restriction
+    if (req.user.emailVerified || limit < 0) {
+      next();
+      return;
+    }
+
+    const entryCount = await workEntryService.countWorkEntries(req.userId);
+
+    if (entryCount + (await countRequestedEntries(req)) > limit) {
+      res.status(403).json({
+        error: 'Email verification required',
+        message: `Unverified accounts can create up to ${limit} work entries. Please verify your email address to continue`,
+        code: 'EMAIL_VERIFICATION_REQUIRED',
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    console.error('Email verification middleware error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to check email verification status',
+      code: 'INTERNAL_ERROR',
+    });
+  }
+}
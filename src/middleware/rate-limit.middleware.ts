@@ -133,6 +133,43 @@ export const passwordResetRateLimit = rateLimit({
   keyGenerator: getClientIP,
 });
 
+/**
+ * Rate limiting for resending verification emails
+ */
+export const emailVerificationRateLimit = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5, // Limit each IP to 5 verification emails per hour
+  message: {
+    success: false,
+    error: 'Too many verification requests',
+    message: 'Too many verification emails requested. Please try again in 1 hour.',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: rateLimitHandler,
+  skip: skipRateLimit,
+  keyGenerator: getClientIP,
+});
+
+/**
+ * Rate limiting for the MFA login step
+ * Six-digit codes are guessable without a tight limit
+ */
+export const mfaRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // Limit each IP to 10 code attempts per window
+  message: {
+    success: false,
+    error: 'Too many authentication code attempts',
+    message: 'Too many authentication code attempts. Please try again in 15 minutes.',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: rateLimitHandler,
+  skip: skipRateLimit,
+  keyGenerator: getClientIP,
+});
+
 /**
  * Lenient rate limiting for read-only endpoints
  */
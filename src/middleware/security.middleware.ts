@@ -272,8 +272,10 @@ export function sqlInjectionProtection(req: Request, res: Response, next: NextFu
     return;
   }
 
-  // Check query parameters
-  if (req.query && scanObject(req.query)) {
+  // Check query parameters. Search terms (q) are only ever bound as SQL parameters and reduced to
+  // words, so they may contain quotes and SQL keywords
+  const scannedQuery = Object.entries(req.query ?? {}).filter(([key]) => key !== 'q');
+  if (scanObject(Object.fromEntries(scannedQuery))) {
     console.warn('🚨 Potential SQL Injection Detected in Query', {
       ip: req.ip,
       path: req.path,
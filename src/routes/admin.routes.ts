@@ -0,0 +1,163 @@
+import { Router } from 'express';
+import * as adminController from '../controllers/admin.controller';
+import { authenticate, requireSession, requirePermission } from '../middleware/auth.middleware';
+import {
+  validateRequest,
+  validateQuery,
+  validateParams,
+} from '../middleware/validation.middleware';
+import {
+  adminUserFiltersSchema,
+  auditLogFiltersSchema,
+  updateUserRoleSchema,
+  adminActionSchema,
+  adminDeleteUserSchema,
+} from '../utils/validation.utils';
+import { secureIdSchema } from '../utils/security-validation.utils';
+
+const router = Router();
+
+// Admin routes require an interactive session - personal access tokens are never enough
+router.use(authenticate, requireSession);
+
+/**
+ * @route   GET /api/admin/users
+ * @desc    Search and page through users
+ * @access  Private (users:read)
+ * @query   search, role, status, sortBy, sortOrder, page, limit
+ */
+router.get(
+  '/users',
+  requirePermission('users:read'),
+  validateQuery(adminUserFiltersSchema),
+  adminController.listUsers
+);
+
+/**
+ * @route   GET /api/admin/users/:id
+ * @desc    Get a user with entry counts, last login and lockout state
+ * @access  Private (users:read)
+ * @params  id (user ID)
+ */
+router.get(
+  '/users/:id',
+  requirePermission('users:read'),
+  validateParams(secureIdSchema),
+  adminController.getUser
+);
+
+/**
+ * @route   PATCH /api/admin/users/:id/role
+ * @desc    Change a user's role
+ * @access  Private (users:manage)
+ * @params  id (user ID)
+ * @body    { role: 'user' | 'manager' | 'admin' }
+ */
+router.patch(
+  '/users/:id/role',
+  requirePermission('users:manage'),
+  validateParams(secureIdSchema),
+  validateRequest(updateUserRoleSchema),
+  adminController.updateUserRole
+);
+
+/**
+ * @route   POST /api/admin/users/:id/disable
+ * @desc    Disable an account and sign it out of every session
+ * @access  Private (users:manage)
+ * @params  id (user ID)
+ * @body    { reason?: string }
+ */
+router.post(
+  '/users/:id/disable',
+  requirePermission('users:manage'),
+  validateParams(secureIdSchema),
+  validateRequest(adminActionSchema),
+  adminController.disableUser
+);
+
+/**
+ * @route   POST /api/admin/users/:id/enable
+ * @desc    Re-enable a disabled account
+ * @access  Private (users:manage)
+ * @params  id (user ID)
+ * @body    { reason?: string }
+ */
+router.post(
+  '/users/:id/enable',
+  requirePermission('users:manage'),
+  validateParams(secureIdSchema),
+  validateRequest(adminActionSchema),
+  adminController.enableUser
+);
+
+/**
+ * @route   POST /api/admin/users/:id/force-password-reset
+ * @desc    Block sign-in until the user resets their password and email them a reset link
+ * @access  Private (users:manage)
+ * @params  id (user ID)
+ * @body    { reason?: string }
+ */
+router.post(
+  '/users/:id/force-password-reset',
+  requirePermission('users:manage'),
+  validateParams(secureIdSchema),
+  validateRequest(adminActionSchema),
+  adminController.forcePasswordReset
+);
+
+/**
+ * @route   POST /api/admin/users/:id/unlock
+ * @desc    Clear failed login attempts so a locked-out user can sign in
+ * @access  Private (users:manage)
+ * @params  id (user ID)
+ */
+router.post(
+  '/users/:id/unlock',
+  requirePermission('users:manage'),
+  validateParams(secureIdSchema),
+  adminController.unlockUser
+);
+
+/**
+ * @route   POST /api/admin/users/:id/restore
+ * @desc    Restore a soft-deleted user
+ * @access  Private (users:manage)
+ * @params  id (user ID)
+ */
+router.post(
+  '/users/:id/restore',
+  requirePermission('users:manage'),
+  validateParams(secureIdSchema),
+  adminController.restoreUser
+);
+
+/**
+ * @route   DELETE /api/admin/users/:id
+ * @desc    Soft delete a user, or permanently delete them and their data with ?hard=true
+ * @access  Private (users:manage)
+ * @params  id (user ID)
+ * @query   hard (optional, default false)
+ */
+router.delete(
+  '/users/:id',
+  requirePermission('users:manage'),
+  validateParams(secureIdSchema),
+  validateQuery(adminDeleteUserSchema),
+  adminController.deleteUser
+);
+
+/**
+ * @route   GET /api/admin/audit-log
+ * @desc    Page through the audit trail of admin actions, newest first
+ * @access  Private (users:read)
+ * @query   actorId, targetUserId, action, page, limit
+ */
+router.get(
+  '/audit-log',
+  requirePermission('users:read'),
+  validateQuery(auditLogFiltersSchema),
+  adminController.listAuditLog
+);
+
+export default router;
@@ -2,18 +2,34 @@ import { Router } from 'express';
 import * as authController from '../controllers/auth.controller';
 import {
   authenticate,
+  requireSession,
   authRateLimit,
   authSecurityHeaders,
   logAuthEvent,
 } from '../middleware/auth.middleware';
-import { validateRequest } from '../middleware/validation.middleware';
+import { validateRequest, validateParams } from '../middleware/validation.middleware';
 import {
   createUserSchema,
   loginSchema,
   refreshTokenSchema,
+  logoutSchema,
   changePasswordSchema,
   updateUserSchema,
+  passwordResetSchema,
+  passwordResetConfirmSchema,
+  emailVerificationSchema,
+  mfaEnableSchema,
+  mfaVerifySchema,
+  currentPasswordSchema,
+  createPersonalAccessTokenSchema,
+  updatePersonalAccessTokenSchema,
 } from '../utils/validation.utils';
+import { secureIdSchema } from '../utils/security-validation.utils';
+import {
+  passwordResetRateLimit,
+  emailVerificationRateLimit,
+  mfaRateLimit,
+} from '../middleware/rate-limit.middleware';
 
 const router = Router();
 
@@ -47,9 +63,23 @@ router.post(
   authController.login
 );
 
+/**
+ * @route   POST /api/auth/mfa/verify
+ * @desc    Complete login with an authenticator or recovery code
+ * @access  Public (requires the challenge token returned by login)
+ * @body    { challengeToken: string, code?: string, recoveryCode?: string }
+ */
+router.post(
+  '/mfa/verify',
+  mfaRateLimit,
+  logAuthEvent('MFA_VERIFY_ATTEMPT'),
+  validateRequest(mfaVerifySchema),
+  authController.verifyMfa
+);
+
 /**
  * @route   POST /api/auth/refresh
- * @desc    Refresh access token using refresh token
+ * @desc    Rotate refresh token and get a new token pair
  * @access  Public
  */
 router.post(
@@ -61,10 +91,120 @@ router.post(
 
 /**
  * @route   POST /api/auth/logout
- * @desc    Logout user (client-side token removal)
+ * @desc    Logout user by revoking the current session (or the session of the given refresh token)
+ * @access  Private
+ * @body    { refreshToken?: string }
+ */
+router.post(
+  '/logout',
+  authenticate,
+  requireSession,
+  validateRequest(logoutSchema),
+  logAuthEvent('LOGOUT'),
+  authController.logout
+);
+
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    List active sessions (devices) for the current user
+ * @access  Private
+ */
+router.get('/sessions', authenticate, requireSession, authController.getSessions);
+
+/**
+ * @route   DELETE /api/auth/sessions
+ * @desc    Sign out everywhere else - revoke all sessions except the current one
+ * @access  Private
+ */
+router.delete(
+  '/sessions',
+  authenticate,
+  requireSession,
+  logAuthEvent('SESSIONS_REVOKE_OTHERS'),
+  authController.revokeOtherSessions
+);
+
+/**
+ * @route   DELETE /api/auth/sessions/:id
+ * @desc    Revoke a specific session
  * @access  Private
+ * @params  id (session ID)
  */
-router.post('/logout', authenticate, logAuthEvent('LOGOUT'), authController.logout);
+router.delete(
+  '/sessions/:id',
+  authenticate,
+  requireSession,
+  validateParams(secureIdSchema),
+  logAuthEvent('SESSION_REVOKE'),
+  authController.revokeSession
+);
+
+/**
+ * @route   GET /api/auth/tokens
+ * @desc    List personal access tokens for the current user
+ * @access  Private
+ */
+router.get('/tokens', authenticate, requireSession, authController.getPersonalAccessTokens);
+
+/**
+ * @route   POST /api/auth/tokens
+ * @desc    Create a scoped personal access token for scripts and integrations
+ * @access  Private
+ * @body    { name: string, scopes: string[], expiresInDays?: number }
+ */
+router.post(
+  '/tokens',
+  authenticate,
+  requireSession,
+  validateRequest(createPersonalAccessTokenSchema),
+  logAuthEvent('ACCESS_TOKEN_CREATE'),
+  authController.createPersonalAccessToken
+);
+
+/**
+ * @route   GET /api/auth/tokens/:id
+ * @desc    Get a specific personal access token
+ * @access  Private
+ * @params  id (token ID)
+ */
+router.get(
+  '/tokens/:id',
+  authenticate,
+  requireSession,
+  validateParams(secureIdSchema),
+  authController.getPersonalAccessToken
+);
+
+/**
+ * @route   PATCH /api/auth/tokens/:id
+ * @desc    Rename a personal access token
+ * @access  Private
+ * @params  id (token ID)
+ * @body    { name: string }
+ */
+router.patch(
+  '/tokens/:id',
+  authenticate,
+  requireSession,
+  validateParams(secureIdSchema),
+  validateRequest(updatePersonalAccessTokenSchema),
+  authController.updatePersonalAccessToken
+);
+
+/**
+ * @route   DELETE /api/auth/tokens/:id
+ * @desc    Revoke a personal access token
+ * @access  Private
+ * @params  id (token ID)
+ */
+router.delete(
+  '/tokens/:id',
+  authenticate,
+  requireSession,
+  validateParams(secureIdSchema),
+  logAuthEvent('ACCESS_TOKEN_REVOKE'),
+  authController.revokePersonalAccessToken
+);
 
 /**
  * @route   GET /api/auth/profile
@@ -81,6 +221,7 @@ router.get('/profile', authenticate, authController.getProfile);
 router.put(
   '/profile',
   authenticate,
+  requireSession,
   validateRequest(updateUserSchema),
   logAuthEvent('PROFILE_UPDATE'),
   authController.updateProfile
@@ -94,11 +235,125 @@ router.put(
 router.post(
   '/change-password',
   authenticate,
+  requireSession,
   validateRequest(changePasswordSchema),
   logAuthEvent('PASSWORD_CHANGE'),
   authController.changePassword
 );
 
+/**
+ * @route   POST /api/auth/mfa/setup
+ * @desc    Start two-factor enrollment - returns the TOTP secret and otpauth URI
+ * @access  Private
+ */
+router.post(
+  '/mfa/setup',
+  authenticate,
+  requireSession,
+  logAuthEvent('MFA_SETUP'),
+  authController.setupMfa
+);
+
+/**
+ * @route   POST /api/auth/mfa/enable
+ * @desc    Confirm two-factor enrollment with a code and receive recovery codes
+ * @access  Private
+ * @body    { code: string }
+ */
+router.post(
+  '/mfa/enable',
+  authenticate,
+  requireSession,
+  validateRequest(mfaEnableSchema),
+  logAuthEvent('MFA_ENABLE'),
+  authController.enableMfa
+);
+
+/**
+ * @route   POST /api/auth/mfa/disable
+ * @desc    Turn off two-factor authentication
+ * @access  Private
+ * @body    { password: string }
+ */
+router.post(
+  '/mfa/disable',
+  authenticate,
+  requireSession,
+  validateRequest(currentPasswordSchema),
+  logAuthEvent('MFA_DISABLE'),
+  authController.disableMfa
+);
+
+/**
+ * @route   POST /api/auth/mfa/recovery-codes
+ * @desc    Replace the recovery codes (previous codes stop working)
+ * @access  Private
+ * @body    { password: string }
+ */
+router.post(
+  '/mfa/recovery-codes',
+  authenticate,
+  requireSession,
+  validateRequest(currentPasswordSchema),
+  logAuthEvent('MFA_RECOVERY_CODES_REGENERATE'),
+  authController.regenerateRecoveryCodes
+);
+
+/**
+ * @route   POST /api/auth/forgot-password
+ * @desc    Email a single-use password reset link
+ * @access  Public
+ * @body    { email: string }
+ */
+router.post(
+  '/forgot-password',
+  passwordResetRateLimit,
+  logAuthEvent('PASSWORD_RESET_REQUEST'),
+  validateRequest(passwordResetSchema),
+  authController.forgotPassword
+);
+
+/**
+ * @route   POST /api/auth/reset-password
+ * @desc    Set a new password using a reset token and revoke all sessions
+ * @access  Public
+ * @body    { token: string, newPassword: string }
+ */
+router.post(
+  '/reset-password',
+  passwordResetRateLimit,
+  logAuthEvent('PASSWORD_RESET_CONFIRM'),
+  validateRequest(passwordResetConfirmSchema),
+  authController.resetPassword
+);
+
+/**
+ * @route   POST /api/auth/verify-email
+ * @desc    Verify the user's email address with the token from the verification email
+ * @access  Public
+ * @body    { token: string }
+ */
+router.post(
+  '/verify-email',
+  logAuthEvent('EMAIL_VERIFICATION'),
+  validateRequest(emailVerificationSchema),
+  authController.verifyEmail
+);
+
+/**
+ * @route   POST /api/auth/resend-verification
+ * @desc    Send a new email verification link to the current user
+ * @access  Private
+ */
+router.post(
+  '/resend-verification',
+  authenticate,
+  requireSession,
+  emailVerificationRateLimit,
+  logAuthEvent('EMAIL_VERIFICATION_RESEND'),
+  authController.resendVerification
+);
+
 /**
  * @route   DELETE /api/auth/account
  * @desc    Delete user account
@@ -107,6 +362,7 @@ router.post(
 router.delete(
   '/account',
   authenticate,
+  requireSession,
   logAuthEvent('ACCOUNT_DELETION'),
   authController.deleteAccount
 );
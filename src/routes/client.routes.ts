@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { clientController } from '../controllers/client.controller';
+import { authenticate, requirePermission } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All clients routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/clients
+ * @desc    Get all clients for authenticated user
+ * @access  Private
+ * @query   includeArchived (optional)
+ */
+router.get(
+  '/',
+  requirePermission('work-entries:read'),
+  (clientController.getClients as any).bind(clientController)
+);
+
+/**
+ * @route   POST /api/clients
+ * @desc    Create a new client
+ * @access  Private
+ * @body    { name: string }
+ */
+router.post(
+  '/',
+  requirePermission('work-entries:write'),
+  (clientController.createClient as any).bind(clientController)
+);
+
+/**
+ * @route   GET /api/clients/:id
+ * @desc    Get a specific client by ID
+ * @access  Private
+ * @params  id (client ID)
+ */
+router.get(
+  '/:id',
+  requirePermission('work-entries:read'),
+  (clientController.getClientById as any).bind(clientController)
+);
+
+/**
+ * @route   PATCH /api/clients/:id
+ * @desc    Update a specific client, or archive it with { archived: true }
+ * @access  Private
+ * @params  id (client ID)
+ * @body    { name?: string, archived?: boolean }
+ */
+router.patch(
+  '/:id',
+  requirePermission('work-entries:write'),
+  (clientController.updateClient as any).bind(clientController)
+);
+
+/**
+ * @route   DELETE /api/clients/:id
+ * @desc    Delete a specific client (its projects are kept without a client)
+ * @access  Private
+ * @params  id (client ID)
+ */
+router.delete(
+  '/:id',
+  requirePermission('work-entries:write'),
+  (clientController.deleteClient as any).bind(clientController)
+);
+
+export default router;
@@ -2,9 +2,14 @@ import { Router, Request, Response } from 'express';
 import { performanceMonitor } from '../services/performance-monitor.service';
 import { cacheService } from '../services/cache.service';
 import { getFailedAttemptsStats, getSuspiciousIPs } from '../middleware/rate-limit.middleware';
+import { authenticate, requirePermission } from '../middleware/auth.middleware';
 
 const router = Router();
 
+// Operational endpoints expose internals, so only the basic checks stay public
+const requireMonitorAccess = [authenticate, requirePermission('system:monitor')];
+const requireManageAccess = [authenticate, requirePermission('system:manage')];
+
 /**
  * Basic health check endpoint
  */
@@ -59,7 +64,7 @@ router.get('/detailed', (req: Request, res: Response) => {
 /**
  * Performance statistics endpoint
  */
-router.get('/performance', (req: Request, res: Response) => {
+router.get('/performance', requireMonitorAccess, (req: Request, res: Response) => {
   try {
     const timeRange = req.query.timeRange ? parseInt(req.query.timeRange as string) : undefined;
     const stats = performanceMonitor.getStats(timeRange);
@@ -81,7 +86,7 @@ router.get('/performance', (req: Request, res: Response) => {
 /**
  * Cache statistics endpoint
  */
-router.get('/cache', (req: Request, res: Response) => {
+router.get('/cache', requireMonitorAccess, (req: Request, res: Response) => {
   try {
     const stats = cacheService.getStats();
 
@@ -102,7 +107,7 @@ router.get('/cache', (req: Request, res: Response) => {
 /**
  * Security monitoring endpoint
  */
-router.get('/security', (req: Request, res: Response) => {
+router.get('/security', requireMonitorAccess, (req: Request, res: Response) => {
   try {
     const securityStats = getFailedAttemptsStats();
     const suspiciousIPs = getSuspiciousIPs();
@@ -142,9 +147,9 @@ router.get('/security', (req: Request, res: Response) => {
 });
 
 /**
- * Cache management endpoints (for development/debugging)
+ * Cache management endpoints (admin only)
  */
-router.post('/cache/clear', (req: Request, res: Response) => {
+router.post('/cache/clear', requireManageAccess, (req: Request, res: Response) => {
   try {
     cacheService.clear();
     res.status(200).json({
@@ -161,7 +166,7 @@ router.post('/cache/clear', (req: Request, res: Response) => {
   }
 });
 
-router.post('/cache/cleanup', (req: Request, res: Response) => {
+router.post('/cache/cleanup', requireManageAccess, (req: Request, res: Response) => {
   try {
     const removed = cacheService.cleanup();
     res.status(200).json({
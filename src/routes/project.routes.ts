@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { projectController } from '../controllers/project.controller';
+import { authenticate, requirePermission } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All projects routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/projects
+ * @desc    Get all projects for authenticated user
+ * @access  Private
+ * @query   includeArchived, clientId (optional)
+ */
+router.get(
+  '/',
+  requirePermission('work-entries:read'),
+  (projectController.getProjects as any).bind(projectController)
+);
+
+/**
+ * @route   POST /api/projects
+ * @desc    Create a new project
+ * @access  Private
+ * @body    { name: string, clientId?: string, color?: string }
+ */
+router.post(
+  '/',
+  requirePermission('work-entries:write'),
+  (projectController.createProject as any).bind(projectController)
+);
+
+/**
+ * @route   GET /api/projects/:id
+ * @desc    Get a specific project by ID
+ * @access  Private
+ * @params  id (project ID)
+ */
+router.get(
+  '/:id',
+  requirePermission('work-entries:read'),
+  (projectController.getProjectById as any).bind(projectController)
+);
+
+/**
+ * @route   PATCH /api/projects/:id
+ * @desc    Update a specific project, or archive it with { archived: true }
+ * @access  Private
+ * @params  id (project ID)
+ * @body    { name?: string, clientId?: string | null, color?: string | null, archived?: boolean }
+ */
+router.patch(
+  '/:id',
+  requirePermission('work-entries:write'),
+  (projectController.updateProject as any).bind(projectController)
+);
+
+/**
+ * @route   DELETE /api/projects/:id
+ * @desc    Delete a specific project (its work entries become unassigned)
+ * @access  Private
+ * @params  id (project ID)
+ */
+router.delete(
+  '/:id',
+  requirePermission('work-entries:write'),
+  (projectController.deleteProject as any).bind(projectController)
+);
+
+export default router;
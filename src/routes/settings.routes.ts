@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { settingsController } from '../controllers/settings.controller';
+import { authenticate, requirePermission } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All settings routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/settings
+ * @desc    Get the authenticated user's settings
+ * @access  Private
+ */
+router.get(
+  '/',
+  requirePermission('work-entries:read'),
+  (settingsController.getSettings as any).bind(settingsController)
+);
+
+/**
+ * @route   PATCH /api/settings
+ * @desc    Update the authenticated user's settings
+ * @access  Private
+ * @body    { timezone?: string, weekStart?: string, locale?: string, dateFormat?: string, defaultEntryMinutes?: number }
+ */
+router.patch(
+  '/',
+  requirePermission('work-entries:write'),
+  (settingsController.updateSettings as any).bind(settingsController)
+);
+
+export default router;
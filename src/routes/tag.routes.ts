@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import { tagController } from '../controllers/tag.controller';
+import { authenticate, requirePermission } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All tags routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/tags
+ * @desc    Get all tags for authenticated user
+ * @access  Private
+ */
+router.get(
+  '/',
+  requirePermission('work-entries:read'),
+  (tagController.getTags as any).bind(tagController)
+);
+
+/**
+ * @route   POST /api/tags
+ * @desc    Create a new tag
+ * @access  Private
+ * @body    { name: string, color?: string }
+ */
+router.post(
+  '/',
+  requirePermission('work-entries:write'),
+  (tagController.createTag as any).bind(tagController)
+);
+
+/**
+ * @route   GET /api/tags/:id
+ * @desc    Get a specific tag by ID
+ * @access  Private
+ * @params  id (tag ID)
+ */
+router.get(
+  '/:id',
+  requirePermission('work-entries:read'),
+  (tagController.getTagById as any).bind(tagController)
+);
+
+/**
+ * @route   PATCH /api/tags/:id
+ * @desc    Rename or recolour a specific tag
+ * @access  Private
+ * @params  id (tag ID)
+ * @body    { name?: string, color?: string | null }
+ */
+router.patch(
+  '/:id',
+  requirePermission('work-entries:write'),
+  (tagController.updateTag as any).bind(tagController)
+);
+
+/**
+ * @route   POST /api/tags/:id/merge
+ * @desc    Merge a tag into another tag; the merged tag is deleted
+ * @access  Private
+ * @params  id (tag ID to merge away)
+ * @body    { targetTagId: string }
+ */
+router.post(
+  '/:id/merge',
+  requirePermission('work-entries:write'),
+  (tagController.mergeTag as any).bind(tagController)
+);
+
+/**
+ * @route   DELETE /api/tags/:id
+ * @desc    Delete a specific tag (it is removed from all work entries)
+ * @access  Private
+ * @params  id (tag ID)
+ */
+router.delete(
+  '/:id',
+  requirePermission('work-entries:write'),
+  (tagController.deleteTag as any).bind(tagController)
+);
+
+export default router;
@@ -0,0 +1,86 @@
+import { Router } from 'express';
+import { templateController } from '../controllers/template.controller';
+import { authenticate, requirePermission } from '../middleware/auth.middleware';
+import { enforceUnverifiedWorkEntryLimit } from '../middleware/email-verification.middleware';
+
+const router = Router();
+
+// All template routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/templates
+ * @desc    Get all work entry templates for authenticated user
+ * @access  Private
+ */
+router.get(
+  '/',
+  requirePermission('work-entries:read'),
+  (templateController.getTemplates as any).bind(templateController)
+);
+
+/**
+ * @route   POST /api/templates
+ * @desc    Create a new work entry template
+ * @access  Private
+ * @body    { description: string, projectId?: string, tags?: string[], startTime: string, durationMinutes: number, recurrence: object }
+ */
+router.post(
+  '/',
+  requirePermission('work-entries:write'),
+  (templateController.createTemplate as any).bind(templateController)
+);
+
+/**
+ * @route   GET /api/templates/:id
+ * @desc    Get a specific template by ID
+ * @access  Private
+ * @params  id (template ID)
+ */
+router.get(
+  '/:id',
+  requirePermission('work-entries:read'),
+  (templateController.getTemplateById as any).bind(templateController)
+);
+
+/**
+ * @route   PATCH /api/templates/:id
+ * @desc    Update a specific template
+ * @access  Private
+ * @params  id (template ID)
+ * @body    { description?: string, projectId?: string | null, tags?: string[], startTime?: string, durationMinutes?: number, recurrence?: object }
+ */
+router.patch(
+  '/:id',
+  requirePermission('work-entries:write'),
+  (templateController.updateTemplate as any).bind(templateController)
+);
+
+/**
+ * @route   DELETE /api/templates/:id
+ * @desc    Delete a specific template (entries created from it are kept)
+ * @access  Private
+ * @params  id (template ID)
+ */
+router.delete(
+  '/:id',
+  requirePermission('work-entries:write'),
+  (templateController.deleteTemplate as any).bind(templateController)
+);
+
+/**
+ * @route   POST /api/templates/:id/materialize
+ * @desc    Create work entries for the template's occurrences between two days
+ * @access  Private
+ * @params  id (template ID)
+ * @query   overlap (optional: reject, allow or trim)
+ * @body    { startDate: string, endDate: string }
+ */
+router.post(
+  '/:id/materialize',
+  requirePermission('work-entries:write'),
+  enforceUnverifiedWorkEntryLimit,
+  (templateController.materializeTemplate as any).bind(templateController)
+);
+
+export default router;
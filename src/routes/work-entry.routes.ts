@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { workEntryController } from '../controllers/work-entry.controller';
-import { authenticate } from '../middleware/auth.middleware';
+import { importController } from '../controllers/import.controller';
+import { authenticate, requirePermission } from '../middleware/auth.middleware';
+import { enforceUnverifiedWorkEntryLimit } from '../middleware/email-verification.middleware';
 
 const router = Router();
 
@@ -11,9 +13,13 @@ router.use(authenticate);
  * @route   GET /api/work-entries
  * @desc    Get all work entries for authenticated user with filtering and pagination
  * @access  Private
- * @query   startDate, endDate, sortBy, sortOrder, page, limit
+ * @query   startDate, endDate, projectId, clientId, tagIds, tagMatch, minDuration, maxDuration, q, sortBy, sortOrder, page, limit, cursor, includeTotal
  */
-router.get('/', (workEntryController.getWorkEntries as any).bind(workEntryController));
+router.get(
+  '/',
+  requirePermission('work-entries:read'),
+  (workEntryController.getWorkEntries as any).bind(workEntryController)
+);
 
 /**
  * @route   GET /api/work-entries/stats
@@ -21,15 +27,152 @@ router.get('/', (workEntryController.getWorkEntries as any).bind(workEntryContro
  * @access  Private
  * @query   startDate, endDate (optional)
  */
-router.get('/stats', (workEntryController.getWorkEntryStats as any).bind(workEntryController));
+router.get(
+  '/stats',
+  requirePermission('work-entries:read'),
+  (workEntryController.getWorkEntryStats as any).bind(workEntryController)
+);
+
+/**
+ * @route   GET /api/work-entries/stats/series
+ * @desc    Get hours worked per day, week or month, split at local bucket boundaries
+ * @access  Private
+ * @query   interval (day | week | month, default day), startDate, endDate, timezone (all optional)
+ */
+router.get(
+  '/stats/series',
+  requirePermission('work-entries:read'),
+  (workEntryController.getWorkEntryStatsSeries as any).bind(workEntryController)
+);
+
+/**
+ * @route   GET /api/work-entries/conflicts
+ * @desc    Report overlapping work entries in existing data
+ * @access  Private
+ * @query   startDate, endDate (optional)
+ */
+router.get(
+  '/conflicts',
+  requirePermission('work-entries:read'),
+  (workEntryController.getWorkEntryConflicts as any).bind(workEntryController)
+);
+
+/**
+ * @route   GET /api/work-entries/export
+ * @desc    Download work entries as a CSV, JSON Lines or iCalendar file
+ * @access  Private
+ * @query   format (csv | jsonl | ics, default csv), startDate, endDate, projectId, clientId, tagIds, tagMatch, minDuration, maxDuration, q, sortBy, sortOrder
+ */
+router.get(
+  '/export',
+  requirePermission('work-entries:read'),
+  (workEntryController.exportWorkEntries as any).bind(workEntryController)
+);
+
+/**
+ * @route   GET /api/work-entries/trash
+ * @desc    List deleted work entries, most recently deleted first
+ * @access  Private
+ * @query   page, limit
+ */
+router.get(
+  '/trash',
+  requirePermission('work-entries:read'),
+  (workEntryController.getTrash as any).bind(workEntryController)
+);
+
+/**
+ * @route   GET /api/work-entries/timer
+ * @desc    Get the running timer for authenticated user (null when none is running)
+ * @access  Private
+ */
+router.get(
+  '/timer',
+  requirePermission('work-entries:read'),
+  (workEntryController.getRunningTimer as any).bind(workEntryController)
+);
+
+/**
+ * @route   POST /api/work-entries/timer/start
+ * @desc    Start a timer (a work entry without an end time); one per user
+ * @access  Private
+ * @body    { description: string, startTime?: string, projectId?: string, tags?: string[] }
+ */
+router.post(
+  '/timer/start',
+  requirePermission('work-entries:write'),
+  enforceUnverifiedWorkEntryLimit,
+  (workEntryController.startTimer as any).bind(workEntryController)
+);
+
+/**
+ * @route   POST /api/work-entries/timer/stop
+ * @desc    Stop the running timer, applying the usual duration rules
+ * @access  Private
+ * @body    { endTime?: string, description?: string }
+ * @query   overlap (optional: reject, allow or trim)
+ */
+router.post(
+  '/timer/stop',
+  requirePermission('work-entries:write'),
+  (workEntryController.stopTimer as any).bind(workEntryController)
+);
+
+/**
+ * @route   POST /api/work-entries/bulk
+ * @desc    Create, update and delete up to 500 work entries in one request
+ * @access  Private
+ * @body    { mode?: 'atomic' | 'best-effort', operations: Array<{ op: 'create', data } | { op: 'update', id, data } | { op: 'delete', id }> }
+ * @query   overlap (optional: reject, allow or trim)
+ */
+router.post(
+  '/bulk',
+  requirePermission('work-entries:write'),
+  enforceUnverifiedWorkEntryLimit,
+  (workEntryController.bulkWorkEntries as any).bind(workEntryController)
+);
+
+/**
+ * @route   POST /api/work-entries/import/csv
+ * @desc    Preview (dry run, the default) or import work entries from CSV
+ * @access  Private
+ * @body    { csv: string, mapping: { startTime?, endTime?, date?, hours?, description, project?, tags? }, timezone?: string, dryRun?: boolean, ... }
+ * @query   overlap (optional: reject, allow or trim)
+ */
+router.post(
+  '/import/csv',
+  requirePermission('work-entries:write'),
+  enforceUnverifiedWorkEntryLimit,
+  (importController.importCsv as any).bind(importController)
+);
+
+/**
+ * @route   POST /api/work-entries/import/tracker
+ * @desc    Preview or import a Toggl Track, Clockify or Harvest export (CSV or JSON)
+ * @access  Private
+ * @body    { content: string, timezone?: string, createMissingProjects?: boolean, billableTag?: string | null, dryRun?: boolean, ... }
+ * @query   overlap (optional: reject, allow or trim)
+ */
+router.post(
+  '/import/tracker',
+  requirePermission('work-entries:write'),
+  enforceUnverifiedWorkEntryLimit,
+  (importController.importTrackerExport as any).bind(importController)
+);
 
 /**
  * @route   POST /api/work-entries
  * @desc    Create a new work entry
  * @access  Private
- * @body    { date: string, hours: number, description: string }
+ * @body    { startTime: string, endTime?: string, description: string, projectId?: string, tags?: string[], breaks?: object[] }
+ * @query   overlap (optional: reject, allow or trim)
  */
-router.post('/', (workEntryController.createWorkEntry as any).bind(workEntryController));
+router.post(
+  '/',
+  requirePermission('work-entries:write'),
+  enforceUnverifiedWorkEntryLimit,
+  (workEntryController.createWorkEntry as any).bind(workEntryController)
+);
 
 /**
  * @route   GET /api/work-entries/:id
@@ -37,7 +180,51 @@ router.post('/', (workEntryController.createWorkEntry as any).bind(workEntryCont
  * @access  Private
  * @params  id (work entry ID)
  */
-router.get('/:id', (workEntryController.getWorkEntryById as any).bind(workEntryController));
+router.get(
+  '/:id',
+  requirePermission('work-entries:read'),
+  (workEntryController.getWorkEntryById as any).bind(workEntryController)
+);
+
+/**
+ * @route   POST /api/work-entries/:id/restore
+ * @desc    Restore a work entry from the trash
+ * @access  Private
+ * @params  id (work entry ID)
+ * @query   overlap (optional: reject, allow or trim)
+ */
+router.post(
+  '/:id/restore',
+  requirePermission('work-entries:write'),
+  enforceUnverifiedWorkEntryLimit,
+  (workEntryController.restoreWorkEntry as any).bind(workEntryController)
+);
+
+/**
+ * @route   GET /api/work-entries/:id/history
+ * @desc    List the revisions of a specific work entry, newest first
+ * @access  Private
+ * @params  id (work entry ID)
+ */
+router.get(
+  '/:id/history',
+  requirePermission('work-entries:read'),
+  (workEntryController.getWorkEntryHistory as any).bind(workEntryController)
+);
+
+/**
+ * @route   POST /api/work-entries/:id/revert
+ * @desc    Revert a specific work entry to the values it had after one of its revisions
+ * @access  Private
+ * @params  id (work entry ID)
+ * @body    { revisionId: string }
+ * @query   overlap (optional: reject, allow or trim)
+ */
+router.post(
+  '/:id/revert',
+  requirePermission('work-entries:write'),
+  (workEntryController.revertWorkEntry as any).bind(workEntryController)
+);
 
 /**
  * @route   PUT /api/work-entries/:id
@@ -45,15 +232,24 @@ router.get('/:id', (workEntryController.getWorkEntryById as any).bind(workEntryC
  * @access  Private
  * @params  id (work entry ID)
  * @body    { date?: string, hours?: number, description?: string }
+ * @query   overlap (optional: reject, allow or trim)
  */
-router.put('/:id', (workEntryController.updateWorkEntry as any).bind(workEntryController));
+router.put(
+  '/:id',
+  requirePermission('work-entries:write'),
+  (workEntryController.updateWorkEntry as any).bind(workEntryController)
+);
 
 /**
  * @route   DELETE /api/work-entries/:id
- * @desc    Delete a specific work entry
+ * @desc    Move a specific work entry to the trash
  * @access  Private
  * @params  id (work entry ID)
  */
-router.delete('/:id', (workEntryController.deleteWorkEntry as any).bind(workEntryController));
+router.delete(
+  '/:id',
+  requirePermission('work-entries:write'),
+  (workEntryController.deleteWorkEntry as any).bind(workEntryController)
+);
 
 export default router;
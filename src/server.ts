@@ -1,6 +1,8 @@
 import app from './app';
 import { config } from './config/app.config';
 import { initializeDatabase } from './config/database.config';
+import { RefreshTokenService } from './services/refresh-token.service';
+import { workEntryService } from './services/work-entry.service';
 
 async function startServer(): Promise<void> {
   try {
@@ -19,9 +21,34 @@ async function startServer(): Promise<void> {
       console.log(`📊 Environment: ${config.app.nodeEnv}`);
     });
 
+    // Delete refresh tokens that can no longer be used
+    const tokenPurge = setInterval(() => {
+      RefreshTokenService.purgeExpired()
+        .then((purged) => {
+          if (purged > 0) {
+            console.log(`🔑 Token purge: removed ${purged} expired refresh tokens`);
+          }
+        })
+        .catch((error) => console.error('Token purge error:', error));
+    }, config.jwt.refreshTokenPurgeIntervalMs);
+
+    // Permanently delete work entries that have been in the trash past the retention period
+    const trashPurge = setInterval(() => {
+      workEntryService
+        .purgeDeletedWorkEntries()
+        .then((purged) => {
+          if (purged > 0) {
+            console.log(`🗑️  Trash purge: removed ${purged} work entries`);
+          }
+        })
+        .catch((error) => console.error('Trash purge error:', error));
+    }, config.workEntries.trashPurgeIntervalMs);
+
     // Graceful shutdown handling
     const gracefulShutdown = (signal: string): void => {
       console.log(`\n🛑 Received ${signal}. Starting graceful shutdown...`);
+      clearInterval(tokenPurge);
+      clearInterval(trashPurge);
 
       server.close(() => {
         console.log('📡 HTTP server closed');
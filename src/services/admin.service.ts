@@ -0,0 +1,431 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.config';
+import { AuthService, AuthError } from './auth.service';
+import { SessionService } from './session.service';
+import { PersonalAccessTokenService } from './personal-access-token.service';
+import { AuditLogService } from './audit-log.service';
+import { clearFailedAttempts, isLockedOut } from '../middleware/rate-limit.middleware';
+import type { Role } from '../types/auth.types';
+import type {
+  AccountStatus,
+  AdminUserDetails,
+  AdminUserFilters,
+  AdminUserListResponse,
+  AdminUserSummary,
+  AuditContext,
+  AuditLogFilters,
+  AuditLogListResponse,
+} from '../types/admin.types';
+
+// User fields visible to admins (never includes the password hash or MFA secret)
+const adminUserSelectFields = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  role: true,
+  emailVerified: true,
+  mfaEnabled: true,
+  passwordResetRequired: true,
+  disabledAt: true,
+  deletedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { workEntries: { where: { deletedAt: null } } } },
+} satisfies Prisma.UserSelect;
+
+type AdminUserRecord = Prisma.UserGetPayload<{ select: typeof adminUserSelectFields }>;
+
+interface TargetUser {
+  id: string;
+  email: string;
+  role: Role;
+  disabledAt: Date | null;
+  deletedAt: Date | null;
+}
+
+function getAccountStatus(user: {
+  disabledAt: Date | null;
+  deletedAt: Date | null;
+}): AccountStatus {
+  if (user.deletedAt) return 'deleted';
+  if (user.disabledAt) return 'disabled';
+  return 'active';
+}
+
+function toSummary({ _count, ...user }: AdminUserRecord): AdminUserSummary {
+  return { ...user, status: getAccountStatus(user), workEntryCount: _count.workEntries };
+}
+
+/**
+ * Build the where clause for a status filter - deleted accounts are hidden unless asked for
+ */
+function statusWhere(status: AccountStatus | undefined): Prisma.UserWhereInput {
+  switch (status) {
+    case 'active':
+      return { deletedAt: null, disabledAt: null };
+    case 'disabled':
+      return { deletedAt: null, disabledAt: { not: null } };
+    case 'deleted':
+      return { deletedAt: { not: null } };
+    default:
+      return { deletedAt: null };
+  }
+}
+
+export class AdminService {
+  /**
+   * Search and page through users
+   */
+  static async listUsers(filters: AdminUserFilters): Promise<AdminUserListResponse> {
+    try {
+      const where: Prisma.UserWhereInput = {
+        ...statusWhere(filters.status),
+        ...(filters.role && { role: filters.role }),
+        ...(filters.search && {
+          OR: [
+            { email: { contains: filters.search, mode: 'insensitive' } },
+            { firstName: { contains: filters.search, mode: 'insensitive' } },
+            { lastName: { contains: filters.search, mode: 'insensitive' } },
+          ],
+        }),
+      };
+
+      const [total, users] = await Promise.all([
+        prisma.user.count({ where }),
+        prisma.user.findMany({
+          where,
+          select: adminUserSelectFields,
+          orderBy: { [filters.sortBy]: filters.sortOrder },
+          skip: (filters.page - 1) * filters.limit,
+          take: filters.limit,
+        }),
+      ]);
+
+      const totalPages = Math.ceil(total / filters.limit);
+
+      return {
+        users: users.map(toSummary),
+        pagination: {
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          totalPages,
+          hasNext: filters.page < totalPages,
+          hasPrev: filters.page > 1,
+        },
+      };
+    } catch (error) {
+      throw new AuthError('Failed to fetch users', 'USER_LIST_FAILED', 500);
+    }
+  }
+
+  /**
+   * Get a user with activity details - entry counts, last login and lockout state
+   */
+  static async getUserDetails(userId: string): Promise<AdminUserDetails> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: adminUserSelectFields,
+      });
+
+      if (!user) {
+        throw new AuthError('User not found', 'USER_NOT_FOUND', 404);
+      }
+
+      const [activeSessionCount, sessionActivity, workEntryRange] = await Promise.all([
+        SessionService.countActiveSessions(userId),
+        prisma.session.aggregate({
+          where: { userId },
+          _max: { createdAt: true, lastUsedAt: true },
+        }),
+        prisma.workEntry.aggregate({
+          where: { userId, deletedAt: null },
+          _min: { startTime: true },
+          _max: { startTime: true },
+        }),
+      ]);
+
+      return {
+        ...toSummary(user),
+        activeSessionCount,
+        // Every successful login starts a new session
+        lastLoginAt: sessionActivity._max.createdAt,
+        lastActiveAt: sessionActivity._max.lastUsedAt,
+        firstWorkEntryAt: workEntryRange._min.startTime,
+        lastWorkEntryAt: workEntryRange._max.startTime,
+        isLocked: isLockedOut(user.email),
+      };
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to fetch user', 'USER_FETCH_FAILED', 500);
+    }
+  }
+
+  /**
+   * Change a user's role
+   */
+  static async changeRole(context: AuditContext, userId: string, role: Role): Promise<void> {
+    try {
+      const user = await AdminService.findTarget(context, userId);
+      AdminService.assertNotDeleted(user);
+
+      if (user.role === role) {
+        return;
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.user.update({ where: { id: userId }, data: { role } });
+        await AuditLogService.record(
+          context,
+          'user.role_change',
+          userId,
+          { from: user.role, to: role },
+          tx
+        );
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to change role', 'USER_UPDATE_FAILED', 500);
+    }
+  }
+
+  /**
+   * Disable an account, sign it out everywhere and revoke its personal access tokens
+   */
+  static async disableUser(context: AuditContext, userId: string, reason?: string): Promise<void> {
+    try {
+      const user = await AdminService.findTarget(context, userId);
+      AdminService.assertNotDeleted(user);
+
+      if (user.disabledAt) {
+        throw new AuthError('Account is already disabled', 'ACCOUNT_ALREADY_DISABLED', 409);
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.user.update({ where: { id: userId }, data: { disabledAt: new Date() } });
+        await PersonalAccessTokenService.revokeAll(userId, tx);
+        await AuditLogService.record(
+          context,
+          'user.disable',
+          userId,
+          reason ? { reason } : undefined,
+          tx
+        );
+      });
+
+      await SessionService.revokeAllSessions(userId);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to disable account', 'USER_UPDATE_FAILED', 500);
+    }
+  }
+
+  /**
+   * Re-enable a disabled account
+   */
+  static async enableUser(context: AuditContext, userId: string, reason?: string): Promise<void> {
+    try {
+      const user = await AdminService.findTarget(context, userId);
+      AdminService.assertNotDeleted(user);
+
+      if (!user.disabledAt) {
+        throw new AuthError('Account is not disabled', 'ACCOUNT_NOT_DISABLED', 409);
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.user.update({ where: { id: userId }, data: { disabledAt: null } });
+        await AuditLogService.record(
+          context,
+          'user.enable',
+          userId,
+          reason ? { reason } : undefined,
+          tx
+        );
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to enable account', 'USER_UPDATE_FAILED', 500);
+    }
+  }
+
+  /**
+   * Require a new password before the user can sign in again
+   * Signs the user out everywhere, revokes their personal access tokens and emails them a reset
+   * link
+   */
+  static async forcePasswordReset(
+    context: AuditContext,
+    userId: string,
+    reason?: string
+  ): Promise<void> {
+    try {
+      const user = await AdminService.findTarget(context, userId);
+      AdminService.assertNotDeleted(user);
+
+      await prisma.$transaction(async (tx) => {
+        await tx.user.update({ where: { id: userId }, data: { passwordResetRequired: true } });
+        await PersonalAccessTokenService.revokeAll(userId, tx);
+        await AuditLogService.record(
+          context,
+          'user.force_password_reset',
+          userId,
+          reason ? { reason } : undefined,
+          tx
+        );
+      });
+
+      await SessionService.revokeAllSessions(userId);
+      await AuthService.requestPasswordReset({ email: user.email });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to force password reset', 'USER_UPDATE_FAILED', 500);
+    }
+  }
+
+  /**
+   * Clear failed login attempts so a locked-out user can sign in again
+   * Returns whether the account was locked
+   */
+  static async unlockUser(context: AuditContext, userId: string): Promise<boolean> {
+    try {
+      const user = await AdminService.findTarget(context, userId, { allowSelf: true });
+      const wasLocked = isLockedOut(user.email);
+
+      clearFailedAttempts(user.email);
+      await AuditLogService.record(context, 'user.unlock', userId, { wasLocked });
+
+      return wasLocked;
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to unlock account', 'USER_UPDATE_FAILED', 500);
+    }
+  }
+
+  /**
+   * Delete a user
+   * A soft delete hides the account, signs it out and revokes its personal access tokens but
+   * keeps its data so it can be restored;
+   * a hard delete removes the user and everything they own
+   */
+  static async deleteUser(
+    context: AuditContext,
+    userId: string,
+    { hard }: { hard: boolean }
+  ): Promise<void> {
+    try {
+      const user = await AdminService.findTarget(context, userId);
+
+      if (hard) {
+        await AuthService.deleteAccount(userId);
+        await AuditLogService.record(context, 'user.hard_delete', userId, { email: user.email });
+        return;
+      }
+
+      AdminService.assertNotDeleted(user);
+
+      await prisma.$transaction(async (tx) => {
+        await tx.user.update({ where: { id: userId }, data: { deletedAt: new Date() } });
+        await PersonalAccessTokenService.revokeAll(userId, tx);
+        await AuditLogService.record(context, 'user.soft_delete', userId, undefined, tx);
+      });
+
+      await SessionService.revokeAllSessions(userId);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to delete user', 'DELETE_FAILED', 500);
+    }
+  }
+
+  /**
+   * Restore a soft-deleted user
+   */
+  static async restoreUser(context: AuditContext, userId: string): Promise<void> {
+    try {
+      const user = await AdminService.findTarget(context, userId);
+
+      if (!user.deletedAt) {
+        throw new AuthError('User has not been deleted', 'ACCOUNT_NOT_DELETED', 409);
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.user.update({ where: { id: userId }, data: { deletedAt: null } });
+        await AuditLogService.record(context, 'user.restore', userId, undefined, tx);
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to restore user', 'USER_UPDATE_FAILED', 500);
+    }
+  }
+
+  /**
+   * Page through the audit trail
+   */
+  static async listAuditLog(filters: AuditLogFilters): Promise<AuditLogListResponse> {
+    try {
+      return await AuditLogService.list(filters);
+    } catch (error) {
+      throw new AuthError('Failed to fetch audit log', 'AUDIT_LOG_FETCH_FAILED', 500);
+    }
+  }
+
+  /**
+   * Load the user an action targets
+   * Admins cannot act on their own account so they cannot lock themselves out
+   */
+  private static async findTarget(
+    context: AuditContext,
+    userId: string,
+    { allowSelf = false }: { allowSelf?: boolean } = {}
+  ): Promise<TargetUser> {
+    if (!allowSelf && userId === context.actorId) {
+      throw new AuthError(
+        'You cannot perform this action on your own account',
+        'CANNOT_MODIFY_SELF',
+        400
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, role: true, disabledAt: true, deletedAt: true },
+    });
+
+    if (!user) {
+      throw new AuthError('User not found', 'USER_NOT_FOUND', 404);
+    }
+
+    return user;
+  }
+
+  private static assertNotDeleted(user: TargetUser): void {
+    if (user.deletedAt) {
+      throw new AuthError('User has been deleted', 'ACCOUNT_DELETED', 409);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.config';
+import type {
+  AuditAction,
+  AuditContext,
+  AuditLogFilters,
+  AuditLogListResponse,
+} from '../types/admin.types';
+
+/**
+ * Audit Log Store
+ * Append-only record of administrative actions taken against user accounts
+ */
+export class AuditLogService {
+  /**
+   * Record an action
+   * Pass a transaction client to commit the entry together with the change it describes
+   */
+  static async record(
+    context: AuditContext,
+    action: AuditAction,
+    targetUserId: string,
+    metadata?: Prisma.InputJsonObject,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    await client.auditLog.create({
+      data: {
+        actorId: context.actorId,
+        action,
+        targetUserId,
+        ipAddress: context.ipAddress,
+        ...(metadata && { metadata }),
+      },
+    });
+  }
+
+  /**
+   * List audit entries, newest first
+   */
+  static async list(filters: AuditLogFilters): Promise<AuditLogListResponse> {
+    const where: Prisma.AuditLogWhereInput = {
+      ...(filters.actorId && { actorId: filters.actorId }),
+      ...(filters.targetUserId && { targetUserId: filters.targetUserId }),
+      ...(filters.action && { action: filters.action }),
+    };
+
+    const [total, entries] = await Promise.all([
+      prisma.auditLog.count({ where }),
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+    ]);
+
+    const totalPages = Math.ceil(total / filters.limit);
+
+    return {
+      entries,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages,
+        hasNext: filters.page < totalPages,
+        hasPrev: filters.page > 1,
+      },
+    };
+  }
+}
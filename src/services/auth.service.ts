@@ -1,6 +1,18 @@
 import { prisma } from '../config/database.config';
 import { hashPassword, verifyPassword } from '../utils/password.utils';
-import { generateTokenPair, verifyRefreshToken } from '../utils/jwt.utils';
+import {
+  verifyRefreshToken,
+  generateMfaChallengeToken,
+  verifyMfaChallengeToken,
+  JWTError,
+} from '../utils/jwt.utils';
+import { generateSecureToken, hashToken } from '../utils/crypto.utils';
+import { securityConfig, emailVerificationConfig, mfaConfig } from '../config/app.config';
+import { RefreshTokenService } from './refresh-token.service';
+import { SessionService } from './session.service';
+import { MfaService } from './mfa.service';
+import { PersonalAccessTokenService } from './personal-access-token.service';
+import { mailService } from './mail.service';
 import { validateSchema, createUserSchema, loginSchema } from '../utils/validation.utils';
 import type {
   User,
@@ -8,8 +20,33 @@ import type {
   LoginRequest,
   AuthResponse,
   AuthTokens,
+  SessionContext,
+  SessionInfo,
+  PasswordResetRequest,
+  PasswordResetConfirmRequest,
+  EmailVerificationRequest,
+  LoginResponse,
+  MfaSetupResponse,
+  MfaVerifyRequest,
+  PersonalAccessTokenInfo,
+  CreatePersonalAccessTokenRequest,
+  UpdatePersonalAccessTokenRequest,
+  CreatedPersonalAccessToken,
 } from '../types/auth.types';
 
+// Public user fields (never includes the password hash)
+const userSelectFields = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  role: true,
+  emailVerified: true,
+  mfaEnabled: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
 export class AuthError extends Error {
   constructor(
     message: string,
@@ -25,7 +62,10 @@ export class AuthService {
   /**
    * Register a new user
    */
-  static async register(userData: CreateUserRequest): Promise<AuthResponse> {
+  static async register(
+    userData: CreateUserRequest,
+    context: SessionContext = { ipAddress: null, userAgent: null }
+  ): Promise<AuthResponse> {
     try {
       // Validate input data
       const validatedData = validateSchema(createUserSchema, userData);
@@ -50,18 +90,23 @@ export class AuthService {
           firstName: validatedData.firstName,
           lastName: validatedData.lastName,
         },
-        select: {
-          id: true,
-          email: true,
-          firstName: true,
-          lastName: true,
-          createdAt: true,
-          updatedAt: true,
-        },
+        select: userSelectFields,
       });
 
-      // Generate tokens
-      const tokens = generateTokenPair(newUser.id, newUser.email);
+      // Send the verification email - a mail outage should not block registration
+      try {
+        await AuthService.sendEmailVerification(newUser.id, newUser.email);
+      } catch (mailError) {
+        console.error('Failed to send verification email:', mailError);
+      }
+
+      // Start a session and generate tokens
+      const { tokens } = await SessionService.startSession(
+        newUser.id,
+        newUser.email,
+        context,
+        newUser.role
+      );
 
       return {
         user: newUser,
@@ -84,7 +129,10 @@ export class AuthService {
   /**
    * Authenticate user login
    */
-  static async login(loginData: LoginRequest): Promise<AuthResponse> {
+  static async login(
+    loginData: LoginRequest,
+    context: SessionContext = { ipAddress: null, userAgent: null }
+  ): Promise<LoginResponse> {
     try {
       // Validate input data
       const validatedData = validateSchema(loginSchema, loginData);
@@ -94,7 +142,8 @@ export class AuthService {
         where: { email: validatedData.email },
       });
 
-      if (!user) {
+      // Soft-deleted accounts are treated as if they did not exist
+      if (!user || user.deletedAt) {
         throw new AuthError('Invalid email or password', 'INVALID_CREDENTIALS', 401);
       }
 
@@ -105,8 +154,19 @@ export class AuthService {
         throw new AuthError('Invalid email or password', 'INVALID_CREDENTIALS', 401);
       }
 
-      // Generate tokens
-      const tokens = generateTokenPair(user.id, user.email);
+      AuthService.assertCanSignIn(user);
+
+      // With MFA enabled the password alone is not enough - issue a challenge instead of tokens
+      if (user.mfaEnabled) {
+        return {
+          mfaRequired: true,
+          challengeToken: generateMfaChallengeToken(user.id, user.email),
+          expiresIn: mfaConfig.challengeExpiresIn,
+        };
+      }
+
+      // Start a session and generate tokens
+      const { tokens } = await SessionService.startSession(user.id, user.email, context, user.role);
 
       // Return user data without password
       const userWithoutPassword = {
@@ -114,6 +174,9 @@ export class AuthService {
         email: user.email,
         firstName: user.firstName,
         lastName: user.lastName,
+        role: user.role,
+        emailVerified: user.emailVerified,
+        mfaEnabled: user.mfaEnabled,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
       };
@@ -132,28 +195,88 @@ export class AuthService {
   }
 
   /**
-   * Refresh access token using refresh token
+   * Reject sign-ins to accounts an admin has disabled or flagged for a password reset
+   * Only called once the password is known to be correct, so account state is not leaked
+   */
+  private static assertCanSignIn(user: {
+    disabledAt: Date | null;
+    passwordResetRequired: boolean;
+  }): void {
+    if (user.disabledAt) {
+      throw new AuthError('This account has been disabled', 'ACCOUNT_DISABLED', 403);
+    }
+
+    if (user.passwordResetRequired) {
+      throw new AuthError(
+        'A password reset is required before you can sign in',
+        'PASSWORD_RESET_REQUIRED',
+        403
+      );
+    }
+  }
+
+  /**
+   * Rotate a refresh token, revoking the whole session if a used token is replayed
    */
   static async refreshToken(refreshToken: string): Promise<AuthTokens> {
     try {
       // Verify refresh token
       const decoded = verifyRefreshToken(refreshToken);
 
+      // Refresh tokens are only honoured while they are on record
+      const stored = await RefreshTokenService.findByToken(refreshToken);
+
+      if (!stored || stored.userId !== decoded.userId) {
+        throw new AuthError('Invalid refresh token', 'INVALID_REFRESH_TOKEN', 401);
+      }
+
+      if (stored.revokedAt) {
+        // A token that was already rotated is being replayed - assume it was stolen
+        await SessionService.revokeSession(stored.sessionId);
+
+        if (stored.replacedById) {
+          console.warn('🚨 Refresh Token Reuse Detected', {
+            userId: stored.userId,
+            sessionId: stored.sessionId,
+            timestamp: new Date().toISOString(),
+          });
+
+          throw new AuthError('Refresh token has already been used', 'REFRESH_TOKEN_REUSED', 401);
+        }
+
+        throw new AuthError('Refresh token has been revoked', 'REFRESH_TOKEN_REVOKED', 401);
+      }
+
+      if (stored.expiresAt <= new Date()) {
+        throw new AuthError('Refresh token expired', 'REFRESH_TOKEN_EXPIRED', 401);
+      }
+
       // Find user to ensure they still exist
       const user = await prisma.user.findUnique({
         where: { id: decoded.userId },
         select: {
           id: true,
           email: true,
+          role: true,
+          disabledAt: true,
+          deletedAt: true,
         },
       });
 
-      if (!user) {
+      if (!user || user.disabledAt || user.deletedAt) {
         throw new AuthError('User not found', 'USER_NOT_FOUND', 401);
       }
 
-      // Generate new token pair
-      return generateTokenPair(user.id, user.email);
+      // Rotate: issue a new pair and retire the presented token
+      const tokens = await RefreshTokenService.rotate(stored, user.email, user.role);
+
+      if (!tokens) {
+        // Lost a race with another request presenting the same token
+        await SessionService.revokeSession(stored.sessionId);
+        throw new AuthError('Refresh token has already been used', 'REFRESH_TOKEN_REUSED', 401);
+      }
+
+      return tokens;
     } catch (error) {
       if (error instanceof AuthError) {
         throw error;
@@ -163,21 +286,98 @@ export class AuthService {
     }
   }
 
+  /**
+   * Logout user by revoking a session server-side
+   * Revokes the session of the presented refresh token, falling back to the current session,
+   * or every session when neither is known
+   */
+  static async logout(userId: string, sessionId?: string, refreshToken?: string): Promise<void> {
+    try {
+      if (refreshToken) {
+        const stored = await RefreshTokenService.findByToken(refreshToken);
+
+        if (!stored || stored.userId !== userId) {
+          throw new AuthError('Invalid refresh token', 'INVALID_REFRESH_TOKEN', 400);
+        }
+
+        await SessionService.revokeSession(stored.sessionId, userId);
+        return;
+      }
+
+      if (sessionId) {
+        await SessionService.revokeSession(sessionId, userId);
+        return;
+      }
+
+      await SessionService.revokeAllSessions(userId);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to logout', 'LOGOUT_FAILED', 500);
+    }
+  }
+
+  /**
+   * List a user's active sessions, flagging the one making the request
+   */
+  static async listSessions(userId: string, currentSessionId?: string): Promise<SessionInfo[]> {
+    try {
+      const sessions = await SessionService.listActiveSessions(userId);
+
+      return sessions.map((session) => ({
+        id: session.id,
+        ipAddress: session.ipAddress,
+        userAgent: session.userAgent,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        current: session.id === currentSessionId,
+      }));
+    } catch (error) {
+      throw new AuthError('Failed to fetch sessions', 'SESSION_FETCH_FAILED', 500);
+    }
+  }
+
+  /**
+   * Revoke one of the user's sessions
+   */
+  static async revokeSession(userId: string, sessionId: string): Promise<void> {
+    try {
+      const revoked = await SessionService.revokeSession(sessionId, userId);
+
+      if (!revoked) {
+        throw new AuthError('Session not found', 'SESSION_NOT_FOUND', 404);
+      }
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to revoke session', 'SESSION_REVOKE_FAILED', 500);
+    }
+  }
+
+  /**
+   * Sign out everywhere else - revoke every session except the current one
+   */
+  static async revokeOtherSessions(userId: string, currentSessionId?: string): Promise<number> {
+    try {
+      return await SessionService.revokeAllSessions(userId, currentSessionId);
+    } catch (error) {
+      throw new AuthError('Failed to revoke sessions', 'SESSION_REVOKE_FAILED', 500);
+    }
+  }
+
   /**
    * Get user by ID
+   * Disabled and deleted accounts are treated as not found
    */
   static async getUserById(userId: string): Promise<User | null> {
     try {
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-        select: {
-          id: true,
-          email: true,
-          firstName: true,
-          lastName: true,
-          createdAt: true,
-          updatedAt: true,
-        },
+      const user = await prisma.user.findFirst({
+        where: { id: userId, disabledAt: null, deletedAt: null },
+        select: userSelectFields,
       });
 
       return user;
@@ -188,19 +388,13 @@ export class AuthService {
 
   /**
    * Get user by email
+   * Disabled and deleted accounts are treated as not found
    */
   static async getUserByEmail(email: string): Promise<User | null> {
     try {
-      const user = await prisma.user.findUnique({
-        where: { email },
-        select: {
-          id: true,
-          email: true,
-          firstName: true,
-          lastName: true,
-          createdAt: true,
-          updatedAt: true,
-        },
+      const user = await prisma.user.findFirst({
+        where: { email, disabledAt: null, deletedAt: null },
+        select: userSelectFields,
       });
 
       return user;
@@ -229,14 +423,7 @@ export class AuthService {
       const updatedUser = await prisma.user.update({
         where: { id: userId },
         data: cleanData,
-        select: {
-          id: true,
-          email: true,
-          firstName: true,
-          lastName: true,
-          createdAt: true,
-          updatedAt: true,
-        },
+        select: userSelectFields,
       });
 
       return updatedUser;
@@ -296,6 +483,520 @@ export class AuthService {
     }
   }
 
+  /**
+   * Start a password reset by emailing a single-use reset token
+   * Completes silently for unknown emails so accounts cannot be enumerated
+   */
+  static async requestPasswordReset({ email }: PasswordResetRequest): Promise<void> {
+    try {
+      const user = await prisma.user.findFirst({
+        where: { email, deletedAt: null },
+        select: { id: true, email: true },
+      });
+
+      if (!user) {
+        return;
+      }
+
+      const token = generateSecureToken();
+      const expiresAt = new Date(Date.now() + securityConfig.passwordResetTokenTtlMs);
+
+      // Only the most recently requested link stays valid
+      await prisma.$transaction([
+        prisma.passwordResetToken.updateMany({
+          where: { userId: user.id, usedAt: null },
+          data: { usedAt: new Date() },
+        }),
+        prisma.passwordResetToken.create({
+          data: {
+            userId: user.id,
+            tokenHash: hashToken(token),
+            expiresAt,
+          },
+        }),
+      ]);
+
+      await mailService.sendPasswordResetEmail(user.email, token, expiresAt);
+    } catch (error) {
+      throw new AuthError('Failed to request password reset', 'PASSWORD_RESET_FAILED', 500);
+    }
+  }
+
+  /**
+   * Complete a password reset and sign the user out of every session
+   */
+  static async resetPassword({ token, newPassword }: PasswordResetConfirmRequest): Promise<void> {
+    try {
+      const resetToken = await prisma.passwordResetToken.findUnique({
+        where: { tokenHash: hashToken(token) },
+        select: { id: true, userId: true, expiresAt: true, usedAt: true },
+      });
+
+      if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+        throw new AuthError(
+          'Password reset token is invalid or has expired',
+          'INVALID_RESET_TOKEN',
+          400
+        );
+      }
+
+      const hashedNewPassword = await hashPassword(newPassword);
+
+      const consumed = await prisma.$transaction(async (tx) => {
+        // Claim the token atomically so it can only be used once
+        const claimed = await tx.passwordResetToken.updateMany({
+          where: { id: resetToken.id, usedAt: null },
+          data: { usedAt: new Date() },
+        });
+
+        if (claimed.count === 0) {
+          return false;
+        }
+
+        await tx.user.update({
+          where: { id: resetToken.userId },
+          data: { password: hashedNewPassword, passwordResetRequired: false },
+        });
+
+        return true;
+      });
+
+      if (!consumed) {
+        throw new AuthError(
+          'Password reset token is invalid or has expired',
+          'INVALID_RESET_TOKEN',
+          400
+        );
+      }
+
+      await SessionService.revokeAllSessions(resetToken.userId);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to reset password', 'PASSWORD_RESET_FAILED', 500);
+    }
+  }
+
+  /**
+   * Issue a single-use verification token and email it to the user
+   * Any previously issued, unused tokens are invalidated
+   */
+  private static async sendEmailVerification(userId: string, email: string): Promise<void> {
+    const token = generateSecureToken();
+    const expiresAt = new Date(Date.now() + emailVerificationConfig.tokenTtlMs);
+
+    await prisma.$transaction([
+      prisma.emailVerificationToken.updateMany({
+        where: { userId, usedAt: null },
+        data: { usedAt: new Date() },
+      }),
+      prisma.emailVerificationToken.create({
+        data: {
+          userId,
+          tokenHash: hashToken(token),
+          expiresAt,
+        },
+      }),
+    ]);
+
+    await mailService.sendEmailVerificationEmail(email, token, expiresAt);
+  }
+
+  /**
+   * Mark a user's email address as verified using a token from the verification email
+   */
+  static async verifyEmail({ token }: EmailVerificationRequest): Promise<User> {
+    try {
+      const verificationToken = await prisma.emailVerificationToken.findUnique({
+        where: { tokenHash: hashToken(token) },
+        select: { id: true, userId: true, expiresAt: true, usedAt: true },
+      });
+
+      if (
+        !verificationToken ||
+        verificationToken.usedAt ||
+        verificationToken.expiresAt <= new Date()
+      ) {
+        throw new AuthError(
+          'Verification token is invalid or has expired',
+          'INVALID_VERIFICATION_TOKEN',
+          400
+        );
+      }
+
+      const verifiedUser = await prisma.$transaction(async (tx) => {
+        // Claim the token atomically so it can only be used once
+        const claimed = await tx.emailVerificationToken.updateMany({
+          where: { id: verificationToken.id, usedAt: null },
+          data: { usedAt: new Date() },
+        });
+
+        if (claimed.count === 0) {
+          return null;
+        }
+
+        return tx.user.update({
+          where: { id: verificationToken.userId },
+          data: { emailVerified: true, emailVerifiedAt: new Date() },
+          select: userSelectFields,
+        });
+      });
+
+      if (!verifiedUser) {
+        throw new AuthError(
+          'Verification token is invalid or has expired',
+          'INVALID_VERIFICATION_TOKEN',
+          400
+        );
+      }
+
+      return verifiedUser;
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to verify email', 'EMAIL_VERIFICATION_FAILED', 500);
+    }
+  }
+
+  /**
+   * Send a fresh verification email to an unverified user
+   */
+  static async resendVerification(userId: string): Promise<void> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, email: true, emailVerified: true },
+      });
+
+      if (!user) {
+        throw new AuthError('User not found', 'USER_NOT_FOUND', 404);
+      }
+
+      if (user.emailVerified) {
+        throw new AuthError('Email address is already verified', 'EMAIL_ALREADY_VERIFIED', 409);
+      }
+
+      await AuthService.sendEmailVerification(user.id, user.email);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to send verification email', 'EMAIL_VERIFICATION_FAILED', 500);
+    }
+  }
+
+  /**
+   * Complete a login for an MFA-enabled user using an authenticator or recovery code
+   */
+  static async verifyMfaLogin(
+    { challengeToken, code, recoveryCode }: MfaVerifyRequest,
+    context: SessionContext = { ipAddress: null, userAgent: null }
+  ): Promise<AuthResponse> {
+    try {
+      let userId: string;
+
+      try {
+        ({ userId } = verifyMfaChallengeToken(challengeToken));
+      } catch (error) {
+        if (error instanceof JWTError) {
+          throw new AuthError(error.message, error.code, 401);
+        }
+        throw error;
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          ...userSelectFields,
+          mfaSecret: true,
+          mfaLastUsedStep: true,
+          passwordResetRequired: true,
+          disabledAt: true,
+          deletedAt: true,
+        },
+      });
+
+      if (!user || !user.mfaEnabled || user.deletedAt) {
+        throw new AuthError('Invalid MFA challenge', 'INVALID_MFA_CHALLENGE', 401);
+      }
+
+      // The account may have been disabled since the challenge was issued
+      AuthService.assertCanSignIn(user);
+
+      const isVerified = code
+        ? await MfaService.verifyCode(user, code)
+        : recoveryCode
+          ? await MfaService.consumeRecoveryCode(user.id, recoveryCode)
+          : false;
+
+      if (!isVerified) {
+        throw new AuthError('Invalid authentication code', 'INVALID_MFA_CODE', 401);
+      }
+
+      const { tokens } = await SessionService.startSession(user.id, user.email, context, user.role);
+
+      // Return user data without MFA internals
+      const userWithoutSecrets = {
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        role: user.role,
+        emailVerified: user.emailVerified,
+        mfaEnabled: user.mfaEnabled,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+      };
+
+      return {
+        user: userWithoutSecrets,
+        tokens,
+      };
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to verify authentication code', 'MFA_VERIFICATION_FAILED', 500);
+    }
+  }
+
+  /**
+   * Start MFA enrollment - returns the secret and otpauth URI for the authenticator app
+   */
+  static async setupMfa(userId: string): Promise<MfaSetupResponse> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, email: true, mfaEnabled: true },
+      });
+
+      if (!user) {
+        throw new AuthError('User not found', 'USER_NOT_FOUND', 404);
+      }
+
+      if (user.mfaEnabled) {
+        throw new AuthError(
+          'Two-factor authentication is already enabled',
+          'MFA_ALREADY_ENABLED',
+          409
+        );
+      }
+
+      return await MfaService.beginEnrollment(user.id, user.email);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to set up two-factor authentication', 'MFA_SETUP_FAILED', 500);
+    }
+  }
+
+  /**
+   * Confirm MFA enrollment with a code from the authenticator app
+   * Returns the one-time recovery codes, which are only shown this once
+   */
+  static async enableMfa(userId: string, code: string): Promise<string[]> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, mfaEnabled: true, mfaSecret: true, mfaLastUsedStep: true },
+      });
+
+      if (!user) {
+        throw new AuthError('User not found', 'USER_NOT_FOUND', 404);
+      }
+
+      if (user.mfaEnabled) {
+        throw new AuthError(
+          'Two-factor authentication is already enabled',
+          'MFA_ALREADY_ENABLED',
+          409
+        );
+      }
+
+      if (!user.mfaSecret) {
+        throw new AuthError('Start two-factor setup first', 'MFA_SETUP_REQUIRED', 400);
+      }
+
+      const isVerified = await MfaService.verifyCode(user, code);
+
+      if (!isVerified) {
+        throw new AuthError('Invalid authentication code', 'INVALID_MFA_CODE', 400);
+      }
+
+      await MfaService.enable(user.id);
+
+      return await MfaService.generateRecoveryCodes(user.id);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to enable two-factor authentication', 'MFA_ENABLE_FAILED', 500);
+    }
+  }
+
+  /**
+   * Turn off MFA after re-checking the current password
+   */
+  static async disableMfa(userId: string, password: string): Promise<void> {
+    try {
+      await AuthService.requireMfaWithPassword(userId, password);
+      await MfaService.disable(userId);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to disable two-factor authentication', 'MFA_DISABLE_FAILED', 500);
+    }
+  }
+
+  /**
+   * Replace the recovery codes after re-checking the current password
+   */
+  static async regenerateRecoveryCodes(userId: string, password: string): Promise<string[]> {
+    try {
+      await AuthService.requireMfaWithPassword(userId, password);
+
+      return await MfaService.generateRecoveryCodes(userId);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to regenerate recovery codes', 'MFA_RECOVERY_CODES_FAILED', 500);
+    }
+  }
+
+  /**
+   * Guard for sensitive MFA changes: the user must have MFA enabled and confirm their password
+   */
+  private static async requireMfaWithPassword(userId: string, password: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { password: true, mfaEnabled: true },
+    });
+
+    if (!user) {
+      throw new AuthError('User not found', 'USER_NOT_FOUND', 404);
+    }
+
+    const isPasswordValid = await verifyPassword(password, user.password);
+
+    if (!isPasswordValid) {
+      throw new AuthError('Current password is incorrect', 'INVALID_CURRENT_PASSWORD', 400);
+    }
+
+    if (!user.mfaEnabled) {
+      throw new AuthError('Two-factor authentication is not enabled', 'MFA_NOT_ENABLED', 400);
+    }
+  }
+
+  /**
+   * List the user's personal access tokens
+   */
+  static async listPersonalAccessTokens(userId: string): Promise<PersonalAccessTokenInfo[]> {
+    try {
+      return await PersonalAccessTokenService.list(userId);
+    } catch (error) {
+      throw new AuthError('Failed to fetch access tokens', 'TOKEN_FETCH_FAILED', 500);
+    }
+  }
+
+  /**
+   * Create a personal access token - the raw token is only returned here
+   */
+  static async createPersonalAccessToken(
+    userId: string,
+    { name, scopes, expiresInDays }: CreatePersonalAccessTokenRequest
+  ): Promise<CreatedPersonalAccessToken> {
+    try {
+      const expiresAt = expiresInDays
+        ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+        : null;
+
+      return await PersonalAccessTokenService.create(userId, { name, scopes, expiresAt });
+    } catch (error) {
+      throw new AuthError('Failed to create access token', 'TOKEN_CREATION_FAILED', 500);
+    }
+  }
+
+  /**
+   * Get one of the user's personal access tokens
+   */
+  static async getPersonalAccessToken(
+    userId: string,
+    tokenId: string
+  ): Promise<PersonalAccessTokenInfo> {
+    try {
+      const token = await PersonalAccessTokenService.find(userId, tokenId);
+
+      if (!token) {
+        throw new AuthError('Access token not found', 'TOKEN_NOT_FOUND', 404);
+      }
+
+      return token;
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to fetch access token', 'TOKEN_FETCH_FAILED', 500);
+    }
+  }
+
+  /**
+   * Rename one of the user's personal access tokens
+   */
+  static async updatePersonalAccessToken(
+    userId: string,
+    tokenId: string,
+    { name }: UpdatePersonalAccessTokenRequest
+  ): Promise<PersonalAccessTokenInfo> {
+    try {
+      const token = await PersonalAccessTokenService.rename(userId, tokenId, name);
+
+      if (!token) {
+        throw new AuthError('Access token not found', 'TOKEN_NOT_FOUND', 404);
+      }
+
+      return token;
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to update access token', 'TOKEN_UPDATE_FAILED', 500);
+    }
+  }
+
+  /**
+   * Revoke one of the user's personal access tokens
+   */
+  static async revokePersonalAccessToken(userId: string, tokenId: string): Promise<void> {
+    try {
+      const revoked = await PersonalAccessTokenService.revoke(userId, tokenId);
+
+      if (!revoked) {
+        throw new AuthError('Access token not found', 'TOKEN_NOT_FOUND', 404);
+      }
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+
+      throw new AuthError('Failed to revoke access token', 'TOKEN_REVOKE_FAILED', 500);
+    }
+  }
+
   /**
    * Delete user account
    */
@@ -0,0 +1,160 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.config';
+import { cacheService } from './cache.service';
+import { ProjectError, isUniqueConstraintError } from './project.service';
+import type { ClientResponse } from '../types/project.types';
+import type {
+  CreateClientRequest,
+  UpdateClientRequest,
+  ClientFilters,
+} from '../utils/project-validation.utils';
+
+// Optimized field selection for clients
+const clientSelectFields = {
+  id: true,
+  name: true,
+  archivedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { projects: true } },
+};
+
+type ClientRecord = Prisma.ClientGetPayload<{ select: typeof clientSelectFields }>;
+
+export class ClientService {
+  /**
+   * Convert a Prisma Client to API response format
+   */
+  private formatClient(client: ClientRecord): ClientResponse {
+    return {
+      id: client.id,
+      name: client.name,
+      archived: client.archivedAt !== null,
+      archivedAt: client.archivedAt?.toISOString() ?? null,
+      projectCount: client._count.projects,
+      createdAt: client.createdAt.toISOString(),
+      updatedAt: client.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * List a user's clients, optionally including archived ones
+   */
+  async listClients(userId: string, filters: ClientFilters): Promise<ClientResponse[]> {
+    const clients = await prisma.client.findMany({
+      where: { userId, ...(!filters.includeArchived && { archivedAt: null }) },
+      select: clientSelectFields,
+      orderBy: { name: 'asc' },
+    });
+
+    return clients.map((client) => this.formatClient(client));
+  }
+
+  /**
+   * Get a specific client by ID
+   */
+  async getClientById(userId: string, clientId: string): Promise<ClientResponse> {
+    const client = await prisma.client.findFirst({
+      where: { id: clientId, userId },
+      select: clientSelectFields,
+    });
+
+    if (!client) {
+      throw new ProjectError('Client not found', 'CLIENT_NOT_FOUND', 404);
+    }
+
+    return this.formatClient(client);
+  }
+
+  /**
+   * Create a client
+   */
+  async createClient(userId: string, data: CreateClientRequest): Promise<ClientResponse> {
+    try {
+      const client = await prisma.client.create({
+        data: { userId, name: data.name },
+        select: clientSelectFields,
+      });
+
+      return this.formatClient(client);
+    } catch (error) {
+      if (isUniqueConstraintError(error)) {
+        throw new ProjectError(
+          'A client with this name already exists',
+          'CLIENT_ALREADY_EXISTS',
+          409
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update a client - rename or archive
+   * Archiving a client hides it from new projects but leaves its projects untouched
+   */
+  async updateClient(
+    userId: string,
+    clientId: string,
+    data: UpdateClientRequest
+  ): Promise<ClientResponse> {
+    const existing = await prisma.client.findFirst({
+      where: { id: clientId, userId },
+      select: { id: true, archivedAt: true },
+    });
+
+    if (!existing) {
+      throw new ProjectError('Client not found', 'CLIENT_NOT_FOUND', 404);
+    }
+
+    // Keep the original archive date when an archived client is archived again
+    const archivedAt =
+      data.archived === undefined
+        ? undefined
+        : data.archived
+          ? (existing.archivedAt ?? new Date())
+          : null;
+
+    try {
+      const client = await prisma.client.update({
+        where: { id: clientId },
+        data: {
+          ...(data.name !== undefined && { name: data.name }),
+          ...(archivedAt !== undefined && { archivedAt }),
+        },
+        select: clientSelectFields,
+      });
+
+      // Work entry responses embed the client name
+      cacheService.invalidateUserCache(userId);
+
+      return this.formatClient(client);
+    } catch (error) {
+      if (isUniqueConstraintError(error)) {
+        throw new ProjectError(
+          'A client with this name already exists',
+          'CLIENT_ALREADY_EXISTS',
+          409
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a client - its projects are kept without a client
+   */
+  async deleteClient(userId: string, clientId: string): Promise<void> {
+    const result = await prisma.client.deleteMany({
+      where: { id: clientId, userId },
+    });
+
+    if (result.count === 0) {
+      throw new ProjectError('Client not found', 'CLIENT_NOT_FOUND', 404);
+    }
+
+    cacheService.invalidateUserCache(userId);
+  }
+}
+
+export const clientService = new ClientService();
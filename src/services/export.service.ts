@@ -0,0 +1,118 @@
+import { settingsService } from './settings.service';
+import { workEntryService } from './work-entry.service';
+import type { ExportFormat, WorkEntryResponse } from '../types/work-entry.types';
+import type { WorkEntryFilters } from '../utils/work-entry-validation.utils';
+import { formatCsvRow, protectFormula } from '../utils/csv.utils';
+import { formatICalEvent, formatICalFooter, formatICalHeader } from '../utils/ical.utils';
+
+const csvColumns = [
+  'id',
+  'startTime',
+  'endTime',
+  'duration',
+  'isRunning',
+  'description',
+  'projectId',
+  'project',
+  'client',
+  'tags',
+  'createdAt',
+  'updatedAt',
+];
+
+const contentTypes: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+  ics: 'text/calendar; charset=utf-8',
+};
+
+export class ExportService {
+  /**
+   * Format an entry as a CSV record
+   * Column names match the CSV import, so an export can be imported again. The duration is net
+   * of breaks
+   */
+  private formatCsvEntry(entry: WorkEntryResponse): string {
+    return formatCsvRow([
+      entry.id,
+      entry.startTime,
+      entry.endTime ?? '',
+      String(entry.duration),
+      String(entry.isRunning),
+      protectFormula(entry.description),
+      entry.projectId ?? '',
+      protectFormula(entry.project?.name ?? ''),
+      protectFormula(entry.project?.client?.name ?? ''),
+      protectFormula(entry.tags.map((tag) => tag.name).join(', ')),
+      entry.createdAt,
+      entry.updatedAt,
+    ]);
+  }
+
+  /**
+   * Format an entry as a calendar event
+   * The event spans the whole entry, breaks included; its duration is net of breaks, with hours
+   * formatted for the user's locale. A running timer is exported up to now and marked tentative
+   */
+  private formatICalEntry(entry: WorkEntryResponse, hours: Intl.NumberFormat): string {
+    const breakHours = Math.round((entry.grossDuration - entry.duration) * 100) / 100;
+    const details = [
+      entry.project ? `Project: ${entry.project.name}` : null,
+      entry.project?.client ? `Client: ${entry.project.client.name}` : null,
+      `Duration: ${hours.format(entry.duration)} h`,
+      entry.breaks.length > 0 ? `Breaks: ${hours.format(breakHours)} h` : null,
+    ].filter((line) => line !== null);
+
+    return formatICalEvent({
+      uid: `${entry.id}@work-tracker`,
+      start: new Date(entry.startTime),
+      end: entry.endTime ? new Date(entry.endTime) : new Date(),
+      summary: entry.description,
+      description: details.join('\n'),
+      categories: entry.tags.map((tag) => tag.name),
+      status: entry.isRunning ? 'TENTATIVE' : 'CONFIRMED',
+      lastModified: new Date(entry.updatedAt),
+    });
+  }
+
+  /**
+   * Content type of an export file
+   */
+  getContentType(format: ExportFormat): string {
+    return contentTypes[format];
+  }
+
+  /**
+   * Stream a user's work entries as a file in the given format, chunk by chunk
+   */
+  async *exportWorkEntries(
+    userId: string,
+    filters: WorkEntryFilters,
+    format: ExportFormat
+  ): AsyncGenerator<string> {
+    const { locale } = await settingsService.getSettings(userId);
+    const hours = new Intl.NumberFormat(locale, { maximumFractionDigits: 2 });
+
+    if (format === 'csv') {
+      yield formatCsvRow(csvColumns);
+    } else if (format === 'ics') {
+      yield formatICalHeader('Work entries');
+    }
+
+    for await (const batch of workEntryService.streamWorkEntries(userId, filters)) {
+      yield batch
+        .map((entry) => {
+          if (format === 'csv') return this.formatCsvEntry(entry);
+          if (format === 'ics') return this.formatICalEntry(entry, hours);
+          return `${JSON.stringify(entry)}\n`;
+        })
+        .join('');
+    }
+
+    if (format === 'ics') {
+      yield formatICalFooter();
+    }
+  }
+}
+
+export const exportService = new ExportService();
@@ -0,0 +1,671 @@
+import { prisma } from '../config/database.config';
+import { config } from '../config/app.config';
+import { workEntryService, IndexedBulkOperation } from './work-entry.service';
+import { clientService } from './client.service';
+import { projectService } from './project.service';
+import type { BulkMode, OverlapPolicy, RevisionContext } from '../types/work-entry.types';
+import type {
+  ImportedEntry,
+  ImportResponse,
+  ImportRowError,
+  ImportRowPreview,
+  ImportSourceRow,
+  ImportTiming,
+  NewImportProject,
+  TrackerImportResponse,
+} from '../types/import.types';
+import { parseCsv, CsvParseError, CsvRecord } from '../utils/csv.utils';
+import { parseLocalDateTime, resolveDateTime, zonedTimeToUtc } from '../utils/timezone.utils';
+import { rangesOverlap } from '../utils/overlap.utils';
+import {
+  readTrackerExport,
+  TrackerExport,
+  TrackerFormatError,
+} from '../utils/tracker-import.utils';
+import { projectValidation } from '../utils/project-validation.utils';
+import {
+  buildCreateWorkEntrySchema,
+  CreateWorkEntryRequest,
+} from '../utils/work-entry-validation.utils';
+import {
+  IMPORT_MAX_ROWS,
+  CsvColumnMapping,
+  CsvImportRequest,
+  TrackerImportRequest,
+} from '../utils/import-validation.utils';
+
+export class ImportError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number
+  ) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+type MappedField = keyof CsvColumnMapping;
+
+// Cell values of one row, by the work entry field their column is mapped to
+type RowFields = Partial<Record<MappedField, string>>;
+
+// A row read from the file, with the entry to create when it is valid
+interface ParsedRow {
+  preview: ImportRowPreview;
+  data?: CreateWorkEntryRequest;
+  newProject?: string; // Lowercased name of the project to create for the entry
+}
+
+// Settings shared by every kind of import
+interface ImportOptions {
+  timezone: string;
+  dayStartTime: string;
+  minDate?: string | undefined;
+  dryRun: boolean;
+  mode: BulkMode;
+  // Create projects and clients the user doesn't have yet, instead of rejecting the rows
+  createMissingProjects: boolean;
+  billableTag: string | null; // Tag for billable entries
+}
+
+// Everything needed to validate the rows of one import
+interface ImportContext {
+  options: ImportOptions;
+  // Projects and clients by lowercased name
+  projects: Map<string, { id: string; archived: boolean }>;
+  clients: Map<string, { id: string; archived: boolean }>;
+  // Projects to create, by lowercased name
+  newProjects: Map<string, NewImportProject>;
+  schema: ReturnType<typeof buildCreateWorkEntrySchema>;
+  // Where the next entry of each day starts, for files with only dates and hours
+  dayCursors: Map<string, Date>;
+}
+
+// A time of day without a date, e.g. "09:30" next to a separate date column
+const timeOnlyPattern = /^(\d{1,2}):([0-5]\d)(?::([0-5]\d))?$/;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Parse a duration in hours: decimal ("1.5", "1,5") or hours and minutes ("1:30")
+ */
+function parseHours(value: string): number | null {
+  const trimmed = value.trim();
+  const clock = /^(\d+):([0-5]\d)$/.exec(trimmed);
+
+  const hours = clock
+    ? Number(clock[1]) + Number(clock[2]) / 60
+    : /^\d+(?:[.,]\d+)?$/.test(trimmed)
+      ? Number(trimmed.replace(',', '.'))
+      : NaN;
+
+  return hours > 0 ? hours : null;
+}
+
+export class ImportService {
+  /**
+   * Find the column position for each mapped field
+   */
+  private resolveColumns(
+    mapping: CsvColumnMapping,
+    header: CsvRecord | undefined
+  ): Partial<Record<MappedField, number>> {
+    const columns: Partial<Record<MappedField, number>> = {};
+
+    for (const [field, column] of Object.entries(mapping) as [MappedField, string | number][]) {
+      if (typeof column === 'number') {
+        columns[field] = column;
+        continue;
+      }
+
+      const index = (header?.values ?? []).findIndex(
+        (name) => name.trim().toLowerCase() === column.toLowerCase()
+      );
+
+      if (index === -1) {
+        throw new ImportError(
+          `Column "${column}" not found in the header row`,
+          'INVALID_MAPPING',
+          400
+        );
+      }
+
+      columns[field] = index;
+    }
+
+    return columns;
+  }
+
+  /**
+   * Read a start or end time, combining a time of day with the row's date column
+   * `dayOffset` moves a time of day to a later date, for entries that cross midnight
+   */
+  private readDateTime(
+    value: string,
+    date: string | undefined,
+    request: CsvImportRequest,
+    dayOffset = 0
+  ): Date | null {
+    const time = timeOnlyPattern.exec(value.trim());
+
+    if (!time) {
+      return resolveDateTime(value, request.timezone, request.dateFormat);
+    }
+
+    const day = date !== undefined ? parseLocalDateTime(date, request.dateFormat) : null;
+    const hour = Number(time[1]);
+
+    if (!day || hour > 23) {
+      return null;
+    }
+
+    return zonedTimeToUtc(
+      {
+        ...day,
+        day: day.day + dayOffset,
+        hour,
+        minute: Number(time[2]),
+        second: Number(time[3] ?? 0),
+      },
+      request.timezone
+    );
+  }
+
+  /**
+   * Read when a row's entry took place: start and end, or a date and hours
+   */
+  private readCsvTiming(
+    fields: RowFields,
+    request: CsvImportRequest,
+    errors: ImportRowError[]
+  ): ImportTiming | null {
+    if (request.mapping.startTime !== undefined && request.mapping.endTime !== undefined) {
+      const startValue = fields.startTime ?? '';
+      const endValue = fields.endTime ?? '';
+      const startTime = this.readDateTime(startValue, fields.date, request);
+      let endTime = this.readDateTime(endValue, fields.date, request);
+
+      // A time of day earlier than the start means the entry ran past midnight
+      if (startTime && endTime && endTime <= startTime && timeOnlyPattern.test(endValue.trim())) {
+        endTime = this.readDateTime(endValue, fields.date, request, 1);
+      }
+
+      if (!startTime) {
+        errors.push({ field: 'startTime', message: `Unrecognised start time "${startValue}"` });
+      }
+      if (!endTime) {
+        errors.push({ field: 'endTime', message: `Unrecognised end time "${endValue}"` });
+      }
+
+      return startTime && endTime ? { startTime, endTime } : null;
+    }
+
+    const dateValue = fields.date ?? '';
+    const hoursValue = fields.hours ?? '';
+    const day = parseLocalDateTime(dateValue, request.dateFormat);
+    const hours = parseHours(hoursValue);
+
+    if (!day) {
+      errors.push({ field: 'date', message: `Unrecognised date "${dateValue}"` });
+    }
+    if (hours === null) {
+      errors.push({ field: 'hours', message: `Unrecognised hours "${hoursValue}"` });
+    }
+
+    return day && hours !== null ? { date: day, hours } : null;
+  }
+
+  /**
+   * Turn a CSV record into an import row using the column mapping
+   */
+  private readCsvRow(
+    record: CsvRecord,
+    columns: Partial<Record<MappedField, number>>,
+    request: CsvImportRequest
+  ): ImportSourceRow {
+    const fields: RowFields = {};
+    for (const [field, index] of Object.entries(columns) as [MappedField, number][]) {
+      fields[field] = (record.values[index] ?? '').trim();
+    }
+
+    const errors: ImportRowError[] = [];
+
+    return {
+      line: record.line,
+      timing: this.readCsvTiming(fields, request, errors),
+      description: fields.description ?? '',
+      project: fields.project || null,
+      client: null,
+      tags: (fields.tags ?? '')
+        .split(request.tagSeparator)
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+      billable: false,
+      errors,
+    };
+  }
+
+  /**
+   * Work out when an entry starts and ends
+   * With only a date and hours, entries on the same day are placed back to back from dayStartTime
+   */
+  private placeEntry(
+    timing: ImportTiming,
+    { options, dayCursors }: ImportContext
+  ): { startTime: Date; endTime: Date } {
+    if ('startTime' in timing) {
+      return timing;
+    }
+
+    const { date, hours } = timing;
+    const dayKey = `${date.year}-${date.month}-${date.day}`;
+    const [startHour, startMinute] = options.dayStartTime.split(':').map(Number);
+    const startTime =
+      dayCursors.get(dayKey) ??
+      zonedTimeToUtc(
+        { ...date, hour: startHour ?? 9, minute: startMinute ?? 0, second: 0 },
+        options.timezone
+      );
+    const endTime = new Date(startTime.getTime() + Math.round(hours * HOUR_MS));
+
+    dayCursors.set(dayKey, endTime);
+
+    return { startTime, endTime };
+  }
+
+  /**
+   * Find the project for a row, or note the one to create for it
+   */
+  private resolveProject(
+    row: ImportSourceRow,
+    context: ImportContext,
+    errors: ImportRowError[]
+  ): { projectId: string | null; newProject?: string } {
+    if (!row.project) {
+      return { projectId: null };
+    }
+
+    const key = row.project.toLowerCase();
+    const project = context.projects.get(key);
+
+    if (project && !project.archived) {
+      return { projectId: project.id };
+    }
+
+    if (project || !context.options.createMissingProjects) {
+      errors.push({ field: 'project', message: `Project "${row.project}" not found or archived` });
+      return { projectId: null };
+    }
+
+    const name = projectValidation.name.safeParse(row.project);
+    if (!name.success) {
+      errors.push({ field: 'project', message: name.error.errors[0]!.message });
+      return { projectId: null };
+    }
+
+    if (row.client) {
+      const client = context.clients.get(row.client.toLowerCase());
+      const clientName = projectValidation.name.safeParse(row.client);
+
+      if (client?.archived) {
+        errors.push({ field: 'client', message: `Client "${row.client}" is archived` });
+        return { projectId: null };
+      }
+      if (!clientName.success) {
+        errors.push({ field: 'client', message: clientName.error.errors[0]!.message });
+        return { projectId: null };
+      }
+    }
+
+    // The first row naming a project decides its client
+    if (!context.newProjects.has(key)) {
+      context.newProjects.set(key, { name: name.data, client: row.client });
+    }
+
+    return { projectId: null, newProject: key };
+  }
+
+  /**
+   * Validate an import row like a manually created work entry
+   */
+  private validateRow(row: ImportSourceRow, context: ImportContext): ParsedRow {
+    const errors = [...row.errors];
+    const { projectId, newProject } = this.resolveProject(row, context, errors);
+    const tags =
+      row.billable && context.options.billableTag
+        ? [...row.tags, context.options.billableTag]
+        : row.tags;
+
+    if (!row.timing) {
+      return { preview: { line: row.line, status: 'invalid', entry: null, errors } };
+    }
+
+    const range = this.placeEntry(row.timing, context);
+    const candidate = {
+      startTime: range.startTime.toISOString(),
+      endTime: range.endTime.toISOString(),
+      description: row.description,
+      ...(projectId && { projectId }),
+      ...(tags.length > 0 && { tags }),
+    };
+
+    const parsed = context.schema.safeParse(candidate);
+
+    if (!parsed.success) {
+      errors.push(
+        ...parsed.error.errors.map((issue) => ({
+          field: issue.path.length > 0 ? issue.path.join('.') : null,
+          message: issue.message,
+        }))
+      );
+    }
+
+    const entry: ImportedEntry = {
+      startTime: candidate.startTime,
+      endTime: candidate.endTime,
+      description: parsed.success ? parsed.data.description : candidate.description,
+      projectId,
+      tags: parsed.success ? (parsed.data.tags ?? []) : tags,
+    };
+
+    if (!parsed.success || errors.length > 0) {
+      return { preview: { line: row.line, status: 'invalid', entry, errors } };
+    }
+
+    if (newProject) {
+      return {
+        preview: {
+          line: row.line,
+          status: 'valid',
+          entry,
+          newProject: context.newProjects.get(newProject)!.name,
+        },
+        data: parsed.data,
+        newProject,
+      };
+    }
+
+    return { preview: { line: row.line, status: 'valid', entry }, data: parsed.data };
+  }
+
+  /**
+   * Mark rows that repeat an existing entry or an earlier row, and list overlapping entries
+   * Rows count as duplicates when they have the same start and end time
+   */
+  private async markDuplicatesAndConflicts(userId: string, rows: ParsedRow[]): Promise<void> {
+    const validRows = rows.filter((row) => row.data);
+
+    if (validRows.length === 0) {
+      return;
+    }
+
+    const starts = validRows.map((row) => new Date(row.data!.startTime).getTime());
+    const ends = validRows.map((row) => new Date(row.data!.endTime).getTime());
+
+    const existing = await prisma.workEntry.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        startTime: { lt: new Date(Math.max(...ends)) },
+        // A running timer has no end time yet, so it overlaps anything after its start
+        OR: [{ endTime: { gt: new Date(Math.min(...starts)) } }, { endTime: null }],
+      },
+      select: { id: true, startTime: true, endTime: true, description: true },
+      orderBy: { startTime: 'asc' },
+    });
+
+    const rangeKey = (startTime: Date, endTime: Date | null) =>
+      `${startTime.getTime()}-${endTime?.getTime() ?? 'running'}`;
+
+    const existingByRange = new Map(
+      existing.map((entry) => [rangeKey(entry.startTime, entry.endTime), entry.id])
+    );
+    const rowsByRange = new Map<string, number>();
+
+    for (const row of validRows) {
+      const range = {
+        startTime: new Date(row.data!.startTime),
+        endTime: new Date(row.data!.endTime),
+      };
+      const key = rangeKey(range.startTime, range.endTime);
+      const existingId = existingByRange.get(key);
+      const earlierLine = rowsByRange.get(key);
+
+      if (existingId || earlierLine !== undefined) {
+        row.preview.status = 'duplicate';
+        row.preview.duplicateOf = existingId ? { entryId: existingId } : { line: earlierLine! };
+        delete row.data;
+        delete row.preview.newProject;
+        continue;
+      }
+
+      rowsByRange.set(key, row.preview.line);
+
+      const conflicts = existing.filter((entry) => rangesOverlap(range, entry));
+      if (conflicts.length > 0) {
+        row.preview.conflicts = conflicts.map((entry) => ({
+          id: entry.id,
+          startTime: entry.startTime.toISOString(),
+          endTime: entry.endTime ? entry.endTime.toISOString() : null,
+          description: entry.description,
+        }));
+      }
+    }
+  }
+
+  /**
+   * Create the projects, and their clients, that valid rows are assigned to
+   */
+  private async createNewProjects(
+    userId: string,
+    rows: ParsedRow[],
+    context: ImportContext
+  ): Promise<void> {
+    const projectIds = new Map<string, string>();
+    const clientIds = new Map(
+      [...context.clients].map(([key, client]) => [key, client.id] as [string, string])
+    );
+
+    for (const row of rows) {
+      if (!row.data || !row.newProject) {
+        continue;
+      }
+
+      let projectId = projectIds.get(row.newProject);
+
+      if (!projectId) {
+        const { name, client } = context.newProjects.get(row.newProject)!;
+        let clientId = client ? clientIds.get(client.toLowerCase()) : undefined;
+
+        if (client && !clientId) {
+          clientId = (await clientService.createClient(userId, { name: client })).id;
+          clientIds.set(client.toLowerCase(), clientId);
+        }
+
+        projectId = (
+          await projectService.createProject(userId, { name, ...(clientId && { clientId }) })
+        ).id;
+        projectIds.set(row.newProject, projectId);
+      }
+
+      row.data.projectId = projectId;
+    }
+  }
+
+  /**
+   * Validate import rows and, unless it's a dry run, create the entries
+   * Valid rows are created through the bulk operation pipeline; duplicates are always skipped,
+   * and in atomic mode nothing is imported while any row is invalid.
+   */
+  private async runImport(
+    userId: string,
+    sourceRows: ImportSourceRow[],
+    options: ImportOptions,
+    revisionContext: RevisionContext,
+    overlapPolicy: OverlapPolicy
+  ): Promise<ImportResponse> {
+    if (sourceRows.length === 0) {
+      throw new ImportError('The file has no rows to import', 'INVALID_FILE', 400);
+    }
+
+    if (sourceRows.length > IMPORT_MAX_ROWS) {
+      throw new ImportError(
+        `A single import can contain at most ${IMPORT_MAX_ROWS} rows`,
+        'TOO_MANY_ROWS',
+        400
+      );
+    }
+
+    // Projects and clients are matched by name, ignoring case
+    const [userProjects, userClients] = await Promise.all([
+      prisma.project.findMany({
+        where: { userId },
+        select: { id: true, name: true, archivedAt: true },
+      }),
+      prisma.client.findMany({
+        where: { userId },
+        select: { id: true, name: true, archivedAt: true },
+      }),
+    ]);
+
+    const byName = (records: { id: string; name: string; archivedAt: Date | null }[]) =>
+      new Map(
+        records.map((record) => [
+          record.name.toLowerCase(),
+          { id: record.id, archived: record.archivedAt !== null },
+        ])
+      );
+
+    const context: ImportContext = {
+      options,
+      projects: byName(userProjects),
+      clients: byName(userClients),
+      newProjects: new Map(),
+      schema: buildCreateWorkEntrySchema(
+        options.minDate ? { minTime: new Date(options.minDate) } : {}
+      ),
+      dayCursors: new Map(),
+    };
+
+    const rows = sourceRows.map((row) => this.validateRow(row, context));
+
+    await this.markDuplicatesAndConflicts(userId, rows);
+
+    const previews = rows.map((row) => row.preview);
+    const newProjectKeys = new Set(rows.filter((row) => row.data).map((row) => row.newProject));
+    const newProjects = [...context.newProjects]
+      .filter(([key]) => newProjectKeys.has(key))
+      .map(([, project]) => project);
+
+    const response: ImportResponse = {
+      dryRun: options.dryRun,
+      summary: {
+        totalRows: previews.length,
+        validRows: previews.filter((row) => row.status === 'valid').length,
+        invalidRows: previews.filter((row) => row.status === 'invalid').length,
+        duplicateRows: previews.filter((row) => row.status === 'duplicate').length,
+        conflictingRows: previews.filter((row) => row.conflicts).length,
+      },
+      rows: previews,
+      ...(options.createMissingProjects && { newProjects }),
+    };
+
+    if (options.dryRun || (options.mode === 'atomic' && response.summary.invalidRows > 0)) {
+      return response;
+    }
+
+    // Projects are created before the entries, so they remain if the entries then fail
+    await this.createNewProjects(userId, rows, context);
+
+    // Bulk results are keyed by line number
+    const operations: IndexedBulkOperation[] = rows
+      .filter((row) => row.data)
+      .map((row) => ({ index: row.preview.line, operation: { op: 'create', data: row.data! } }));
+
+    response.result = await workEntryService.bulkWorkEntries(
+      userId,
+      options.mode,
+      operations,
+      revisionContext,
+      [],
+      overlapPolicy
+    );
+
+    return response;
+  }
+
+  /**
+   * Import work entries from CSV using a column mapping
+   * Projects must already exist.
+   */
+  async importCsv(
+    userId: string,
+    request: CsvImportRequest,
+    revisionContext: RevisionContext,
+    overlapPolicy: OverlapPolicy = config.workEntries.overlapPolicy
+  ): Promise<ImportResponse> {
+    let records: CsvRecord[];
+    try {
+      records = parseCsv(request.csv, request.delimiter);
+    } catch (error) {
+      if (error instanceof CsvParseError) {
+        throw new ImportError(error.message, 'INVALID_CSV', 400);
+      }
+      throw error;
+    }
+
+    const header = request.hasHeader ? records.shift() : undefined;
+
+    if (records.length === 0) {
+      throw new ImportError('The CSV file has no rows to import', 'INVALID_CSV', 400);
+    }
+
+    const columns = this.resolveColumns(request.mapping, header);
+
+    return this.runImport(
+      userId,
+      records.map((record) => this.readCsvRow(record, columns, request)),
+      { ...request, createMissingProjects: false, billableTag: null },
+      revisionContext,
+      overlapPolicy
+    );
+  }
+
+  /**
+   * Import a Toggl Track, Clockify or Harvest export file
+   * The tracker and file format are detected from the content. Fields without an equivalent
+   * in work entries are reported rather than imported.
+   */
+  async importTrackerExport(
+    userId: string,
+    request: TrackerImportRequest,
+    revisionContext: RevisionContext,
+    overlapPolicy: OverlapPolicy = config.workEntries.overlapPolicy
+  ): Promise<TrackerImportResponse> {
+    let file: TrackerExport;
+    try {
+      file = readTrackerExport(request.content, {
+        timezone: request.timezone,
+        ...(request.dateFormat && { dateFormat: request.dateFormat }),
+      });
+    } catch (error) {
+      if (error instanceof TrackerFormatError) {
+        throw new ImportError(error.message, 'INVALID_FILE', 400);
+      }
+      throw error;
+    }
+
+    const response = await this.runImport(
+      userId,
+      file.rows,
+      request,
+      revisionContext,
+      overlapPolicy
+    );
+
+    return { source: file.source, unmappedFields: file.unmappedFields, ...response };
+  }
+}
+
+export const importService = new ImportService();
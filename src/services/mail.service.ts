@@ -0,0 +1,108 @@
+/**
+ * Mail Service
+ * Sends transactional email through a pluggable transport
+ * Development and test write messages to a local outbox; production can plug in a real transport
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { mailConfig } from '../config/app.config';
+import type { MailMessage, MailTransport, OutgoingMail } from '../types/mail.types';
+
+/**
+ * Writes each message as a JSON file to a local directory
+ */
+export class OutboxMailTransport implements MailTransport {
+  constructor(private readonly outboxDir: string) {}
+
+  async send(mail: OutgoingMail): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+
+    const fileName = `${Date.now()}-${randomUUID()}.json`;
+    const payload = { ...mail, sentAt: new Date().toISOString() };
+
+    await fs.writeFile(path.join(this.outboxDir, fileName), JSON.stringify(payload, null, 2));
+  }
+}
+
+/**
+ * Logs each message to the console
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(mail: OutgoingMail): Promise<void> {
+    console.log('📧 Outgoing Mail', {
+      to: mail.to,
+      subject: mail.subject,
+      text: mail.text,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+function createDefaultTransport(): MailTransport {
+  return mailConfig.transport === 'console'
+    ? new ConsoleMailTransport()
+    : new OutboxMailTransport(mailConfig.outboxDir);
+}
+
+class MailService {
+  private transport: MailTransport = createDefaultTransport();
+
+  /**
+   * Replace the transport (e.g. an SMTP or API-backed transport in production)
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Send a message using the configured sender address
+   */
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: mailConfig.from });
+  }
+
+  /**
+   * Send a password reset link
+   */
+  async sendPasswordResetEmail(to: string, token: string, expiresAt: Date): Promise<void> {
+    const resetUrl = `${mailConfig.appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Reset your BloomTech Work Tracker password',
+      text: [
+        'We received a request to reset your password.',
+        '',
+        `Reset it here: ${resetUrl}`,
+        '',
+        `This link expires at ${expiresAt.toISOString()} and can only be used once.`,
+        'If you did not request a reset, you can ignore this email.',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Send an email address verification link
+   */
+  async sendEmailVerificationEmail(to: string, token: string, expiresAt: Date): Promise<void> {
+    const verifyUrl = `${mailConfig.appUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Verify your BloomTech Work Tracker email address',
+      text: [
+        'Welcome to BloomTech Work Tracker!',
+        '',
+        `Confirm your email address here: ${verifyUrl}`,
+        '',
+        `This link expires at ${expiresAt.toISOString()}.`,
+        'If you did not create an account, you can ignore this email.',
+      ].join('\n'),
+    });
+  }
+}
+
+// Export singleton instance
+export const mailService = new MailService();
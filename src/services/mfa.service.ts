@@ -0,0 +1,134 @@
+import { prisma } from '../config/database.config';
+import { mfaConfig } from '../config/app.config';
+import {
+  encryptSecret,
+  decryptSecret,
+  generateSecureToken,
+  hashToken,
+} from '../utils/crypto.utils';
+import { generateTotpSecret, buildOtpauthUri, verifyTotp } from '../utils/totp.utils';
+import type { MfaSetupResponse } from '../types/auth.types';
+
+export interface MfaUserState {
+  id: string;
+  mfaSecret: string | null;
+  mfaLastUsedStep: number | null;
+}
+
+/**
+ * Normalise a recovery code as typed by a user (case and whitespace are ignored)
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/\s/g, '').toLowerCase();
+}
+
+/**
+ * MFA Store
+ * Manages encrypted TOTP secrets and hashed one-time recovery codes
+ */
+export class MfaService {
+  /**
+   * Generate and store a new (not yet enabled) TOTP secret for a user
+   * Replaces any secret from an unfinished enrollment
+   */
+  static async beginEnrollment(userId: string, email: string): Promise<MfaSetupResponse> {
+    const secret = generateTotpSecret();
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        mfaSecret: encryptSecret(secret, mfaConfig.encryptionKey),
+        mfaLastUsedStep: null,
+      },
+    });
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, email, mfaConfig.issuer),
+    };
+  }
+
+  /**
+   * Check an authenticator code against the user's secret
+   * Each code is accepted at most once - the matching time step is claimed atomically
+   */
+  static async verifyCode(user: MfaUserState, code: string): Promise<boolean> {
+    if (!user.mfaSecret) {
+      return false;
+    }
+
+    const secret = decryptSecret(user.mfaSecret, mfaConfig.encryptionKey);
+    const step = verifyTotp(secret, code);
+
+    if (step === null || (user.mfaLastUsedStep !== null && step <= user.mfaLastUsedStep)) {
+      return false;
+    }
+
+    const claimed = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }],
+      },
+      data: { mfaLastUsedStep: step },
+    });
+
+    return claimed.count > 0;
+  }
+
+  /**
+   * Turn MFA on once the user has confirmed their authenticator works
+   */
+  static async enable(userId: string): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { mfaEnabled: true, mfaEnabledAt: new Date() },
+    });
+  }
+
+  /**
+   * Turn MFA off and remove the secret and all recovery codes
+   */
+  static async disable(userId: string): Promise<void> {
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: { mfaEnabled: false, mfaEnabledAt: null, mfaSecret: null, mfaLastUsedStep: null },
+      }),
+      prisma.mfaRecoveryCode.deleteMany({ where: { userId } }),
+    ]);
+  }
+
+  /**
+   * Replace a user's recovery codes with a fresh set
+   * The plain codes are returned once and only their hashes are stored
+   */
+  static async generateRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: mfaConfig.recoveryCodeCount }, () => generateSecureToken(5));
+
+    await prisma.$transaction([
+      prisma.mfaRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.mfaRecoveryCode.createMany({
+        data: codes.map((code) => ({ userId, codeHash: hashToken(code) })),
+      }),
+    ]);
+
+    return codes;
+  }
+
+  /**
+   * Use up a recovery code
+   * Returns false if the code does not exist or has already been used
+   */
+  static async consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+    const result = await prisma.mfaRecoveryCode.updateMany({
+      where: {
+        userId,
+        codeHash: hashToken(normalizeRecoveryCode(code)),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    });
+
+    return result.count > 0;
+  }
+}
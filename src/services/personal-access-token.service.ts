@@ -0,0 +1,206 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.config';
+import { generateSecureToken, hashToken } from '../utils/crypto.utils';
+import type { PersonalAccessTokenInfo, PersonalAccessTokenScope } from '../types/auth.types';
+
+// Distinguishes personal access tokens from JWTs in the Authorization header
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'btpat_';
+
+// Characters of the token kept in plain text so users can tell their tokens apart
+const DISPLAY_PREFIX_LENGTH = PERSONAL_ACCESS_TOKEN_PREFIX.length + 6;
+
+// Avoid a write on every request - only refresh lastUsedAt once it is this stale
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export interface AuthenticatedPersonalAccessToken {
+  id: string;
+  userId: string;
+  scopes: PersonalAccessTokenScope[];
+  lastUsedAt: Date | null;
+}
+
+const personalAccessTokenSelect = {
+  id: true,
+  name: true,
+  tokenPrefix: true,
+  scopes: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  createdAt: true,
+};
+
+/**
+ * Narrow stored scopes (a plain text array in the database) to the known scope type
+ */
+function toInfo(record: {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: string[];
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  createdAt: Date;
+}): PersonalAccessTokenInfo {
+  return { ...record, scopes: record.scopes as PersonalAccessTokenScope[] };
+}
+
+/**
+ * Check whether a bearer token is a personal access token rather than a JWT
+ */
+export function isPersonalAccessToken(token: string): boolean {
+  return token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX);
+}
+
+/**
+ * Personal Access Token Store
+ * Long-lived, scoped tokens for scripts and integrations - only the hash is stored
+ */
+export class PersonalAccessTokenService {
+  /**
+   * Create a token and return the raw value (shown to the user once)
+   */
+  static async create(
+    userId: string,
+    data: { name: string; scopes: PersonalAccessTokenScope[]; expiresAt: Date | null }
+  ): Promise<{ token: string; personalAccessToken: PersonalAccessTokenInfo }> {
+    const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${generateSecureToken()}`;
+
+    const record = await prisma.personalAccessToken.create({
+      data: {
+        userId,
+        name: data.name,
+        scopes: data.scopes,
+        expiresAt: data.expiresAt,
+        tokenHash: hashToken(token),
+        tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      },
+      select: personalAccessTokenSelect,
+    });
+
+    return { token, personalAccessToken: toInfo(record) };
+  }
+
+  /**
+   * List a user's tokens that have not been revoked, newest first
+   */
+  static async list(userId: string): Promise<PersonalAccessTokenInfo[]> {
+    const records = await prisma.personalAccessToken.findMany({
+      where: { userId, revokedAt: null },
+      select: personalAccessTokenSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return records.map(toInfo);
+  }
+
+  /**
+   * Get one of a user's tokens
+   */
+  static async find(userId: string, tokenId: string): Promise<PersonalAccessTokenInfo | null> {
+    const record = await prisma.personalAccessToken.findFirst({
+      where: { id: tokenId, userId, revokedAt: null },
+      select: personalAccessTokenSelect,
+    });
+
+    return record ? toInfo(record) : null;
+  }
+
+  /**
+   * Rename one of a user's tokens
+   * Returns null if the token does not belong to the user or has been revoked
+   */
+  static async rename(
+    userId: string,
+    tokenId: string,
+    name: string
+  ): Promise<PersonalAccessTokenInfo | null> {
+    const result = await prisma.personalAccessToken.updateMany({
+      where: { id: tokenId, userId, revokedAt: null },
+      data: { name },
+    });
+
+    if (result.count === 0) {
+      return null;
+    }
+
+    return PersonalAccessTokenService.find(userId, tokenId);
+  }
+
+  /**
+   * Revoke one of a user's tokens
+   * Returns false if the token does not belong to the user or is already revoked
+   */
+  static async revoke(userId: string, tokenId: string): Promise<boolean> {
+    const result = await prisma.personalAccessToken.updateMany({
+      where: { id: tokenId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Revoke all of a user's tokens, e.g. when an admin locks the account down
+   */
+  static async revokeAll(
+    userId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<number> {
+    const result = await client.personalAccessToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Resolve a raw token to its owner and scopes
+   * Returns null for unknown, revoked or expired tokens
+   */
+  static async authenticate(token: string): Promise<AuthenticatedPersonalAccessToken | null> {
+    const record = await prisma.personalAccessToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      select: {
+        id: true,
+        userId: true,
+        scopes: true,
+        lastUsedAt: true,
+        expiresAt: true,
+        revokedAt: true,
+      },
+    });
+
+    if (!record || record.revokedAt || (record.expiresAt && record.expiresAt <= new Date())) {
+      return null;
+    }
+
+    return {
+      id: record.id,
+      userId: record.userId,
+      scopes: record.scopes as PersonalAccessTokenScope[],
+      lastUsedAt: record.lastUsedAt,
+    };
+  }
+
+  /**
+   * Record that a token was used, throttled to one write per interval
+   */
+  static async touch(
+    token: Pick<AuthenticatedPersonalAccessToken, 'id' | 'lastUsedAt'>
+  ): Promise<void> {
+    const now = new Date();
+
+    if (
+      token.lastUsedAt &&
+      now.getTime() - token.lastUsedAt.getTime() < LAST_USED_UPDATE_INTERVAL_MS
+    ) {
+      return;
+    }
+
+    await prisma.personalAccessToken.update({
+      where: { id: token.id },
+      data: { lastUsedAt: now },
+    });
+  }
+}
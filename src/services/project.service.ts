@@ -0,0 +1,233 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.config';
+import { cacheService } from './cache.service';
+import type { ProjectResponse } from '../types/project.types';
+import type {
+  CreateProjectRequest,
+  UpdateProjectRequest,
+  ProjectFilters,
+} from '../utils/project-validation.utils';
+
+export class ProjectError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number
+  ) {
+    super(message);
+    this.name = 'ProjectError';
+  }
+}
+
+// Optimized field selection for projects
+const projectSelectFields = {
+  id: true,
+  name: true,
+  color: true,
+  clientId: true,
+  archivedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  client: { select: { id: true, name: true } },
+};
+
+type ProjectRecord = Prisma.ProjectGetPayload<{ select: typeof projectSelectFields }>;
+
+/**
+ * Check whether an error is a unique constraint violation (duplicate name)
+ */
+export function isUniqueConstraintError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+export class ProjectService {
+  /**
+   * Convert a Prisma Project to API response format
+   */
+  private formatProject(project: ProjectRecord): ProjectResponse {
+    return {
+      id: project.id,
+      name: project.name,
+      color: project.color,
+      clientId: project.clientId,
+      client: project.client,
+      archived: project.archivedAt !== null,
+      archivedAt: project.archivedAt?.toISOString() ?? null,
+      createdAt: project.createdAt.toISOString(),
+      updatedAt: project.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Make sure a client belongs to the user and is not archived before projects are added to it
+   */
+  private async assertAssignableClient(userId: string, clientId: string): Promise<void> {
+    const client = await prisma.client.findFirst({
+      where: { id: clientId, userId, archivedAt: null },
+      select: { id: true },
+    });
+
+    if (!client) {
+      throw new ProjectError('Client not found or archived', 'INVALID_CLIENT', 400);
+    }
+  }
+
+  /**
+   * List a user's projects, optionally including archived ones
+   */
+  async listProjects(userId: string, filters: ProjectFilters): Promise<ProjectResponse[]> {
+    const projects = await prisma.project.findMany({
+      where: {
+        userId,
+        ...(!filters.includeArchived && { archivedAt: null }),
+        ...(filters.clientId && { clientId: filters.clientId }),
+      },
+      select: projectSelectFields,
+      orderBy: { name: 'asc' },
+    });
+
+    return projects.map((project) => this.formatProject(project));
+  }
+
+  /**
+   * Get a specific project by ID
+   */
+  async getProjectById(userId: string, projectId: string): Promise<ProjectResponse> {
+    const project = await prisma.project.findFirst({
+      where: { id: projectId, userId },
+      select: projectSelectFields,
+    });
+
+    if (!project) {
+      throw new ProjectError('Project not found', 'PROJECT_NOT_FOUND', 404);
+    }
+
+    return this.formatProject(project);
+  }
+
+  /**
+   * Create a project, optionally for one of the user's clients
+   */
+  async createProject(userId: string, data: CreateProjectRequest): Promise<ProjectResponse> {
+    if (data.clientId) {
+      await this.assertAssignableClient(userId, data.clientId);
+    }
+
+    try {
+      const project = await prisma.project.create({
+        data: {
+          userId,
+          name: data.name,
+          clientId: data.clientId ?? null,
+          color: data.color ?? null,
+        },
+        select: projectSelectFields,
+      });
+
+      return this.formatProject(project);
+    } catch (error) {
+      if (isUniqueConstraintError(error)) {
+        throw new ProjectError(
+          'A project with this name already exists',
+          'PROJECT_ALREADY_EXISTS',
+          409
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update a project - rename, move to another client, recolour or archive
+   */
+  async updateProject(
+    userId: string,
+    projectId: string,
+    data: UpdateProjectRequest
+  ): Promise<ProjectResponse> {
+    const existing = await prisma.project.findFirst({
+      where: { id: projectId, userId },
+      select: { id: true, clientId: true, archivedAt: true },
+    });
+
+    if (!existing) {
+      throw new ProjectError('Project not found', 'PROJECT_NOT_FOUND', 404);
+    }
+
+    if (data.clientId && data.clientId !== existing.clientId) {
+      await this.assertAssignableClient(userId, data.clientId);
+    }
+
+    // Keep the original archive date when an archived project is archived again
+    const archivedAt =
+      data.archived === undefined
+        ? undefined
+        : data.archived
+          ? (existing.archivedAt ?? new Date())
+          : null;
+
+    try {
+      const project = await prisma.project.update({
+        where: { id: projectId },
+        data: {
+          ...(data.name !== undefined && { name: data.name }),
+          ...(data.clientId !== undefined && { clientId: data.clientId }),
+          ...(data.color !== undefined && { color: data.color }),
+          ...(archivedAt !== undefined && { archivedAt }),
+        },
+        select: projectSelectFields,
+      });
+
+      // Work entry responses embed the project name and client
+      cacheService.invalidateUserCache(userId);
+
+      return this.formatProject(project);
+    } catch (error) {
+      if (isUniqueConstraintError(error)) {
+        throw new ProjectError(
+          'A project with this name already exists',
+          'PROJECT_ALREADY_EXISTS',
+          409
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a project - its work entries are kept and become unassigned
+   */
+  async deleteProject(userId: string, projectId: string): Promise<void> {
+    const result = await prisma.project.deleteMany({
+      where: { id: projectId, userId },
+    });
+
+    if (result.count === 0) {
+      throw new ProjectError('Project not found', 'PROJECT_NOT_FOUND', 404);
+    }
+
+    cacheService.invalidateUserCache(userId);
+  }
+
+  /**
+   * Make sure a project can have work entries logged against it
+   * The project must belong to the user and must not be archived
+   * Pass a transaction client to check within a batch of work entry changes
+   */
+  async assertAssignableProject(
+    userId: string,
+    projectId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    const project = await client.project.findFirst({
+      where: { id: projectId, userId, archivedAt: null },
+      select: { id: true },
+    });
+
+    if (!project) {
+      throw new ProjectError('Project not found or archived', 'INVALID_PROJECT', 400);
+    }
+  }
+}
+
+export const projectService = new ProjectService();
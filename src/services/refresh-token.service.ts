@@ -0,0 +1,142 @@
+import { prisma } from '../config/database.config';
+import { generateTokenPair, getTokenExpirationTime } from '../utils/jwt.utils';
+import { hashToken } from '../utils/crypto.utils';
+import type { AuthTokens, Role } from '../types/auth.types';
+
+export interface StoredRefreshToken {
+  id: string;
+  userId: string;
+  sessionId: string;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  replacedById: string | null;
+}
+
+const storedRefreshTokenSelect = {
+  id: true,
+  userId: true,
+  sessionId: true,
+  expiresAt: true,
+  revokedAt: true,
+  replacedById: true,
+};
+
+/**
+ * Resolve the expiry of a signed refresh token as a Date
+ */
+function getRefreshTokenExpiry(refreshToken: string): Date {
+  const exp = getTokenExpirationTime(refreshToken);
+  if (!exp) {
+    throw new Error('Refresh token is missing an expiration time');
+  }
+
+  return new Date(exp * 1000);
+}
+
+/**
+ * Refresh Token Store
+ * Persists hashed refresh tokens so they can be rotated, revoked and checked for reuse
+ */
+export class RefreshTokenService {
+  /**
+   * Generate a token pair for a session and persist the hashed refresh token
+   */
+  static async issueTokens(
+    userId: string,
+    email: string,
+    sessionId: string,
+    role?: Role
+  ): Promise<AuthTokens> {
+    const tokens = generateTokenPair(userId, email, sessionId, role);
+
+    await prisma.refreshToken.create({
+      data: {
+        userId,
+        sessionId,
+        tokenHash: hashToken(tokens.refreshToken),
+        expiresAt: getRefreshTokenExpiry(tokens.refreshToken),
+      },
+    });
+
+    return tokens;
+  }
+
+  /**
+   * Look up a stored refresh token by its raw value
+   */
+  static async findByToken(refreshToken: string): Promise<StoredRefreshToken | null> {
+    return prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      select: storedRefreshTokenSelect,
+    });
+  }
+
+  /**
+   * Replace a stored token with a freshly issued one in the same session
+   * Returns null if the token was already consumed by a concurrent request
+   */
+  static async rotate(
+    stored: StoredRefreshToken,
+    email: string,
+    role?: Role
+  ): Promise<AuthTokens | null> {
+    const tokens = generateTokenPair(stored.userId, email, stored.sessionId, role);
+
+    return prisma.$transaction(async (tx) => {
+      // Claim the old token atomically so it can only be rotated once
+      const claimed = await tx.refreshToken.updateMany({
+        where: { id: stored.id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      const replacement = await tx.refreshToken.create({
+        data: {
+          userId: stored.userId,
+          sessionId: stored.sessionId,
+          tokenHash: hashToken(tokens.refreshToken),
+          expiresAt: getRefreshTokenExpiry(tokens.refreshToken),
+        },
+        select: { id: true },
+      });
+
+      await tx.refreshToken.update({
+        where: { id: stored.id },
+        data: { replacedById: replacement.id },
+      });
+
+      await tx.session.update({
+        where: { id: stored.sessionId },
+        data: { lastUsedAt: new Date() },
+      });
+
+      return tokens;
+    });
+  }
+
+  /**
+   * Revoke every active token issued for a session
+   */
+  static async revokeForSession(sessionId: string): Promise<number> {
+    const result = await prisma.refreshToken.updateMany({
+      where: { sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Remove tokens that have expired (for maintenance)
+   */
+  static async purgeExpired(): Promise<number> {
+    const result = await prisma.refreshToken.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    return result.count;
+  }
+}
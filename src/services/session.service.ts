@@ -0,0 +1,156 @@
+import { prisma } from '../config/database.config';
+import { RefreshTokenService } from './refresh-token.service';
+import type { AuthTokens, Role, SessionContext } from '../types/auth.types';
+
+export interface StoredSession {
+  id: string;
+  userId: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  revokedAt: Date | null;
+}
+
+const storedSessionSelect = {
+  id: true,
+  userId: true,
+  ipAddress: true,
+  userAgent: true,
+  createdAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+};
+
+/**
+ * Sessions that are neither revoked nor expired
+ * A session expires with the last refresh token rotated from it, so each rotation extends it
+ */
+function activeSessionWhere() {
+  return {
+    revokedAt: null,
+    refreshTokens: { some: { revokedAt: null, expiresAt: { gt: new Date() } } },
+  };
+}
+
+// Avoid a write on every request - only refresh lastUsedAt once it is this stale
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Session Store
+ * A session represents one login on one device and owns the refresh tokens rotated from it
+ */
+export class SessionService {
+  /**
+   * Start a new session and issue its first token pair
+   */
+  static async startSession(
+    userId: string,
+    email: string,
+    context: SessionContext,
+    role?: Role
+  ): Promise<{ sessionId: string; tokens: AuthTokens }> {
+    const session = await prisma.session.create({
+      data: {
+        userId,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+      select: { id: true },
+    });
+
+    const tokens = await RefreshTokenService.issueTokens(userId, email, session.id, role);
+
+    return { sessionId: session.id, tokens };
+  }
+
+  /**
+   * Get a session if it exists and has not been revoked or expired
+   */
+  static async getActiveSession(sessionId: string): Promise<StoredSession | null> {
+    return prisma.session.findFirst({
+      where: { id: sessionId, ...activeSessionWhere() },
+      select: storedSessionSelect,
+    });
+  }
+
+  /**
+   * List a user's active sessions, most recently used first
+   */
+  static async listActiveSessions(userId: string): Promise<StoredSession[]> {
+    return prisma.session.findMany({
+      where: { userId, ...activeSessionWhere() },
+      select: storedSessionSelect,
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Count a user's active sessions
+   */
+  static async countActiveSessions(userId: string): Promise<number> {
+    return prisma.session.count({ where: { userId, ...activeSessionWhere() } });
+  }
+
+  /**
+   * Record activity on a session, throttled to one write per interval
+   */
+  static async touch(session: Pick<StoredSession, 'id' | 'lastUsedAt'>): Promise<void> {
+    const now = new Date();
+
+    if (now.getTime() - session.lastUsedAt.getTime() < LAST_USED_UPDATE_INTERVAL_MS) {
+      return;
+    }
+
+    await prisma.session.update({
+      where: { id: session.id },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  /**
+   * Revoke a session and every refresh token issued for it
+   * Returns false if the session does not belong to the user or is already revoked
+   */
+  static async revokeSession(sessionId: string, userId?: string): Promise<boolean> {
+    const result = await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null, ...(userId && { userId }) },
+      data: { revokedAt: new Date() },
+    });
+
+    await RefreshTokenService.revokeForSession(sessionId);
+
+    return result.count > 0;
+  }
+
+  /**
+   * Revoke all of a user's sessions, optionally keeping one (the caller's own)
+   */
+  static async revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    const where = {
+      userId,
+      ...activeSessionWhere(),
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    };
+
+    const sessions = await prisma.session.findMany({ where, select: { id: true } });
+    const sessionIds = sessions.map((session) => session.id);
+
+    if (sessionIds.length === 0) {
+      return 0;
+    }
+
+    await prisma.$transaction([
+      prisma.session.updateMany({
+        where: { id: { in: sessionIds } },
+        data: { revokedAt: new Date() },
+      }),
+      prisma.refreshToken.updateMany({
+        where: { sessionId: { in: sessionIds }, revokedAt: null },
+        data: { revokedAt: new Date() },
+      }),
+    ]);
+
+    return sessionIds.length;
+  }
+}
@@ -0,0 +1,79 @@
+import type { UserSettings } from '@prisma/client';
+import { prisma } from '../config/database.config';
+import { cacheService } from './cache.service';
+import type { UserSettingsResponse, WeekStart } from '../types/settings.types';
+import type { DateFormat } from '../utils/timezone.utils';
+import type { UpdateSettingsRequest } from '../utils/settings-validation.utils';
+
+// Settings for users who haven't changed any, matching the column defaults
+const DEFAULT_SETTINGS: UserSettingsResponse = {
+  timezone: 'UTC',
+  weekStart: 'monday',
+  locale: 'en-US',
+  dateFormat: 'YYYY-MM-DD',
+  defaultEntryMinutes: 60,
+  updatedAt: null,
+};
+
+export class SettingsService {
+  /**
+   * Convert stored settings to API response format
+   */
+  private formatSettings(settings: UserSettings): UserSettingsResponse {
+    return {
+      timezone: settings.timezone,
+      weekStart: settings.weekStart as WeekStart,
+      locale: settings.locale,
+      dateFormat: settings.dateFormat as DateFormat,
+      defaultEntryMinutes: settings.defaultEntryMinutes,
+      updatedAt: settings.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Get a user's settings, falling back to the defaults
+   * Settings are read on every date-filtered request, so they are cached
+   */
+  async getSettings(userId: string): Promise<UserSettingsResponse> {
+    const cacheKey = `settings:${userId}:`;
+    const cachedSettings = cacheService.get<UserSettingsResponse>(cacheKey);
+    if (cachedSettings) {
+      return cachedSettings;
+    }
+
+    const settings = await prisma.userSettings.findUnique({ where: { userId } });
+    const result = settings ? this.formatSettings(settings) : DEFAULT_SETTINGS;
+
+    cacheService.set(cacheKey, result);
+
+    return result;
+  }
+
+  /**
+   * Update a user's settings, storing them the first time they change
+   */
+  async updateSettings(userId: string, data: UpdateSettingsRequest): Promise<UserSettingsResponse> {
+    const changes = {
+      ...(data.timezone !== undefined && { timezone: data.timezone }),
+      ...(data.weekStart !== undefined && { weekStart: data.weekStart }),
+      ...(data.locale !== undefined && { locale: data.locale }),
+      ...(data.dateFormat !== undefined && { dateFormat: data.dateFormat }),
+      ...(data.defaultEntryMinutes !== undefined && {
+        defaultEntryMinutes: data.defaultEntryMinutes,
+      }),
+    };
+
+    const settings = await prisma.userSettings.upsert({
+      where: { userId },
+      create: { userId, ...changes },
+      update: changes,
+    });
+
+    // Cached listings and statistics depend on the time zone
+    cacheService.invalidateUserCache(userId);
+
+    return this.formatSettings(settings);
+  }
+}
+
+export const settingsService = new SettingsService();
@@ -0,0 +1,207 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.config';
+import { cacheService } from './cache.service';
+import { isUniqueConstraintError } from './project.service';
+import type { TagResponse } from '../types/tag.types';
+import type { CreateTagRequest, UpdateTagRequest } from '../utils/tag-validation.utils';
+
+export class TagError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number
+  ) {
+    super(message);
+    this.name = 'TagError';
+  }
+}
+
+// Optimized field selection for tags
+const tagSelectFields = {
+  id: true,
+  name: true,
+  color: true,
+  createdAt: true,
+  updatedAt: true,
+  // Entries in the trash don't count
+  _count: { select: { workEntries: { where: { workEntry: { deletedAt: null } } } } },
+};
+
+type TagRecord = Prisma.TagGetPayload<{ select: typeof tagSelectFields }>;
+
+export class TagService {
+  /**
+   * Convert a Prisma Tag to API response format
+   */
+  private formatTag(tag: TagRecord): TagResponse {
+    return {
+      id: tag.id,
+      name: tag.name,
+      color: tag.color,
+      entryCount: tag._count.workEntries,
+      createdAt: tag.createdAt.toISOString(),
+      updatedAt: tag.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Find one of the user's tags or fail with TAG_NOT_FOUND
+   */
+  private async findTag(userId: string, tagId: string): Promise<TagRecord> {
+    const tag = await prisma.tag.findFirst({
+      where: { id: tagId, userId },
+      select: tagSelectFields,
+    });
+
+    if (!tag) {
+      throw new TagError('Tag not found', 'TAG_NOT_FOUND', 404);
+    }
+
+    return tag;
+  }
+
+  /**
+   * List a user's tags
+   */
+  async listTags(userId: string): Promise<TagResponse[]> {
+    const tags = await prisma.tag.findMany({
+      where: { userId },
+      select: tagSelectFields,
+      orderBy: { name: 'asc' },
+    });
+
+    return tags.map((tag) => this.formatTag(tag));
+  }
+
+  /**
+   * Get a specific tag by ID
+   */
+  async getTagById(userId: string, tagId: string): Promise<TagResponse> {
+    return this.formatTag(await this.findTag(userId, tagId));
+  }
+
+  /**
+   * Create a tag
+   */
+  async createTag(userId: string, data: CreateTagRequest): Promise<TagResponse> {
+    try {
+      const tag = await prisma.tag.create({
+        data: { userId, name: data.name, color: data.color ?? null },
+        select: tagSelectFields,
+      });
+
+      return this.formatTag(tag);
+    } catch (error) {
+      if (isUniqueConstraintError(error)) {
+        throw new TagError('A tag with this name already exists', 'TAG_ALREADY_EXISTS', 409);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update a tag - rename or recolour
+   * Renaming onto an existing tag is rejected; merge the tags instead
+   */
+  async updateTag(userId: string, tagId: string, data: UpdateTagRequest): Promise<TagResponse> {
+    await this.findTag(userId, tagId);
+
+    try {
+      const tag = await prisma.tag.update({
+        where: { id: tagId },
+        data: {
+          ...(data.name !== undefined && { name: data.name }),
+          ...(data.color !== undefined && { color: data.color }),
+        },
+        select: tagSelectFields,
+      });
+
+      // Work entry responses embed the tag name and colour
+      cacheService.invalidateUserCache(userId);
+
+      return this.formatTag(tag);
+    } catch (error) {
+      if (isUniqueConstraintError(error)) {
+        throw new TagError(
+          'A tag with this name already exists. Merge the tags instead.',
+          'TAG_ALREADY_EXISTS',
+          409
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Merge one tag into another
+   * Every entry carrying the source tag gets the target tag, then the source tag is deleted
+   */
+  async mergeTag(userId: string, sourceTagId: string, targetTagId: string): Promise<TagResponse> {
+    if (sourceTagId === targetTagId) {
+      throw new TagError('A tag cannot be merged into itself', 'INVALID_MERGE', 400);
+    }
+
+    await this.findTag(userId, sourceTagId);
+    await this.findTag(userId, targetTagId);
+
+    await prisma.$transaction(async (tx) => {
+      const sourceLinks = await tx.workEntryTag.findMany({
+        where: { tagId: sourceTagId },
+        select: { workEntryId: true },
+      });
+
+      // Entries that already carry both tags keep a single link to the target
+      await tx.workEntryTag.createMany({
+        data: sourceLinks.map((link) => ({ workEntryId: link.workEntryId, tagId: targetTagId })),
+        skipDuplicates: true,
+      });
+
+      await tx.tag.delete({ where: { id: sourceTagId } });
+    });
+
+    cacheService.invalidateUserCache(userId);
+
+    return this.getTagById(userId, targetTagId);
+  }
+
+  /**
+   * Delete a tag - it is removed from all work entries
+   */
+  async deleteTag(userId: string, tagId: string): Promise<void> {
+    const result = await prisma.tag.deleteMany({
+      where: { id: tagId, userId },
+    });
+
+    if (result.count === 0) {
+      throw new TagError('Tag not found', 'TAG_NOT_FOUND', 404);
+    }
+
+    cacheService.invalidateUserCache(userId);
+  }
+
+  /**
+   * Resolve tag names to IDs for a user, creating tags that don't exist yet
+   * Pass a transaction client so new tags are rolled back with a failed batch
+   */
+  async resolveTagIds(
+    userId: string,
+    names: string[],
+    client: Prisma.TransactionClient = prisma
+  ): Promise<string[]> {
+    const tagIds: string[] = [];
+
+    for (const name of names) {
+      const tag = await client.tag.upsert({
+        where: { userId_name: { userId, name } },
+        create: { userId, name },
+        update: {},
+        select: { id: true },
+      });
+      tagIds.push(tag.id);
+    }
+
+    return tagIds;
+  }
+}
+
+export const tagService = new TagService();
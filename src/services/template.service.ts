@@ -0,0 +1,304 @@
+import type { WorkEntryTemplate } from '@prisma/client';
+import { prisma } from '../config/database.config';
+import { config } from '../config/app.config';
+import { projectService } from './project.service';
+import { settingsService } from './settings.service';
+import { workEntryService, WorkEntryOverlapError } from './work-entry.service';
+import { enhancedCreateWorkEntrySchema } from '../utils/security-validation.utils';
+import type {
+  MaterializeTemplateResponse,
+  TemplateOccurrenceResult,
+  TemplateRecurrence,
+  WorkEntryTemplateResponse,
+} from '../types/template.types';
+import type { OverlapPolicy, RevisionContext } from '../types/work-entry.types';
+import {
+  formatRRule,
+  getOccurrences,
+  RecurrenceFrequency,
+  Weekday,
+} from '../utils/recurrence.utils';
+import { getLocalDate, startOfLocalDay, zonedTimeToUtc } from '../utils/timezone.utils';
+import type {
+  CreateTemplateRequest,
+  MaterializeTemplateRequest,
+  UpdateTemplateRequest,
+} from '../utils/template-validation.utils';
+
+export class TemplateError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number
+  ) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0]!;
+
+/**
+ * Convert a recurrence to its stored columns
+ */
+function toRecurrenceData(recurrence: TemplateRecurrence) {
+  return {
+    frequency: recurrence.frequency,
+    interval: recurrence.interval,
+    byWeekday: recurrence.byWeekday,
+    byMonthDay: recurrence.byMonthDay,
+    startDate: new Date(recurrence.startDate),
+    endDate: recurrence.endDate === null ? null : new Date(recurrence.endDate),
+  };
+}
+
+export class TemplateService {
+  /**
+   * Read the recurrence of a stored template
+   */
+  private getRecurrence(template: WorkEntryTemplate): TemplateRecurrence {
+    return {
+      frequency: template.frequency as RecurrenceFrequency,
+      interval: template.interval,
+      byWeekday: template.byWeekday as Weekday[],
+      byMonthDay: template.byMonthDay,
+      startDate: toDateString(template.startDate),
+      endDate: template.endDate ? toDateString(template.endDate) : null,
+    };
+  }
+
+  /**
+   * Convert a stored template to API response format
+   */
+  private formatTemplate(template: WorkEntryTemplate): WorkEntryTemplateResponse {
+    const recurrence = this.getRecurrence(template);
+
+    return {
+      id: template.id,
+      description: template.description,
+      projectId: template.projectId,
+      tags: template.tags,
+      startTime: template.startTime,
+      durationMinutes: template.durationMinutes,
+      recurrence,
+      rrule: formatRRule(recurrence),
+      createdAt: template.createdAt.toISOString(),
+      updatedAt: template.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Find one of the user's templates
+   */
+  private async findTemplate(userId: string, templateId: string): Promise<WorkEntryTemplate> {
+    const template = await prisma.workEntryTemplate.findFirst({
+      where: { id: templateId, userId },
+    });
+
+    if (!template) {
+      throw new TemplateError('Template not found', 'TEMPLATE_NOT_FOUND', 404);
+    }
+
+    return template;
+  }
+
+  /**
+   * List a user's templates
+   */
+  async listTemplates(userId: string): Promise<WorkEntryTemplateResponse[]> {
+    const templates = await prisma.workEntryTemplate.findMany({
+      where: { userId },
+      orderBy: [{ description: 'asc' }, { id: 'asc' }],
+    });
+
+    return templates.map((template) => this.formatTemplate(template));
+  }
+
+  /**
+   * Get a specific template by ID
+   */
+  async getTemplateById(userId: string, templateId: string): Promise<WorkEntryTemplateResponse> {
+    return this.formatTemplate(await this.findTemplate(userId, templateId));
+  }
+
+  /**
+   * Create a template
+   */
+  async createTemplate(
+    userId: string,
+    data: CreateTemplateRequest
+  ): Promise<WorkEntryTemplateResponse> {
+    if (data.projectId) {
+      await projectService.assertAssignableProject(userId, data.projectId);
+    }
+
+    const template = await prisma.workEntryTemplate.create({
+      data: {
+        userId,
+        description: data.description,
+        projectId: data.projectId ?? null,
+        tags: data.tags,
+        startTime: data.startTime,
+        durationMinutes: data.durationMinutes,
+        ...toRecurrenceData(data.recurrence),
+      },
+    });
+
+    return this.formatTemplate(template);
+  }
+
+  /**
+   * Update a template - entries already created from it are left as they are
+   */
+  async updateTemplate(
+    userId: string,
+    templateId: string,
+    data: UpdateTemplateRequest
+  ): Promise<WorkEntryTemplateResponse> {
+    await this.findTemplate(userId, templateId);
+
+    if (data.projectId) {
+      await projectService.assertAssignableProject(userId, data.projectId);
+    }
+
+    const template = await prisma.workEntryTemplate.update({
+      where: { id: templateId },
+      data: {
+        ...(data.description !== undefined && { description: data.description }),
+        ...(data.projectId !== undefined && { projectId: data.projectId }),
+        ...(data.tags !== undefined && { tags: data.tags }),
+        ...(data.startTime !== undefined && { startTime: data.startTime }),
+        ...(data.durationMinutes !== undefined && { durationMinutes: data.durationMinutes }),
+        ...(data.recurrence !== undefined && toRecurrenceData(data.recurrence)),
+      },
+    });
+
+    return this.formatTemplate(template);
+  }
+
+  /**
+   * Delete a template - entries already created from it are kept
+   */
+  async deleteTemplate(userId: string, templateId: string): Promise<void> {
+    const result = await prisma.workEntryTemplate.deleteMany({
+      where: { id: templateId, userId },
+    });
+
+    if (result.count === 0) {
+      throw new TemplateError('Template not found', 'TEMPLATE_NOT_FOUND', 404);
+    }
+  }
+
+  /**
+   * Count a template's occurrences in a range, used to check the entry limit
+   */
+  async countOccurrences(
+    userId: string,
+    templateId: string,
+    range: MaterializeTemplateRequest
+  ): Promise<number> {
+    const template = await this.findTemplate(userId, templateId);
+    return getOccurrences(this.getRecurrence(template), range.startDate, range.endDate).length;
+  }
+
+  /**
+   * Create work entries for a template's occurrences between two days in the user's time zone
+   * Days that already have an entry with the template's description are skipped, so running
+   * this again for the same days creates nothing new. Occurrences that haven't ended yet are
+   * skipped as well, and so are occurrences rejected by the work entry rules or the overlap
+   * policy.
+   */
+  async materializeTemplate(
+    userId: string,
+    templateId: string,
+    range: MaterializeTemplateRequest,
+    context: RevisionContext,
+    overlapPolicy: OverlapPolicy = config.workEntries.overlapPolicy
+  ): Promise<MaterializeTemplateResponse> {
+    const template = await this.findTemplate(userId, templateId);
+
+    // Fail before creating anything if the project has been archived since
+    if (template.projectId) {
+      await projectService.assertAssignableProject(userId, template.projectId);
+    }
+
+    const { timezone } = await settingsService.getSettings(userId);
+    const dates = getOccurrences(this.getRecurrence(template), range.startDate, range.endDate);
+    const occurrences: TemplateOccurrenceResult[] = [];
+
+    if (dates.length > 0) {
+      // Days already logged, read once for the whole range
+      const existing = await prisma.workEntry.findMany({
+        where: {
+          userId,
+          deletedAt: null,
+          description: { equals: template.description, mode: 'insensitive' },
+          startTime: {
+            gte: startOfLocalDay(dates[0]!, timezone),
+            lt: startOfLocalDay(dates[dates.length - 1]!, timezone, 1),
+          },
+        },
+        select: { startTime: true },
+      });
+      const loggedDays = new Set(existing.map((entry) => getLocalDate(entry.startTime, timezone)));
+
+      const [hour, minute] = template.startTime.split(':').map(Number);
+      const now = Date.now();
+
+      for (const date of dates) {
+        if (loggedDays.has(date)) {
+          occurrences.push({ date, status: 'skipped', reason: 'exists' });
+          continue;
+        }
+
+        const [year, month, day] = date.split('-').map(Number);
+        const startTime = zonedTimeToUtc(
+          { year: year!, month: month!, day: day!, hour: hour!, minute: minute!, second: 0 },
+          timezone
+        );
+        const endTime = new Date(startTime.getTime() + template.durationMinutes * 60 * 1000);
+
+        if (endTime.getTime() > now) {
+          occurrences.push({ date, status: 'skipped', reason: 'future' });
+          continue;
+        }
+
+        // Occurrences follow the same rules as a manually created entry
+        const parsed = enhancedCreateWorkEntrySchema.safeParse({
+          startTime: startTime.toISOString(),
+          endTime: endTime.toISOString(),
+          description: template.description,
+          ...(template.projectId && { projectId: template.projectId }),
+          ...(template.tags.length > 0 && { tags: template.tags }),
+        });
+
+        if (!parsed.success) {
+          occurrences.push({ date, status: 'skipped', reason: 'invalid' });
+          continue;
+        }
+
+        try {
+          const workEntry = await workEntryService.createWorkEntry(
+            userId,
+            parsed.data,
+            context,
+            overlapPolicy
+          );
+          occurrences.push({ date, status: 'created', workEntry });
+        } catch (error) {
+          if (error instanceof WorkEntryOverlapError) {
+            occurrences.push({ date, status: 'skipped', reason: 'overlap' });
+            continue;
+          }
+          throw error;
+        }
+      }
+    }
+
+    const created = occurrences.filter((occurrence) => occurrence.status === 'created').length;
+
+    return { created, skipped: occurrences.length - created, occurrences };
+  }
+}
+
+export const templateService = new TemplateService();
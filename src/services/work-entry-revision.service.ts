@@ -0,0 +1,121 @@
+import type { Prisma, WorkEntryRevision } from '@prisma/client';
+import { prisma } from '../config/database.config';
+import type {
+  RevisionContext,
+  WorkEntryResponse,
+  WorkEntryRevisionAction,
+  WorkEntryRevisionResponse,
+  WorkEntrySnapshot,
+} from '../types/work-entry.types';
+
+// Fields compared to find what a revision changed
+const SNAPSHOT_FIELDS: (keyof WorkEntrySnapshot)[] = [
+  'startTime',
+  'endTime',
+  'description',
+  'projectId',
+  'tags',
+  'breaks',
+];
+
+/**
+ * Work Entry Revision Store
+ * Append-only history of the changes made to each work entry
+ */
+export class WorkEntryRevisionService {
+  /**
+   * Capture the values of a work entry that a revision records
+   */
+  static snapshot(entry: WorkEntryResponse): WorkEntrySnapshot {
+    return {
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      description: entry.description,
+      projectId: entry.projectId,
+      tags: entry.tags.map((tag) => tag.name),
+      // Left out when empty so revisions from before breaks existed compare equal
+      ...(entry.breaks.length > 0 && { breaks: entry.breaks }),
+    };
+  }
+
+  /**
+   * Record a change to a work entry
+   * Pass the client making the change so the revision is committed together with it
+   */
+  static async record(
+    client: Prisma.TransactionClient,
+    context: RevisionContext,
+    userId: string,
+    workEntryId: string,
+    action: WorkEntryRevisionAction,
+    before: WorkEntrySnapshot | null,
+    after: WorkEntrySnapshot | null,
+    revertedToId?: string
+  ): Promise<void> {
+    await client.workEntryRevision.create({
+      data: {
+        workEntryId,
+        userId,
+        actorId: context.actorId,
+        action,
+        ...(before && { before: before as unknown as Prisma.InputJsonObject }),
+        ...(after && { after: after as unknown as Prisma.InputJsonObject }),
+        revertedToId: revertedToId ?? null,
+        ipAddress: context.ipAddress,
+      },
+    });
+  }
+
+  /**
+   * List the revisions of one of the user's work entries, newest first
+   */
+  static async list(userId: string, workEntryId: string): Promise<WorkEntryRevisionResponse[]> {
+    const revisions = await prisma.workEntryRevision.findMany({
+      where: { userId, workEntryId },
+      // The ID breaks ties between revisions recorded in the same millisecond
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    });
+
+    return revisions.map((revision) => this.formatRevision(revision));
+  }
+
+  /**
+   * Get one revision of one of the user's work entries
+   */
+  static async find(
+    userId: string,
+    workEntryId: string,
+    revisionId: string
+  ): Promise<WorkEntryRevisionResponse | null> {
+    const revision = await prisma.workEntryRevision.findFirst({
+      where: { id: revisionId, userId, workEntryId },
+    });
+
+    return revision ? this.formatRevision(revision) : null;
+  }
+
+  /**
+   * Convert a stored revision to API response format
+   */
+  private static formatRevision(revision: WorkEntryRevision): WorkEntryRevisionResponse {
+    const before = revision.before as unknown as WorkEntrySnapshot | null;
+    const after = revision.after as unknown as WorkEntrySnapshot | null;
+
+    return {
+      id: revision.id,
+      workEntryId: revision.workEntryId,
+      action: revision.action as WorkEntryRevisionAction,
+      before,
+      after,
+      // Every field counts as changed when the entry appears or disappears
+      changedFields: SNAPSHOT_FIELDS.filter(
+        (field) =>
+          !before || !after || JSON.stringify(before[field]) !== JSON.stringify(after[field])
+      ),
+      revertedToId: revision.revertedToId,
+      actorId: revision.actorId,
+      ipAddress: revision.ipAddress,
+      createdAt: revision.createdAt.toISOString(),
+    };
+  }
+}
@@ -1,76 +1,957 @@
-import { PrismaClient } from '@prisma/client';
-import { WorkEntryResponse, WorkEntriesListResponse } from '../types/work-entry.types';
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  WorkEntryResponse,
+  WorkEntriesListResponse,
+  WorkEntryStatsResponse,
+  WorkEntryConflict,
+  WorkEntryConflictsResponse,
+  OverlapPolicy,
+  BulkMode,
+  BulkOperationError,
+  BulkOperationResult,
+  BulkWorkEntriesResponse,
+  TrashedWorkEntryResponse,
+  WorkEntryTrashResponse,
+  WorkEntryRevisionResponse,
+  RevisionContext,
+  WorkEntryStatsSeriesResponse,
+  StatsInterval,
+  WorkEntryBreak,
+} from '../types/work-entry.types';
+import type { ProjectStats } from '../types/project.types';
+import type { TagStats } from '../types/tag.types';
+import type { WeekStart } from '../types/settings.types';
 import {
   CreateWorkEntryRequest,
   UpdateWorkEntryRequest,
   WorkEntryFilters,
+  WorkEntryCursor,
+  TrashQuery,
+  StatsSeriesQuery,
 } from '../utils/work-entry-validation.utils';
+import {
+  enhancedCreateWorkEntrySchema,
+  StartTimerRequest,
+  StopTimerRequest,
+  BulkOperation,
+} from '../utils/security-validation.utils';
+import { ClosedTimeRange, trimToFreeRange, findOverlappingPairs } from '../utils/overlap.utils';
+import { BreakTimes, findBreakProblem, getBreakMs, getNetDurationMs } from '../utils/break.utils';
+import { getLocalDate, startOfLocalDay } from '../utils/timezone.utils';
+import { encodeCursor } from '../utils/cursor.utils';
+import { buildSearchQuery, SEARCH_CONFIG } from '../utils/search.utils';
+import { config } from '../config/app.config';
 import { cacheService } from './cache.service';
 import { performanceMonitor } from './performance-monitor.service';
+import { projectService, ProjectError, isUniqueConstraintError } from './project.service';
+import { tagService } from './tag.service';
+import { settingsService } from './settings.service';
+import { WorkEntryRevisionService } from './work-entry-revision.service';
 
 const prisma = new PrismaClient();
 
+// Shortest and longest entries allowed, net of breaks, matching the create schema
+const MIN_ENTRY_DURATION_MS = 15 * 60 * 1000;
+const MAX_ENTRY_DURATION_MS = 24 * 60 * 60 * 1000;
+
+// An atomic bulk request holds its transaction open for every operation in the batch
+const BULK_TRANSACTION_TIMEOUT_MS = 60 * 1000;
+
+// Entries read per query when streaming an export
+const STREAM_BATCH_SIZE = 500;
+
+// Highlighting for search snippets: up to two fragments around the matching words
+const SEARCH_HEADLINE_OPTIONS =
+  'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=8';
+
+// How a listed entry matched a search, as returned by the database
+interface SearchMatchRow {
+  id: string;
+  rank: number;
+  snippet: string;
+}
+
+// The entries a listing reads: Prisma filters, or for a search the same filters in SQL, since
+// the search column can't be filtered through Prisma
+interface WorkEntryListing {
+  filters: WorkEntryFilters;
+  where: any;
+  search: { query: string; conditions: Prisma.Sql } | null;
+}
+
+// Sort columns that are null for running timers
+const NULLABLE_SORT_COLUMNS = ['endTime', 'durationSeconds'];
+
+/**
+ * Column a listing is ordered by; duration is ordered by its generated column
+ */
+function getSortColumn(filters: WorkEntryFilters): string {
+  return filters.sortBy === 'duration' ? 'durationSeconds' : (filters.sortBy ?? 'startTime');
+}
+
+/**
+ * A date as an SQL timestamp; timestamps are stored in UTC without a time zone
+ */
+function toSqlTimestamp(date: Date): Prisma.Sql {
+  return Prisma.sql`(${date.toISOString()}::timestamptz AT TIME ZONE 'UTC')`;
+}
+
+export class WorkEntryOverlapError extends Error {
+  constructor(
+    message: string,
+    public conflicts: WorkEntryConflict[]
+  ) {
+    super(message);
+    this.name = 'WorkEntryOverlapError';
+  }
+}
+
+// Times or breaks that don't make a valid work entry once merged with the stored entry
+export class WorkEntryDurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkEntryDurationError';
+  }
+}
+
+// A validated bulk operation with its position in the request
+export interface IndexedBulkOperation {
+  index: number;
+  operation: BulkOperation;
+}
+
+// Buckets in a stats series when no start date is given
+const DEFAULT_SERIES_BUCKETS: Record<StatsInterval, number> = { day: 30, week: 12, month: 12 };
+
+// Days to move a date forward so that weeks starting on the given day start on a Monday
+const WEEK_START_SHIFT_DAYS: Record<WeekStart, number> = { monday: 0, sunday: 1, saturday: 2 };
+
+// A stats series bucket as returned by the database
+interface StatsSeriesRow {
+  period: Date; // Local start of the bucket, read as UTC
+  bucket_start: Date;
+  bucket_end: Date;
+  seconds: number;
+  entries: number;
+}
+
+// Fields needed to describe an overlapping entry
+const conflictSelectFields = {
+  id: true,
+  startTime: true,
+  endTime: true,
+  description: true,
+};
+
 // Optimized field selection for work entries
 const workEntrySelectFields = {
   id: true,
   startTime: true,
   endTime: true,
   description: true,
+  projectId: true,
+  project: {
+    select: {
+      id: true,
+      name: true,
+      color: true,
+      client: { select: { id: true, name: true } },
+    },
+  },
+  tags: {
+    select: { tag: { select: { id: true, name: true, color: true } } },
+    orderBy: { tag: { name: 'asc' as const } },
+  },
+  breaks: {
+    select: { startTime: true, endTime: true },
+    orderBy: { startTime: 'asc' as const },
+  },
   createdAt: true,
   updatedAt: true,
 };
 
+/**
+ * Convert breaks from a request to the rows and total stored with a work entry
+ */
+function toBreakData(breaks: WorkEntryBreak[]) {
+  return {
+    breakSeconds: Math.round(getBreakMs(breaks) / 1000),
+    rows: breaks.map((pause) => ({
+      startTime: new Date(pause.startTime),
+      endTime: new Date(pause.endTime),
+    })),
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export class WorkEntryService {
   /**
    * Convert Prisma WorkEntry to API response format
    */
   private formatWorkEntry(workEntry: any): WorkEntryResponse {
     const startTime = new Date(workEntry.startTime);
-    const endTime = new Date(workEntry.endTime);
-    const durationMs = endTime.getTime() - startTime.getTime();
-    const duration = durationMs / (1000 * 60 * 60); // Convert to hours
+    // A running timer has no end time yet, so its duration is measured up to now
+    const isRunning = workEntry.endTime === null;
+    const endTime = isRunning ? new Date() : new Date(workEntry.endTime);
+    const breaks: WorkEntryBreak[] = workEntry.breaks.map((pause: any) => ({
+      startTime: pause.startTime.toISOString(),
+      endTime: pause.endTime.toISOString(),
+    }));
+    const toHours = (ms: number) => Math.round((ms / (1000 * 60 * 60)) * 100) / 100;
 
     return {
       id: workEntry.id,
       startTime: workEntry.startTime.toISOString(),
-      endTime: workEntry.endTime.toISOString(),
-      duration: Math.round(duration * 100) / 100, // Round to 2 decimal places
+      endTime: isRunning ? null : workEntry.endTime.toISOString(),
+      duration: toHours(getNetDurationMs({ startTime, endTime }, breaks)),
+      grossDuration: toHours(endTime.getTime() - startTime.getTime()),
+      breaks,
+      isRunning,
       description: workEntry.description,
+      projectId: workEntry.projectId,
+      project: workEntry.project,
+      tags: workEntry.tags.map((entryTag: any) => entryTag.tag),
       createdAt: workEntry.createdAt.toISOString(),
       updatedAt: workEntry.updatedAt.toISOString(),
     };
   }
 
+  /**
+   * Convert an overlapping entry to API response format
+   */
+  private formatConflict(entry: any): WorkEntryConflict {
+    return {
+      id: entry.id,
+      startTime: entry.startTime.toISOString(),
+      endTime: entry.endTime ? entry.endTime.toISOString() : null,
+      description: entry.description,
+    };
+  }
+
+  /**
+   * Check that breaks fit a work entry and leave it between 15 minutes and 24 hours of work
+   * Requests are validated on their own; this checks them merged with the stored entry, and after
+   * the overlap policy has trimmed it
+   */
+  private assertValidDuration(range: ClosedTimeRange, breaks: BreakTimes[]): void {
+    const problem = findBreakProblem(range, breaks);
+    if (problem) {
+      throw new WorkEntryDurationError(problem);
+    }
+
+    const durationMs = getNetDurationMs(range, breaks);
+    if (durationMs < MIN_ENTRY_DURATION_MS) {
+      throw new WorkEntryDurationError('Work entry duration must be at least 15 minutes');
+    }
+    if (durationMs > MAX_ENTRY_DURATION_MS) {
+      throw new WorkEntryDurationError('Work entry duration cannot exceed 24 hours');
+    }
+  }
+
+  /**
+   * Apply the overlap policy to a time range about to be stored
+   * Returns the range to store - trimmed when the policy is 'trim' - or throws WorkEntryOverlapError
+   */
+  private async resolveOverlaps(
+    client: Prisma.TransactionClient,
+    userId: string,
+    range: ClosedTimeRange,
+    policy: OverlapPolicy,
+    excludeEntryId?: string
+  ): Promise<ClosedTimeRange> {
+    if (policy === 'allow') {
+      return range;
+    }
+
+    const conflicts = await client.workEntry.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        ...(excludeEntryId && { id: { not: excludeEntryId } }),
+        startTime: { lt: range.endTime },
+        // A running timer has no end time yet, so it overlaps anything after its start
+        OR: [{ endTime: { gt: range.startTime } }, { endTime: null }],
+      },
+      select: conflictSelectFields,
+      orderBy: { startTime: 'asc' },
+    });
+
+    if (conflicts.length === 0) {
+      return range;
+    }
+
+    if (policy === 'reject') {
+      throw new WorkEntryOverlapError(
+        'Work entry overlaps existing entries',
+        conflicts.map((entry) => this.formatConflict(entry))
+      );
+    }
+
+    const trimmed = trimToFreeRange(range, conflicts);
+
+    if (
+      !trimmed ||
+      trimmed.endTime.getTime() - trimmed.startTime.getTime() < MIN_ENTRY_DURATION_MS
+    ) {
+      throw new WorkEntryOverlapError(
+        'Work entry cannot be trimmed to at least 15 minutes around the overlapping entries',
+        conflicts.map((entry) => this.formatConflict(entry))
+      );
+    }
+
+    return trimmed;
+  }
+
+  /**
+   * Store a new work entry and its first revision using the given transaction client
+   * Callers are responsible for invalidating the user cache
+   */
+  private async insertWorkEntry(
+    client: Prisma.TransactionClient,
+    userId: string,
+    data: CreateWorkEntryRequest,
+    context: RevisionContext,
+    overlapPolicy: OverlapPolicy
+  ): Promise<WorkEntryResponse> {
+    if (data.projectId) {
+      await projectService.assertAssignableProject(userId, data.projectId, client);
+    }
+
+    const { startTime, endTime } = await this.resolveOverlaps(
+      client,
+      userId,
+      { startTime: new Date(data.startTime), endTime: new Date(data.endTime) },
+      overlapPolicy
+    );
+
+    // Trimming may have moved the entry's edges past its breaks
+    const breaks = data.breaks ?? [];
+    this.assertValidDuration({ startTime, endTime }, breaks);
+    const { breakSeconds, rows } = toBreakData(breaks);
+
+    const tagIds = data.tags ? await tagService.resolveTagIds(userId, data.tags, client) : [];
+
+    // Create work entry with timestamp fields
+    const workEntry = await client.workEntry.create({
+      data: {
+        userId,
+        startTime,
+        endTime,
+        description: data.description.trim(),
+        projectId: data.projectId ?? null,
+        tags: { create: tagIds.map((tagId) => ({ tagId })) },
+        breakSeconds,
+        breaks: { create: rows },
+      },
+      select: workEntrySelectFields,
+    });
+
+    const createdEntry = this.formatWorkEntry(workEntry);
+
+    await WorkEntryRevisionService.record(
+      client,
+      context,
+      userId,
+      createdEntry.id,
+      'create',
+      null,
+      WorkEntryRevisionService.snapshot(createdEntry)
+    );
+
+    return createdEntry;
+  }
+
+  /**
+   * Apply changes to one of the user's work entries and record the revision using the given
+   * transaction client. Pass the revision being reverted to when the change is a revert.
+   * Callers are responsible for invalidating the user cache
+   */
+  private async applyWorkEntryUpdate(
+    client: Prisma.TransactionClient,
+    userId: string,
+    entryId: string,
+    data: UpdateWorkEntryRequest,
+    context: RevisionContext,
+    overlapPolicy: OverlapPolicy,
+    revertedToId?: string
+  ): Promise<WorkEntryResponse> {
+    // The full entry is needed for the revision's before values
+    const existingEntry = await client.workEntry.findFirst({
+      where: {
+        id: entryId,
+        userId,
+        deletedAt: null,
+      },
+      select: workEntrySelectFields,
+    });
+
+    if (!existingEntry) {
+      throw new Error('Work entry not found or access denied');
+    }
+
+    // Only check the project when it changes, so entries on archived projects stay editable
+    if (data.projectId && data.projectId !== existingEntry.projectId) {
+      await projectService.assertAssignableProject(userId, data.projectId, client);
+    }
+
+    // Build update data
+    const updateData: any = {};
+    if (data.startTime) updateData.startTime = new Date(data.startTime);
+    if (data.endTime) updateData.endTime = new Date(data.endTime);
+
+    // Check overlaps only when the times change; running timers are checked when stopped
+    const newEndTime = updateData.endTime ?? existingEntry.endTime;
+    if ((data.startTime || data.endTime) && newEndTime) {
+      const { startTime, endTime } = await this.resolveOverlaps(
+        client,
+        userId,
+        { startTime: updateData.startTime ?? existingEntry.startTime, endTime: newEndTime },
+        overlapPolicy,
+        entryId
+      );
+      updateData.startTime = startTime;
+      updateData.endTime = endTime;
+    }
+
+    // Breaks are kept unless replaced, so they are checked against the new times too
+    if (data.startTime || data.endTime || data.breaks) {
+      const breaks =
+        data.breaks ??
+        existingEntry.breaks.map((pause) => ({
+          startTime: pause.startTime.toISOString(),
+          endTime: pause.endTime.toISOString(),
+        }));
+
+      if (newEndTime) {
+        this.assertValidDuration(
+          {
+            startTime: updateData.startTime ?? existingEntry.startTime,
+            endTime: updateData.endTime ?? newEndTime,
+          },
+          breaks
+        );
+      } else if (breaks.length > 0) {
+        throw new WorkEntryDurationError('Breaks can only be added once the timer is stopped');
+      }
+
+      if (data.breaks) {
+        const { breakSeconds, rows } = toBreakData(data.breaks);
+        updateData.breakSeconds = breakSeconds;
+        updateData.breaks = { deleteMany: {}, create: rows };
+      }
+    }
+    if (data.description !== undefined) updateData.description = data.description.trim();
+    if (data.projectId !== undefined) updateData.projectId = data.projectId;
+    if (data.tags !== undefined) {
+      // Tags are replaced as a whole
+      const tagIds = await tagService.resolveTagIds(userId, data.tags, client);
+      updateData.tags = {
+        deleteMany: {},
+        create: tagIds.map((tagId) => ({ tagId })),
+      };
+    }
+
+    // Update with field selection
+    const updatedEntry = await client.workEntry.update({
+      where: { id: entryId },
+      data: updateData,
+      select: workEntrySelectFields,
+    });
+
+    const formattedEntry = this.formatWorkEntry(updatedEntry);
+
+    await WorkEntryRevisionService.record(
+      client,
+      context,
+      userId,
+      entryId,
+      revertedToId ? 'revert' : 'update',
+      WorkEntryRevisionService.snapshot(this.formatWorkEntry(existingEntry)),
+      WorkEntryRevisionService.snapshot(formattedEntry),
+      revertedToId
+    );
+
+    return formattedEntry;
+  }
+
+  /**
+   * Move one of the user's work entries to the trash and record the revision using the given
+   * transaction client. Callers are responsible for invalidating the user cache
+   */
+  private async removeWorkEntry(
+    client: Prisma.TransactionClient,
+    userId: string,
+    entryId: string,
+    context: RevisionContext
+  ): Promise<void> {
+    // Verify ownership before deletion
+    const workEntry = await client.workEntry.findFirst({
+      where: {
+        id: entryId,
+        userId,
+        deletedAt: null,
+      },
+      select: workEntrySelectFields,
+    });
+
+    if (!workEntry) {
+      throw new Error('Work entry not found or access denied');
+    }
+
+    // Move the entry to the trash; it is purged after the retention period
+    await client.workEntry.update({
+      where: { id: entryId },
+      data: { deletedAt: new Date() },
+    });
+
+    await WorkEntryRevisionService.record(
+      client,
+      context,
+      userId,
+      entryId,
+      'delete',
+      WorkEntryRevisionService.snapshot(this.formatWorkEntry(workEntry)),
+      null
+    );
+  }
+
   /**
    * Create a new work entry for a user - Optimized with monitoring
    */
-  async createWorkEntry(userId: string, data: CreateWorkEntryRequest): Promise<WorkEntryResponse> {
+  async createWorkEntry(
+    userId: string,
+    data: CreateWorkEntryRequest,
+    context: RevisionContext,
+    overlapPolicy: OverlapPolicy = config.workEntries.overlapPolicy
+  ): Promise<WorkEntryResponse> {
     return performanceMonitor.monitor(
       'createWorkEntry',
       async () => {
-        // Create work entry with timestamp fields
-        const workEntry = await prisma.workEntry.create({
-          data: {
-            userId,
-            startTime: new Date(data.startTime),
-            endTime: new Date(data.endTime),
-            description: data.description.trim(),
-          },
-          select: workEntrySelectFields,
-        });
+        const workEntry = await prisma.$transaction((tx) =>
+          this.insertWorkEntry(tx, userId, data, context, overlapPolicy)
+        );
 
         // Invalidate user cache after creating entry
         cacheService.invalidateUserCache(userId);
 
-        return this.formatWorkEntry(workEntry);
+        return workEntry;
       },
       userId,
       { startTime: data.startTime, endTime: data.endTime }
     );
   }
 
+  /**
+   * Build the where clause for a user's work entries from the listing filters
+   * Dates are whole days in the user's time zone
+   */
+  private buildWorkEntryWhere(userId: string, filters: WorkEntryFilters, timezone: string): any {
+    const where: any = {
+      userId,
+      deletedAt: null,
+    };
+
+    // Project and client filtering
+    if (filters.projectId) {
+      where.projectId = filters.projectId;
+    }
+
+    if (filters.clientId) {
+      where.project = { clientId: filters.clientId };
+    }
+
+    // Tag filtering - entries with any of the tags, or with every one of them
+    if (filters.tagIds && filters.tagIds.length > 0) {
+      if (filters.tagMatch === 'all') {
+        where.AND = filters.tagIds.map((tagId) => ({ tags: { some: { tagId } } }));
+      } else {
+        where.tags = { some: { tagId: { in: filters.tagIds } } };
+      }
+    }
+
+    // Date filtering based on start/end times
+    if (filters.startDate) {
+      const startDate = startOfLocalDay(filters.startDate, timezone);
+      where.startTime = {
+        gte: startDate,
+      };
+    }
+
+    if (filters.endDate) {
+      // Up to the end of the endDate to include entries that end on it
+      const endDate = startOfLocalDay(filters.endDate, timezone, 1);
+      // A running timer has no end time, so it is included if it started in range
+      where.OR = [{ endTime: { lt: endDate } }, { endTime: null, startTime: { lt: endDate } }];
+    }
+
+    // Duration filtering in hours - a running timer has been going since it started
+    const durationConditions: any[] = [];
+    const now = Date.now();
+
+    if (filters.minDuration !== undefined) {
+      const minSeconds = Math.round(filters.minDuration * 3600);
+      durationConditions.push({
+        OR: [
+          { durationSeconds: { gte: minSeconds } },
+          { endTime: null, startTime: { lte: new Date(now - minSeconds * 1000) } },
+        ],
+      });
+    }
+
+    if (filters.maxDuration !== undefined) {
+      const maxSeconds = Math.round(filters.maxDuration * 3600);
+      durationConditions.push({
+        OR: [
+          { durationSeconds: { lte: maxSeconds } },
+          { endTime: null, startTime: { gte: new Date(now - maxSeconds * 1000) } },
+        ],
+      });
+    }
+
+    if (durationConditions.length > 0) {
+      where.AND = [...(where.AND ?? []), ...durationConditions];
+    }
+
+    return where;
+  }
+
+  /**
+   * Build the SQL conditions for a user's work entries matching a search and the listing filters
+   * Mirrors buildWorkEntryWhere for entries aliased as e, with the search's tsquery as query
+   */
+  private buildSearchConditions(
+    userId: string,
+    filters: WorkEntryFilters,
+    timezone: string
+  ): Prisma.Sql {
+    const conditions = [
+      Prisma.sql`e."userId" = ${userId}`,
+      Prisma.sql`e."deletedAt" IS NULL`,
+      Prisma.sql`e."searchVector" @@ query`,
+    ];
+
+    if (filters.projectId) {
+      conditions.push(Prisma.sql`e."projectId" = ${filters.projectId}`);
+    }
+
+    if (filters.clientId) {
+      conditions.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM projects p WHERE p.id = e."projectId" AND p."clientId" = ${filters.clientId}
+      )`);
+    }
+
+    // Entries with any of the tags, or with every one of them
+    if (filters.tagIds && filters.tagIds.length > 0) {
+      const tagSets =
+        filters.tagMatch === 'all' ? filters.tagIds.map((tagId) => [tagId]) : [filters.tagIds];
+      for (const tagIds of tagSets) {
+        conditions.push(Prisma.sql`EXISTS (
+          SELECT 1 FROM work_entry_tags t
+          WHERE t."workEntryId" = e.id AND t."tagId" IN (${Prisma.join(tagIds)})
+        )`);
+      }
+    }
+
+    if (filters.startDate) {
+      const startDate = toSqlTimestamp(startOfLocalDay(filters.startDate, timezone));
+      conditions.push(Prisma.sql`e."startTime" >= ${startDate}`);
+    }
+
+    if (filters.endDate) {
+      const endDate = toSqlTimestamp(startOfLocalDay(filters.endDate, timezone, 1));
+      conditions.push(
+        Prisma.sql`(e."endTime" < ${endDate} OR (e."endTime" IS NULL AND e."startTime" < ${endDate}))`
+      );
+    }
+
+    const now = Date.now();
+
+    if (filters.minDuration !== undefined) {
+      const minSeconds = Math.round(filters.minDuration * 3600);
+      const startedBefore = toSqlTimestamp(new Date(now - minSeconds * 1000));
+      conditions.push(Prisma.sql`(
+        e."durationSeconds" >= ${minSeconds}
+        OR (e."endTime" IS NULL AND e."startTime" <= ${startedBefore})
+      )`);
+    }
+
+    if (filters.maxDuration !== undefined) {
+      const maxSeconds = Math.round(filters.maxDuration * 3600);
+      const startedAfter = toSqlTimestamp(new Date(now - maxSeconds * 1000));
+      conditions.push(Prisma.sql`(
+        e."durationSeconds" <= ${maxSeconds}
+        OR (e."endTime" IS NULL AND e."startTime" >= ${startedAfter})
+      )`);
+    }
+
+    return Prisma.join(conditions, ' AND ');
+  }
+
+  /**
+   * Build the entries a listing reads from its filters
+   */
+  private buildWorkEntryListing(
+    userId: string,
+    filters: WorkEntryFilters,
+    timezone: string
+  ): WorkEntryListing {
+    if (filters.q === undefined) {
+      return { filters, where: this.buildWorkEntryWhere(userId, filters, timezone), search: null };
+    }
+
+    return {
+      filters,
+      where: null,
+      search: {
+        // A search without words is an empty tsquery, which matches nothing
+        query: buildSearchQuery(filters.q) ?? '',
+        conditions: this.buildSearchConditions(userId, filters, timezone),
+      },
+    };
+  }
+
+  /**
+   * Build the order for a user's work entries from the listing filters
+   * Duration is ordered by its generated column, where running timers are null and so sort as
+   * the longest entries. The ID breaks ties so the order is stable across pages.
+   */
+  private buildWorkEntryOrderBy(
+    filters: WorkEntryFilters,
+    sortOrder: 'asc' | 'desc' = filters.sortOrder ?? 'desc'
+  ): any[] {
+    return [{ [getSortColumn(filters)]: sortOrder }, { id: sortOrder }];
+  }
+
+  /**
+   * Build the where clause for the entries after a cursor's entry in the given order
+   * Postgres sorts nulls after every value in ascending order and before them in descending order
+   */
+  private buildCursorWhere(
+    filters: WorkEntryFilters,
+    cursor: WorkEntryCursor,
+    sortOrder: 'asc' | 'desc'
+  ): any {
+    const column = getSortColumn(filters);
+    const comparison = sortOrder === 'asc' ? 'gt' : 'lt';
+    const afterId = { id: { [comparison]: cursor.id } };
+
+    if (cursor.value === null) {
+      return sortOrder === 'asc'
+        ? { [column]: null, ...afterId }
+        : { OR: [{ [column]: null, ...afterId }, { [column]: { not: null } }] };
+    }
+
+    const value = typeof cursor.value === 'number' ? cursor.value : new Date(cursor.value);
+
+    return {
+      OR: [
+        { [column]: { [comparison]: value } },
+        { [column]: value, ...afterId },
+        ...(sortOrder === 'asc' && NULLABLE_SORT_COLUMNS.includes(column)
+          ? [{ [column]: null }]
+          : []),
+      ],
+    };
+  }
+
+  /**
+   * Build the SQL conditions for the search matches after a cursor's entry in the given order
+   * Mirrors buildCursorWhere; the sort column is one of the listing's fixed columns
+   */
+  private buildSearchCursorConditions(
+    filters: WorkEntryFilters,
+    cursor: WorkEntryCursor,
+    sortOrder: 'asc' | 'desc'
+  ): Prisma.Sql {
+    const column = getSortColumn(filters);
+    const columnSql = Prisma.raw(`e."${column}"`);
+    const comparison = Prisma.raw(sortOrder === 'asc' ? '>' : '<');
+    const afterId = Prisma.sql`e.id ${comparison} ${cursor.id}`;
+
+    if (cursor.value === null) {
+      return sortOrder === 'asc'
+        ? Prisma.sql`(${columnSql} IS NULL AND ${afterId})`
+        : Prisma.sql`((${columnSql} IS NULL AND ${afterId}) OR ${columnSql} IS NOT NULL)`;
+    }
+
+    const value =
+      typeof cursor.value === 'number' ? cursor.value : toSqlTimestamp(new Date(cursor.value));
+    const nulls =
+      sortOrder === 'asc' && NULLABLE_SORT_COLUMNS.includes(column)
+        ? Prisma.sql` OR ${columnSql} IS NULL`
+        : Prisma.empty;
+
+    return Prisma.sql`(
+      ${columnSql} ${comparison} ${value} OR (${columnSql} = ${value} AND ${afterId})${nulls}
+    )`;
+  }
+
+  /**
+   * Build a cursor pointing at a listed entry
+   */
+  private toWorkEntryCursor(
+    filters: WorkEntryFilters,
+    entry: any,
+    direction: WorkEntryCursor['direction']
+  ): WorkEntryCursor {
+    const value = entry[getSortColumn(filters)];
+
+    return {
+      sortBy: (filters.sortBy ?? 'startTime') as WorkEntryCursor['sortBy'],
+      sortOrder: filters.sortOrder ?? 'desc',
+      value: value instanceof Date ? value.toISOString() : value,
+      id: entry.id,
+      direction,
+    };
+  }
+
+  /**
+   * Encode a cursor pointing at a listed entry
+   */
+  private encodeWorkEntryCursor(
+    filters: WorkEntryFilters,
+    entry: any,
+    direction: WorkEntryCursor['direction']
+  ): string {
+    return encodeCursor(this.toWorkEntryCursor(filters, entry, direction));
+  }
+
+  /**
+   * Read a window of a listing's entries in the given order, after a cursor's entry if given
+   * Searches are filtered, ordered and paged in SQL, and only the window's entries are loaded
+   */
+  private async readWorkEntries(
+    listing: WorkEntryListing,
+    window: { sortOrder: 'asc' | 'desc'; after: WorkEntryCursor | null; skip: number; take: number }
+  ): Promise<any[]> {
+    const { filters, search } = listing;
+    const { sortOrder, after, skip, take } = window;
+
+    if (!search) {
+      return prisma.workEntry.findMany({
+        where: after
+          ? { AND: [listing.where, this.buildCursorWhere(filters, after, sortOrder)] }
+          : listing.where,
+        select: { ...workEntrySelectFields, durationSeconds: true },
+        orderBy: this.buildWorkEntryOrderBy(filters, sortOrder),
+        skip,
+        take,
+      });
+    }
+
+    // Relevance is the rank of the match; other sort columns are fixed names
+    const sortKey =
+      filters.sortBy === 'relevance'
+        ? Prisma.sql`ts_rank(e."searchVector", query)`
+        : Prisma.raw(`e."${getSortColumn(filters)}"`);
+    const direction = Prisma.raw(sortOrder === 'asc' ? 'ASC' : 'DESC');
+    const afterCursor = after
+      ? Prisma.sql`AND ${this.buildSearchCursorConditions(filters, after, sortOrder)}`
+      : Prisma.empty;
+
+    const rows = await prisma.$queryRaw<{ id: string }[]>`
+      SELECT e.id
+      FROM work_entries e, to_tsquery(${SEARCH_CONFIG}::regconfig, ${search.query}) AS query
+      WHERE ${search.conditions}
+        ${afterCursor}
+      ORDER BY ${sortKey} ${direction}, e.id ${direction}
+      LIMIT ${take} OFFSET ${skip}
+    `;
+
+    return this.findWorkEntriesInOrder(rows.map((row) => row.id));
+  }
+
+  /**
+   * Count a listing's entries
+   */
+  private async countListedWorkEntries(listing: WorkEntryListing): Promise<number> {
+    const { search } = listing;
+    if (!search) {
+      return prisma.workEntry.count({ where: listing.where });
+    }
+
+    const [row] = await prisma.$queryRaw<{ count: number }[]>`
+      SELECT COUNT(*)::int AS count
+      FROM work_entries e, to_tsquery(${SEARCH_CONFIG}::regconfig, ${search.query}) AS query
+      WHERE ${search.conditions}
+    `;
+
+    return row?.count ?? 0;
+  }
+
+  /**
+   * Read work entries in the order of the given IDs
+   */
+  private async findWorkEntriesInOrder(ids: string[]): Promise<any[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const entries = await prisma.workEntry.findMany({
+      where: { id: { in: ids } },
+      select: { ...workEntrySelectFields, durationSeconds: true },
+    });
+    const entriesById = new Map(entries.map((entry) => [entry.id, entry]));
+
+    return ids.map((id) => entriesById.get(id)).filter((entry) => entry !== undefined);
+  }
+
+  /**
+   * Get the page of a user's work entries after or before a cursor
+   * Pages are read by keyset on the sort column and ID, so entries added or removed while
+   * paging don't shift later pages
+   */
+  private async getWorkEntriesByCursor(
+    listing: WorkEntryListing
+  ): Promise<WorkEntriesListResponse> {
+    const { filters } = listing;
+    const cursor = filters.cursor ?? null;
+    const limit = filters.limit!;
+    const sortOrder = filters.sortOrder ?? 'desc';
+    // Earlier pages are read in reverse from the cursor, then flipped back
+    const backwards = cursor?.direction === 'prev';
+    const readOrder = backwards ? (sortOrder === 'asc' ? 'desc' : 'asc') : sortOrder;
+
+    const entries = await this.readWorkEntries(listing, {
+      sortOrder: readOrder,
+      after: cursor,
+      skip: 0,
+      // One extra entry shows whether there is another page
+      take: limit + 1,
+    });
+
+    const hasMore = entries.length > limit;
+    const pageEntries = entries.slice(0, limit);
+    if (backwards) {
+      pageEntries.reverse();
+    }
+
+    const first = pageEntries[0];
+    const last = pageEntries[pageEntries.length - 1];
+    const hasNext = (backwards || hasMore) && last !== undefined;
+    const hasPrev = (backwards ? hasMore : cursor !== null) && first !== undefined;
+
+    const total =
+      filters.includeTotal === true ? await this.countListedWorkEntries(listing) : undefined;
+
+    return {
+      data: pageEntries.map((entry) => this.formatWorkEntry(entry)),
+      pagination: {
+        limit,
+        nextCursor: hasNext ? this.encodeWorkEntryCursor(filters, last, 'next') : null,
+        prevCursor: hasPrev ? this.encodeWorkEntryCursor(filters, first, 'prev') : null,
+        hasNext,
+        hasPrev,
+        ...(total !== undefined && { total }),
+      },
+    };
+  }
+
   /**
    * Get all work entries for a user with filtering and pagination - Optimized with caching
+   * Pages are numbered unless a cursor is given; see getWorkEntriesByCursor. Search results
+   * carry a relevance rank and a highlighted snippet.
    */
   async getWorkEntries(
     userId: string,
@@ -86,89 +967,162 @@ export class WorkEntryService {
           return cachedResult;
         }
 
-        // Build where clause with timestamp filtering
-        const where: any = {
-          userId,
-        };
+        const { timezone } = await settingsService.getSettings(userId);
+        const listing = this.buildWorkEntryListing(userId, filters, timezone);
 
-        // Date filtering based on start/end times
-        if (filters.startDate) {
-          const startDate = new Date(filters.startDate);
-          where.startTime = {
-            gte: startDate,
-          };
-        }
+        const result =
+          filters.cursor !== undefined
+            ? await this.getWorkEntriesByCursor(listing)
+            : await this.getWorkEntriesByPage(listing);
 
-        if (filters.endDate) {
-          const endDate = new Date(filters.endDate);
-          // Add 1 day to include entries that end on the endDate
-          endDate.setDate(endDate.getDate() + 1);
-          where.endTime = {
-            lt: endDate,
-          };
+        if (listing.search) {
+          result.data = await this.addSearchMatches(result.data, listing.search.query);
         }
 
-        // Build orderBy clause
-        let orderBy: any = {};
-        if (filters.sortBy === 'duration') {
-          // For duration sorting, we need to use raw SQL or sort after fetching
-          // For now, we'll sort by startTime and handle duration sorting in memory
-          orderBy = { startTime: filters.sortOrder };
-        } else {
-          orderBy = { [filters.sortBy!]: filters.sortOrder };
+        // Cache the result, unless a running timer's live duration would go stale in the cache
+        if (!result.data.some((entry) => entry.isRunning)) {
+          cacheService.set(cacheKey, result, 300); // Cache for 5 minutes
         }
 
-        // Calculate pagination
-        const skip = (filters.page! - 1) * filters.limit!;
+        return result;
+      },
+      userId,
+      filters
+    );
+  }
 
-        // Get total count for pagination
-        const totalCount = await prisma.workEntry.count({ where });
+  /**
+   * Add how each listed entry matched a search: its rank, and a snippet with the matching words
+   * highlighted
+   */
+  private async addSearchMatches(
+    entries: WorkEntryResponse[],
+    searchQuery: string
+  ): Promise<WorkEntryResponse[]> {
+    if (entries.length === 0) {
+      return entries;
+    }
 
-        // Get work entries with optimized query
-        const workEntries = await prisma.workEntry.findMany({
-          where,
-          select: workEntrySelectFields,
-          orderBy,
-          skip,
-          take: filters.limit,
-        });
-
-        // Format responses
-        let formattedEntries = workEntries.map((entry: any) => this.formatWorkEntry(entry));
-
-        // Handle duration sorting in memory if needed
-        if (filters.sortBy === 'duration') {
-          formattedEntries = formattedEntries.sort((a: WorkEntryResponse, b: WorkEntryResponse) => {
-            const comparison = a.duration - b.duration;
-            return filters.sortOrder === 'asc' ? comparison : -comparison;
-          });
-        }
+    const rows = await prisma.$queryRaw<SearchMatchRow[]>`
+      SELECT
+        e.id,
+        ts_rank(e."searchVector", query)::float8 AS rank,
+        ts_headline(${SEARCH_CONFIG}::regconfig, e.description, query, ${SEARCH_HEADLINE_OPTIONS})
+          AS snippet
+      FROM work_entries e, to_tsquery(${SEARCH_CONFIG}::regconfig, ${searchQuery}) AS query
+      WHERE e.id IN (${Prisma.join(entries.map((entry) => entry.id))})
+    `;
+    const matches = new Map(rows.map((row) => [row.id, row]));
 
-        // Calculate pagination info
-        const totalPages = Math.ceil(totalCount / filters.limit!);
-        const hasNext = filters.page! < totalPages;
-        const hasPrev = filters.page! > 1;
-
-        const result = {
-          data: formattedEntries,
-          pagination: {
-            page: filters.page!,
-            limit: filters.limit!,
-            total: totalCount,
-            totalPages,
-            hasNext,
-            hasPrev,
-          },
-        };
+    return entries.map((entry) => ({
+      ...entry,
+      search: {
+        rank: matches.get(entry.id)?.rank ?? 0,
+        snippet: matches.get(entry.id)?.snippet ?? entry.description,
+      },
+    }));
+  }
+
+  /**
+   * Get a numbered page of a user's work entries
+   */
+  private async getWorkEntriesByPage(listing: WorkEntryListing): Promise<WorkEntriesListResponse> {
+    const { filters } = listing;
+    const sortOrder = filters.sortOrder ?? 'desc';
 
-        // Cache the result
-        cacheService.set(cacheKey, result, 300); // Cache for 5 minutes
+    // Calculate pagination
+    const skip = (filters.page! - 1) * filters.limit!;
 
-        return result;
+    if (filters.includeTotal === false) {
+      // Without the count, one extra entry shows whether there is another page
+      const workEntries = await this.readWorkEntries(listing, {
+        sortOrder,
+        after: null,
+        skip,
+        take: filters.limit! + 1,
+      });
+
+      return {
+        data: workEntries.slice(0, filters.limit).map((entry) => this.formatWorkEntry(entry)),
+        pagination: {
+          page: filters.page!,
+          limit: filters.limit!,
+          hasNext: workEntries.length > filters.limit!,
+          hasPrev: filters.page! > 1,
+        },
+      };
+    }
+
+    // Get total count for pagination
+    const totalCount = await this.countListedWorkEntries(listing);
+
+    // Get work entries with optimized query
+    const workEntries = await this.readWorkEntries(listing, {
+      sortOrder,
+      after: null,
+      skip,
+      take: filters.limit!,
+    });
+
+    // Format responses
+    const formattedEntries = workEntries.map((entry: any) => this.formatWorkEntry(entry));
+
+    // Calculate pagination info
+    const totalPages = Math.ceil(totalCount / filters.limit!);
+    const hasNext = filters.page! < totalPages;
+    const hasPrev = filters.page! > 1;
+
+    return {
+      data: formattedEntries,
+      pagination: {
+        page: filters.page!,
+        limit: filters.limit!,
+        total: totalCount,
+        totalPages,
+        hasNext,
+        hasPrev,
       },
-      userId,
-      filters
-    );
+    };
+  }
+
+  /**
+   * Stream a user's work entries in batches, e.g. for exports
+   * Honours the listing filters and sort order but not pagination. Entries are read by keyset
+   * like the listing's cursor pages, so only one batch is held in memory at a time.
+   */
+  async *streamWorkEntries(
+    userId: string,
+    filters: WorkEntryFilters,
+    batchSize: number = STREAM_BATCH_SIZE
+  ): AsyncGenerator<WorkEntryResponse[]> {
+    const { timezone } = await settingsService.getSettings(userId);
+    const listing = this.buildWorkEntryListing(userId, filters, timezone);
+    const sortOrder = filters.sortOrder ?? 'desc';
+    // Relevance isn't a column to read by keyset, so ranked matches are read by offset
+    const byOffset = filters.sortBy === 'relevance';
+
+    let cursor: WorkEntryCursor | null = null;
+    let offset = 0;
+    let hasMore = true;
+
+    while (hasMore) {
+      const entries = await this.readWorkEntries(listing, {
+        sortOrder,
+        after: cursor,
+        skip: byOffset ? offset : 0,
+        take: batchSize,
+      });
+
+      if (entries.length > 0) {
+        yield entries.map((entry) => this.formatWorkEntry(entry));
+        offset += entries.length;
+        if (!byOffset) {
+          cursor = this.toWorkEntryCursor(filters, entries[entries.length - 1], 'next');
+        }
+      }
+
+      hasMore = entries.length === batchSize;
+    }
   }
 
   /**
@@ -180,6 +1134,7 @@ export class WorkEntryService {
         where: {
           id: entryId,
           userId,
+          deletedAt: null,
         },
         select: workEntrySelectFields,
       });
@@ -203,44 +1158,19 @@ export class WorkEntryService {
   async updateWorkEntry(
     userId: string,
     entryId: string,
-    data: UpdateWorkEntryRequest
+    data: UpdateWorkEntryRequest,
+    context: RevisionContext,
+    overlapPolicy: OverlapPolicy = config.workEntries.overlapPolicy
   ): Promise<WorkEntryResponse> {
     try {
-      // Optimized: Get existing entry with minimal fields
-      const existingEntry = await prisma.workEntry.findFirst({
-        where: {
-          id: entryId,
-          userId,
-        },
-        select: {
-          id: true,
-          startTime: true,
-          endTime: true,
-          userId: true,
-        },
-      });
-
-      if (!existingEntry) {
-        throw new Error('Work entry not found or access denied');
-      }
-
-      // Build update data
-      const updateData: any = {};
-      if (data.startTime) updateData.startTime = new Date(data.startTime);
-      if (data.endTime) updateData.endTime = new Date(data.endTime);
-      if (data.description !== undefined) updateData.description = data.description.trim();
-
-      // Update with field selection
-      const updatedEntry = await prisma.workEntry.update({
-        where: { id: entryId },
-        data: updateData,
-        select: workEntrySelectFields,
-      });
+      const workEntry = await prisma.$transaction((tx) =>
+        this.applyWorkEntryUpdate(tx, userId, entryId, data, context, overlapPolicy)
+      );
 
       // Invalidate user cache after updating entry
       cacheService.invalidateUserCache(userId);
 
-      return this.formatWorkEntry(updatedEntry);
+      return workEntry;
     } catch (error) {
       if (error instanceof Error) {
         throw error;
@@ -250,29 +1180,205 @@ export class WorkEntryService {
   }
 
   /**
-   * Delete a work entry - Optimized to reduce queries
+   * Get the user's running timer, if any
+   */
+  async getRunningTimer(userId: string): Promise<WorkEntryResponse | null> {
+    const timer = await prisma.workEntry.findFirst({
+      where: { userId, endTime: null, deletedAt: null },
+      select: workEntrySelectFields,
+    });
+
+    return timer ? this.formatWorkEntry(timer) : null;
+  }
+
+  /**
+   * Start a timer - a work entry without an end time
+   * Each user can have at most one running timer
    */
-  async deleteWorkEntry(userId: string, entryId: string): Promise<void> {
+  async startTimer(
+    userId: string,
+    data: StartTimerRequest,
+    context: RevisionContext
+  ): Promise<WorkEntryResponse> {
+    const running = await prisma.workEntry.findFirst({
+      where: { userId, endTime: null, deletedAt: null },
+      select: { id: true },
+    });
+
+    if (running) {
+      throw new Error('A timer is already running');
+    }
+
+    if (data.projectId) {
+      await projectService.assertAssignableProject(userId, data.projectId);
+    }
+
+    const tagIds = data.tags ? await tagService.resolveTagIds(userId, data.tags) : [];
+
     try {
-      // Verify ownership before deletion
-      const workEntry = await prisma.workEntry.findFirst({
-        where: {
-          id: entryId,
+      const timer = await prisma.$transaction(async (tx) => {
+        const createdTimer = this.formatWorkEntry(
+          await tx.workEntry.create({
+            data: {
+              userId,
+              startTime: data.startTime ? new Date(data.startTime) : new Date(),
+              endTime: null,
+              description: data.description.trim(),
+              projectId: data.projectId ?? null,
+              tags: { create: tagIds.map((tagId) => ({ tagId })) },
+            },
+            select: workEntrySelectFields,
+          })
+        );
+
+        await WorkEntryRevisionService.record(
+          tx,
+          context,
           userId,
-        },
-        select: {
-          id: true,
-        },
+          createdTimer.id,
+          'create',
+          null,
+          WorkEntryRevisionService.snapshot(createdTimer)
+        );
+
+        return createdTimer;
       });
 
-      if (!workEntry) {
-        throw new Error('Work entry not found or access denied');
+      cacheService.invalidateUserCache(userId);
+
+      return timer;
+    } catch (error) {
+      // The partial unique index catches a timer started concurrently
+      if (isUniqueConstraintError(error)) {
+        throw new Error('A timer is already running');
       }
+      throw error;
+    }
+  }
 
-      // Delete the entry
-      await prisma.workEntry.delete({
-        where: { id: entryId },
-      });
+  /**
+   * Stop the running timer, turning it into a regular work entry
+   */
+  async stopTimer(
+    userId: string,
+    data: StopTimerRequest,
+    context: RevisionContext,
+    overlapPolicy: OverlapPolicy = config.workEntries.overlapPolicy
+  ): Promise<WorkEntryResponse> {
+    const timer = await prisma.workEntry.findFirst({
+      where: { userId, endTime: null, deletedAt: null },
+      select: workEntrySelectFields,
+    });
+
+    if (!timer) {
+      throw new Error('No timer is running');
+    }
+
+    const endTime = data.endTime ?? new Date().toISOString();
+    const description = data.description ?? timer.description;
+
+    // The stopped entry must follow the same duration rules as a manually created one
+    enhancedCreateWorkEntrySchema.parse({
+      startTime: timer.startTime.toISOString(),
+      endTime,
+      description,
+    });
+
+    const range = await this.resolveOverlaps(
+      prisma,
+      userId,
+      { startTime: timer.startTime, endTime: new Date(endTime) },
+      overlapPolicy,
+      timer.id
+    );
+
+    const stoppedEntry = await prisma.$transaction(async (tx) => {
+      const updatedEntry = this.formatWorkEntry(
+        await tx.workEntry.update({
+          where: { id: timer.id },
+          data: { ...range, description: description.trim() },
+          select: workEntrySelectFields,
+        })
+      );
+
+      await WorkEntryRevisionService.record(
+        tx,
+        context,
+        userId,
+        timer.id,
+        'update',
+        WorkEntryRevisionService.snapshot(this.formatWorkEntry(timer)),
+        WorkEntryRevisionService.snapshot(updatedEntry)
+      );
+
+      return updatedEntry;
+    });
+
+    cacheService.invalidateUserCache(userId);
+
+    return stoppedEntry;
+  }
+
+  /**
+   * Find overlapping work entries in a user's existing data
+   * Dates are whole days in the user's time zone
+   */
+  async getWorkEntryConflicts(
+    userId: string,
+    startDate?: string,
+    endDate?: string
+  ): Promise<WorkEntryConflictsResponse> {
+    const { timezone } = await settingsService.getSettings(userId);
+    const where: any = { userId, deletedAt: null };
+
+    if (startDate) {
+      // Entries still running at the start of the range can overlap entries inside it
+      where.OR = [{ endTime: { gt: startOfLocalDay(startDate, timezone) } }, { endTime: null }];
+    }
+
+    if (endDate) {
+      // Up to the end of the endDate to include entries that start on it
+      where.startTime = { lt: startOfLocalDay(endDate, timezone, 1) };
+    }
+
+    const entries = await prisma.workEntry.findMany({
+      where,
+      select: conflictSelectFields,
+      orderBy: { startTime: 'asc' },
+    });
+
+    const overlaps = findOverlappingPairs(entries).map((pair) => {
+      const overlapMs = pair.overlapEnd.getTime() - pair.overlapStart.getTime();
+      return {
+        first: this.formatConflict(pair.first),
+        second: this.formatConflict(pair.second),
+        overlapStart: pair.overlapStart.toISOString(),
+        overlapEnd: pair.overlapEnd.toISOString(),
+        overlapHours: Math.round((overlapMs / (1000 * 60 * 60)) * 100) / 100,
+      };
+    });
+
+    const totalOverlapHours = overlaps.reduce((sum, overlap) => sum + overlap.overlapHours, 0);
+
+    return {
+      overlaps,
+      totalOverlapHours: Math.round(totalOverlapHours * 100) / 100,
+    };
+  }
+
+  /**
+   * Count the work entries a user has logged
+   */
+  async countWorkEntries(userId: string): Promise<number> {
+    return prisma.workEntry.count({ where: { userId, deletedAt: null } });
+  }
+
+  /**
+   * Delete a work entry - Optimized to reduce queries
+   */
+  async deleteWorkEntry(userId: string, entryId: string, context: RevisionContext): Promise<void> {
+    try {
+      await prisma.$transaction((tx) => this.removeWorkEntry(tx, userId, entryId, context));
 
       // Invalidate user cache after deleting entry
       cacheService.invalidateUserCache(userId);
@@ -285,34 +1391,557 @@ export class WorkEntryService {
   }
 
   /**
-   * Get work entry statistics with duration calculations
+   * List the work entries in a user's trash, most recently deleted first
+   */
+  async getTrash(userId: string, query: TrashQuery): Promise<WorkEntryTrashResponse> {
+    const where = { userId, deletedAt: { not: null } };
+    const retentionMs = config.workEntries.trashRetentionDays * DAY_MS;
+
+    const [totalCount, entries] = await Promise.all([
+      prisma.workEntry.count({ where }),
+      prisma.workEntry.findMany({
+        where,
+        select: { ...workEntrySelectFields, deletedAt: true },
+        orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+    ]);
+
+    const data: TrashedWorkEntryResponse[] = entries.map((entry) => ({
+      ...this.formatWorkEntry(entry),
+      deletedAt: entry.deletedAt!.toISOString(),
+      purgeAt: new Date(entry.deletedAt!.getTime() + retentionMs).toISOString(),
+    }));
+
+    const totalPages = Math.ceil(totalCount / query.limit);
+
+    return {
+      data,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total: totalCount,
+        totalPages,
+        hasNext: query.page < totalPages,
+        hasPrev: query.page > 1,
+      },
+    };
+  }
+
+  /**
+   * Restore a work entry from the trash
+   * The entry must fit around entries logged since it was deleted, following the overlap policy
+   */
+  async restoreWorkEntry(
+    userId: string,
+    entryId: string,
+    context: RevisionContext,
+    overlapPolicy: OverlapPolicy = config.workEntries.overlapPolicy
+  ): Promise<WorkEntryResponse> {
+    const entry = await prisma.workEntry.findFirst({
+      where: { id: entryId, userId, deletedAt: { not: null } },
+      select: { id: true, startTime: true, endTime: true, breaks: true },
+    });
+
+    if (!entry) {
+      throw new Error('Work entry not found in trash');
+    }
+
+    let range: ClosedTimeRange | null = null;
+
+    if (entry.endTime) {
+      range = await this.resolveOverlaps(
+        prisma,
+        userId,
+        { startTime: entry.startTime, endTime: entry.endTime },
+        overlapPolicy,
+        entry.id
+      );
+      // Trimming may have moved the entry's edges past its breaks
+      this.assertValidDuration(range, entry.breaks);
+    } else {
+      const running = await prisma.workEntry.findFirst({
+        where: { userId, endTime: null, deletedAt: null },
+        select: { id: true },
+      });
+
+      if (running) {
+        throw new Error('A timer is already running');
+      }
+    }
+
+    try {
+      const restoredEntry = await prisma.$transaction(async (tx) => {
+        const updatedEntry = this.formatWorkEntry(
+          await tx.workEntry.update({
+            where: { id: entry.id },
+            data: { deletedAt: null, ...range },
+            select: workEntrySelectFields,
+          })
+        );
+
+        await WorkEntryRevisionService.record(
+          tx,
+          context,
+          userId,
+          entry.id,
+          'restore',
+          null,
+          WorkEntryRevisionService.snapshot(updatedEntry)
+        );
+
+        return updatedEntry;
+      });
+
+      cacheService.invalidateUserCache(userId);
+
+      return restoredEntry;
+    } catch (error) {
+      // The partial unique index catches a timer started concurrently
+      if (isUniqueConstraintError(error)) {
+        throw new Error('A timer is already running');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the revision history of one of the user's work entries, newest first
+   * Entries in the trash, and entries purged from it, keep their history
+   */
+  async getWorkEntryHistory(userId: string, entryId: string): Promise<WorkEntryRevisionResponse[]> {
+    const revisions = await WorkEntryRevisionService.list(userId, entryId);
+
+    if (revisions.length === 0) {
+      // Entries created before revisions were recorded have an empty history
+      const entry = await prisma.workEntry.findFirst({
+        where: { id: entryId, userId },
+        select: { id: true },
+      });
+
+      if (!entry) {
+        throw new Error('Work entry not found or access denied');
+      }
+    }
+
+    return revisions;
+  }
+
+  /**
+   * Revert a work entry to the values it had after one of its revisions
+   * The change follows the overlap policy like an update and is recorded as a new revision
+   */
+  async revertWorkEntry(
+    userId: string,
+    entryId: string,
+    revisionId: string,
+    context: RevisionContext,
+    overlapPolicy: OverlapPolicy = config.workEntries.overlapPolicy
+  ): Promise<WorkEntryResponse> {
+    const revision = await WorkEntryRevisionService.find(userId, entryId, revisionId);
+
+    if (!revision) {
+      throw new Error('Revision not found');
+    }
+
+    const target = revision.after;
+
+    if (!target) {
+      throw new Error('Cannot revert to a deletion; restore the entry from the trash instead');
+    }
+
+    const entry = await prisma.workEntry.findFirst({
+      where: { id: entryId, userId, deletedAt: null },
+      select: { endTime: true },
+    });
+
+    if (!entry) {
+      throw new Error('Work entry not found or access denied');
+    }
+
+    if (!target.endTime && entry.endTime) {
+      throw new Error('Cannot revert a stopped work entry to a running timer');
+    }
+
+    const data: UpdateWorkEntryRequest = {
+      startTime: target.startTime,
+      ...(target.endTime && { endTime: target.endTime }),
+      description: target.description,
+      projectId: target.projectId,
+      tags: target.tags,
+      // Revisions without breaks were recorded for entries without any
+      breaks: target.breaks ?? [],
+    };
+
+    const workEntry = await prisma.$transaction((tx) =>
+      this.applyWorkEntryUpdate(tx, userId, entryId, data, context, overlapPolicy, revision.id)
+    );
+
+    cacheService.invalidateUserCache(userId);
+
+    return workEntry;
+  }
+
+  /**
+   * Permanently delete work entries that have been in the trash longer than the retention period
+   * Returns the number of entries purged
+   */
+  async purgeDeletedWorkEntries(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - config.workEntries.trashRetentionDays * DAY_MS);
+
+    const { count } = await prisma.workEntry.deleteMany({
+      where: { deletedAt: { lt: cutoff } },
+    });
+
+    return count;
+  }
+
+  /**
+   * Map an error from a single bulk operation to its per-operation error
+   * Returns null for unexpected errors, which fail the whole request
+   */
+  private toBulkOperationError(error: unknown): BulkOperationError | null {
+    if (error instanceof WorkEntryOverlapError) {
+      return { message: error.message, code: 'WORK_ENTRY_OVERLAP', conflicts: error.conflicts };
+    }
+
+    if (error instanceof ProjectError) {
+      return { message: error.message, code: error.code };
+    }
+
+    if (error instanceof WorkEntryDurationError) {
+      return { message: error.message, code: 'INVALID_DURATION' };
+    }
+
+    if (error instanceof Error && error.message.includes('not found')) {
+      return { message: 'Work entry not found', code: 'WORK_ENTRY_NOT_FOUND' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Apply one bulk operation using the given client
+   */
+  private async applyBulkOperation(
+    client: Prisma.TransactionClient,
+    userId: string,
+    { index, operation }: IndexedBulkOperation,
+    context: RevisionContext,
+    overlapPolicy: OverlapPolicy
+  ): Promise<BulkOperationResult> {
+    switch (operation.op) {
+      case 'create': {
+        const workEntry = await this.insertWorkEntry(
+          client,
+          userId,
+          operation.data,
+          context,
+          overlapPolicy
+        );
+        return { index, op: 'create', status: 'succeeded', id: workEntry.id, data: workEntry };
+      }
+      case 'update': {
+        const workEntry = await this.applyWorkEntryUpdate(
+          client,
+          userId,
+          operation.id,
+          operation.data,
+          context,
+          overlapPolicy
+        );
+        return { index, op: 'update', status: 'succeeded', id: workEntry.id, data: workEntry };
+      }
+      case 'delete':
+        await this.removeWorkEntry(client, userId, operation.id, context);
+        return { index, op: 'delete', status: 'succeeded', id: operation.id };
+    }
+  }
+
+  /**
+   * Apply a batch of create, update and delete operations in request order
+   * In atomic mode the batch runs in one transaction: the first failing operation rolls it back
+   * and every other operation is reported as skipped. In best-effort mode each operation is
+   * applied on its own. Operations rejected by validation are passed in as `rejected` results;
+   * an atomic batch with any of them is not attempted.
+   */
+  async bulkWorkEntries(
+    userId: string,
+    mode: BulkMode,
+    operations: IndexedBulkOperation[],
+    context: RevisionContext,
+    rejected: BulkOperationResult[] = [],
+    overlapPolicy: OverlapPolicy = config.workEntries.overlapPolicy
+  ): Promise<BulkWorkEntriesResponse> {
+    return performanceMonitor.monitor(
+      'bulkWorkEntries',
+      async () => {
+        const results: BulkOperationResult[] = [...rejected];
+
+        if (mode === 'atomic') {
+          if (rejected.length === 0) {
+            const failures: BulkOperationResult[] = [];
+
+            try {
+              const applied = await prisma.$transaction(
+                async (tx) => {
+                  const succeeded: BulkOperationResult[] = [];
+
+                  for (const item of operations) {
+                    try {
+                      succeeded.push(
+                        await this.applyBulkOperation(tx, userId, item, context, overlapPolicy)
+                      );
+                    } catch (error) {
+                      const bulkError = this.toBulkOperationError(error);
+                      if (bulkError) {
+                        failures.push({
+                          index: item.index,
+                          op: item.operation.op,
+                          status: 'failed',
+                          ...('id' in item.operation && { id: item.operation.id }),
+                          error: bulkError,
+                        });
+                      }
+                      // Rethrow so the transaction rolls back
+                      throw error;
+                    }
+                  }
+
+                  return succeeded;
+                },
+                { timeout: BULK_TRANSACTION_TIMEOUT_MS }
+              );
+
+              results.push(...applied);
+            } catch (error) {
+              if (failures.length === 0) {
+                throw error;
+              }
+              results.push(...failures);
+            }
+          }
+
+          // Operations that were rolled back or never attempted
+          const reported = new Set(results.map((result) => result.index));
+          for (const { index, operation } of operations) {
+            if (!reported.has(index)) {
+              results.push({
+                index,
+                op: operation.op,
+                status: 'skipped',
+                ...('id' in operation && { id: operation.id }),
+              });
+            }
+          }
+        } else {
+          for (const item of operations) {
+            try {
+              // Each operation commits on its own, together with its revision
+              results.push(
+                await prisma.$transaction((tx) =>
+                  this.applyBulkOperation(tx, userId, item, context, overlapPolicy)
+                )
+              );
+            } catch (error) {
+              const bulkError = this.toBulkOperationError(error);
+              if (!bulkError) {
+                throw error;
+              }
+              results.push({
+                index: item.index,
+                op: item.operation.op,
+                status: 'failed',
+                ...('id' in item.operation && { id: item.operation.id }),
+                error: bulkError,
+              });
+            }
+          }
+        }
+
+        results.sort((a, b) => a.index - b.index);
+
+        const summary = {
+          total: results.length,
+          succeeded: results.filter((result) => result.status === 'succeeded').length,
+          failed: results.filter((result) => result.status === 'failed').length,
+          skipped: results.filter((result) => result.status === 'skipped').length,
+        };
+
+        // Invalidate the user cache once for the whole batch
+        if (summary.succeeded > 0) {
+          cacheService.invalidateUserCache(userId);
+        }
+
+        return { mode, committed: summary.succeeded > 0, summary, results };
+      },
+      userId,
+      { mode, operations: operations.length + rejected.length }
+    );
+  }
+
+  /**
+   * Resolve the dates a stats series covers
+   * Without dates the series ends today in the series' time zone and has the default number of
+   * buckets for its interval
+   */
+  private resolveSeriesRange(
+    query: StatsSeriesQuery,
+    timezone: string
+  ): { startDate: string; endDate: string } {
+    const endDate = query.endDate ?? getLocalDate(new Date(), timezone);
+
+    if (query.startDate) {
+      return { startDate: query.startDate, endDate };
+    }
+
+    const start = new Date(endDate);
+    const buckets = DEFAULT_SERIES_BUCKETS[query.interval];
+    switch (query.interval) {
+      case 'day':
+        start.setUTCDate(start.getUTCDate() - (buckets - 1));
+        break;
+      case 'week':
+        start.setUTCDate(start.getUTCDate() - (buckets - 1) * 7);
+        break;
+      case 'month':
+        // From the first of the month, so shorter months don't roll over
+        start.setUTCDate(1);
+        start.setUTCMonth(start.getUTCMonth() - (buckets - 1));
+        break;
+    }
+
+    return { startDate: start.toISOString().split('T')[0]!, endDate };
+  }
+
+  /**
+   * Get the hours worked per day, week or month in the given time zone, by default the user's
+   * Buckets are whole local periods - weeks start on the user's first day of the week - and
+   * periods without work are included. Entries crossing a bucket boundary count towards each bucket for the time inside
+   * it, less the breaks inside it. Running timers are left out until they are stopped, as in the statistics.
+   */
+  async getWorkEntryStatsSeries(
+    userId: string,
+    query: StatsSeriesQuery
+  ): Promise<WorkEntryStatsSeriesResponse> {
+    return performanceMonitor.monitor(
+      'getWorkEntryStatsSeries',
+      async () => {
+        const { interval } = query;
+        const settings = await settingsService.getSettings(userId);
+        const timezone = query.timezone ?? settings.timezone;
+        const { startDate, endDate } = this.resolveSeriesRange(query, timezone);
+        // Postgres weeks start on Monday, so other weeks are truncated shifted by a few days
+        const shiftDays = interval === 'week' ? WEEK_START_SHIFT_DAYS[settings.weekStart] : 0;
+
+        // Bucket bounds are local midnights converted to UTC, so daylight saving time is followed
+        const rows = await prisma.$queryRaw<StatsSeriesRow[]>`
+          WITH buckets AS (
+            SELECT
+              period,
+              (period AT TIME ZONE ${timezone}::text) AT TIME ZONE 'UTC' AS bucket_start,
+              ((period + ('1 ' || ${interval}::text)::interval) AT TIME ZONE ${timezone}::text)
+                AT TIME ZONE 'UTC' AS bucket_end
+            FROM generate_series(
+              date_trunc(
+                ${interval}::text,
+                ${startDate}::timestamp + ${shiftDays}::int * interval '1 day'
+              ) - ${shiftDays}::int * interval '1 day',
+              ${endDate}::timestamp,
+              ('1 ' || ${interval}::text)::interval
+            ) AS period
+          )
+          SELECT
+            b.period,
+            b.bucket_start,
+            b.bucket_end,
+            COALESCE(
+              SUM(
+                EXTRACT(
+                  EPOCH FROM LEAST(e."endTime", b.bucket_end) - GREATEST(e."startTime", b.bucket_start)
+                ) - br.seconds
+              ),
+              0
+            )::float8 AS seconds,
+            COUNT(e.id)::int AS entries
+          FROM buckets b
+          LEFT JOIN work_entries e
+            ON e."userId" = ${userId}
+            AND e."deletedAt" IS NULL
+            AND e."endTime" IS NOT NULL
+            AND e."startTime" < b.bucket_end
+            AND e."endTime" > b.bucket_start
+          -- Breaks of the entry inside the bucket
+          LEFT JOIN LATERAL (
+            SELECT COALESCE(
+              SUM(
+                EXTRACT(
+                  EPOCH FROM LEAST(p."endTime", b.bucket_end) - GREATEST(p."startTime", b.bucket_start)
+                )
+              ),
+              0
+            ) AS seconds
+            FROM work_entry_breaks p
+            WHERE p."workEntryId" = e.id
+              AND p."startTime" < b.bucket_end
+              AND p."endTime" > b.bucket_start
+          ) br ON true
+          GROUP BY b.period, b.bucket_start, b.bucket_end
+          ORDER BY b.period
+        `;
+
+        const toHours = (seconds: number) => Math.round((seconds / 3600) * 100) / 100;
+
+        return {
+          interval,
+          timezone,
+          startDate,
+          endDate,
+          totalHours: toHours(rows.reduce((sum, row) => sum + row.seconds, 0)),
+          buckets: rows.map((row) => ({
+            date: row.period.toISOString().split('T')[0]!,
+            start: row.bucket_start.toISOString(),
+            end: row.bucket_end.toISOString(),
+            hours: toHours(row.seconds),
+            entries: row.entries,
+          })),
+        };
+      },
+      userId,
+      query
+    );
+  }
+
+  /**
+   * Get work entry statistics with duration calculations, broken down by project and tag
+   * Dates are whole days in the user's time zone
    */
   async getWorkEntryStats(
     userId: string,
     startDate?: string,
     endDate?: string
-  ): Promise<{
-    totalHours: number;
-    averageHours: number;
-    totalEntries: number;
-  }> {
+  ): Promise<WorkEntryStatsResponse> {
     try {
-      // Build where clause
+      const { timezone } = await settingsService.getSettings(userId);
+
+      // Build where clause - running timers are left out until they are stopped
       const where: any = {
         userId,
+        endTime: { not: null },
+        deletedAt: null,
       };
 
       if (startDate) {
-        const start = new Date(startDate);
+        const start = startOfLocalDay(startDate, timezone);
         where.startTime = {
           gte: start,
         };
       }
 
       if (endDate) {
-        const end = new Date(endDate);
-        // Add 1 day to include entries that end on the endDate
-        end.setDate(end.getDate() + 1);
+        // Up to the end of the endDate to include entries that end on it
+        const end = startOfLocalDay(endDate, timezone, 1);
         where.endTime = {
           lt: end,
         };
@@ -324,25 +1953,77 @@ export class WorkEntryService {
         select: {
           startTime: true,
           endTime: true,
+          project: {
+            select: {
+              id: true,
+              name: true,
+              client: { select: { id: true, name: true } },
+            },
+          },
+          tags: { select: { tag: { select: { id: true, name: true } } } },
+          breaks: { select: { startTime: true, endTime: true } },
         },
       });
 
-      // Calculate total hours from timestamps
+      // Calculate net hours from timestamps and breaks, per project and tag as well as overall
+      const projectTotals = new Map<string | null, ProjectStats>();
+      const tagTotals = new Map<string, TagStats>();
+
       const totalHours = entries.reduce((sum: number, entry: any) => {
-        const startTime = new Date(entry.startTime);
-        const endTime = new Date(entry.endTime);
-        const durationMs = endTime.getTime() - startTime.getTime();
+        const durationMs = getNetDurationMs(entry, entry.breaks);
         const duration = durationMs / (1000 * 60 * 60); // Convert to hours
+
+        const projectId = entry.project?.id ?? null;
+        const projectStats = projectTotals.get(projectId) ?? {
+          projectId,
+          projectName: entry.project?.name ?? null,
+          clientId: entry.project?.client?.id ?? null,
+          clientName: entry.project?.client?.name ?? null,
+          totalHours: 0,
+          totalEntries: 0,
+        };
+        projectStats.totalHours += duration;
+        projectStats.totalEntries++;
+        projectTotals.set(projectId, projectStats);
+
+        for (const { tag } of entry.tags) {
+          const tagStats = tagTotals.get(tag.id) ?? {
+            tagId: tag.id,
+            tagName: tag.name,
+            totalHours: 0,
+            totalEntries: 0,
+          };
+          tagStats.totalHours += duration;
+          tagStats.totalEntries++;
+          tagTotals.set(tag.id, tagStats);
+        }
+
         return sum + duration;
       }, 0);
 
       const totalEntries = entries.length;
       const averageHours = totalEntries > 0 ? totalHours / totalEntries : 0;
 
+      const byProject = Array.from(projectTotals.values())
+        .map((projectStats) => ({
+          ...projectStats,
+          totalHours: Math.round(projectStats.totalHours * 100) / 100,
+        }))
+        .sort((a, b) => b.totalHours - a.totalHours);
+
+      const byTag = Array.from(tagTotals.values())
+        .map((tagStats) => ({
+          ...tagStats,
+          totalHours: Math.round(tagStats.totalHours * 100) / 100,
+        }))
+        .sort((a, b) => b.totalHours - a.totalHours);
+
       return {
         totalHours: Math.round(totalHours * 100) / 100, // Round to 2 decimal places
         averageHours: Math.round(averageHours * 100) / 100, // Round to 2 decimal places
         totalEntries,
+        byProject,
+        byTag,
       };
     } catch (error) {
       throw new Error('Failed to get work entry statistics');
@@ -0,0 +1,88 @@
+import type { Role, User } from './auth.types';
+
+export type AccountStatus = 'active' | 'disabled' | 'deleted';
+
+export type AuditAction =
+  | 'user.disable'
+  | 'user.enable'
+  | 'user.role_change'
+  | 'user.force_password_reset'
+  | 'user.unlock'
+  | 'user.soft_delete'
+  | 'user.restore'
+  | 'user.hard_delete';
+
+/**
+ * A user as seen by admins - includes account state that is never shown to the user themselves
+ */
+export interface AdminUserSummary extends User {
+  status: AccountStatus;
+  passwordResetRequired: boolean;
+  disabledAt: Date | null;
+  deletedAt: Date | null;
+  workEntryCount: number;
+}
+
+export interface AdminUserDetails extends AdminUserSummary {
+  activeSessionCount: number;
+  lastLoginAt: Date | null;
+  lastActiveAt: Date | null;
+  firstWorkEntryAt: Date | null;
+  lastWorkEntryAt: Date | null;
+  isLocked: boolean;
+}
+
+export interface AdminUserFilters {
+  search?: string | undefined;
+  role?: Role | undefined;
+  status?: AccountStatus | undefined;
+  sortBy: 'createdAt' | 'email' | 'lastName';
+  sortOrder: 'asc' | 'desc';
+  page: number;
+  limit: number;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+export interface AdminUserListResponse {
+  users: AdminUserSummary[];
+  pagination: Pagination;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  actorId: string | null;
+  action: string;
+  targetUserId: string | null;
+  metadata: unknown;
+  ipAddress: string | null;
+  createdAt: Date;
+}
+
+export interface AuditLogFilters {
+  actorId?: string | undefined;
+  targetUserId?: string | undefined;
+  action?: AuditAction | undefined;
+  page: number;
+  limit: number;
+}
+
+export interface AuditLogListResponse {
+  entries: AuditLogEntry[];
+  pagination: Pagination;
+}
+
+/**
+ * Who performed an admin action, recorded alongside it in the audit trail
+ */
+export interface AuditContext {
+  actorId: string;
+  ipAddress: string | null;
+}
@@ -1,8 +1,21 @@
+export type Role = 'user' | 'manager' | 'admin';
+
+export type Permission =
+  | 'work-entries:read'
+  | 'work-entries:write'
+  | 'system:monitor'
+  | 'system:manage'
+  | 'users:read'
+  | 'users:manage';
+
 export interface User {
   id: string;
   email: string;
   firstName: string;
   lastName: string;
+  role: Role;
+  emailVerified: boolean;
+  mfaEnabled: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -38,10 +51,84 @@ export interface AuthResponse {
   tokens: AuthTokens;
 }
 
+/**
+ * Returned by login instead of tokens when the user has MFA enabled
+ * The challenge token is exchanged for tokens at /api/auth/mfa/verify
+ */
+export interface MfaChallengeResponse {
+  mfaRequired: true;
+  challengeToken: string;
+  expiresIn: string;
+}
+
+export type LoginResponse = AuthResponse | MfaChallengeResponse;
+
+export interface MfaSetupResponse {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface MfaVerifyRequest {
+  challengeToken: string;
+  code?: string | undefined;
+  recoveryCode?: string | undefined;
+}
+
+export interface SessionContext {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface SessionInfo {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  current: boolean;
+}
+
+// Scopes are the subset of permissions that can be delegated to a personal access token
+export type PersonalAccessTokenScope = Extract<
+  Permission,
+  'work-entries:read' | 'work-entries:write'
+>;
+
+export interface PersonalAccessTokenInfo {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: PersonalAccessTokenScope[];
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  createdAt: Date;
+}
+
+export interface CreatePersonalAccessTokenRequest {
+  name: string;
+  scopes: PersonalAccessTokenScope[];
+  expiresInDays?: number | undefined;
+}
+
+export interface UpdatePersonalAccessTokenRequest {
+  name: string;
+}
+
+/**
+ * Returned once when a token is created - the raw token cannot be retrieved again
+ */
+export interface CreatedPersonalAccessToken {
+  token: string;
+  personalAccessToken: PersonalAccessTokenInfo;
+}
+
 export interface JWTPayload {
   userId: string;
   email: string;
-  type: 'access' | 'refresh';
+  type: 'access' | 'refresh' | 'mfa_challenge';
+  role?: Role;
+  sessionId?: string;
+  jti?: string;
   iat?: number;
   exp?: number;
 }
@@ -49,6 +136,9 @@ export interface JWTPayload {
 export interface AuthenticatedRequest extends Request {
   user?: User;
   userId?: string;
+  sessionId?: string;
+  personalAccessTokenId?: string;
+  tokenScopes?: PersonalAccessTokenScope[];
 }
 
 export interface PasswordResetRequest {
@@ -60,6 +150,10 @@ export interface PasswordResetConfirmRequest {
   newPassword: string;
 }
 
+export interface EmailVerificationRequest {
+  token: string;
+}
+
 export interface ChangePasswordRequest {
   currentPassword: string;
   newPassword: string;
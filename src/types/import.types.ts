@@ -0,0 +1,76 @@
+import type { BulkWorkEntriesResponse, WorkEntryConflict } from './work-entry.types';
+import type { LocalDateTime } from '../utils/timezone.utils';
+
+// Time trackers whose export files can be imported
+export type TrackerName = 'toggl' | 'clockify' | 'harvest';
+
+// When an entry in an import file took place
+export type ImportTiming =
+  | { startTime: Date; endTime: Date }
+  // Only the day and hours are known; entries are placed back to back from dayStartTime
+  | { date: LocalDateTime; hours: number };
+
+// One time entry read from an import file, before it is validated
+export interface ImportSourceRow {
+  line: number; // 1-based line in a CSV file, or position in a JSON file
+  timing: ImportTiming | null; // null when the times could not be read
+  description: string;
+  project: string | null; // Project name
+  client: string | null; // Client name, used when the project is created
+  tags: string[];
+  billable: boolean;
+  errors: ImportRowError[]; // Problems found while reading the row
+}
+
+// A work entry as read from an import file, before it is stored
+export interface ImportedEntry {
+  startTime: string; // ISO datetime string
+  endTime: string; // ISO datetime string
+  description: string;
+  projectId: string | null;
+  tags: string[];
+}
+
+export interface ImportRowError {
+  field: string | null; // Work entry field or mapped column, null for the row as a whole
+  message: string;
+}
+
+export interface ImportRowPreview {
+  line: number; // 1-based line in the file, or position of the entry in a JSON file
+  status: 'valid' | 'invalid' | 'duplicate';
+  entry: ImportedEntry | null; // null when the row could not be parsed
+  errors?: ImportRowError[];
+  // The existing entry, or earlier row, with the same start and end time
+  duplicateOf?: { entryId: string } | { line: number };
+  conflicts?: WorkEntryConflict[]; // Existing entries the row overlaps
+  newProject?: string; // Project the import creates for the row
+}
+
+// A project that doesn't exist yet, created when importing
+export interface NewImportProject {
+  name: string;
+  client: string | null;
+}
+
+export interface ImportResponse {
+  dryRun: boolean;
+  summary: {
+    totalRows: number;
+    validRows: number;
+    invalidRows: number;
+    duplicateRows: number; // Skipped when importing
+    conflictingRows: number; // Valid rows that overlap existing entries
+  };
+  rows: ImportRowPreview[];
+  // Projects (and their clients) created for valid rows, or in a dry run, that would be
+  newProjects?: NewImportProject[];
+  // Outcome of the import, keyed by line; absent for a dry run
+  result?: BulkWorkEntriesResponse;
+}
+
+export interface TrackerImportResponse extends ImportResponse {
+  source: { tracker: TrackerName; format: 'csv' | 'json' };
+  // Columns or fields in the file that have no equivalent in work entries
+  unmappedFields: string[];
+}
@@ -0,0 +1,39 @@
+export interface ClientResponse {
+  id: string;
+  name: string;
+  archived: boolean;
+  archivedAt: string | null; // ISO datetime string
+  projectCount: number;
+  createdAt: string; // ISO datetime string
+  updatedAt: string; // ISO datetime string
+}
+
+export interface ProjectResponse {
+  id: string;
+  name: string;
+  color: string | null;
+  clientId: string | null;
+  client: { id: string; name: string } | null;
+  archived: boolean;
+  archivedAt: string | null; // ISO datetime string
+  createdAt: string; // ISO datetime string
+  updatedAt: string; // ISO datetime string
+}
+
+// The project summary embedded in work entry responses
+export interface WorkEntryProject {
+  id: string;
+  name: string;
+  color: string | null;
+  client: { id: string; name: string } | null;
+}
+
+// Totals for one project in work entry statistics (projectId is null for unassigned entries)
+export interface ProjectStats {
+  projectId: string | null;
+  projectName: string | null;
+  clientId: string | null;
+  clientName: string | null;
+  totalHours: number;
+  totalEntries: number;
+}
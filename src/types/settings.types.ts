@@ -0,0 +1,13 @@
+import type { DateFormat } from '../utils/timezone.utils';
+
+// Day that weeks start on in calendars and weekly statistics
+export type WeekStart = 'monday' | 'sunday' | 'saturday';
+
+export interface UserSettingsResponse {
+  timezone: string; // IANA time zone that YYYY-MM-DD dates are read in, e.g. Europe/Berlin
+  weekStart: WeekStart;
+  locale: string; // BCP 47 language tag, e.g. en-US
+  dateFormat: DateFormat;
+  defaultEntryMinutes: number; // Length of a new work entry created without an end time
+  updatedAt: string | null; // ISO datetime string, null until the settings are first changed
+}
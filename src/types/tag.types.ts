@@ -0,0 +1,23 @@
+export interface TagResponse {
+  id: string;
+  name: string;
+  color: string | null;
+  entryCount: number; // Number of work entries carrying the tag
+  createdAt: string; // ISO datetime string
+  updatedAt: string; // ISO datetime string
+}
+
+// Tag as embedded in work entry responses
+export interface WorkEntryTag {
+  id: string;
+  name: string;
+  color: string | null;
+}
+
+// Hours logged per tag; an entry with several tags counts towards each of them
+export interface TagStats {
+  tagId: string;
+  tagName: string;
+  totalHours: number;
+  totalEntries: number;
+}
@@ -0,0 +1,40 @@
+import type { RecurrenceFrequency, Weekday } from '../utils/recurrence.utils';
+import type { WorkEntryResponse } from './work-entry.types';
+
+export interface TemplateRecurrence {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every nth day, week or month
+  byWeekday: Weekday[]; // Weekly: days the entries fall on, e.g. ["MO", "WE"]
+  byMonthDay: number | null; // Monthly: day of the month
+  startDate: string; // YYYY-MM-DD
+  endDate: string | null; // YYYY-MM-DD, null repeats indefinitely
+}
+
+export interface WorkEntryTemplateResponse {
+  id: string;
+  description: string;
+  projectId: string | null;
+  tags: string[]; // Tag names given to the entries
+  startTime: string; // HH:MM in the user's time zone
+  durationMinutes: number;
+  recurrence: TemplateRecurrence;
+  rrule: string; // The recurrence as an RFC 5545 RRULE value
+  createdAt: string; // ISO datetime string
+  updatedAt: string; // ISO datetime string
+}
+
+// Why an occurrence was not turned into a work entry
+export type TemplateSkipReason = 'exists' | 'overlap' | 'future' | 'invalid';
+
+export interface TemplateOccurrenceResult {
+  date: string; // YYYY-MM-DD in the user's time zone
+  status: 'created' | 'skipped';
+  reason?: TemplateSkipReason;
+  workEntry?: WorkEntryResponse;
+}
+
+export interface MaterializeTemplateResponse {
+  created: number;
+  skipped: number;
+  occurrences: TemplateOccurrenceResult[];
+}
@@ -1,8 +1,12 @@
+import type { WorkEntryProject, ProjectStats } from './project.types';
+import type { WorkEntryTag, TagStats } from './tag.types';
+
 export interface WorkEntry {
   id: string;
   userId: string;
+  projectId: string | null;
   startTime: Date;
-  endTime: Date;
+  endTime: Date | null; // null while the timer is running
   description: string;
   createdAt: Date;
   updatedAt: Date;
@@ -12,43 +16,216 @@ export interface CreateWorkEntryRequest {
   startTime: string; // ISO datetime string
   endTime: string; // ISO datetime string
   description: string;
+  projectId?: string;
+  tags?: string[]; // Tag names, created if they don't exist yet
+  breaks?: WorkEntryBreak[]; // Must fall within startTime and endTime
 }
 
 export interface UpdateWorkEntryRequest {
   startTime?: string; // ISO datetime string
   endTime?: string; // ISO datetime string
   description?: string;
+  projectId?: string | null; // null removes the entry from its project
+  tags?: string[]; // Replaces the entry's tags
+  breaks?: WorkEntryBreak[]; // Replaces the entry's breaks
+}
+
+// A break taken during a work entry
+export interface WorkEntryBreak {
+  startTime: string; // ISO datetime string
+  endTime: string; // ISO datetime string
 }
 
 export interface WorkEntryResponse {
   id: string;
   startTime: string; // ISO datetime string
-  endTime: string; // ISO datetime string
-  duration: number; // Calculated duration in hours
+  endTime: string | null; // ISO datetime string, null while the timer is running
+  duration: number; // Net hours worked - the time between start and end minus the breaks
+  grossDuration: number; // Hours between start and end, up to now for a running timer
+  breaks: WorkEntryBreak[]; // In chronological order
+  isRunning: boolean;
   description: string;
+  projectId: string | null;
+  project: WorkEntryProject | null;
+  tags: WorkEntryTag[];
   createdAt: string; // ISO datetime string
   updatedAt: string; // ISO datetime string
+  search?: WorkEntrySearchMatch; // Only in search results
+}
+
+// How a work entry matched a search
+export interface WorkEntrySearchMatch {
+  rank: number; // Relevance; higher is better
+  snippet: string; // Parts of the description, with matching words in <mark></mark>
+}
+
+// Pagination of a listing by page number
+export interface PagePagination {
+  page: number;
+  limit: number;
+  total?: number; // Left out with ?includeTotal=false
+  totalPages?: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+// Pagination of a listing by opaque cursor, see ?cursor=
+export interface CursorPagination {
+  limit: number;
+  nextCursor: string | null; // Pass as ?cursor= to get the following page
+  prevCursor: string | null; // Pass as ?cursor= to get the preceding page
+  hasNext: boolean;
+  hasPrev: boolean;
+  total?: number; // Only with ?includeTotal=true
 }
 
 export interface WorkEntriesListResponse {
   data: WorkEntryResponse[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-    hasNext: boolean;
-    hasPrev: boolean;
-  };
+  pagination: PagePagination | CursorPagination;
+}
+
+// A work entry in the trash
+export interface TrashedWorkEntryResponse extends WorkEntryResponse {
+  deletedAt: string; // ISO datetime string
+  purgeAt: string; // When the entry will be deleted for good
+}
+
+export interface WorkEntryTrashResponse {
+  data: TrashedWorkEntryResponse[];
+  pagination: Required<PagePagination>;
+}
+
+export interface WorkEntryStatsResponse {
+  totalHours: number;
+  averageHours: number;
+  totalEntries: number;
+  byProject: ProjectStats[];
+  byTag: TagStats[];
+}
+
+// Length of the buckets in a stats series
+export type StatsInterval = 'day' | 'week' | 'month';
+
+export interface WorkEntryStatsBucket {
+  date: string; // First local day of the bucket (YYYY-MM-DD)
+  start: string; // ISO datetime string
+  end: string; // ISO datetime string, exclusive
+  hours: number; // Hours worked inside the bucket
+  entries: number; // Entries with time inside the bucket
+}
+
+export interface WorkEntryStatsSeriesResponse {
+  interval: StatsInterval;
+  timezone: string;
+  startDate: string; // First local day of the range (YYYY-MM-DD)
+  endDate: string; // Last local day of the range (YYYY-MM-DD)
+  totalHours: number;
+  buckets: WorkEntryStatsBucket[];
 }
 
 export interface WorkEntryFilters {
   startDate?: string; // ISO date string - filter entries that start on or after this date
   endDate?: string; // ISO date string - filter entries that end on or before this date
+  projectId?: string;
+  clientId?: string; // Entries for any of the client's projects
+  tagIds?: string[];
+  tagMatch?: 'any' | 'all'; // Entries with any (default) or all of tagIds
   sortBy?: 'startTime' | 'endTime' | 'duration' | 'createdAt';
   sortOrder?: 'asc' | 'desc';
   page?: number;
   limit?: number;
 }
 
+// How a new or changed work entry that overlaps existing entries is handled
+export type OverlapPolicy = 'reject' | 'allow' | 'trim';
+
+// An existing entry that a new or changed work entry overlaps
+export interface WorkEntryConflict {
+  id: string;
+  startTime: string; // ISO datetime string
+  endTime: string | null; // ISO datetime string, null for a running timer
+  description: string;
+}
+
+export interface WorkEntryOverlap {
+  first: WorkEntryConflict;
+  second: WorkEntryConflict;
+  overlapStart: string; // ISO datetime string
+  overlapEnd: string; // ISO datetime string
+  overlapHours: number;
+}
+
+export interface WorkEntryConflictsResponse {
+  overlaps: WorkEntryOverlap[];
+  totalOverlapHours: number; // Hours counted twice in statistics
+}
+
+// Kinds of change recorded in a work entry's history
+export type WorkEntryRevisionAction = 'create' | 'update' | 'delete' | 'restore' | 'revert';
+
+// The values of a work entry captured by a revision
+export interface WorkEntrySnapshot {
+  startTime: string; // ISO datetime string
+  endTime: string | null; // ISO datetime string, null for a running timer
+  description: string;
+  projectId: string | null;
+  tags: string[]; // Tag names
+  breaks?: WorkEntryBreak[] | undefined; // Left out when the entry has no breaks
+}
+
+export interface WorkEntryRevisionResponse {
+  id: string;
+  workEntryId: string;
+  action: WorkEntryRevisionAction;
+  before: WorkEntrySnapshot | null; // null for create and restore
+  after: WorkEntrySnapshot | null; // null for delete
+  changedFields: (keyof WorkEntrySnapshot)[];
+  revertedToId: string | null; // Revision whose values a revert restored
+  actorId: string;
+  ipAddress: string | null;
+  createdAt: string; // ISO datetime string
+}
+
+/**
+ * Who made a change to a work entry, recorded in its history
+ */
+export interface RevisionContext {
+  actorId: string;
+  ipAddress: string | null;
+}
+
+// File formats for exporting work entries
+export type ExportFormat = 'csv' | 'jsonl' | 'ics';
+
+// How a bulk request is applied: all operations or none, or each on its own
+export type BulkMode = 'atomic' | 'best-effort';
+
+export interface BulkOperationError {
+  message: string;
+  code?: string;
+  errors?: unknown[]; // Validation errors for the operation
+  conflicts?: WorkEntryConflict[];
+}
+
+export interface BulkOperationResult {
+  index: number; // Position of the operation in the request
+  op: 'create' | 'update' | 'delete' | null; // null when the operation could not be parsed
+  status: 'succeeded' | 'failed' | 'skipped'; // skipped when an atomic batch was rolled back
+  id?: string; // Work entry the operation applied to
+  data?: WorkEntryResponse; // Created or updated entry
+  error?: BulkOperationError;
+}
+
+export interface BulkWorkEntriesResponse {
+  mode: BulkMode;
+  committed: boolean; // Whether any change was saved
+  summary: {
+    total: number;
+    succeeded: number;
+    failed: number;
+    skipped: number;
+  };
+  results: BulkOperationResult[];
+}
+
 // Using AuthenticatedRequest from auth.types.ts for work entry requests
@@ -0,0 +1,54 @@
+/**
+ * Breaks taken during a work entry
+ * An entry's net time is the time between its start and end minus its breaks. Breaks lie within
+ * the entry - a break may start when the entry starts or end when it ends - and don't overlap
+ * each other.
+ */
+
+// A break or work entry, with ISO datetime strings from a request or dates from the database
+export interface BreakTimes {
+  startTime: string | Date;
+  endTime: string | Date;
+}
+
+const toMs = (time: string | Date) => new Date(time).getTime();
+
+/**
+ * Total length of the breaks in milliseconds
+ */
+export function getBreakMs(breaks: BreakTimes[]): number {
+  return breaks.reduce((sum, pause) => sum + toMs(pause.endTime) - toMs(pause.startTime), 0);
+}
+
+/**
+ * Time worked during an entry in milliseconds: its length minus its breaks
+ */
+export function getNetDurationMs(entry: BreakTimes, breaks: BreakTimes[]): number {
+  return toMs(entry.endTime) - toMs(entry.startTime) - getBreakMs(breaks);
+}
+
+/**
+ * Describe the first reason the breaks don't fit the entry, or return null when they do
+ */
+export function findBreakProblem(entry: BreakTimes, breaks: BreakTimes[]): string | null {
+  const sorted = [...breaks].sort((a, b) => toMs(a.startTime) - toMs(b.startTime));
+
+  for (let i = 0; i < sorted.length; i++) {
+    const pause = sorted[i]!;
+
+    if (toMs(pause.startTime) >= toMs(pause.endTime)) {
+      return 'Break start time must be before its end time';
+    }
+    if (
+      toMs(pause.startTime) < toMs(entry.startTime) ||
+      toMs(pause.endTime) > toMs(entry.endTime)
+    ) {
+      return "Breaks must fall within the work entry's start and end time";
+    }
+    if (i > 0 && toMs(pause.startTime) < toMs(sorted[i - 1]!.endTime)) {
+      return 'Breaks cannot overlap each other';
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+
+/**
+ * Hash an opaque token for storage (SHA-256, hex encoded)
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Generate a cryptographically secure random token (hex encoded)
+ * Hex keeps tokens clear of characters rejected by the input filtering middleware
+ */
+export function generateSecureToken(byteLength = 32): string {
+  return crypto.randomBytes(byteLength).toString('hex');
+}
+
+/**
+ * Compare two strings in constant time
+ */
+export function safeCompare(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+
+  if (bufferA.length !== bufferB.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Derive a 256-bit AES key from an arbitrary-length secret
+ */
+function deriveEncryptionKey(secret: string): Buffer {
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypt a value for storage with AES-256-GCM
+ * Output is `iv:authTag:ciphertext`, each part hex encoded
+ */
+export function encryptSecret(plaintext: string, secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveEncryptionKey(secret), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('hex')).join(':');
+}
+
+/**
+ * Decrypt a value produced by encryptSecret
+ * Throws if the value has been tampered with or the key is wrong
+ */
+export function decryptSecret(encrypted: string, secret: string): string {
+  const [iv, authTag, ciphertext] = encrypted.split(':').map((part) => Buffer.from(part, 'hex'));
+
+  if (!iv || !authTag || !ciphertext) {
+    throw new Error('Malformed encrypted value');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', deriveEncryptionKey(secret), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,115 @@
+/**
+ * Minimal RFC 4180 CSV parsing
+ * Handles quoted fields with embedded delimiters, quotes ("") and line breaks.
+ */
+
+export interface CsvRecord {
+  line: number; // 1-based line the record starts on
+  values: string[];
+}
+
+export class CsvParseError extends Error {
+  constructor(
+    message: string,
+    public line: number
+  ) {
+    super(message);
+    this.name = 'CsvParseError';
+  }
+}
+
+/**
+ * Parse CSV text into records, skipping blank lines
+ */
+export function parseCsv(text: string, delimiter: string = ','): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  // Spreadsheet exports often start with a byte order mark
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+
+  let values: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quotedField = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    values.push(field);
+    // A line with a single empty field is blank
+    if (values.length > 1 || values[0] !== '' || quotedField) {
+      records.push({ line: recordLine, values });
+    }
+    values = [];
+    field = '';
+    quotedField = false;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+      quotedField = true;
+    } else if (char === delimiter) {
+      values.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new CsvParseError(`Unterminated quoted field starting on line ${recordLine}`, recordLine);
+  }
+
+  if (field !== '' || values.length > 0 || quotedField) {
+    endRecord();
+  }
+
+  return records;
+}
+
+/**
+ * Quote a field when it contains the delimiter, a quote or a line break
+ */
+export function formatCsvField(value: string, delimiter: string = ','): string {
+  if (value.includes(delimiter) || /["\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Format one CSV record, terminated by CRLF as RFC 4180 specifies
+ */
+export function formatCsvRow(values: string[], delimiter: string = ','): string {
+  return `${values.map((value) => formatCsvField(value, delimiter)).join(delimiter)}\r\n`;
+}
+
+/**
+ * Stop spreadsheet applications from running user-entered text as a formula
+ * Text starting with =, +, - or @ is prefixed with an apostrophe
+ */
+export function protectFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
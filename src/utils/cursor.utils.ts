@@ -0,0 +1,27 @@
+/**
+ * Opaque pagination cursors
+ * A cursor is a JSON payload encoded as hex, which passes the query string checks unchanged.
+ * Cursors are not signed; callers must validate the decoded payload.
+ */
+
+/**
+ * Encode a payload as an opaque cursor
+ */
+export function encodeCursor(payload: object): string {
+  return Buffer.from(JSON.stringify(payload), 'utf8').toString('hex');
+}
+
+/**
+ * Decode an opaque cursor, returning null when it is malformed
+ */
+export function decodeCursor(cursor: string): unknown {
+  if (!/^(?:[0-9a-f]{2})+$/.test(cursor)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(cursor, 'hex').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
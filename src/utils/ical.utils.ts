@@ -0,0 +1,112 @@
+/**
+ * iCalendar (RFC 5545) formatting for calendar exports
+ */
+
+export interface ICalEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  categories?: string[];
+  status?: 'CONFIRMED' | 'TENTATIVE';
+  lastModified: Date;
+}
+
+// Content lines are limited to 75 octets, excluding the line break
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape text values: backslashes, semicolons, commas and line breaks
+ */
+export function escapeICalText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Format a date as a UTC date-time, e.g. 20250115T090000Z
+ */
+export function formatICalDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Fold a content line longer than 75 octets onto continuation lines starting with a space
+ * Multi-byte characters are never split.
+ */
+export function foldICalLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+
+    current += char;
+    currentOctets += octets;
+  }
+
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Start a calendar; end it with formatICalFooter()
+ */
+export function formatICalHeader(calendarName: string): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//BloomTech//Work Tracker API//EN',
+    'CALSCALE:GREGORIAN',
+    foldICalLine(`X-WR-CALNAME:${escapeICalText(calendarName)}`),
+  ]
+    .map((line) => `${line}\r\n`)
+    .join('');
+}
+
+export function formatICalFooter(): string {
+  return 'END:VCALENDAR\r\n';
+}
+
+/**
+ * Format one event as a VEVENT block
+ */
+export function formatICalEvent(event: ICalEvent): string {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatICalDate(event.lastModified)}`,
+    `LAST-MODIFIED:${formatICalDate(event.lastModified)}`,
+    `DTSTART:${formatICalDate(event.start)}`,
+    `DTEND:${formatICalDate(event.end)}`,
+    `SUMMARY:${escapeICalText(event.summary)}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+  }
+
+  if (event.categories && event.categories.length > 0) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeICalText).join(',')}`);
+  }
+
+  lines.push(`STATUS:${event.status ?? 'CONFIRMED'}`, 'END:VEVENT');
+
+  return lines.map((line) => `${foldICalLine(line)}\r\n`).join('');
+}
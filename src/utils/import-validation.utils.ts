@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { isValidTimeZone } from './timezone.utils';
+import { tagValidation } from './tag-validation.utils';
+
+// Rows accepted in a single import
+export const IMPORT_MAX_ROWS = 5000;
+
+// Base validation schemas
+export const importValidation = {
+  // A column by header name, or by 0-based position for files without a header row
+  column: z.union([
+    z.string().trim().min(1, { message: 'Column name is required' }).max(100),
+    z.number().int().min(0).max(199),
+  ]),
+
+  // IANA time zone the file's local times are in, e.g. Europe/Berlin
+  timezone: z
+    .string()
+    .max(100)
+    .refine(isValidTimeZone, { message: 'Timezone must be an IANA time zone like Europe/Berlin' }),
+
+  dateFormat: z.enum(['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY']),
+
+  // Replaces the 2-year lower bound on imported timestamps, e.g. 2019-01-01
+  minDate: z.string().refine(
+    (date) => {
+      const parsed = new Date(date);
+      return !isNaN(parsed.getTime()) && date === parsed.toISOString().split('T')[0];
+    },
+    { message: 'Min date must be a valid ISO date string (YYYY-MM-DD)' }
+  ),
+
+  // Where the first entry of a day starts when only date and hours are known
+  dayStartTime: z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'Day start time must look like 09:00' }),
+
+  mode: z.enum(['atomic', 'best-effort']),
+};
+
+// Which CSV columns hold which work entry fields
+export const csvColumnMappingSchema = z
+  .object({
+    startTime: importValidation.column.optional(),
+    endTime: importValidation.column.optional(),
+    date: importValidation.column.optional(),
+    hours: importValidation.column.optional(),
+    description: importValidation.column,
+    project: importValidation.column.optional(),
+    tags: importValidation.column.optional(),
+  })
+  .refine(
+    (mapping) =>
+      (mapping.startTime !== undefined && mapping.endTime !== undefined) ||
+      (mapping.date !== undefined && mapping.hours !== undefined),
+    { message: 'Map either the startTime and endTime columns, or the date and hours columns' }
+  );
+
+// CSV import request body
+export const csvImportSchema = z
+  .object({
+    csv: z.string().min(1, { message: 'CSV content is required' }),
+    mapping: csvColumnMappingSchema,
+    hasHeader: z.boolean().default(true),
+    delimiter: z.enum([',', ';', '\t', '|']).default(','),
+    timezone: importValidation.timezone.default('UTC'),
+    dateFormat: importValidation.dateFormat.default('YYYY-MM-DD'),
+    dayStartTime: importValidation.dayStartTime.default('09:00'),
+    tagSeparator: z.string().min(1).max(3).default(','),
+    minDate: importValidation.minDate.optional(),
+    // Preview by default; pass false to import
+    dryRun: z.boolean().default(true),
+    mode: importValidation.mode.default('atomic'),
+  })
+  .refine(
+    (data) =>
+      data.hasHeader || Object.values(data.mapping).every((column) => typeof column !== 'string'),
+    { message: 'Columns must be mapped by position when the file has no header row' }
+  );
+
+// Toggl Track, Clockify or Harvest export; the tracker and file format are detected
+export const trackerImportSchema = z.object({
+  content: z.string().min(1, { message: 'File content is required' }),
+  timezone: importValidation.timezone.default('UTC'),
+  // CSV dates are read in the tracker's default format (MM/DD/YYYY for Clockify) unless given
+  dateFormat: importValidation.dateFormat.optional(),
+  dayStartTime: importValidation.dayStartTime.default('09:00'),
+  createMissingProjects: z.boolean().default(true),
+  // Tag added to billable entries; null to ignore billability
+  billableTag: tagValidation.name.nullable().default('billable'),
+  minDate: importValidation.minDate.optional(),
+  dryRun: z.boolean().default(true),
+  mode: importValidation.mode.default('atomic'),
+});
+
+export type CsvColumnMapping = z.infer<typeof csvColumnMappingSchema>;
+export type CsvImportRequest = z.infer<typeof csvImportSchema>;
+export type TrackerImportRequest = z.infer<typeof trackerImportSchema>;
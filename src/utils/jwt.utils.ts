@@ -1,6 +1,7 @@
+import { randomUUID } from 'crypto';
 import jwt from 'jsonwebtoken';
-import { jwtConfig } from '../config/app.config';
-import type { JWTPayload } from '../types/auth.types';
+import { jwtConfig, mfaConfig } from '../config/app.config';
+import type { JWTPayload, Role } from '../types/auth.types';
 
 export class JWTError extends Error {
   constructor(
@@ -14,12 +15,21 @@ export class JWTError extends Error {
 
 /**
  * Generate an access token for a user
+ * When a session ID is given the token is only honoured while that session is active
+ * The role is informational for clients - authorization always uses the role stored on the user
  */
-export function generateAccessToken(userId: string, email: string): string {
+export function generateAccessToken(
+  userId: string,
+  email: string,
+  sessionId?: string,
+  role?: Role
+): string {
   const payload: Omit<JWTPayload, 'iat' | 'exp'> = {
     userId,
     email,
     type: 'access',
+    ...(role && { role }),
+    ...(sessionId && { sessionId }),
   };
 
   return jwt.sign(payload, jwtConfig.secret, {
@@ -31,6 +41,7 @@ export function generateAccessToken(userId: string, email: string): string {
 
 /**
  * Generate a refresh token for a user
+ * Each token carries a unique `jti` so it can be stored and revoked individually
  */
 export function generateRefreshToken(userId: string, email: string): string {
   const payload: Omit<JWTPayload, 'iat' | 'exp'> = {
@@ -41,6 +52,7 @@ export function generateRefreshToken(userId: string, email: string): string {
 
   return jwt.sign(payload, jwtConfig.refreshSecret, {
     expiresIn: jwtConfig.refreshExpiresIn,
+    jwtid: randomUUID(),
     issuer: 'bloomtech-work-tracker',
     audience: 'bloomtech-work-tracker-api',
   } as jwt.SignOptions);
@@ -51,14 +63,16 @@ export function generateRefreshToken(userId: string, email: string): string {
  */
 export function generateTokenPair(
   userId: string,
-  email: string
+  email: string,
+  sessionId?: string,
+  role?: Role
 ): {
   accessToken: string;
   refreshToken: string;
   expiresIn: string;
 } {
   return {
-    accessToken: generateAccessToken(userId, email),
+    accessToken: generateAccessToken(userId, email, sessionId, role),
     refreshToken: generateRefreshToken(userId, email),
     expiresIn: jwtConfig.expiresIn,
   };
@@ -122,6 +136,50 @@ export function verifyRefreshToken(token: string): JWTPayload {
   }
 }
 
+/**
+ * Generate a short-lived MFA challenge token
+ * Proves the password step of login succeeded; it cannot be used as an access token
+ */
+export function generateMfaChallengeToken(userId: string, email: string): string {
+  const payload: Omit<JWTPayload, 'iat' | 'exp'> = {
+    userId,
+    email,
+    type: 'mfa_challenge',
+  };
+
+  return jwt.sign(payload, jwtConfig.secret, {
+    expiresIn: mfaConfig.challengeExpiresIn,
+    issuer: 'bloomtech-work-tracker',
+    audience: 'bloomtech-work-tracker-api',
+  } as jwt.SignOptions);
+}
+
+/**
+ * Verify and decode an MFA challenge token
+ */
+export function verifyMfaChallengeToken(token: string): JWTPayload {
+  try {
+    const decoded = jwt.verify(token, jwtConfig.secret, {
+      issuer: 'bloomtech-work-tracker',
+      audience: 'bloomtech-work-tracker-api',
+    }) as JWTPayload;
+
+    if (decoded.type !== 'mfa_challenge') {
+      throw new JWTError('Invalid token type', 'INVALID_TOKEN_TYPE');
+    }
+
+    return decoded;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new JWTError('MFA challenge expired', 'MFA_CHALLENGE_EXPIRED');
+    }
+    if (error instanceof jwt.JsonWebTokenError) {
+      throw new JWTError('Invalid MFA challenge', 'INVALID_MFA_CHALLENGE');
+    }
+    throw error;
+  }
+}
+
 /**
  * Extract token from Authorization header
  */
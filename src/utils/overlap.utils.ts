@@ -0,0 +1,111 @@
+/**
+ * Time range helpers for detecting overlapping work entries
+ * Ranges are half-open: an entry ending at 12:00 does not overlap one starting at 12:00.
+ * A null end time is a running timer, which is treated as lasting until `now`.
+ */
+
+export interface TimeRange {
+  startTime: Date;
+  endTime: Date | null;
+}
+
+export interface ClosedTimeRange {
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface OverlappingPair<T extends TimeRange> {
+  first: T;
+  second: T;
+  overlapStart: Date;
+  overlapEnd: Date;
+}
+
+/**
+ * Resolve the end of a range, measuring running timers up to now
+ */
+function resolveEnd(range: TimeRange, now: Date): Date {
+  return range.endTime ?? now;
+}
+
+/**
+ * Check whether two ranges share any time
+ */
+export function rangesOverlap(a: TimeRange, b: TimeRange, now: Date = new Date()): boolean {
+  return a.startTime < resolveEnd(b, now) && b.startTime < resolveEnd(a, now);
+}
+
+/**
+ * Shrink a range so it no longer overlaps any of the occupied ranges
+ * Returns null when that is impossible without splitting the range in two,
+ * i.e. when an occupied range sits strictly inside it or covers it completely.
+ */
+export function trimToFreeRange(
+  range: ClosedTimeRange,
+  occupied: TimeRange[],
+  now: Date = new Date()
+): ClosedTimeRange | null {
+  let startTime = range.startTime;
+  let endTime = range.endTime;
+
+  const sorted = [...occupied].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+  for (const other of sorted) {
+    const otherEnd = resolveEnd(other, now);
+
+    if (!(other.startTime < endTime && startTime < otherEnd)) {
+      continue;
+    }
+
+    if (other.startTime <= startTime) {
+      // Covers the beginning - start once it ends
+      startTime = otherEnd;
+    } else if (otherEnd >= endTime) {
+      // Covers the end - finish when it starts
+      endTime = other.startTime;
+    } else {
+      // Strictly inside - trimming would need two entries
+      return null;
+    }
+
+    if (startTime >= endTime) {
+      return null;
+    }
+  }
+
+  return { startTime, endTime };
+}
+
+/**
+ * Find every pair of ranges that overlap, with the shared time span
+ * Sweeps the ranges in start order, so it runs in O(n log n + pairs)
+ */
+export function findOverlappingPairs<T extends TimeRange>(
+  ranges: T[],
+  now: Date = new Date()
+): OverlappingPair<T>[] {
+  const sorted = [...ranges].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  const pairs: OverlappingPair<T>[] = [];
+  let active: T[] = [];
+
+  for (const range of sorted) {
+    // Drop ranges that finished before this one starts
+    active = active.filter((other) => resolveEnd(other, now) > range.startTime);
+
+    for (const other of active) {
+      const otherEnd = resolveEnd(other, now);
+      const rangeEnd = resolveEnd(range, now);
+
+      pairs.push({
+        first: other,
+        second: range,
+        overlapStart: range.startTime,
+        overlapEnd: otherEnd < rangeEnd ? otherEnd : rangeEnd,
+      });
+    }
+
+    active.push(range);
+  }
+
+  return pairs;
+}
@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { workEntryValidation } from './work-entry-validation.utils';
+
+// Base validation schemas
+export const projectValidation = {
+  // Client and project names
+  name: z
+    .string()
+    .trim()
+    .min(1, { message: 'Name is required' })
+    .max(100, { message: 'Name cannot exceed 100 characters' })
+    .refine((name) => !/<|>/.test(name), { message: 'Name contains invalid characters' }),
+
+  // Hex colour, e.g. #3366FF
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, { message: 'Color must be a hex colour like #3366FF' }),
+
+  id: workEntryValidation.id,
+
+  // Query string flag, e.g. ?includeArchived=true
+  includeArchived: z
+    .enum(['true', 'false'])
+    .optional()
+    .default('false')
+    .transform((value) => value === 'true'),
+};
+
+export const projectParamsSchema = z.object({
+  id: projectValidation.id,
+});
+
+// Create client schema
+export const createClientSchema = z.object({
+  name: projectValidation.name,
+});
+
+// Update client schema (all fields optional)
+export const updateClientSchema = z
+  .object({
+    name: projectValidation.name.optional(),
+    archived: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided for update',
+  });
+
+export const clientFiltersSchema = z.object({
+  includeArchived: projectValidation.includeArchived,
+});
+
+// Create project schema
+export const createProjectSchema = z.object({
+  name: projectValidation.name,
+  clientId: projectValidation.id.nullable().optional(),
+  color: projectValidation.color.nullable().optional(),
+});
+
+// Update project schema (all fields optional, null clears clientId/color)
+export const updateProjectSchema = z
+  .object({
+    name: projectValidation.name.optional(),
+    clientId: projectValidation.id.nullable().optional(),
+    color: projectValidation.color.nullable().optional(),
+    archived: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided for update',
+  });
+
+export const projectFiltersSchema = z.object({
+  includeArchived: projectValidation.includeArchived,
+  clientId: projectValidation.id.optional(),
+});
+
+// Export types from validation schemas
+export type CreateClientRequest = z.infer<typeof createClientSchema>;
+export type UpdateClientRequest = z.infer<typeof updateClientSchema>;
+export type ClientFilters = z.infer<typeof clientFiltersSchema>;
+export type CreateProjectRequest = z.infer<typeof createProjectSchema>;
+export type UpdateProjectRequest = z.infer<typeof updateProjectSchema>;
+export type ProjectFilters = z.infer<typeof projectFiltersSchema>;
@@ -0,0 +1,95 @@
+/**
+ * RRULE-style recurrence for work entry templates
+ * Supports daily, weekly (on given weekdays) and monthly (on a day of the month) rules with an
+ * interval, like FREQ, INTERVAL, BYDAY and BYMONTHDAY in RFC 5545. Dates are calendar days
+ * (YYYY-MM-DD) and are computed in UTC, so they don't depend on the server's time zone.
+ */
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+// Weekdays as in RFC 5545, in the order Date#getUTCDay counts them
+export const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every nth day, week or month, counted from startDate
+  byWeekday: Weekday[]; // Weekly rules; defaults to the weekday of startDate
+  byMonthDay: number | null; // Monthly rules; defaults to the day of startDate. Months without the day are skipped
+  startDate: string; // First day of the recurrence
+  endDate: string | null; // Last day of the recurrence, null for no end
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDate = (date: string) => new Date(`${date}T00:00:00.000Z`);
+const toDateString = (date: Date) => date.toISOString().split('T')[0]!;
+
+/**
+ * Check whether a day is an occurrence of a rule, ignoring the rule's start and end
+ */
+function occursOn(rule: RecurrenceRule, start: Date, day: Date): boolean {
+  switch (rule.frequency) {
+    case 'daily':
+      return Math.round((day.getTime() - start.getTime()) / DAY_MS) % rule.interval === 0;
+    case 'weekly': {
+      const weekdays = rule.byWeekday.length > 0 ? rule.byWeekday : [WEEKDAYS[start.getUTCDay()]];
+      if (!weekdays.includes(WEEKDAYS[day.getUTCDay()]!)) {
+        return false;
+      }
+      // Weeks start on Monday, as WKST defaults to in RFC 5545
+      const weekStart = (date: Date) => date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+      const weeks = Math.round((weekStart(day) - weekStart(start)) / (7 * DAY_MS));
+      return weeks % rule.interval === 0;
+    }
+    case 'monthly': {
+      if (day.getUTCDate() !== (rule.byMonthDay ?? start.getUTCDate())) {
+        return false;
+      }
+      const months =
+        (day.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+        (day.getUTCMonth() - start.getUTCMonth());
+      return months % rule.interval === 0;
+    }
+  }
+}
+
+/**
+ * List the days a rule occurs on between two days, inclusive
+ */
+export function getOccurrences(rule: RecurrenceRule, from: string, to: string): string[] {
+  const start = toDate(rule.startDate);
+  const first = toDate(from > rule.startDate ? from : rule.startDate);
+  const last = toDate(rule.endDate !== null && rule.endDate < to ? rule.endDate : to);
+  const occurrences: string[] = [];
+
+  for (let day = first; day <= last; day = new Date(day.getTime() + DAY_MS)) {
+    if (occursOn(rule, start, day)) {
+      occurrences.push(toDateString(day));
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Format a rule as an RFC 5545 RRULE value, e.g. FREQ=WEEKLY;BYDAY=MO,WE
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.frequency === 'weekly' && rule.byWeekday.length > 0) {
+    parts.push(`BYDAY=${rule.byWeekday.join(',')}`);
+  }
+  if (rule.frequency === 'monthly' && rule.byMonthDay !== null) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  }
+  if (rule.endDate !== null) {
+    parts.push(`UNTIL=${rule.endDate.replace(/-/g, '')}`);
+  }
+
+  return parts.join(';');
+}
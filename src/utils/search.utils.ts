@@ -0,0 +1,42 @@
+/**
+ * Full-text search query building
+ * Search terms are reduced to letters and digits, so the resulting query is always valid
+ * tsquery syntax.
+ */
+
+// Text search configuration used for the work entry search column (see migration)
+export const SEARCH_CONFIG = 'english';
+
+/**
+ * Split text into lower-case words, dropping punctuation
+ */
+function toWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Build a PostgreSQL tsquery from a search string, e.g. `"billing migration" inv`
+ * Quoted text must match as a phrase; other words match as prefixes. Every part must match.
+ * Returns null when the search contains no words.
+ */
+export function buildSearchQuery(search: string): string | null {
+  const parts: string[] = [];
+
+  for (const match of search.matchAll(/"([^"]*)"?|([^\s"]+)/g)) {
+    const [, phrase, term] = match;
+
+    if (phrase !== undefined) {
+      const words = toWords(phrase);
+      if (words.length > 0) {
+        parts.push(words.length > 1 ? `(${words.join(' <-> ')})` : words[0]!);
+      }
+    } else if (term !== undefined) {
+      parts.push(...toWords(term).map((word) => `${word}:*`));
+    }
+  }
+
+  return parts.length > 0 ? parts.join(' & ') : null;
+}
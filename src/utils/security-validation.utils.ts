@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { workEntryTagsSchema } from './tag-validation.utils';
+import { workEntryBreaksSchema, findUpdateBreakProblem } from './work-entry-validation.utils';
+import { findBreakProblem, getNetDurationMs } from './break.utils';
 
 /**
  * Enhanced Security-Focused Validation Utilities
@@ -225,6 +228,15 @@ export const secureDateSchema = z
     return date >= twoYearsAgo && date <= oneYearFromNow;
   }, 'Date must be within reasonable range');
 
+/**
+ * Secure ID validation (record IDs in params and request bodies)
+ */
+const secureIdValueSchema = z
+  .string()
+  .min(1, 'ID cannot be empty')
+  .max(50, 'ID too long')
+  .regex(/^[a-zA-Z0-9_-]+$/, 'ID contains invalid characters');
+
 /**
  * Enhanced authentication schemas with security validation
  */
@@ -248,23 +260,28 @@ export const enhancedCreateWorkEntrySchema = z
     startTime: secureStartTimeSchema,
     endTime: secureEndTimeSchema,
     description: secureDescriptionSchema,
+    projectId: secureIdValueSchema.optional(),
+    tags: workEntryTagsSchema.optional(),
+    breaks: workEntryBreaksSchema.optional(),
   })
   .refine((data) => {
     const startTime = new Date(data.startTime);
     const endTime = new Date(data.endTime);
     return startTime < endTime;
   }, 'Start time must be before end time')
+  .refine(
+    (data) => findBreakProblem(data, data.breaks ?? []) === null,
+    (data) => ({ message: findBreakProblem(data, data.breaks ?? [])! })
+  )
   .refine((data) => {
-    const startTime = new Date(data.startTime);
-    const endTime = new Date(data.endTime);
-    const durationMs = endTime.getTime() - startTime.getTime();
+    // Breaks don't count towards the duration
+    const durationMs = getNetDurationMs(data, data.breaks ?? []);
     const durationHours = durationMs / (1000 * 60 * 60);
     return durationHours <= 24;
   }, 'Work entry duration cannot exceed 24 hours')
   .refine((data) => {
-    const startTime = new Date(data.startTime);
-    const endTime = new Date(data.endTime);
-    const durationMs = endTime.getTime() - startTime.getTime();
+    // Breaks don't count towards the duration
+    const durationMs = getNetDurationMs(data, data.breaks ?? []);
     const durationMinutes = durationMs / (1000 * 60);
     return durationMinutes >= 15;
   }, 'Work entry duration must be at least 15 minutes');
@@ -274,6 +291,12 @@ export const enhancedUpdateWorkEntrySchema = z
     startTime: secureStartTimeSchema.optional(),
     endTime: secureEndTimeSchema.optional(),
     description: secureDescriptionSchema.optional(),
+    // null removes the entry from its project
+    projectId: secureIdValueSchema.nullable().optional(),
+    // Replaces the entry's tags; an empty array removes them all
+    tags: workEntryTagsSchema.optional(),
+    // Replaces the entry's breaks; an empty array removes them all
+    breaks: workEntryBreaksSchema.optional(),
   })
   .refine((data) => Object.keys(data).length > 0, 'At least one field must be provided for update')
   .refine((data) => {
@@ -284,11 +307,17 @@ export const enhancedUpdateWorkEntrySchema = z
     }
     return true;
   }, 'Start time must be before end time')
+  .refine(
+    (data) => findUpdateBreakProblem(data) === null,
+    (data) => ({ message: findUpdateBreakProblem(data)! })
+  )
   .refine((data) => {
     if (data.startTime && data.endTime) {
-      const startTime = new Date(data.startTime);
-      const endTime = new Date(data.endTime);
-      const durationMs = endTime.getTime() - startTime.getTime();
+      // Breaks don't count towards the duration
+      const durationMs = getNetDurationMs(
+        { startTime: data.startTime, endTime: data.endTime },
+        data.breaks ?? []
+      );
       const durationHours = durationMs / (1000 * 60 * 60);
       return durationHours <= 24;
     }
@@ -296,15 +325,77 @@ export const enhancedUpdateWorkEntrySchema = z
   }, 'Work entry duration cannot exceed 24 hours')
   .refine((data) => {
     if (data.startTime && data.endTime) {
-      const startTime = new Date(data.startTime);
-      const endTime = new Date(data.endTime);
-      const durationMs = endTime.getTime() - startTime.getTime();
+      // Breaks don't count towards the duration
+      const durationMs = getNetDurationMs(
+        { startTime: data.startTime, endTime: data.endTime },
+        data.breaks ?? []
+      );
       const durationMinutes = durationMs / (1000 * 60);
       return durationMinutes >= 15;
     }
     return true;
   }, 'Work entry duration must be at least 15 minutes');
 
+/**
+ * Running timer schemas - a timer is a work entry without an end time
+ */
+export const enhancedStartTimerSchema = z.object({
+  description: secureDescriptionSchema,
+  // Defaults to now; lets a timer be backdated to when work actually began
+  startTime: secureStartTimeSchema.optional(),
+  projectId: secureIdValueSchema.optional(),
+  tags: workEntryTagsSchema.optional(),
+});
+
+export const enhancedStopTimerSchema = z.object({
+  // Defaults to now
+  endTime: secureEndTimeSchema.optional(),
+  description: secureDescriptionSchema.optional(),
+});
+
+export type StartTimerRequest = z.infer<typeof enhancedStartTimerSchema>;
+export type StopTimerRequest = z.infer<typeof enhancedStopTimerSchema>;
+
+/**
+ * Bulk work entry schemas
+ * The envelope is validated first; each operation is then validated on its own
+ * so that errors can be reported per operation index.
+ */
+export const BULK_MAX_OPERATIONS = 500;
+
+export const enhancedBulkWorkEntrySchema = z.object({
+  mode: z.enum(['atomic', 'best-effort']).default('atomic'),
+  operations: z
+    .array(z.unknown())
+    .min(1, 'At least one operation is required')
+    .max(
+      BULK_MAX_OPERATIONS,
+      `A bulk request can contain at most ${BULK_MAX_OPERATIONS} operations`
+    ),
+});
+
+export const enhancedBulkOperationSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('create'), data: enhancedCreateWorkEntrySchema }),
+  z.object({
+    op: z.literal('update'),
+    id: secureIdValueSchema,
+    data: enhancedUpdateWorkEntrySchema,
+  }),
+  z.object({ op: z.literal('delete'), id: secureIdValueSchema }),
+]);
+
+// Just the kind of a bulk operation, to report which kind an invalid operation was
+export const bulkOperationKindSchema = z.object({ op: z.enum(['create', 'update', 'delete']) });
+
+// Just the times of a new entry, to fill in a missing end time before full validation
+export const entryTimesSchema = z.object({
+  startTime: z.string(),
+  endTime: z.string().optional(),
+});
+
+export type BulkWorkEntryRequest = z.infer<typeof enhancedBulkWorkEntrySchema>;
+export type BulkOperation = z.infer<typeof enhancedBulkOperationSchema>;
+
 /**
  * Enhanced filters schema with security validation
  */
@@ -328,11 +419,7 @@ export const enhancedWorkEntryFiltersSchema = z
  * Secure ID parameter validation
  */
 export const secureIdSchema = z.object({
-  id: z
-    .string()
-    .min(1, 'ID cannot be empty')
-    .max(50, 'ID too long')
-    .regex(/^[a-zA-Z0-9_-]+$/, 'ID contains invalid characters'),
+  id: secureIdValueSchema,
 });
 
 /**
@@ -348,6 +435,18 @@ export const passwordChangeSchema = z
     'New password must be different from current password'
   );
 
+/**
+ * Password reset schemas with enhanced security
+ */
+export const enhancedPasswordResetSchema = z.object({
+  email: secureEmailSchema,
+});
+
+export const enhancedPasswordResetConfirmSchema = z.object({
+  token: z.string().min(1, 'Reset token is required').max(256, 'Reset token too long'),
+  newPassword: strongPasswordSchema,
+});
+
 /**
  * Secure file upload validation (if needed in future)
  */
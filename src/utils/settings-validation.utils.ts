@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { workEntryValidation } from './work-entry-validation.utils';
+import { importValidation } from './import-validation.utils';
+
+/**
+ * Check whether a string is a locale the runtime understands, e.g. en-US
+ */
+function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+// Base validation schemas
+export const settingsValidation = {
+  timezone: workEntryValidation.timezone,
+
+  weekStart: z.enum(['monday', 'sunday', 'saturday']),
+
+  locale: z
+    .string()
+    .max(35)
+    .refine(isValidLocale, { message: 'Locale must be a language tag like en-US' }),
+
+  dateFormat: importValidation.dateFormat,
+
+  // Same bounds as a work entry: 15 minutes to 24 hours
+  defaultEntryMinutes: z
+    .number()
+    .int()
+    .min(15, { message: 'Default entry length must be at least 15 minutes' })
+    .max(24 * 60, { message: 'Default entry length cannot exceed 24 hours' }),
+};
+
+// Update settings schema (all fields optional)
+export const updateSettingsSchema = z
+  .object({
+    timezone: settingsValidation.timezone.optional(),
+    weekStart: settingsValidation.weekStart.optional(),
+    locale: settingsValidation.locale.optional(),
+    dateFormat: settingsValidation.dateFormat.optional(),
+    defaultEntryMinutes: settingsValidation.defaultEntryMinutes.optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided for update',
+  });
+
+export type UpdateSettingsRequest = z.infer<typeof updateSettingsSchema>;
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+
+// Base validation schemas
+export const tagValidation = {
+  // Tag names are case-insensitive and stored lowercase, e.g. "code-review"
+  name: z
+    .string()
+    .trim()
+    .min(1, { message: 'Tag name is required' })
+    .max(50, { message: 'Tag name cannot exceed 50 characters' })
+    .regex(/^[\p{L}\p{N}][\p{L}\p{N} _-]*$/u, {
+      message: 'Tag name may only contain letters, numbers, spaces, hyphens and underscores',
+    })
+    .transform((name) => name.toLowerCase()),
+
+  // Hex colour, e.g. #3366FF
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, { message: 'Color must be a hex colour like #3366FF' }),
+
+  // ID validation for params
+  id: z
+    .string()
+    .min(1, { message: 'ID is required' })
+    .regex(/^[a-zA-Z0-9_-]+$/, { message: 'Invalid ID format' }),
+};
+
+// Tags on a work entry, given by name; unknown names are created on the fly
+export const workEntryTagsSchema = z
+  .array(tagValidation.name)
+  .max(20, { message: 'A work entry cannot have more than 20 tags' })
+  .transform((names) => Array.from(new Set(names)));
+
+export const tagParamsSchema = z.object({
+  id: tagValidation.id,
+});
+
+// Create tag schema
+export const createTagSchema = z.object({
+  name: tagValidation.name,
+  color: tagValidation.color.nullable().optional(),
+});
+
+// Update tag schema (all fields optional, null clears the colour)
+export const updateTagSchema = z
+  .object({
+    name: tagValidation.name.optional(),
+    color: tagValidation.color.nullable().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided for update',
+  });
+
+// Merge tag schema - the tag in the URL is merged into targetTagId
+export const mergeTagSchema = z.object({
+  targetTagId: tagValidation.id,
+});
+
+// Export types from validation schemas
+export type CreateTagRequest = z.infer<typeof createTagSchema>;
+export type UpdateTagRequest = z.infer<typeof updateTagSchema>;
+export type MergeTagRequest = z.infer<typeof mergeTagSchema>;
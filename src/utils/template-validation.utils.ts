@@ -0,0 +1,115 @@
+import { z } from 'zod';
+import { workEntryValidation } from './work-entry-validation.utils';
+import { workEntryTagsSchema } from './tag-validation.utils';
+import { WEEKDAYS } from './recurrence.utils';
+
+// Days one materialize request can cover
+export const MATERIALIZE_MAX_DAYS = 366;
+
+/**
+ * Calendar date validation - YYYY-MM-DD
+ */
+function buildDateSchema(label: string) {
+  return z.string().refine(
+    (date) => {
+      const parsed = new Date(date);
+      return !isNaN(parsed.getTime()) && date === parsed.toISOString().split('T')[0];
+    },
+    {
+      message: `${label} must be a valid ISO date string (YYYY-MM-DD)`,
+    }
+  );
+}
+
+// Base validation schemas
+export const templateValidation = {
+  id: workEntryValidation.id,
+
+  description: workEntryValidation.description,
+
+  // Time of day in the user's time zone, e.g. 09:30
+  startTime: z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'Start time must be a time like 09:30' }),
+
+  // Same bounds as a work entry: 15 minutes to 24 hours
+  durationMinutes: z
+    .number()
+    .int()
+    .min(15, { message: 'Duration must be at least 15 minutes' })
+    .max(24 * 60, { message: 'Duration cannot exceed 24 hours' }),
+
+  recurrence: z
+    .object({
+      frequency: z.enum(['daily', 'weekly', 'monthly']),
+      interval: z.number().int().min(1).max(99).default(1),
+      byWeekday: z
+        .array(z.enum(WEEKDAYS))
+        .max(7)
+        .default([])
+        .transform((days) => Array.from(new Set(days))),
+      byMonthDay: z.number().int().min(1).max(31).nullable().default(null),
+      startDate: buildDateSchema('Start date'),
+      endDate: buildDateSchema('End date').nullable().default(null),
+    })
+    .refine((rule) => rule.endDate === null || rule.startDate <= rule.endDate, {
+      message: 'Start date must be before or equal to end date',
+    })
+    .refine((rule) => rule.frequency === 'weekly' || rule.byWeekday.length === 0, {
+      message: 'byWeekday only applies to weekly recurrence',
+    })
+    .refine((rule) => rule.frequency === 'monthly' || rule.byMonthDay === null, {
+      message: 'byMonthDay only applies to monthly recurrence',
+    }),
+};
+
+export const templateParamsSchema = z.object({
+  id: templateValidation.id,
+});
+
+// Create template schema
+export const createTemplateSchema = z.object({
+  description: templateValidation.description,
+  projectId: workEntryValidation.id.nullable().optional(),
+  tags: workEntryTagsSchema.optional().default([]),
+  startTime: templateValidation.startTime,
+  durationMinutes: templateValidation.durationMinutes,
+  recurrence: templateValidation.recurrence,
+});
+
+// Update template schema (all fields optional, the recurrence is replaced as a whole)
+export const updateTemplateSchema = z
+  .object({
+    description: templateValidation.description.optional(),
+    projectId: workEntryValidation.id.nullable().optional(),
+    tags: workEntryTagsSchema.optional(),
+    startTime: templateValidation.startTime.optional(),
+    durationMinutes: templateValidation.durationMinutes.optional(),
+    recurrence: templateValidation.recurrence.optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided for update',
+  });
+
+// Days to turn into work entries, in the user's time zone
+export const materializeTemplateSchema = z
+  .object({
+    startDate: buildDateSchema('Start date'),
+    endDate: buildDateSchema('End date'),
+  })
+  .refine((data) => data.startDate <= data.endDate, {
+    message: 'Start date must be before or equal to end date',
+  })
+  .refine(
+    (data) =>
+      new Date(data.endDate).getTime() - new Date(data.startDate).getTime() <
+      MATERIALIZE_MAX_DAYS * 24 * 60 * 60 * 1000,
+    {
+      message: `A template can be materialized for at most ${MATERIALIZE_MAX_DAYS} days at a time`,
+    }
+  );
+
+// Export types from validation schemas
+export type CreateTemplateRequest = z.infer<typeof createTemplateSchema>;
+export type UpdateTemplateRequest = z.infer<typeof updateTemplateSchema>;
+export type MaterializeTemplateRequest = z.infer<typeof materializeTemplateSchema>;
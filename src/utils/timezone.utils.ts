@@ -0,0 +1,197 @@
+/**
+ * Wall-clock times in IANA time zones (e.g. Europe/Berlin), using the runtime's Intl support
+ */
+
+export interface LocalDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Supported orderings for the date part of a local date/time
+export type DateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'DD.MM.YYYY';
+
+type DatePart = 'year' | 'month' | 'day';
+
+const datePatterns: Record<DateFormat, { pattern: RegExp; order: DatePart[] }> = {
+  'YYYY-MM-DD': { pattern: /^(\d{4})-(\d{1,2})-(\d{1,2})/, order: ['year', 'month', 'day'] },
+  'DD/MM/YYYY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})/, order: ['day', 'month', 'year'] },
+  'MM/DD/YYYY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})/, order: ['month', 'day', 'year'] },
+  'DD.MM.YYYY': { pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{4})/, order: ['day', 'month', 'year'] },
+};
+
+// Optional time after the date: "09:30", "T09:30:15", " 9:30", " 9:30 PM"; fractional seconds are dropped
+const timePattern = /^(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(?: ?([AaPp])[Mm])?)?$/;
+
+// Timestamps that carry their own offset are not converted
+const explicitOffsetPattern = /(?:Z|[+-]\d{2}:?\d{2})$/;
+
+/**
+ * Check whether a string is a time zone known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds (positive east of UTC)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((candidate) => candidate.type === type)?.value);
+
+  const wallClockAsUtc = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second')
+  );
+
+  return wallClockAsUtc - (date.getTime() - date.getUTCMilliseconds());
+}
+
+/**
+ * Convert a wall-clock time in a time zone to the UTC instant
+ * Times skipped by a DST change (e.g. 02:30 when clocks jump to 03:00) move forward by the gap.
+ */
+export function zonedTimeToUtc(local: LocalDateTime, timeZone: string): Date {
+  const wallClockAsUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second
+  );
+
+  // The offset depends on the instant, so check it again at the first estimate
+  const firstOffset = getTimeZoneOffset(new Date(wallClockAsUtc), timeZone);
+  const offset = getTimeZoneOffset(new Date(wallClockAsUtc - firstOffset), timeZone);
+
+  return new Date(wallClockAsUtc - offset);
+}
+
+/**
+ * Get the calendar date (YYYY-MM-DD) in a time zone at an instant
+ */
+export function getLocalDate(date: Date, timeZone: string): string {
+  return new Date(date.getTime() + getTimeZoneOffset(date, timeZone)).toISOString().split('T')[0]!;
+}
+
+/**
+ * Get the instant a calendar day (YYYY-MM-DD) starts in a time zone
+ * `dayOffset` moves to a later day, e.g. 1 for the instant the day ends
+ */
+export function startOfLocalDay(date: string, timeZone: string, dayOffset: number = 0): Date {
+  const [year, month, day] = date.split('-').map(Number);
+
+  return zonedTimeToUtc(
+    { year: year!, month: month!, day: day! + dayOffset, hour: 0, minute: 0, second: 0 },
+    timeZone
+  );
+}
+
+/**
+ * Parse a local date with an optional time, e.g. "2024-03-15 09:30", "03/15/2024 9:30 AM" or "15.03.2024"
+ * Returns null when the value does not match the format or names a day that doesn't exist
+ */
+export function parseLocalDateTime(
+  value: string,
+  dateFormat: DateFormat = 'YYYY-MM-DD'
+): LocalDateTime | null {
+  const { pattern, order } = datePatterns[dateFormat];
+  const trimmed = value.trim();
+  const dateMatch = pattern.exec(trimmed);
+
+  if (!dateMatch) {
+    return null;
+  }
+
+  const timeMatch = timePattern.exec(trimmed.slice(dateMatch[0].length));
+
+  if (!timeMatch) {
+    return null;
+  }
+
+  const date = { year: 0, month: 0, day: 0 };
+  order.forEach((field, index) => {
+    date[field] = Number(dateMatch[index + 1]);
+  });
+
+  let hour = Number(timeMatch[1] ?? 0);
+
+  // 12-hour clock: 12:xx AM is just after midnight and 12:xx PM just after noon
+  if (timeMatch[4]) {
+    if (hour < 1 || hour > 12) {
+      return null;
+    }
+    hour = (hour % 12) + (timeMatch[4].toLowerCase() === 'p' ? 12 : 0);
+  }
+
+  const local: LocalDateTime = {
+    ...date,
+    hour,
+    minute: Number(timeMatch[2] ?? 0),
+    second: Number(timeMatch[3] ?? 0),
+  };
+
+  // Round-trip through Date.UTC to reject values such as 2024-02-30 or 25:00
+  const check = new Date(
+    Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second)
+  );
+
+  if (
+    check.getUTCFullYear() !== local.year ||
+    check.getUTCMonth() !== local.month - 1 ||
+    check.getUTCDate() !== local.day ||
+    check.getUTCHours() !== local.hour ||
+    check.getUTCMinutes() !== local.minute ||
+    check.getUTCSeconds() !== local.second
+  ) {
+    return null;
+  }
+
+  return local;
+}
+
+/**
+ * Resolve a date/time string to a UTC instant
+ * ISO timestamps with an offset (e.g. "2024-03-15T09:30:00Z") are used as they are;
+ * anything else is read as wall-clock time in the given time zone.
+ */
+export function resolveDateTime(
+  value: string,
+  timeZone: string,
+  dateFormat: DateFormat = 'YYYY-MM-DD'
+): Date | null {
+  const trimmed = value.trim();
+
+  if (explicitOffsetPattern.test(trimmed) && /^\d{4}-\d{2}-\d{2}T/.test(trimmed)) {
+    const parsed = new Date(trimmed);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  const local = parseLocalDateTime(trimmed, dateFormat);
+  return local ? zonedTimeToUtc(local, timeZone) : null;
+}
@@ -0,0 +1,474 @@
+/**
+ * Readers for the export files of other time trackers: Toggl Track, Clockify and Harvest
+ * Each reader turns a CSV or JSON export into import rows and lists the fields it can't map.
+ */
+
+import type {
+  ImportRowError,
+  ImportSourceRow,
+  ImportTiming,
+  TrackerImportResponse,
+  TrackerName,
+} from '../types/import.types';
+import { parseCsv, CsvParseError, CsvRecord } from './csv.utils';
+import { DateFormat, parseLocalDateTime, resolveDateTime } from './timezone.utils';
+
+export class TrackerFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrackerFormatError';
+  }
+}
+
+export interface TrackerExportOptions {
+  timezone: string; // IANA time zone of local times in the file
+  dateFormat?: DateFormat; // Replaces the tracker's usual date format in CSV files
+}
+
+export interface TrackerExport {
+  source: TrackerImportResponse['source'];
+  rows: ImportSourceRow[];
+  unmappedFields: string[];
+}
+
+// What an entry holds besides its times, as found in the file
+interface EntryValues {
+  description: string;
+  task: string;
+  project: string;
+  client: string;
+  tags: string[];
+  billable: boolean;
+}
+
+type JsonEntry = Record<string, unknown>;
+
+// CSV columns (lowercased) and JSON fields each reader uses, including durations it recomputes
+const togglCsvColumns = [
+  'description',
+  'task',
+  'project',
+  'client',
+  'tags',
+  'billable',
+  'start date',
+  'start time',
+  'end date',
+  'end time',
+  'duration',
+];
+const clockifyCsvColumns = [
+  ...togglCsvColumns.filter((column) => column !== 'duration'),
+  'duration (h)',
+  'duration (decimal)',
+];
+const harvestCsvColumns = [
+  'date',
+  'hours',
+  'hours rounded',
+  'notes',
+  'task',
+  'project',
+  'client',
+  'billable?',
+];
+
+const togglJsonFields = [
+  'description',
+  'start',
+  'stop',
+  'end',
+  'dur',
+  'duration',
+  'task',
+  'task_name',
+  'project',
+  'project_name',
+  'client',
+  'client_name',
+  'tags',
+  'billable',
+  'is_billable',
+];
+const clockifyJsonFields = [
+  'description',
+  'timeInterval',
+  'task',
+  'taskName',
+  'project',
+  'projectName',
+  'clientName',
+  'tags',
+  'billable',
+];
+const harvestJsonFields = [
+  'spent_date',
+  'hours',
+  'rounded_hours',
+  'started_time',
+  'ended_time',
+  'notes',
+  'task',
+  'project',
+  'client',
+  'billable',
+];
+
+// Dates in CSV exports, unless the request says otherwise; Clockify follows the user's settings
+const csvDateFormats: Record<TrackerName, DateFormat> = {
+  toggl: 'YYYY-MM-DD',
+  clockify: 'MM/DD/YYYY',
+  harvest: 'YYYY-MM-DD',
+};
+
+// Keys that wrap the list of entries in JSON exports
+const jsonEntryKeys = ['data', 'timeentries', 'timeEntries', 'time_entries'];
+
+/**
+ * Read a JSON or CSV value as trimmed text
+ */
+function text(value: unknown): string {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number') return String(value);
+  return '';
+}
+
+/**
+ * Read the name of a nested object, e.g. { "project": { "name": "Website" } }
+ */
+function nestedName(value: unknown, field = 'name'): string {
+  return typeof value === 'object' && value !== null ? text((value as JsonEntry)[field]) : '';
+}
+
+function isYes(value: unknown): boolean {
+  return value === true || /^(yes|true|1)$/i.test(text(value));
+}
+
+/**
+ * Read tags given as "a, b", ["a", "b"] or [{ "name": "a" }]
+ */
+function readTags(value: unknown): string[] {
+  const tags = Array.isArray(value)
+    ? value.map((tag) => (typeof tag === 'object' ? nestedName(tag) : text(tag)))
+    : text(value).split(',');
+
+  return tags.map((tag) => tag.trim()).filter(Boolean);
+}
+
+/**
+ * Read start and end date/times; timestamps with an offset are used as they are
+ */
+function readStartEnd(
+  start: string,
+  end: string,
+  timezone: string,
+  dateFormat: DateFormat,
+  errors: ImportRowError[]
+): ImportTiming | null {
+  const startTime = start ? resolveDateTime(start, timezone, dateFormat) : null;
+  const endTime = end ? resolveDateTime(end, timezone, dateFormat) : null;
+
+  if (!startTime) {
+    errors.push({
+      field: 'startTime',
+      message: start ? `Unrecognised start time "${start}"` : 'Start time is missing',
+    });
+  }
+
+  if (!end) {
+    errors.push({
+      field: 'endTime',
+      message: 'The entry has no end time; running timers cannot be imported',
+    });
+  } else if (!endTime) {
+    errors.push({ field: 'endTime', message: `Unrecognised end time "${end}"` });
+  }
+
+  return startTime && endTime ? { startTime, endTime } : null;
+}
+
+/**
+ * Read a day and a number of hours, for trackers that don't record times of day
+ */
+function readDateAndHours(
+  date: string,
+  hours: string,
+  dateFormat: DateFormat,
+  errors: ImportRowError[]
+): ImportTiming | null {
+  const day = parseLocalDateTime(date, dateFormat);
+  const hoursValue = Number(hours);
+
+  if (!day) {
+    errors.push({ field: 'date', message: `Unrecognised date "${date}"` });
+  }
+  if (!hours || !(hoursValue > 0)) {
+    errors.push({ field: 'hours', message: `Unrecognised hours "${hours}"` });
+  }
+
+  return day && hoursValue > 0 ? { date: day, hours: hoursValue } : null;
+}
+
+function toSourceRow(
+  line: number,
+  timing: ImportTiming | null,
+  values: EntryValues,
+  errors: ImportRowError[]
+): ImportSourceRow {
+  return {
+    line,
+    timing,
+    // Other trackers allow entries without a description; fall back to the task or project
+    description: values.description || values.task || values.project,
+    project: values.project || null,
+    client: values.client || null,
+    tags: values.tags,
+    billable: values.billable,
+    errors,
+  };
+}
+
+/**
+ * Work out which tracker a CSV export comes from by its header row
+ */
+function detectCsvTracker(columns: Set<string>): TrackerName | null {
+  if (columns.has('date') && columns.has('hours') && columns.has('notes')) {
+    return 'harvest';
+  }
+
+  if (columns.has('start date') && columns.has('start time') && columns.has('end time')) {
+    return columns.has('duration (decimal)') || columns.has('duration (h)') ? 'clockify' : 'toggl';
+  }
+
+  return null;
+}
+
+/**
+ * Work out which tracker a JSON export comes from by the fields of its first entry
+ */
+function detectJsonTracker(entries: unknown[]): TrackerName | null {
+  const first = entries.find((entry) => typeof entry === 'object' && entry !== null) as
+    | JsonEntry
+    | undefined;
+
+  if (!first) return null;
+  if ('spent_date' in first) return 'harvest';
+  if ('timeInterval' in first) return 'clockify';
+  if ('start' in first) return 'toggl';
+  return null;
+}
+
+function readCsvExport(content: string, options: TrackerExportOptions): TrackerExport {
+  let records: CsvRecord[];
+  try {
+    records = parseCsv(content);
+  } catch (error) {
+    if (error instanceof CsvParseError) {
+      throw new TrackerFormatError(error.message);
+    }
+    throw error;
+  }
+
+  const header = records.shift()?.values.map((column) => column.trim()) ?? [];
+  const positions = new Map(header.map((column, index) => [column.toLowerCase(), index]));
+  const tracker = detectCsvTracker(new Set(positions.keys()));
+
+  if (!tracker) {
+    throw new TrackerFormatError(
+      'Unrecognised CSV file; expected a Toggl Track, Clockify or Harvest time entry export'
+    );
+  }
+
+  const dateFormat = options.dateFormat ?? csvDateFormats[tracker];
+  const knownColumns =
+    tracker === 'harvest'
+      ? harvestCsvColumns
+      : tracker === 'clockify'
+        ? clockifyCsvColumns
+        : togglCsvColumns;
+
+  const rows = records.map((record) => {
+    const cell = (column: string) => {
+      const position = positions.get(column);
+      return position === undefined ? '' : (record.values[position] ?? '').trim();
+    };
+    const errors: ImportRowError[] = [];
+
+    const timing =
+      tracker === 'harvest'
+        ? readDateAndHours(cell('date'), cell('hours'), dateFormat, errors)
+        : readStartEnd(
+            `${cell('start date')} ${cell('start time')}`.trim(),
+            `${cell('end date')} ${cell('end time')}`.trim(),
+            options.timezone,
+            dateFormat,
+            errors
+          );
+
+    return toSourceRow(
+      record.line,
+      timing,
+      {
+        description: cell(tracker === 'harvest' ? 'notes' : 'description'),
+        task: cell('task'),
+        project: cell('project'),
+        client: cell('client'),
+        tags: readTags(cell('tags')),
+        billable: isYes(cell(tracker === 'harvest' ? 'billable?' : 'billable')),
+      },
+      errors
+    );
+  });
+
+  return {
+    source: { tracker, format: 'csv' },
+    rows,
+    unmappedFields: header.filter(
+      (column) => column !== '' && !knownColumns.includes(column.toLowerCase())
+    ),
+  };
+}
+
+/**
+ * Read one entry of a JSON export
+ */
+function readJsonEntry(
+  tracker: TrackerName,
+  entry: JsonEntry,
+  options: TrackerExportOptions,
+  errors: ImportRowError[]
+): { timing: ImportTiming | null; values: EntryValues } {
+  if (tracker === 'harvest') {
+    const date = text(entry.spent_date);
+    const started = text(entry.started_time);
+    const ended = text(entry.ended_time);
+
+    return {
+      // Harvest only records times of day when timestamps are enabled for the account
+      timing:
+        started && ended
+          ? readStartEnd(
+              `${date} ${started}`,
+              `${date} ${ended}`,
+              options.timezone,
+              'YYYY-MM-DD',
+              errors
+            )
+          : readDateAndHours(date, text(entry.hours), 'YYYY-MM-DD', errors),
+      values: {
+        description: text(entry.notes),
+        task: nestedName(entry.task),
+        project: nestedName(entry.project),
+        client: nestedName(entry.client),
+        tags: [],
+        billable: isYes(entry.billable),
+      },
+    };
+  }
+
+  if (tracker === 'clockify') {
+    const interval = entry.timeInterval as JsonEntry | undefined;
+
+    return {
+      timing: readStartEnd(
+        text(interval?.start),
+        text(interval?.end),
+        options.timezone,
+        'YYYY-MM-DD',
+        errors
+      ),
+      values: {
+        description: text(entry.description),
+        task: text(entry.taskName) || nestedName(entry.task),
+        project: text(entry.projectName) || nestedName(entry.project),
+        client: text(entry.clientName) || nestedName(entry.project, 'clientName'),
+        tags: readTags(entry.tags),
+        billable: isYes(entry.billable),
+      },
+    };
+  }
+
+  return {
+    timing: readStartEnd(
+      text(entry.start),
+      text(entry.stop) || text(entry.end),
+      options.timezone,
+      'YYYY-MM-DD',
+      errors
+    ),
+    values: {
+      description: text(entry.description),
+      task: text(entry.task) || text(entry.task_name),
+      project: text(entry.project) || text(entry.project_name),
+      client: text(entry.client) || text(entry.client_name),
+      tags: readTags(entry.tags),
+      billable: isYes(entry.billable) || isYes(entry.is_billable),
+    },
+  };
+}
+
+function readJsonExport(content: string, options: TrackerExportOptions): TrackerExport {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new TrackerFormatError('The file is not valid JSON');
+  }
+
+  const wrapper = parsed as JsonEntry;
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : (jsonEntryKeys.map((key) => wrapper?.[key]).find(Array.isArray) as unknown[] | undefined);
+  const tracker = entries ? detectJsonTracker(entries) : null;
+
+  if (!entries || !tracker) {
+    throw new TrackerFormatError(
+      'Unrecognised JSON file; expected a Toggl Track, Clockify or Harvest time entry export'
+    );
+  }
+
+  const knownFields =
+    tracker === 'harvest'
+      ? harvestJsonFields
+      : tracker === 'clockify'
+        ? clockifyJsonFields
+        : togglJsonFields;
+  const unmappedFields = new Set<string>();
+
+  const rows = entries.map((entry, index) => {
+    const errors: ImportRowError[] = [];
+
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      errors.push({ field: null, message: 'Entry is not an object' });
+      return toSourceRow(
+        index + 1,
+        null,
+        { description: '', task: '', project: '', client: '', tags: [], billable: false },
+        errors
+      );
+    }
+
+    Object.keys(entry)
+      .filter((field) => !knownFields.includes(field))
+      .forEach((field) => unmappedFields.add(field));
+
+    const { timing, values } = readJsonEntry(tracker, entry as JsonEntry, options, errors);
+    return toSourceRow(index + 1, timing, values, errors);
+  });
+
+  return { source: { tracker, format: 'json' }, rows, unmappedFields: [...unmappedFields] };
+}
+
+/**
+ * Read a Toggl Track, Clockify or Harvest export, detecting the tracker and file format
+ * CSV files are the trackers' detailed time reports; JSON files are lists of time entries
+ * from their APIs or report exports. Rows that can't be read carry errors instead of times.
+ */
+export function readTrackerExport(content: string, options: TrackerExportOptions): TrackerExport {
+  // Spreadsheet exports often start with a byte order mark
+  const trimmed = content.replace(/^\uFEFF/, '').trim();
+
+  return trimmed.startsWith('[') || trimmed.startsWith('{')
+    ? readJsonExport(trimmed, options)
+    : readCsvExport(trimmed, options);
+}
@@ -45,6 +45,11 @@ export const refreshTokenSchema = z.object({
   refreshToken: z.string().min(1, 'Refresh token is required'),
 });
 
+// Logout validation (refresh token is optional - omit to revoke every session)
+export const logoutSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required').optional(),
+});
+
 // Password reset validation
 export const passwordResetSchema = z.object({
   email: emailSchema,
@@ -56,6 +61,123 @@ export const passwordResetConfirmSchema = z.object({
   newPassword: passwordSchema,
 });
 
+// Email verification validation
+export const emailVerificationSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+});
+
+// TOTP code from an authenticator app
+export const totpCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, 'Authentication code must be 6 digits');
+
+// MFA enrollment confirmation validation
+export const mfaEnableSchema = z.object({
+  code: totpCodeSchema,
+});
+
+// MFA login step validation (an authenticator code or a recovery code)
+export const mfaVerifySchema = z
+  .object({
+    challengeToken: z.string().min(1, 'Challenge token is required'),
+    code: totpCodeSchema.optional(),
+    recoveryCode: z.string().trim().min(1, 'Recovery code is required').max(64).optional(),
+  })
+  .refine((data) => Boolean(data.code) !== Boolean(data.recoveryCode), {
+    message: 'Provide either an authentication code or a recovery code',
+  });
+
+// Actions that require re-entering the current password (disable MFA, regenerate recovery codes)
+export const currentPasswordSchema = z.object({
+  password: z.string().min(1, 'Current password is required'),
+});
+
+// Personal access token scopes
+export const personalAccessTokenScopeSchema = z.enum(['work-entries:read', 'work-entries:write']);
+
+const personalAccessTokenNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Token name is required')
+  .max(100, 'Token name must not exceed 100 characters');
+
+// Personal access token creation validation
+export const createPersonalAccessTokenSchema = z.object({
+  name: personalAccessTokenNameSchema,
+  scopes: z
+    .array(personalAccessTokenScopeSchema)
+    .min(1, 'At least one scope is required')
+    .transform((scopes) => [...new Set(scopes)]),
+  expiresInDays: z
+    .number()
+    .int('Expiry must be a whole number of days')
+    .min(1, 'Expiry must be at least 1 day')
+    .max(365, 'Expiry must not exceed 365 days')
+    .optional(),
+});
+
+// Personal access token update validation
+export const updatePersonalAccessTokenSchema = z.object({
+  name: personalAccessTokenNameSchema,
+});
+
+// Admin user management validation
+export const roleSchema = z.enum(['user', 'manager', 'admin']);
+
+const paginationSchema = {
+  page: z.coerce.number().int().min(1, { message: 'Page must be at least 1' }).default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, { message: 'Limit must be at least 1' })
+    .max(100, { message: 'Limit cannot exceed 100' })
+    .default(20),
+};
+
+export const adminUserFiltersSchema = z.object({
+  search: z.string().trim().min(1).max(100, 'Search must not exceed 100 characters').optional(),
+  role: roleSchema.optional(),
+  status: z.enum(['active', 'disabled', 'deleted']).optional(),
+  sortBy: z.enum(['createdAt', 'email', 'lastName']).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  ...paginationSchema,
+});
+
+export const auditLogFiltersSchema = z.object({
+  actorId: z.string().min(1).max(50).optional(),
+  targetUserId: z.string().min(1).max(50).optional(),
+  action: z
+    .enum([
+      'user.disable',
+      'user.enable',
+      'user.role_change',
+      'user.force_password_reset',
+      'user.unlock',
+      'user.soft_delete',
+      'user.restore',
+      'user.hard_delete',
+    ])
+    .optional(),
+  ...paginationSchema,
+});
+
+export const updateUserRoleSchema = z.object({
+  role: roleSchema,
+});
+
+// Optional note recorded in the audit trail with an admin action
+export const adminActionSchema = z.object({
+  reason: z.string().trim().max(500, 'Reason must not exceed 500 characters').optional(),
+});
+
+export const adminDeleteUserSchema = z.object({
+  hard: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+});
+
 // Change password validation
 export const changePasswordSchema = z.object({
   currentPassword: z.string().min(1, 'Current password is required'),
@@ -1,9 +1,20 @@
 import { z } from 'zod';
+import { tagValidation, workEntryTagsSchema } from './tag-validation.utils';
+import { isValidTimeZone } from './timezone.utils';
+import { decodeCursor } from './cursor.utils';
+import { buildSearchQuery } from './search.utils';
+import { findBreakProblem, getNetDurationMs } from './break.utils';
 
-// Base validation schemas
-export const workEntryValidation = {
-  // Start time validation - must be valid ISO datetime string
-  startTime: z
+// Buckets allowed in one stats series, e.g. about 3 years of days
+export const STATS_SERIES_MAX_BUCKETS = 1000;
+
+/**
+ * Timestamp validation - must be a valid ISO datetime string, not in the future
+ * and, by default, no more than 2 years old. Imports of historical data can pass
+ * an earlier lower bound.
+ */
+function buildTimestampSchema(label: string, minTime?: Date) {
+  return z
     .string()
     .refine(
       (datetime) => {
@@ -11,7 +22,7 @@ export const workEntryValidation = {
         return !isNaN(parsed.getTime()) && datetime === parsed.toISOString();
       },
       {
-        message: 'Start time must be a valid ISO datetime string',
+        message: `${label} must be a valid ISO datetime string`,
       }
     )
     .refine(
@@ -21,44 +32,26 @@ export const workEntryValidation = {
         // Add 1 minute buffer to avoid timing issues in tests
         const maxTime = new Date(now.getTime() + 60000);
         // Allow dates up to 2 years ago for more flexibility
-        const minTime = new Date();
-        minTime.setFullYear(now.getFullYear() - 2);
+        const defaultMinTime = new Date();
+        defaultMinTime.setFullYear(now.getFullYear() - 2);
 
-        return parsed <= maxTime && parsed >= minTime;
+        return parsed <= maxTime && parsed >= (minTime ?? defaultMinTime);
       },
       {
-        message: 'Start time cannot be more than 1 minute in the future or more than 2 years ago',
+        message: minTime
+          ? `${label} cannot be more than 1 minute in the future or before ${minTime.toISOString()}`
+          : `${label} cannot be more than 1 minute in the future or more than 2 years ago`,
       }
-    ),
+    );
+}
 
-  // End time validation - must be valid ISO datetime string
-  endTime: z
-    .string()
-    .refine(
-      (datetime) => {
-        const parsed = new Date(datetime);
-        return !isNaN(parsed.getTime()) && datetime === parsed.toISOString();
-      },
-      {
-        message: 'End time must be a valid ISO datetime string',
-      }
-    )
-    .refine(
-      (datetime) => {
-        const parsed = new Date(datetime);
-        const now = new Date();
-        // Add 1 minute buffer to avoid timing issues in tests
-        const maxTime = new Date(now.getTime() + 60000);
-        // Allow dates up to 2 years ago for more flexibility
-        const minTime = new Date();
-        minTime.setFullYear(now.getFullYear() - 2);
+// Base validation schemas
+export const workEntryValidation = {
+  // Start time validation - must be valid ISO datetime string
+  startTime: buildTimestampSchema('Start time'),
 
-        return parsed <= maxTime && parsed >= minTime;
-      },
-      {
-        message: 'End time cannot be more than 1 minute in the future or more than 2 years ago',
-      }
-    ),
+  // End time validation - must be valid ISO datetime string
+  endTime: buildTimestampSchema('End time'),
 
   // Description validation
   description: z
@@ -72,49 +65,145 @@ export const workEntryValidation = {
     .string()
     .min(1, { message: 'ID is required' })
     .regex(/^[a-zA-Z0-9_-]+$/, { message: 'Invalid ID format' }),
+
+  // IANA time zone, e.g. Europe/Berlin
+  timezone: z
+    .string()
+    .max(100)
+    .refine(isValidTimeZone, { message: 'Timezone must be an IANA time zone like Europe/Berlin' }),
 };
 
-// Create work entry schema
-export const createWorkEntrySchema = z
-  .object({
-    startTime: workEntryValidation.startTime,
-    endTime: workEntryValidation.endTime,
-    description: workEntryValidation.description,
-  })
-  .refine(
-    (data) => {
-      const startTime = new Date(data.startTime);
-      const endTime = new Date(data.endTime);
-      return startTime < endTime;
-    },
-    {
-      message: 'Start time must be before end time',
-    }
+// Breaks taken during a work entry; replaced as a whole on update
+export const workEntryBreaksSchema = z
+  .array(
+    z
+      .object({
+        startTime: workEntryValidation.startTime,
+        endTime: workEntryValidation.endTime,
+      })
+      .refine((pause) => new Date(pause.startTime) < new Date(pause.endTime), {
+        message: 'Break start time must be before its end time',
+      })
   )
-  .refine(
-    (data) => {
-      const startTime = new Date(data.startTime);
-      const endTime = new Date(data.endTime);
-      const durationMs = endTime.getTime() - startTime.getTime();
-      const durationHours = durationMs / (1000 * 60 * 60);
-      return durationHours <= 24;
-    },
-    {
-      message: 'Work entry duration cannot exceed 24 hours',
-    }
-  )
-  .refine(
-    (data) => {
-      const startTime = new Date(data.startTime);
-      const endTime = new Date(data.endTime);
-      const durationMs = endTime.getTime() - startTime.getTime();
-      const durationMinutes = durationMs / (1000 * 60);
-      return durationMinutes >= 15; // Minimum 15 minutes
+  .max(20, { message: 'A work entry cannot have more than 20 breaks' });
+
+/**
+ * Calendar date validation - must be a valid YYYY-MM-DD string
+ */
+function buildDateSchema(label: string) {
+  return z.string().refine(
+    (date) => {
+      const parsed = new Date(date);
+      return !isNaN(parsed.getTime()) && date === parsed.toISOString().split('T')[0];
     },
     {
-      message: 'Work entry duration must be at least 15 minutes',
+      message: `${label} must be a valid ISO date string (YYYY-MM-DD)`,
     }
   );
+}
+
+/**
+ * Count the day, week or month buckets a stats series covers
+ * Weeks start on Monday; the first and last buckets are whole periods
+ */
+function countSeriesBuckets(
+  interval: 'day' | 'week' | 'month',
+  startDate: string,
+  endDate: string
+) {
+  const start = new Date(startDate);
+  const end = new Date(endDate);
+  const days = Math.round((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000));
+
+  switch (interval) {
+    case 'day':
+      return days + 1;
+    case 'week':
+      // Days from the Monday of the first week
+      return Math.floor((days + ((start.getUTCDay() + 6) % 7)) / 7) + 1;
+    case 'month':
+      return (
+        (end.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+        (end.getUTCMonth() - start.getUTCMonth()) +
+        1
+      );
+  }
+}
+
+/**
+ * Build the create work entry schema
+ * `minTime` replaces the 2-year lower bound on timestamps, e.g. for imports
+ */
+export function buildCreateWorkEntrySchema(options: { minTime?: Date } = {}) {
+  return z
+    .object({
+      startTime: options.minTime
+        ? buildTimestampSchema('Start time', options.minTime)
+        : workEntryValidation.startTime,
+      endTime: options.minTime
+        ? buildTimestampSchema('End time', options.minTime)
+        : workEntryValidation.endTime,
+      description: workEntryValidation.description,
+      projectId: workEntryValidation.id.optional(),
+      tags: workEntryTagsSchema.optional(),
+      breaks: workEntryBreaksSchema.optional(),
+    })
+    .refine(
+      (data) => {
+        const startTime = new Date(data.startTime);
+        const endTime = new Date(data.endTime);
+        return startTime < endTime;
+      },
+      {
+        message: 'Start time must be before end time',
+      }
+    )
+    .refine(
+      (data) => findBreakProblem(data, data.breaks ?? []) === null,
+      (data) => ({
+        message: findBreakProblem(data, data.breaks ?? [])!,
+      })
+    )
+    .refine(
+      (data) => {
+        // Breaks don't count towards the duration
+        const durationMs = getNetDurationMs(data, data.breaks ?? []);
+        const durationHours = durationMs / (1000 * 60 * 60);
+        return durationHours <= 24;
+      },
+      {
+        message: 'Work entry duration cannot exceed 24 hours',
+      }
+    )
+    .refine(
+      (data) => {
+        // Breaks don't count towards the duration
+        const durationMs = getNetDurationMs(data, data.breaks ?? []);
+        const durationMinutes = durationMs / (1000 * 60);
+        return durationMinutes >= 15; // Minimum 15 minutes
+      },
+      {
+        message: 'Work entry duration must be at least 15 minutes',
+      }
+    );
+}
+
+// Create work entry schema
+export const createWorkEntrySchema = buildCreateWorkEntrySchema();
+
+/**
+ * Check the breaks of an update that sets both the start and end time
+ */
+export function findUpdateBreakProblem(data: {
+  startTime?: string | undefined;
+  endTime?: string | undefined;
+  breaks?: { startTime: string; endTime: string }[] | undefined;
+}): string | null {
+  if (!data.startTime || !data.endTime || !data.breaks) {
+    return null;
+  }
+  return findBreakProblem({ startTime: data.startTime, endTime: data.endTime }, data.breaks);
+}
 
 // Update work entry schema (all fields optional)
 export const updateWorkEntrySchema = z
@@ -122,6 +211,12 @@ export const updateWorkEntrySchema = z
     startTime: workEntryValidation.startTime.optional(),
     endTime: workEntryValidation.endTime.optional(),
     description: workEntryValidation.description.optional(),
+    // null removes the entry from its project
+    projectId: workEntryValidation.id.nullable().optional(),
+    // Replaces the entry's tags; an empty array removes them all
+    tags: workEntryTagsSchema.optional(),
+    // Replaces the entry's breaks; an empty array removes them all
+    breaks: workEntryBreaksSchema.optional(),
   })
   .refine(
     (data) => {
@@ -146,13 +241,20 @@ export const updateWorkEntrySchema = z
       message: 'Start time must be before end time',
     }
   )
+  .refine(
+    // Breaks kept from the entry are checked against new times when the update is applied
+    (data) => findUpdateBreakProblem(data) === null,
+    (data) => ({ message: findUpdateBreakProblem(data)! })
+  )
   .refine(
     (data) => {
       // If both start and end times are provided, validate duration
       if (data.startTime && data.endTime) {
-        const startTime = new Date(data.startTime);
-        const endTime = new Date(data.endTime);
-        const durationMs = endTime.getTime() - startTime.getTime();
+        // Breaks don't count towards the duration
+        const durationMs = getNetDurationMs(
+          { startTime: data.startTime, endTime: data.endTime },
+          data.breaks ?? []
+        );
         const durationHours = durationMs / (1000 * 60 * 60);
         return durationHours <= 24;
       }
@@ -166,9 +268,11 @@ export const updateWorkEntrySchema = z
     (data) => {
       // If both start and end times are provided, validate minimum duration
       if (data.startTime && data.endTime) {
-        const startTime = new Date(data.startTime);
-        const endTime = new Date(data.endTime);
-        const durationMs = endTime.getTime() - startTime.getTime();
+        // Breaks don't count towards the duration
+        const durationMs = getNetDurationMs(
+          { startTime: data.startTime, endTime: data.endTime },
+          data.breaks ?? []
+        );
         const durationMinutes = durationMs / (1000 * 60);
         return durationMinutes >= 15; // Minimum 15 minutes
       }
@@ -184,6 +288,23 @@ export const workEntryParamsSchema = z.object({
   id: workEntryValidation.id,
 });
 
+// Position in a work entry listing that a cursor points at
+const workEntryCursorSchema = z
+  .object({
+    sortBy: z.enum(['startTime', 'endTime', 'duration', 'createdAt']),
+    sortOrder: z.enum(['asc', 'desc']),
+    // Sort column value of the entry: a timestamp, or seconds for duration. null for running timers
+    value: z.union([z.string().datetime(), z.number().int(), z.null()]),
+    id: workEntryValidation.id,
+    // Whether the cursor reads the entries after or before the entry
+    direction: z.enum(['next', 'prev']),
+  })
+  .refine((cursor) =>
+    cursor.sortBy === 'duration'
+      ? typeof cursor.value !== 'string'
+      : typeof cursor.value !== 'number' && (cursor.value !== null || cursor.sortBy === 'endTime')
+  );
+
 // Work entry filters/query schema
 export const workEntryFiltersSchema = z
   .object({
@@ -215,10 +336,47 @@ export const workEntryFiltersSchema = z
         }
       ),
 
-    sortBy: z
-      .enum(['startTime', 'endTime', 'duration', 'createdAt'])
+    projectId: workEntryValidation.id.optional(),
+
+    clientId: workEntryValidation.id.optional(),
+
+    // Comma-separated tag IDs, e.g. ?tagIds=abc,def
+    tagIds: z
+      .string()
       .optional()
-      .default('startTime'),
+      .transform((value) => (value ? value.split(',').filter(Boolean) : undefined))
+      .pipe(z.array(tagValidation.id).max(20, { message: 'Too many tags' }).optional()),
+
+    // Whether entries need any or all of the given tags
+    tagMatch: z.enum(['any', 'all']).optional().default('any'),
+
+    // Duration bounds in hours, e.g. ?minDuration=0.5&maxDuration=8
+    minDuration: z.coerce
+      .number()
+      .min(0, { message: 'Minimum duration cannot be negative' })
+      .max(24, { message: 'Minimum duration cannot exceed 24 hours' })
+      .optional(),
+
+    maxDuration: z.coerce
+      .number()
+      .min(0, { message: 'Maximum duration cannot be negative' })
+      .max(24, { message: 'Maximum duration cannot exceed 24 hours' })
+      .optional(),
+
+    // Full-text search over descriptions, e.g. ?q="billing migration" invoice
+    q: z
+      .string()
+      .trim()
+      .max(200, { message: 'Search cannot exceed 200 characters' })
+      .optional()
+      // An empty search box means no search
+      .transform((value) => value || undefined)
+      .refine((value) => value === undefined || buildSearchQuery(value) !== null, {
+        message: 'Search must contain at least one word',
+      }),
+
+    // Defaults to relevance when searching and to startTime otherwise
+    sortBy: z.enum(['startTime', 'endTime', 'duration', 'createdAt', 'relevance']).optional(),
 
     sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
 
@@ -236,6 +394,38 @@ export const workEntryFiltersSchema = z
       .max(100, { message: 'Limit cannot exceed 100' })
       .optional()
       .default(20),
+
+    // Opaque cursor from nextCursor or prevCursor; switches to cursor pagination, and an empty
+    // cursor (?cursor=) starts it from the first page
+    cursor: z
+      .string()
+      .max(1000, { message: 'Invalid cursor' })
+      .optional()
+      .transform((value, ctx) => {
+        if (value === undefined || value === '') {
+          return value === '' ? null : undefined;
+        }
+
+        const parsed = workEntryCursorSchema.safeParse(decodeCursor(value));
+        if (!parsed.success) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' });
+          return z.NEVER;
+        }
+        return parsed.data;
+      }),
+
+    // Whether to count the matching entries; on by default for pages and off for cursors
+    includeTotal: z
+      .enum(['true', 'false'])
+      .optional()
+      .transform((value) => (value === undefined ? undefined : value === 'true')),
+  })
+  .transform((data) => ({
+    ...data,
+    sortBy: data.sortBy ?? (data.q !== undefined ? ('relevance' as const) : ('startTime' as const)),
+  }))
+  .refine((data) => data.sortBy !== 'relevance' || data.q !== undefined, {
+    message: 'Sorting by relevance needs a search (q)',
   })
   .refine(
     (data) => {
@@ -248,10 +438,86 @@ export const workEntryFiltersSchema = z
     {
       message: 'Start date must be before or equal to end date',
     }
+  )
+  .refine(
+    (data) =>
+      data.minDuration === undefined ||
+      data.maxDuration === undefined ||
+      data.minDuration <= data.maxDuration,
+    {
+      message: 'Minimum duration must be less than or equal to maximum duration',
+    }
+  )
+  .refine(
+    (data) =>
+      !data.cursor ||
+      (data.cursor.sortBy === data.sortBy && data.cursor.sortOrder === data.sortOrder),
+    {
+      message: 'Cursor does not match the sort order; pass the same sortBy and sortOrder',
+    }
+  )
+  .refine((data) => data.cursor === undefined || data.sortBy !== 'relevance', {
+    message: 'Results sorted by relevance are paged by number; pass page instead of cursor',
+  });
+
+// Overlap policy override, e.g. POST /api/work-entries?overlap=trim
+export const overlapPolicyQuerySchema = z.object({
+  overlap: z.enum(['reject', 'allow', 'trim']).optional(),
+});
+
+// Hours over time, e.g. GET /api/work-entries/stats/series?interval=week&startDate=...&endDate=...
+export const statsSeriesQuerySchema = z
+  .object({
+    interval: z.enum(['day', 'week', 'month']).default('day'),
+    // Default to the latest buckets up to today
+    startDate: buildDateSchema('Start date').optional(),
+    endDate: buildDateSchema('End date').optional(),
+    // Defaults to the user's time zone
+    timezone: workEntryValidation.timezone.optional(),
+  })
+  .refine((data) => !data.startDate || !data.endDate || data.startDate <= data.endDate, {
+    message: 'Start date must be before or equal to end date',
+  })
+  .refine(
+    (data) =>
+      !data.startDate ||
+      countSeriesBuckets(
+        data.interval,
+        data.startDate,
+        data.endDate ?? new Date().toISOString().split('T')[0]!
+      ) <= STATS_SERIES_MAX_BUCKETS,
+    {
+      message: `A stats series can have at most ${STATS_SERIES_MAX_BUCKETS} buckets`,
+    }
   );
 
+// Paging through the trash, e.g. GET /api/work-entries/trash?page=2
+export const trashQuerySchema = z.object({
+  page: z.coerce.number().int().min(1, { message: 'Page must be at least 1' }).default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, { message: 'Limit must be at least 1' })
+    .max(100, { message: 'Limit cannot exceed 100' })
+    .default(20),
+});
+
+// Revision to revert a work entry to, e.g. { "revisionId": "..." }
+export const revertWorkEntrySchema = z.object({
+  revisionId: workEntryValidation.id,
+});
+
+// Export file format, e.g. GET /api/work-entries/export?format=ics
+export const exportFormatQuerySchema = z.object({
+  format: z.enum(['csv', 'jsonl', 'ics']).optional().default('csv'),
+});
+
 // Export types from validation schemas
 export type CreateWorkEntryRequest = z.infer<typeof createWorkEntrySchema>;
 export type UpdateWorkEntryRequest = z.infer<typeof updateWorkEntrySchema>;
 export type WorkEntryParams = z.infer<typeof workEntryParamsSchema>;
 export type WorkEntryFilters = z.infer<typeof workEntryFiltersSchema>;
+export type TrashQuery = z.infer<typeof trashQuerySchema>;
+export type WorkEntryCursor = z.infer<typeof workEntryCursorSchema>;
+export type StatsSeriesQuery = z.infer<typeof statsSeriesQuerySchema>;
+export type RevertWorkEntryRequest = z.infer<typeof revertWorkEntrySchema>;
@@ -1,4 +1,4 @@
-import type { User, UserWithPassword } from '../../src/types/auth.types';
+import type { Role, User, UserWithPassword } from '../../src/types/auth.types';
 import { hashPassword } from '../../src/utils/password.utils';
 
 /**
@@ -11,6 +11,9 @@ export interface CreateUserData {
   password?: string;
   firstName?: string;
   lastName?: string;
+  role?: Role;
+  emailVerified?: boolean;
+  mfaEnabled?: boolean;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -35,11 +38,14 @@ export function generateTestEmail(prefix = 'test'): string {
 export function generateUserData(options: UserFactoryOptions = {}): CreateUserData {
   const { override = {} } = options;
 
-  const defaults = {
+  const defaults: CreateUserData = {
     email: generateTestEmail(),
     password: 'TestPassword123!',
     firstName: 'Test',
     lastName: 'User',
+    role: 'user',
+    emailVerified: false,
+    mfaEnabled: false,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
@@ -67,6 +73,9 @@ export async function createUserFactory(
     password,
     firstName: userData.firstName!,
     lastName: userData.lastName!,
+    role: userData.role!,
+    emailVerified: userData.emailVerified!,
+    mfaEnabled: userData.mfaEnabled!,
     createdAt: userData.createdAt!,
     updatedAt: userData.updatedAt!,
   };
@@ -94,6 +103,7 @@ export const TestUsers = {
     password: 'AdminSecure456#',
     firstName: 'Admin',
     lastName: 'User',
+    role: 'admin',
   }),
 
   /**
@@ -10,6 +10,7 @@ export interface CreateWorkEntryData {
   endTime?: Date;
   description?: string;
   userId?: string;
+  projectId?: string | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -37,6 +38,15 @@ export function generateTestDateString(daysOffset = 0): string {
   return date.toISOString().split('T')[0] as string;
 }
 
+/**
+ * Get a recent calendar day in YYYY-MM-DD format, counted in UTC
+ */
+export function getRecentDay(daysAgo: number): string {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - daysAgo);
+  return date.toISOString().split('T')[0] as string;
+}
+
 /**
  * Generate realistic start and end times for a work entry
  */
@@ -72,6 +82,7 @@ export function generateWorkEntryData(
     endTime: timestamps.endTime,
     description: 'Working on development tasks',
     userId,
+    projectId: null,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
@@ -92,6 +103,7 @@ export function createWorkEntryFactory(
 
   return {
     userId: data.userId,
+    projectId: data.projectId,
     startTime: data.startTime,
     endTime: data.endTime,
     description: data.description,
@@ -112,6 +124,7 @@ export const WorkEntryTemplates = {
       endTime: timestamps.endTime,
       description: 'Standard 8-hour work day',
       userId,
+      projectId: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -127,6 +140,7 @@ export const WorkEntryTemplates = {
       endTime: timestamps.endTime,
       description: 'Short work session',
       userId,
+      projectId: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -142,6 +156,7 @@ export const WorkEntryTemplates = {
       endTime: timestamps.endTime,
       description: 'Long work session',
       userId,
+      projectId: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -157,6 +172,7 @@ export const WorkEntryTemplates = {
       endTime: timestamps.endTime,
       description: 'Yesterday work entry',
       userId,
+      projectId: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -172,6 +188,7 @@ export const WorkEntryTemplates = {
       endTime: timestamps.endTime,
       description: 'Last week work entry',
       userId,
+      projectId: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -190,6 +207,7 @@ export const WorkEntryTemplates = {
       endTime: timestamps.endTime,
       description,
       userId,
+      projectId: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -214,6 +232,7 @@ export const WorkEntryTemplates = {
       endTime,
       description: `Work entry for ${date.toDateString()}`,
       userId,
+      projectId: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -232,6 +251,7 @@ export const WorkEntryTemplates = {
       endTime,
       description: 'Work entry with custom time range',
       userId,
+      projectId: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -285,6 +305,7 @@ export const InvalidWorkEntries = {
       endTime,
       description: 'Invalid time range test',
       userId,
+      projectId: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -305,6 +326,7 @@ export const InvalidWorkEntries = {
       endTime,
       description: 'Excessive duration test',
       userId,
+      projectId: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -325,6 +347,7 @@ export const InvalidWorkEntries = {
       endTime,
       description: 'Too short duration test',
       userId,
+      projectId: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -340,6 +363,7 @@ export const InvalidWorkEntries = {
       endTime: timestamps.endTime,
       description: '',
       userId,
+      projectId: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -361,6 +385,7 @@ export const InvalidWorkEntries = {
       endTime,
       description: 'Future time test',
       userId,
+      projectId: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -387,7 +412,8 @@ export const WorkEntryTestHelpers = {
    */
   calculateTotalHours: (workEntries: Omit<WorkEntry, 'id'>[]): number => {
     return workEntries.reduce((total, entry) => {
-      const durationMs = entry.endTime.getTime() - entry.startTime.getTime();
+      // Running timers count up to now, like the API does
+      const durationMs = (entry.endTime ?? new Date()).getTime() - entry.startTime.getTime();
       const duration = durationMs / (1000 * 60 * 60); // Convert to hours
       return total + duration;
     }, 0);
@@ -416,11 +442,11 @@ export const WorkEntryTestHelpers = {
           comparison = a.startTime.getTime() - b.startTime.getTime();
           break;
         case 'endTime':
-          comparison = a.endTime.getTime() - b.endTime.getTime();
+          comparison = (a.endTime ?? new Date()).getTime() - (b.endTime ?? new Date()).getTime();
           break;
         case 'duration':
-          const durationA = a.endTime.getTime() - a.startTime.getTime();
-          const durationB = b.endTime.getTime() - b.startTime.getTime();
+          const durationA = (a.endTime ?? new Date()).getTime() - a.startTime.getTime();
+          const durationB = (b.endTime ?? new Date()).getTime() - b.startTime.getTime();
           comparison = durationA - durationB;
           break;
         case 'createdAt':
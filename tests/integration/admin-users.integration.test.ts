@@ -0,0 +1,351 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { createUserFactory, generateTestEmail } from '../factories/user.factory';
+import { SessionService } from '../../src/services/session.service';
+import { mailService } from '../../src/services/mail.service';
+import { PersonalAccessTokenService } from '../../src/services/personal-access-token.service';
+import { trackFailedAttempt, isLockedOut } from '../../src/middleware/rate-limit.middleware';
+import type { Role } from '../../src/types/auth.types';
+import type { MailTransport, OutgoingMail } from '../../src/types/mail.types';
+
+const prisma = new PrismaClient();
+
+class CapturingMailTransport implements MailTransport {
+  sent: OutgoingMail[] = [];
+
+  async send(mail: OutgoingMail): Promise<void> {
+    this.sent.push(mail);
+  }
+}
+
+describe('Admin User Management Integration Tests', () => {
+  const password = 'SecurePassword123!';
+  let transport: CapturingMailTransport;
+  let adminId: string;
+  let adminToken: string;
+  let managerToken: string;
+  let memberId: string;
+  let memberEmail: string;
+  let memberToken: string;
+
+  const createUser = async (prefix: string, role: Role) => {
+    const testUser = await createUserFactory({
+      withHashedPassword: true,
+      override: { email: generateTestEmail(prefix), password },
+    });
+
+    const dbUser = await prisma.user.create({
+      data: {
+        email: testUser.email,
+        password: testUser.password,
+        firstName: testUser.firstName,
+        lastName: testUser.lastName,
+        role,
+        emailVerified: true,
+      },
+    });
+
+    const { tokens } = await SessionService.startSession(
+      dbUser.id,
+      dbUser.email,
+      { ipAddress: null, userAgent: null },
+      role
+    );
+
+    return { id: dbUser.id, email: dbUser.email, token: tokens.accessToken };
+  };
+
+  const auditActions = async (targetUserId: string): Promise<string[]> => {
+    const entries = await prisma.auditLog.findMany({
+      where: { targetUserId },
+      orderBy: { createdAt: 'asc' },
+    });
+    return entries.map((entry) => entry.action);
+  };
+
+  beforeEach(async () => {
+    await prisma.auditLog.deleteMany({});
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    transport = new CapturingMailTransport();
+    mailService.setTransport(transport);
+
+    const admin = await createUser('admin', 'admin');
+    adminId = admin.id;
+    adminToken = admin.token;
+
+    managerToken = (await createUser('manager', 'manager')).token;
+
+    const member = await createUser('member', 'user');
+    memberId = member.id;
+    memberEmail = member.email;
+    memberToken = member.token;
+  });
+
+  afterAll(async () => {
+    await prisma.auditLog.deleteMany({});
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  describe('Access control', () => {
+    it('should reject regular users', async () => {
+      const response = await request(app)
+        .get('/api/admin/users')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(403);
+
+      expect(response.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+    });
+
+    it('should let managers view users but not change them', async () => {
+      await request(app)
+        .get(`/api/admin/users/${memberId}`)
+        .set('Authorization', `Bearer ${managerToken}`)
+        .expect(200);
+
+      await request(app)
+        .post(`/api/admin/users/${memberId}/disable`)
+        .set('Authorization', `Bearer ${managerToken}`)
+        .send({})
+        .expect(403);
+    });
+  });
+
+  describe('GET /api/admin/users', () => {
+    it('should search and paginate users', async () => {
+      const response = await request(app)
+        .get('/api/admin/users')
+        .query({ search: 'member', limit: 1 })
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.users).toHaveLength(1);
+      expect(response.body.data.users[0].id).toBe(memberId);
+      expect(response.body.data.users[0].status).toBe('active');
+      expect(response.body.data.users[0].password).toBeUndefined();
+      expect(response.body.data.pagination.total).toBe(1);
+    });
+
+    it('should filter by role', async () => {
+      const response = await request(app)
+        .get('/api/admin/users')
+        .query({ role: 'manager' })
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.users).toHaveLength(1);
+      expect(response.body.data.users[0].role).toBe('manager');
+    });
+  });
+
+  describe('GET /api/admin/users/:id', () => {
+    it('should include entry counts and last login', async () => {
+      const start = new Date();
+      start.setDate(start.getDate() - 1);
+      start.setHours(9, 0, 0, 0);
+
+      await prisma.workEntry.create({
+        data: {
+          userId: memberId,
+          startTime: start,
+          endTime: new Date(start.getTime() + 2 * 60 * 60 * 1000),
+          description: 'Reviewed pull requests',
+        },
+      });
+
+      const response = await request(app)
+        .get(`/api/admin/users/${memberId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      const { user } = response.body.data;
+      expect(user.workEntryCount).toBe(1);
+      expect(user.activeSessionCount).toBe(1);
+      expect(user.lastLoginAt).toBeTruthy();
+      expect(user.isLocked).toBe(false);
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      await request(app)
+        .get('/api/admin/users/unknownuser123')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('Disabling accounts', () => {
+    it('should sign the user out and block login until re-enabled', async () => {
+      await request(app)
+        .post(`/api/admin/users/${memberId}/disable`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ reason: 'Left the company' })
+        .expect(200);
+
+      await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(401);
+
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: memberEmail, password })
+        .expect(403);
+      expect(login.body.code).toBe('ACCOUNT_DISABLED');
+
+      await request(app)
+        .post(`/api/admin/users/${memberId}/enable`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({})
+        .expect(200);
+
+      await request(app).post('/api/auth/login').send({ email: memberEmail, password }).expect(200);
+
+      expect(await auditActions(memberId)).toEqual(['user.disable', 'user.enable']);
+
+      const disableEntry = await prisma.auditLog.findFirst({ where: { action: 'user.disable' } });
+      expect(disableEntry?.actorId).toBe(adminId);
+      expect(disableEntry?.metadata).toEqual({ reason: 'Left the company' });
+    });
+
+    it('should not let admins disable themselves', async () => {
+      const response = await request(app)
+        .post(`/api/admin/users/${adminId}/disable`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({})
+        .expect(400);
+
+      expect(response.body.code).toBe('CANNOT_MODIFY_SELF');
+    });
+  });
+
+  describe('PATCH /api/admin/users/:id/role', () => {
+    it('should change the role and record the previous one', async () => {
+      const response = await request(app)
+        .patch(`/api/admin/users/${memberId}/role`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ role: 'manager' })
+        .expect(200);
+
+      expect(response.body.data.user.role).toBe('manager');
+
+      const entry = await prisma.auditLog.findFirst({ where: { targetUserId: memberId } });
+      expect(entry?.action).toBe('user.role_change');
+      expect(entry?.metadata).toEqual({ from: 'user', to: 'manager' });
+    });
+  });
+
+  describe('POST /api/admin/users/:id/force-password-reset', () => {
+    it('should block login and email a reset link', async () => {
+      await request(app)
+        .post(`/api/admin/users/${memberId}/force-password-reset`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({})
+        .expect(200);
+
+      expect(transport.sent).toHaveLength(1);
+      expect(transport.sent[0]?.to).toBe(memberEmail);
+
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: memberEmail, password })
+        .expect(403);
+      expect(login.body.code).toBe('PASSWORD_RESET_REQUIRED');
+
+      await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${memberToken}`)
+        .expect(401);
+    });
+
+    it("should revoke the user's personal access tokens", async () => {
+      const { token } = await PersonalAccessTokenService.create(memberId, {
+        name: 'Laptop script',
+        scopes: ['work-entries:read'],
+        expiresAt: null,
+      });
+
+      await request(app)
+        .get('/api/work-entries')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      await request(app)
+        .post(`/api/admin/users/${memberId}/force-password-reset`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({})
+        .expect(200);
+
+      await request(app)
+        .get('/api/work-entries')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(401);
+    });
+  });
+
+  describe('POST /api/admin/users/:id/unlock', () => {
+    it('should clear a login lockout', async () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        trackFailedAttempt(memberEmail);
+      }
+      expect(isLockedOut(memberEmail)).toBe(true);
+
+      const response = await request(app)
+        .post(`/api/admin/users/${memberId}/unlock`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.wasLocked).toBe(true);
+      expect(isLockedOut(memberEmail)).toBe(false);
+      expect(await auditActions(memberId)).toEqual(['user.unlock']);
+    });
+  });
+
+  describe('DELETE /api/admin/users/:id', () => {
+    it('should soft delete by default and allow restoring', async () => {
+      await request(app)
+        .delete(`/api/admin/users/${memberId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      const list = await request(app)
+        .get('/api/admin/users')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(list.body.data.users.map((user: { id: string }) => user.id)).not.toContain(memberId);
+
+      await request(app).post('/api/auth/login').send({ email: memberEmail, password }).expect(401);
+
+      const restored = await request(app)
+        .post(`/api/admin/users/${memberId}/restore`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(restored.body.data.user.status).toBe('active');
+
+      expect(await auditActions(memberId)).toEqual(['user.soft_delete', 'user.restore']);
+    });
+
+    it('should permanently delete with hard=true and keep the audit entry', async () => {
+      await request(app)
+        .delete(`/api/admin/users/${memberId}`)
+        .query({ hard: 'true' })
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(await prisma.user.findUnique({ where: { id: memberId } })).toBeNull();
+
+      const audit = await request(app)
+        .get('/api/admin/audit-log')
+        .query({ targetUserId: memberId })
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(audit.body.data.entries).toHaveLength(1);
+      expect(audit.body.data.entries[0].action).toBe('user.hard_delete');
+      expect(audit.body.data.entries[0].metadata).toEqual({ email: memberEmail });
+    });
+  });
+});
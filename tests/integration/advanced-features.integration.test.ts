@@ -40,6 +40,7 @@ describe('Advanced Features Integration Tests', () => {
         password: testUser.password,
         firstName: testUser.firstName,
         lastName: testUser.lastName,
+        emailVerified: true,
       },
     });
 
@@ -196,6 +197,102 @@ describe('Advanced Features Integration Tests', () => {
         expect(response.body.data.pagination.limit).toBe(pageSize);
       }
     });
+
+    it('should page through every entry with cursors', async () => {
+      const getPage = (cursor: string) =>
+        request(app)
+          .get('/api/work-entries')
+          .query({ cursor, limit: 10, sortBy: 'duration', sortOrder: 'desc' })
+          .set('Authorization', `Bearer ${accessToken}`)
+          .expect(200);
+
+      const first = await getPage('');
+      expect(first.body.data).toHaveLength(10);
+      expect(first.body.pagination).toMatchObject({ limit: 10, hasNext: true, hasPrev: false });
+      expect(first.body.pagination.prevCursor).toBeNull();
+      expect(first.body.pagination.total).toBeUndefined();
+
+      const second = await getPage(first.body.pagination.nextCursor);
+      const third = await getPage(second.body.pagination.nextCursor);
+      expect(third.body.data).toHaveLength(5);
+      expect(third.body.pagination).toMatchObject({ hasNext: false, nextCursor: null });
+
+      const entries = [...first.body.data, ...second.body.data, ...third.body.data];
+      expect(new Set(entries.map((entry: any) => entry.id)).size).toBe(25);
+      const durations = entries.map((entry: any) => entry.duration);
+      expect(durations).toEqual([...durations].sort((a, b) => b - a));
+
+      // Going back returns the same page
+      const back = await getPage(third.body.pagination.prevCursor);
+      expect(back.body.data.map((entry: any) => entry.id)).toEqual(
+        second.body.data.map((entry: any) => entry.id)
+      );
+    });
+
+    it('should not shift cursor pages when entries are added', async () => {
+      const getPage = (cursor: string) =>
+        request(app)
+          .get('/api/work-entries')
+          .query({ cursor, limit: 10 })
+          .set('Authorization', `Bearer ${accessToken}`)
+          .expect(200);
+
+      const first = await getPage('');
+
+      // Newer than every entry, so it belongs on the first page
+      await request(app)
+        .post('/api/work-entries')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          startTime: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+          endTime: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+          description: 'Added while paging',
+        })
+        .expect(201);
+
+      const second = await getPage(first.body.pagination.nextCursor);
+      const firstIds = first.body.data.map((entry: any) => entry.id);
+      expect(second.body.data.some((entry: any) => firstIds.includes(entry.id))).toBe(false);
+      expect(second.body.data[0].description).toBe('Work entry 15');
+    });
+
+    it('should include totals only when asked', async () => {
+      const withTotal = await request(app)
+        .get('/api/work-entries?cursor=&includeTotal=true')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+      expect(withTotal.body.pagination.total).toBe(25);
+
+      const withoutTotal = await request(app)
+        .get('/api/work-entries?page=3&limit=10&includeTotal=false')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+      expect(withoutTotal.body.data).toHaveLength(5);
+      expect(withoutTotal.body.pagination).toEqual({
+        page: 3,
+        limit: 10,
+        hasNext: false,
+        hasPrev: true,
+      });
+    });
+
+    it('should reject invalid cursors and cursors for another sort order', async () => {
+      await request(app)
+        .get('/api/work-entries?cursor=abc')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(400);
+
+      const first = await request(app)
+        .get('/api/work-entries?cursor=&sortBy=startTime')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      await request(app)
+        .get('/api/work-entries')
+        .query({ cursor: first.body.pagination.nextCursor, sortBy: 'createdAt' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(400);
+    });
   });
 
   describe('Advanced Filtering Features', () => {
@@ -427,6 +524,42 @@ describe('Advanced Features Integration Tests', () => {
       expect(durations[1]).toBeGreaterThanOrEqual(durations[2]);
     });
 
+    it('should sort by duration across pages', async () => {
+      const getPage = (page: number) =>
+        request(app)
+          .get(`/api/work-entries?sortBy=duration&sortOrder=desc&page=${page}&limit=2`)
+          .set('Authorization', `Bearer ${accessToken}`)
+          .expect(200);
+
+      const durations: number[] = [];
+      for (const page of [1, 2, 3]) {
+        const response = await getPage(page);
+        durations.push(...response.body.data.map((entry: any) => entry.duration));
+      }
+
+      expect(durations).toEqual([9, 8, 7.5, 6, 4]);
+    });
+
+    it('should filter by minimum and maximum duration', async () => {
+      const response = await request(app)
+        .get('/api/work-entries?minDuration=6&maxDuration=8&sortBy=duration&sortOrder=asc')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const durations = response.body.data.map((entry: any) => entry.duration);
+      expect(durations).toEqual([6, 7.5, 8]);
+      expect(response.body.pagination.total).toBe(3);
+    });
+
+    it('should reject a minimum duration above the maximum', async () => {
+      const response = await request(app)
+        .get('/api/work-entries?minDuration=8&maxDuration=6')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+    });
+
     it('should handle invalid sort parameters', async () => {
       const response = await request(app)
         .get('/api/work-entries?sortBy=invalid&sortOrder=asc')
@@ -3,6 +3,7 @@ import { PrismaClient } from '@prisma/client';
 import app from '../../src/app';
 import { createUserFactory, generateTestEmail } from '../factories/user.factory';
 import { generateRefreshToken } from '../../src/utils/jwt.utils';
+import { SessionService } from '../../src/services/session.service';
 
 const prisma = new PrismaClient();
 
@@ -270,6 +271,7 @@ describe('Authentication Integration Tests', () => {
 
   describe('POST /api/auth/refresh', () => {
     let testUser: any;
+    let dbUserId: string;
     let refreshToken: string;
 
     beforeEach(async () => {
@@ -295,8 +297,13 @@ describe('Authentication Integration Tests', () => {
         },
       });
 
-      // Generate refresh token
-      refreshToken = generateRefreshToken(dbUser.id, dbUser.email);
+      // Start a session to get a stored refresh token
+      dbUserId = dbUser.id;
+      const { tokens } = await SessionService.startSession(dbUser.id, dbUser.email, {
+        ipAddress: null,
+        userAgent: null,
+      });
+      refreshToken = tokens.refreshToken;
     });
 
     it('should refresh token successfully with valid refresh token', async () => {
@@ -326,6 +333,57 @@ describe('Authentication Integration Tests', () => {
       });
     });
 
+    it('should rotate the refresh token on every use', async () => {
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      const rotatedToken = response.body.data.tokens.refreshToken;
+      expect(rotatedToken).not.toBe(refreshToken);
+
+      // The rotated token works once more
+      await request(app).post('/api/auth/refresh').send({ refreshToken: rotatedToken }).expect(200);
+    });
+
+    it('should reject a validly signed refresh token that was never issued', async () => {
+      const unknownToken = generateRefreshToken(dbUserId, testUser.email);
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: unknownToken })
+        .expect(401);
+
+      expect(response.body.code).toBe('INVALID_REFRESH_TOKEN');
+    });
+
+    it('should revoke the whole session when a rotated token is replayed', async () => {
+      const firstRotation = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(200);
+      const latestToken = firstRotation.body.data.tokens.refreshToken;
+
+      // Replay the original, already-rotated token
+      const replay = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+      expect(replay.body.code).toBe('REFRESH_TOKEN_REUSED');
+
+      // The legitimate latest token has been revoked as well
+      const afterReplay = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: latestToken })
+        .expect(401);
+      expect(afterReplay.body.code).toBe('REFRESH_TOKEN_REVOKED');
+
+      const activeTokens = await prisma.refreshToken.count({
+        where: { userId: dbUserId, revokedAt: null },
+      });
+      expect(activeTokens).toBe(0);
+    });
+
     it('should reject refresh with missing token', async () => {
       const response = await request(app).post('/api/auth/refresh').send({}).expect(400);
 
@@ -458,6 +516,230 @@ describe('Authentication Integration Tests', () => {
     });
   });
 
+  describe('POST /api/auth/logout', () => {
+    let dbUserId: string;
+    let dbUserEmail: string;
+    let accessToken: string;
+    let refreshToken: string;
+
+    beforeEach(async () => {
+      const testUser = await createUserFactory({
+        withHashedPassword: true,
+        override: { email: generateTestEmail('logout') },
+      });
+
+      const dbUser = await prisma.user.create({
+        data: {
+          email: testUser.email,
+          password: testUser.password,
+          firstName: testUser.firstName,
+          lastName: testUser.lastName,
+        },
+      });
+
+      dbUserId = dbUser.id;
+      dbUserEmail = dbUser.email;
+      const { tokens } = await SessionService.startSession(dbUser.id, dbUser.email, {
+        ipAddress: null,
+        userAgent: null,
+      });
+      accessToken = tokens.accessToken;
+      refreshToken = tokens.refreshToken;
+    });
+
+    it('should revoke the presented refresh token server-side', async () => {
+      await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ refreshToken })
+        .expect(200);
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+
+      expect(response.body.code).toBe('REFRESH_TOKEN_REVOKED');
+    });
+
+    it('should revoke the current session when no refresh token is provided', async () => {
+      const other = await SessionService.startSession(dbUserId, dbUserEmail, {
+        ipAddress: null,
+        userAgent: null,
+      });
+
+      await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      await request(app).post('/api/auth/refresh').send({ refreshToken }).expect(401);
+
+      // Other devices stay signed in
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: other.tokens.refreshToken })
+        .expect(200);
+    });
+
+    it('should reject access tokens from the logged out session', async () => {
+      await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const response = await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(401);
+
+      expect(response.body.code).toBe('SESSION_REVOKED');
+    });
+  });
+
+  describe('Session management', () => {
+    let dbUserId: string;
+    let dbUserEmail: string;
+    let currentTokens: { accessToken: string; refreshToken: string };
+    let otherSessionId: string;
+    let otherTokens: { accessToken: string; refreshToken: string };
+
+    beforeEach(async () => {
+      const testUser = await createUserFactory({
+        withHashedPassword: true,
+        override: { email: generateTestEmail('sessions') },
+      });
+
+      const dbUser = await prisma.user.create({
+        data: {
+          email: testUser.email,
+          password: testUser.password,
+          firstName: testUser.firstName,
+          lastName: testUser.lastName,
+        },
+      });
+
+      dbUserId = dbUser.id;
+      dbUserEmail = dbUser.email;
+
+      const current = await SessionService.startSession(dbUserId, dbUserEmail, {
+        ipAddress: '203.0.113.10',
+        userAgent: 'Laptop Browser',
+      });
+      currentTokens = current.tokens;
+
+      const other = await SessionService.startSession(dbUserId, dbUserEmail, {
+        ipAddress: '198.51.100.20',
+        userAgent: 'Phone App',
+      });
+      otherSessionId = other.sessionId;
+      otherTokens = other.tokens;
+    });
+
+    it('should list active sessions with device details', async () => {
+      const response = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${currentTokens.accessToken}`)
+        .expect(200);
+
+      const { sessions } = response.body.data;
+      expect(sessions).toHaveLength(2);
+      expect(sessions).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            ipAddress: '203.0.113.10',
+            userAgent: 'Laptop Browser',
+            current: true,
+            createdAt: expect.any(String),
+            lastUsedAt: expect.any(String),
+          }),
+          expect.objectContaining({
+            id: otherSessionId,
+            userAgent: 'Phone App',
+            current: false,
+          }),
+        ])
+      );
+    });
+
+    it('should treat a session as expired once its refresh tokens have expired', async () => {
+      await prisma.refreshToken.updateMany({
+        where: { sessionId: otherSessionId },
+        data: { expiresAt: new Date(Date.now() - 1000) },
+      });
+
+      const response = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${currentTokens.accessToken}`)
+        .expect(200);
+      expect(response.body.data.sessions).toHaveLength(1);
+      expect(response.body.data.sessions[0].current).toBe(true);
+
+      await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${otherTokens.accessToken}`)
+        .expect(401);
+    });
+
+    it('should revoke a specific session and its access tokens', async () => {
+      await request(app)
+        .delete(`/api/auth/sessions/${otherSessionId}`)
+        .set('Authorization', `Bearer ${currentTokens.accessToken}`)
+        .expect(200);
+
+      await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${otherTokens.accessToken}`)
+        .expect(401);
+
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: otherTokens.refreshToken })
+        .expect(401);
+    });
+
+    it("should not revoke another user's session", async () => {
+      const intruder = await prisma.user.create({
+        data: {
+          email: generateTestEmail('intruder'),
+          password: 'hashed',
+          firstName: 'Other',
+          lastName: 'User',
+        },
+      });
+      const intruderSession = await SessionService.startSession(intruder.id, intruder.email, {
+        ipAddress: null,
+        userAgent: null,
+      });
+
+      const response = await request(app)
+        .delete(`/api/auth/sessions/${otherSessionId}`)
+        .set('Authorization', `Bearer ${intruderSession.tokens.accessToken}`)
+        .expect(404);
+
+      expect(response.body.code).toBe('SESSION_NOT_FOUND');
+    });
+
+    it('should sign out everywhere else', async () => {
+      const response = await request(app)
+        .delete('/api/auth/sessions')
+        .set('Authorization', `Bearer ${currentTokens.accessToken}`)
+        .expect(200);
+
+      expect(response.body.data.revokedCount).toBe(1);
+
+      await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${currentTokens.accessToken}`)
+        .expect(200);
+
+      await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${otherTokens.accessToken}`)
+        .expect(401);
+    });
+  });
+
   describe('Authentication Flow Integration', () => {
     it('should complete full authentication flow', async () => {
       // 1. Register user
@@ -0,0 +1,248 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { createUserFactory, generateTestEmail } from '../factories/user.factory';
+import { getRecentDay } from '../factories/work-entry.factory';
+import { SessionService } from '../../src/services/session.service';
+import { parseCsv } from '../../src/utils/csv.utils';
+
+const prisma = new PrismaClient();
+
+describe('Work Entry Breaks Integration Tests', () => {
+  let accessToken: string;
+
+  const day = getRecentDay(2);
+  const at = (time: string) => `${day}T${time}:00.000Z`;
+  const lunch = { startTime: at('12:00'), endTime: at('12:30') };
+
+  beforeEach(async () => {
+    await prisma.workEntryRevision.deleteMany({});
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    const testUser = await createUserFactory({
+      withHashedPassword: true,
+      override: { email: generateTestEmail('breaks') },
+    });
+
+    const dbUser = await prisma.user.create({
+      data: {
+        email: testUser.email,
+        password: testUser.password,
+        firstName: testUser.firstName,
+        lastName: testUser.lastName,
+        emailVerified: true,
+      },
+    });
+
+    const { tokens } = await SessionService.startSession(dbUser.id, dbUser.email, {
+      ipAddress: null,
+      userAgent: null,
+    });
+    accessToken = tokens.accessToken;
+  });
+
+  afterAll(async () => {
+    await prisma.workEntryRevision.deleteMany({});
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  const createEntry = (body: Record<string, unknown>) =>
+    request(app).post('/api/work-entries').set('Authorization', `Bearer ${accessToken}`).send(body);
+
+  const updateEntry = (id: string, body: Record<string, unknown>) =>
+    request(app)
+      .put(`/api/work-entries/${id}`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send(body);
+
+  const createWorkday = async () => {
+    const response = await createEntry({
+      startTime: at('09:00'),
+      endTime: at('17:30'),
+      description: 'Workday',
+      breaks: [lunch],
+    }).expect(201);
+    return response.body.data;
+  };
+
+  describe('POST /api/work-entries', () => {
+    it('should report gross and net duration', async () => {
+      const entry = await createWorkday();
+
+      expect(entry.duration).toBe(8);
+      expect(entry.grossDuration).toBe(8.5);
+      expect(entry.breaks).toEqual([lunch]);
+    });
+
+    it('should reject breaks outside the entry or overlapping each other', async () => {
+      const outside = await createEntry({
+        startTime: at('09:00'),
+        endTime: at('12:00'),
+        description: 'Morning',
+        breaks: [lunch],
+      });
+      expect(outside.status).toBe(400);
+
+      const overlapping = await createEntry({
+        startTime: at('09:00'),
+        endTime: at('17:30'),
+        description: 'Workday',
+        breaks: [lunch, { startTime: at('12:15'), endTime: at('12:45') }],
+      });
+      expect(overlapping.status).toBe(400);
+    });
+
+    it('should apply the duration limits to net time', async () => {
+      const tooShort = await createEntry({
+        startTime: at('09:00'),
+        endTime: at('09:20'),
+        description: 'Quick call',
+        breaks: [{ startTime: at('09:05'), endTime: at('09:15') }],
+      });
+      expect(tooShort.status).toBe(400);
+
+      // 25 hours with a 2-hour break is 23 hours of work
+      const longShift = await createEntry({
+        startTime: `${getRecentDay(3)}T00:00:00.000Z`,
+        endTime: at('01:00'),
+        description: 'On call',
+        breaks: [
+          {
+            startTime: `${getRecentDay(3)}T12:00:00.000Z`,
+            endTime: `${getRecentDay(3)}T14:00:00.000Z`,
+          },
+        ],
+      });
+      expect(longShift.status).toBe(201);
+    });
+  });
+
+  describe('PUT /api/work-entries/:id', () => {
+    it('should check kept breaks against new times', async () => {
+      const entry = await createWorkday();
+
+      const response = await updateEntry(entry.id, { endTime: at('12:15') });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_DURATION');
+    });
+
+    it('should replace the breaks', async () => {
+      const entry = await createWorkday();
+
+      const replaced = await updateEntry(entry.id, {
+        breaks: [
+          { startTime: at('12:00'), endTime: at('13:00') },
+          { startTime: at('15:00'), endTime: at('15:30') },
+        ],
+      });
+      expect(replaced.status).toBe(200);
+      expect(replaced.body.data.duration).toBe(7);
+
+      const removed = await updateEntry(entry.id, { breaks: [] });
+      expect(removed.body.data.duration).toBe(8.5);
+      expect(removed.body.data.breaks).toEqual([]);
+    });
+
+    it('should not add breaks to a running timer', async () => {
+      const timer = await request(app)
+        .post('/api/work-entries/timer/start')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ description: 'Running' })
+        .expect(201);
+
+      const now = new Date();
+      const response = await updateEntry(timer.body.data.id, {
+        breaks: [
+          {
+            startTime: new Date(now.getTime() - 60 * 1000).toISOString(),
+            endTime: now.toISOString(),
+          },
+        ],
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_DURATION');
+    });
+
+    it('should restore the breaks when reverting', async () => {
+      const entry = await createWorkday();
+      await updateEntry(entry.id, { breaks: [] }).expect(200);
+
+      const history = await request(app)
+        .get(`/api/work-entries/${entry.id}/history`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+      const created = history.body.data.find((revision: any) => revision.action === 'create');
+      expect(history.body.data[0].changedFields).toEqual(['breaks']);
+
+      const reverted = await request(app)
+        .post(`/api/work-entries/${entry.id}/revert`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ revisionId: created.id })
+        .expect(200);
+
+      expect(reverted.body.data.breaks).toEqual([lunch]);
+    });
+  });
+
+  describe('Net hours in reports', () => {
+    beforeEach(async () => {
+      await createWorkday();
+      await createEntry({
+        startTime: at('18:00'),
+        endTime: at('18:30'),
+        description: 'Evening',
+      }).expect(201);
+    });
+
+    it('should use net hours in statistics', async () => {
+      const stats = await request(app)
+        .get(`/api/work-entries/stats?startDate=${day}&endDate=${day}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+      expect(stats.body.data.totalHours).toBe(8.5);
+
+      const series = await request(app)
+        .get(`/api/work-entries/stats/series?interval=day&startDate=${day}&endDate=${day}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+      expect(series.body.data.buckets[0].hours).toBe(8.5);
+    });
+
+    it('should sort and filter by net duration', async () => {
+      const response = await request(app)
+        .get('/api/work-entries?sortBy=duration&sortOrder=desc&minDuration=8')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data.map((entry: any) => entry.duration)).toEqual([8]);
+
+      const longer = await request(app)
+        .get('/api/work-entries?minDuration=8.25')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+      expect(longer.body.data).toHaveLength(0);
+    });
+
+    it('should export net hours', async () => {
+      const response = await request(app)
+        .get('/api/work-entries/export?format=csv&sortBy=startTime&sortOrder=asc')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .buffer(true)
+        .parse((res, callback) => {
+          let text = '';
+          res.setEncoding('utf8');
+          res.on('data', (chunk: string) => (text += chunk));
+          res.on('end', () => callback(null, text));
+        })
+        .expect(200);
+
+      const [, ...rows] = parseCsv(response.body).map((record) => record.values);
+      expect(rows.map((row) => row[3])).toEqual(['8', '0.5']);
+    });
+  });
+});
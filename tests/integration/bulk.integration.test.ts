@@ -0,0 +1,307 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { createUserFactory, generateTestEmail } from '../factories/user.factory';
+import { SessionService } from '../../src/services/session.service';
+import { emailVerificationConfig } from '../../src/config/app.config';
+
+const prisma = new PrismaClient();
+
+// Helper function to generate valid recent dates for tests
+const getRecentDate = (daysAgo: number, hour: number = 9, minute: number = 0): string => {
+  const date = new Date();
+  date.setDate(date.getDate() - daysAgo);
+  date.setHours(hour, minute, 0, 0);
+  return date.toISOString();
+};
+
+const createOperation = (startHour: number, endHour: number, description = 'Bulk entry') => ({
+  op: 'create',
+  data: {
+    startTime: getRecentDate(1, startHour),
+    endTime: getRecentDate(1, endHour),
+    description,
+  },
+});
+
+describe('Bulk Work Entry Integration Tests', () => {
+  let userId: string;
+  let accessToken: string;
+
+  beforeEach(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.tag.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    const testUser = await createUserFactory({
+      withHashedPassword: true,
+      override: { email: generateTestEmail('bulk') },
+    });
+
+    const dbUser = await prisma.user.create({
+      data: {
+        email: testUser.email,
+        password: testUser.password,
+        firstName: testUser.firstName,
+        lastName: testUser.lastName,
+        emailVerified: true,
+      },
+    });
+
+    userId = dbUser.id;
+
+    const { tokens } = await SessionService.startSession(dbUser.id, dbUser.email, {
+      ipAddress: null,
+      userAgent: null,
+    });
+    accessToken = tokens.accessToken;
+  });
+
+  afterAll(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.tag.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  const sendBulk = (body: object) =>
+    request(app)
+      .post('/api/work-entries/bulk')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send(body);
+
+  const createEntry = async (startHour: number, endHour: number) =>
+    prisma.workEntry.create({
+      data: {
+        userId,
+        startTime: new Date(getRecentDate(1, startHour)),
+        endTime: new Date(getRecentDate(1, endHour)),
+        description: `Work from ${startHour} to ${endHour}`,
+      },
+    });
+
+  describe('Atomic mode', () => {
+    it('should apply creates, updates and deletes together', async () => {
+      const toUpdate = await createEntry(9, 10);
+      const toDelete = await createEntry(10, 11);
+
+      const response = await sendBulk({
+        operations: [
+          { ...createOperation(13, 14), data: { ...createOperation(13, 14).data, tags: ['bulk'] } },
+          { op: 'update', id: toUpdate.id, data: { description: 'Updated in bulk' } },
+          { op: 'delete', id: toDelete.id },
+        ],
+      }).expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.mode).toBe('atomic');
+      expect(response.body.data.committed).toBe(true);
+      expect(response.body.data.summary).toEqual({
+        total: 3,
+        succeeded: 3,
+        failed: 0,
+        skipped: 0,
+      });
+      expect(response.body.data.results[0]).toMatchObject({
+        index: 0,
+        op: 'create',
+        status: 'succeeded',
+        data: { description: 'Bulk entry', tags: [expect.objectContaining({ name: 'bulk' })] },
+      });
+      expect(response.body.data.results[1]).toMatchObject({
+        index: 1,
+        op: 'update',
+        status: 'succeeded',
+        id: toUpdate.id,
+        data: { description: 'Updated in bulk' },
+      });
+      expect(response.body.data.results[2]).toEqual({
+        index: 2,
+        op: 'delete',
+        status: 'succeeded',
+        id: toDelete.id,
+      });
+
+      expect(await prisma.workEntry.count({ where: { userId, deletedAt: null } })).toBe(2);
+      expect(
+        (await prisma.workEntry.findUnique({ where: { id: toDelete.id } }))?.deletedAt
+      ).toBeInstanceOf(Date);
+    });
+
+    it('should reject the whole batch when an operation is invalid', async () => {
+      const response = await sendBulk({
+        operations: [
+          createOperation(9, 10),
+          { op: 'create', data: { description: 'Missing times' } },
+          { op: 'archive', id: 'whatever' },
+        ],
+      }).expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.data.committed).toBe(false);
+      expect(response.body.data.results).toEqual([
+        { index: 0, op: 'create', status: 'skipped' },
+        {
+          index: 1,
+          op: 'create',
+          status: 'failed',
+          error: { message: 'Invalid input data', errors: expect.any(Array) },
+        },
+        {
+          index: 2,
+          op: null,
+          status: 'failed',
+          error: { message: 'Invalid input data', errors: expect.any(Array) },
+        },
+      ]);
+
+      expect(await prisma.workEntry.count({ where: { userId } })).toBe(0);
+    });
+
+    it('should roll back earlier operations when a later one fails', async () => {
+      const response = await sendBulk({
+        operations: [
+          createOperation(9, 10),
+          { op: 'delete', id: 'cm0000000000000000000000' },
+          createOperation(11, 12),
+        ],
+      }).expect(409);
+
+      expect(response.body.data.committed).toBe(false);
+      expect(response.body.data.summary).toEqual({
+        total: 3,
+        succeeded: 0,
+        failed: 1,
+        skipped: 2,
+      });
+      expect(response.body.data.results[1]).toEqual({
+        index: 1,
+        op: 'delete',
+        status: 'failed',
+        id: 'cm0000000000000000000000',
+        error: { message: 'Work entry not found', code: 'WORK_ENTRY_NOT_FOUND' },
+      });
+
+      expect(await prisma.workEntry.count({ where: { userId } })).toBe(0);
+    });
+
+    it('should detect overlaps between operations in the same batch', async () => {
+      const response = await sendBulk({
+        operations: [createOperation(9, 12), createOperation(11, 13)],
+      }).expect(409);
+
+      expect(response.body.data.results[1]).toMatchObject({
+        index: 1,
+        status: 'failed',
+        error: { code: 'WORK_ENTRY_OVERLAP' },
+      });
+      expect(await prisma.workEntry.count({ where: { userId } })).toBe(0);
+    });
+
+    it('should not keep tags created by a rolled back batch', async () => {
+      await sendBulk({
+        operations: [
+          { ...createOperation(9, 10), data: { ...createOperation(9, 10).data, tags: ['temp'] } },
+          { op: 'delete', id: 'cm0000000000000000000000' },
+        ],
+      }).expect(409);
+
+      expect(await prisma.tag.count({ where: { userId } })).toBe(0);
+    });
+  });
+
+  describe('Best-effort mode', () => {
+    it('should apply valid operations and report failures by index', async () => {
+      await createEntry(9, 12);
+
+      const response = await sendBulk({
+        mode: 'best-effort',
+        operations: [
+          createOperation(13, 14),
+          createOperation(10, 11),
+          { op: 'update', id: 'cm0000000000000000000000', data: { description: 'Nothing' } },
+          { op: 'create', data: { description: 'Missing times' } },
+        ],
+      }).expect(200);
+
+      expect(response.body.data.committed).toBe(true);
+      expect(response.body.data.summary).toEqual({
+        total: 4,
+        succeeded: 1,
+        failed: 3,
+        skipped: 0,
+      });
+      expect(response.body.data.results.map((result: any) => result.status)).toEqual([
+        'succeeded',
+        'failed',
+        'failed',
+        'failed',
+      ]);
+      expect(response.body.data.results[1].error.code).toBe('WORK_ENTRY_OVERLAP');
+      expect(response.body.data.results[2].error.code).toBe('WORK_ENTRY_NOT_FOUND');
+      expect(response.body.data.results[3].error.errors).toEqual(expect.any(Array));
+
+      expect(await prisma.workEntry.count({ where: { userId } })).toBe(2);
+    });
+
+    it('should apply the overlap policy from the query', async () => {
+      await createEntry(9, 12);
+
+      const response = await request(app)
+        .post('/api/work-entries/bulk')
+        .query({ overlap: 'trim' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ mode: 'best-effort', operations: [createOperation(11, 14)] })
+        .expect(200);
+
+      expect(response.body.data.results[0].data.startTime).toBe(getRecentDate(1, 12));
+    });
+  });
+
+  describe('Request validation', () => {
+    it('should reject an empty batch', async () => {
+      await sendBulk({ operations: [] }).expect(400);
+    });
+
+    it('should reject batches above the operation limit', async () => {
+      const operations = Array.from({ length: 501 }, () => ({
+        op: 'delete',
+        id: 'cm0000000000000000000000',
+      }));
+
+      await sendBulk({ operations }).expect(400);
+    });
+
+    it('should reject an unknown mode', async () => {
+      await sendBulk({ mode: 'eventual', operations: [createOperation(9, 10)] }).expect(400);
+    });
+
+    it('should require authentication', async () => {
+      await request(app)
+        .post('/api/work-entries/bulk')
+        .send({ operations: [createOperation(9, 10)] })
+        .expect(401);
+    });
+  });
+
+  describe('Unverified accounts', () => {
+    it('should count every create in the batch against the unverified limit', async () => {
+      await prisma.user.update({ where: { id: userId }, data: { emailVerified: false } });
+
+      const limit = emailVerificationConfig.unverifiedWorkEntryLimit;
+      const operations = Array.from({ length: limit + 1 }, (_, index) => ({
+        op: 'create',
+        data: {
+          startTime: getRecentDate(index + 1, 9),
+          endTime: getRecentDate(index + 1, 10),
+          description: `Entry ${index + 1}`,
+        },
+      }));
+
+      const response = await sendBulk({ operations }).expect(403);
+
+      expect(response.body.code).toBe('EMAIL_VERIFICATION_REQUIRED');
+      expect(await prisma.workEntry.count({ where: { userId } })).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { generateTestEmail } from '../factories/user.factory';
+import { mailService } from '../../src/services/mail.service';
+import { emailVerificationConfig } from '../../src/config/app.config';
+import type { MailTransport, OutgoingMail } from '../../src/types/mail.types';
+
+const prisma = new PrismaClient();
+
+const getRecentDate = (daysAgo: number, hour: number): Date => {
+  const date = new Date();
+  date.setDate(date.getDate() - daysAgo);
+  date.setHours(hour, 0, 0, 0);
+  return date;
+};
+
+/**
+ * Captures outgoing mail in memory so tests can read the verification link
+ */
+class CapturingMailTransport implements MailTransport {
+  sent: OutgoingMail[] = [];
+
+  async send(mail: OutgoingMail): Promise<void> {
+    this.sent.push(mail);
+  }
+}
+
+function extractVerificationToken(mail: OutgoingMail | undefined): string {
+  const match = mail?.text.match(/token=([a-f0-9]+)/);
+  if (!match?.[1]) {
+    throw new Error('No verification token found in email');
+  }
+  return match[1];
+}
+
+describe('Email Verification Integration Tests', () => {
+  let transport: CapturingMailTransport;
+  let accessToken: string;
+  let userId: string;
+  let email: string;
+
+  beforeEach(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    transport = new CapturingMailTransport();
+    mailService.setTransport(transport);
+
+    email = generateTestEmail('verify');
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({
+        email,
+        password: 'Verify#Passphrase2025!',
+        firstName: 'Verify',
+        lastName: 'User',
+      })
+      .expect(201);
+
+    accessToken = response.body.data.tokens.accessToken;
+    userId = response.body.data.user.id;
+  });
+
+  afterAll(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  describe('POST /api/auth/register', () => {
+    it('should create an unverified user and send a verification email', async () => {
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+
+      expect(user?.emailVerified).toBe(false);
+      expect(transport.sent).toHaveLength(1);
+      expect(transport.sent[0]?.to).toBe(email);
+    });
+  });
+
+  describe('POST /api/auth/verify-email', () => {
+    it('should verify the email address once', async () => {
+      const token = extractVerificationToken(transport.sent[0]);
+
+      const response = await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token })
+        .expect(200);
+
+      expect(response.body.data.user.emailVerified).toBe(true);
+
+      const replay = await request(app).post('/api/auth/verify-email').send({ token }).expect(400);
+      expect(replay.body.code).toBe('INVALID_VERIFICATION_TOKEN');
+    });
+
+    it('should reject an expired verification token', async () => {
+      const token = extractVerificationToken(transport.sent[0]);
+
+      await prisma.emailVerificationToken.updateMany({
+        where: { userId },
+        data: { expiresAt: new Date(Date.now() - 1000) },
+      });
+
+      const response = await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token })
+        .expect(400);
+
+      expect(response.body.code).toBe('INVALID_VERIFICATION_TOKEN');
+    });
+  });
+
+  describe('POST /api/auth/resend-verification', () => {
+    it('should send a new link and invalidate the previous one', async () => {
+      const firstToken = extractVerificationToken(transport.sent[0]);
+
+      await request(app)
+        .post('/api/auth/resend-verification')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(transport.sent).toHaveLength(2);
+
+      await request(app).post('/api/auth/verify-email').send({ token: firstToken }).expect(400);
+
+      const secondToken = extractVerificationToken(transport.sent[1]);
+      await request(app).post('/api/auth/verify-email').send({ token: secondToken }).expect(200);
+    });
+
+    it('should reject resending for an already verified user', async () => {
+      await prisma.user.update({ where: { id: userId }, data: { emailVerified: true } });
+
+      const response = await request(app)
+        .post('/api/auth/resend-verification')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(409);
+
+      expect(response.body.code).toBe('EMAIL_ALREADY_VERIFIED');
+    });
+  });
+
+  describe('Unverified work entry limit', () => {
+    const limit = emailVerificationConfig.unverifiedWorkEntryLimit;
+
+    const seedEntries = async (count: number) => {
+      await prisma.workEntry.createMany({
+        data: Array.from({ length: count }, (_, index) => ({
+          userId,
+          startTime: getRecentDate(index + 2, 9),
+          endTime: getRecentDate(index + 2, 17),
+          description: `Seeded entry ${index + 1}`,
+        })),
+      });
+    };
+
+    const newEntry = {
+      startTime: getRecentDate(1, 9).toISOString(),
+      endTime: getRecentDate(1, 17).toISOString(),
+      description: 'Work after reaching the limit',
+    };
+
+    it('should block creating entries past the limit until the email is verified', async () => {
+      await seedEntries(limit);
+
+      const blocked = await request(app)
+        .post('/api/work-entries')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send(newEntry)
+        .expect(403);
+
+      expect(blocked.body.code).toBe('EMAIL_VERIFICATION_REQUIRED');
+
+      const token = extractVerificationToken(transport.sent[0]);
+      await request(app).post('/api/auth/verify-email').send({ token }).expect(200);
+
+      await request(app)
+        .post('/api/work-entries')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send(newEntry)
+        .expect(201);
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { createUserFactory, generateTestEmail } from '../factories/user.factory';
+import { getRecentDay } from '../factories/work-entry.factory';
+import { SessionService } from '../../src/services/session.service';
+import { workEntryService } from '../../src/services/work-entry.service';
+import { parseCsv } from '../../src/utils/csv.utils';
+import { workEntryFiltersSchema } from '../../src/utils/work-entry-validation.utils';
+
+const prisma = new PrismaClient();
+
+describe('Work Entry Export Integration Tests', () => {
+  let userId: string;
+  let accessToken: string;
+
+  beforeEach(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.tag.deleteMany({});
+    await prisma.project.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    const testUser = await createUserFactory({
+      withHashedPassword: true,
+      override: { email: generateTestEmail('export') },
+    });
+
+    const dbUser = await prisma.user.create({
+      data: {
+        email: testUser.email,
+        password: testUser.password,
+        firstName: testUser.firstName,
+        lastName: testUser.lastName,
+        emailVerified: true,
+      },
+    });
+
+    userId = dbUser.id;
+
+    const { tokens } = await SessionService.startSession(dbUser.id, dbUser.email, {
+      ipAddress: null,
+      userAgent: null,
+    });
+    accessToken = tokens.accessToken;
+  });
+
+  afterAll(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.tag.deleteMany({});
+    await prisma.project.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  const exportEntries = (query: string) =>
+    request(app)
+      .get(`/api/work-entries/export?${query}`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .buffer(true)
+      .parse((res, callback) => {
+        let text = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => (text += chunk));
+        res.on('end', () => callback(null, text));
+      });
+
+  const createEntry = (day: string, from: string, to: string, description: string) =>
+    prisma.workEntry.create({
+      data: {
+        userId,
+        startTime: new Date(`${day}T${from}:00.000Z`),
+        endTime: new Date(`${day}T${to}:00.000Z`),
+        description,
+      },
+    });
+
+  it('should export CSV with durations as an attachment', async () => {
+    const day = getRecentDay(2);
+    await createEntry(day, '09:00', '10:30', 'Planning, part 1');
+    await createEntry(day, '11:00', '11:30', '=HYPERLINK("x")');
+
+    const response = await exportEntries('format=csv').expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^text\/csv/);
+    expect(response.headers['content-disposition']).toMatch(
+      /^attachment; filename="work-entries-\d{4}-\d{2}-\d{2}\.csv"$/
+    );
+
+    const [header, ...rows] = parseCsv(response.body).map((record) => record.values);
+    expect(header).toEqual([
+      'id',
+      'startTime',
+      'endTime',
+      'duration',
+      'isRunning',
+      'description',
+      'projectId',
+      'project',
+      'client',
+      'tags',
+      'createdAt',
+      'updatedAt',
+    ]);
+    // Newest first, as in the listing
+    expect(rows.map((row) => [row[3], row[5]])).toEqual([
+      ['0.5', '\'=HYPERLINK("x")'],
+      ['1.5', 'Planning, part 1'],
+    ]);
+  });
+
+  it('should export JSON Lines matching the listing format', async () => {
+    const day = getRecentDay(2);
+    await createEntry(day, '09:00', '10:00', 'First');
+    await createEntry(day, '10:00', '12:00', 'Second');
+
+    const response = await exportEntries('format=jsonl&sortBy=startTime&sortOrder=asc').expect(200);
+    const listing = await request(app)
+      .get('/api/work-entries?sortBy=startTime&sortOrder=asc')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^application\/x-ndjson/);
+    const lines = response.body.trim().split('\n');
+    expect(lines.map((line: string) => JSON.parse(line))).toEqual(listing.body.data);
+  });
+
+  it('should export an iCalendar file with one event per entry', async () => {
+    const day = getRecentDay(2);
+    const entry = await createEntry(day, '09:00', '10:00', 'Standup');
+
+    const response = await exportEntries('format=ics').expect(200);
+
+    expect(response.headers['content-type']).toMatch(/^text\/calendar/);
+    expect(response.body.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(response.body.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(response.body).toContain(`UID:${entry.id}@work-tracker`);
+    expect(response.body).toContain(`DTSTART:${day.replace(/-/g, '')}T090000Z`);
+    expect(response.body).toContain('SUMMARY:Standup');
+  });
+
+  it('should honour the date range filter and only export the user’s own entries', async () => {
+    await createEntry(getRecentDay(5), '09:00', '10:00', 'Too early');
+    await createEntry(getRecentDay(2), '09:00', '10:00', 'In range');
+
+    const otherUser = await prisma.user.create({
+      data: {
+        email: generateTestEmail('export-other'),
+        password: 'hashed',
+        firstName: 'Other',
+        lastName: 'User',
+      },
+    });
+    await prisma.workEntry.create({
+      data: {
+        userId: otherUser.id,
+        startTime: new Date(`${getRecentDay(2)}T13:00:00.000Z`),
+        endTime: new Date(`${getRecentDay(2)}T14:00:00.000Z`),
+        description: 'Not mine',
+      },
+    });
+
+    const response = await exportEntries(
+      `format=jsonl&startDate=${getRecentDay(3)}&endDate=${getRecentDay(1)}`
+    ).expect(200);
+
+    const descriptions = response.body
+      .trim()
+      .split('\n')
+      .map((line: string) => JSON.parse(line).description);
+    expect(descriptions).toEqual(['In range']);
+  });
+
+  it('should export more entries than fit in one batch', async () => {
+    const day = getRecentDay(10);
+    await prisma.workEntry.createMany({
+      data: Array.from({ length: 520 }, (_, i) => ({
+        userId,
+        startTime: new Date(new Date(`${day}T00:00:00.000Z`).getTime() + i * 60 * 1000),
+        endTime: new Date(new Date(`${day}T00:00:00.000Z`).getTime() + (i + 1) * 60 * 1000),
+        description: `Entry ${i}`,
+      })),
+    });
+
+    const response = await exportEntries('format=jsonl').expect(200);
+
+    const ids = response.body
+      .trim()
+      .split('\n')
+      .map((line: string) => JSON.parse(line).id);
+    expect(ids).toHaveLength(520);
+    expect(new Set(ids).size).toBe(520);
+  });
+
+  it('should stream entries in the listing order when sorting by a nullable column', async () => {
+    const day = getRecentDay(4);
+    await createEntry(day, '09:00', '10:00', 'First');
+    await createEntry(day, '10:00', '11:00', 'Second');
+    await createEntry(day, '11:00', '12:00', 'Third');
+    await prisma.workEntry.create({
+      data: { userId, startTime: new Date(), endTime: null, description: 'Running' },
+    });
+
+    for (const sortOrder of ['asc', 'desc'] as const) {
+      const listing = await request(app)
+        .get(`/api/work-entries?sortBy=endTime&sortOrder=${sortOrder}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      // Small batches so the running timer falls on a batch boundary
+      const streamed: string[] = [];
+      for await (const batch of workEntryService.streamWorkEntries(
+        userId,
+        workEntryFiltersSchema.parse({ sortBy: 'endTime', sortOrder }),
+        2
+      )) {
+        streamed.push(...batch.map((entry) => entry.id));
+      }
+
+      expect(streamed).toHaveLength(4);
+      expect(streamed).toEqual(listing.body.data.map((entry: any) => entry.id));
+    }
+  });
+
+  it('should return an empty file with only the header when there are no entries', async () => {
+    const response = await exportEntries('format=csv').expect(200);
+
+    expect(parseCsv(response.body)).toHaveLength(1);
+  });
+
+  it('should reject an unknown format', async () => {
+    const response = await request(app)
+      .get('/api/work-entries/export?format=xlsx')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(400);
+
+    expect(response.body.success).toBe(false);
+  });
+
+  it('should require authentication', async () => {
+    await request(app).get('/api/work-entries/export').expect(401);
+  });
+});
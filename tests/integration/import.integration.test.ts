@@ -0,0 +1,329 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { createUserFactory, generateTestEmail } from '../factories/user.factory';
+import { getRecentDay } from '../factories/work-entry.factory';
+import { SessionService } from '../../src/services/session.service';
+
+const prisma = new PrismaClient();
+
+const csvOf = (...lines: string[]) => lines.join('\n');
+
+describe('CSV Import Integration Tests', () => {
+  let userId: string;
+  let accessToken: string;
+
+  beforeEach(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.tag.deleteMany({});
+    await prisma.project.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    const testUser = await createUserFactory({
+      withHashedPassword: true,
+      override: { email: generateTestEmail('import') },
+    });
+
+    const dbUser = await prisma.user.create({
+      data: {
+        email: testUser.email,
+        password: testUser.password,
+        firstName: testUser.firstName,
+        lastName: testUser.lastName,
+        emailVerified: true,
+      },
+    });
+
+    userId = dbUser.id;
+
+    const { tokens } = await SessionService.startSession(dbUser.id, dbUser.email, {
+      ipAddress: null,
+      userAgent: null,
+    });
+    accessToken = tokens.accessToken;
+  });
+
+  afterAll(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.tag.deleteMany({});
+    await prisma.project.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  const importCsv = (body: object) =>
+    request(app)
+      .post('/api/work-entries/import/csv')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send(body);
+
+  const startEndMapping = { startTime: 'Start', endTime: 'End', description: 'Description' };
+
+  describe('Dry run', () => {
+    it('should preview rows in the source time zone without importing them', async () => {
+      const day = getRecentDay(3);
+
+      const response = await importCsv({
+        csv: csvOf('Start,End,Description', `${day} 09:00,${day} 11:30,Planning`),
+        mapping: startEndMapping,
+        timezone: 'Asia/Tokyo',
+      }).expect(200);
+
+      expect(response.body.data.dryRun).toBe(true);
+      expect(response.body.data.summary).toEqual({
+        totalRows: 1,
+        validRows: 1,
+        invalidRows: 0,
+        duplicateRows: 0,
+        conflictingRows: 0,
+      });
+      expect(response.body.data.rows).toEqual([
+        {
+          line: 2,
+          status: 'valid',
+          entry: {
+            // Tokyo is UTC+9 all year
+            startTime: `${day}T00:00:00.000Z`,
+            endTime: `${day}T02:30:00.000Z`,
+            description: 'Planning',
+            projectId: null,
+            tags: [],
+          },
+        },
+      ]);
+      expect(response.body.data.result).toBeUndefined();
+      expect(await prisma.workEntry.count({ where: { userId } })).toBe(0);
+    });
+
+    it('should combine a date column with times of day and place date-and-hours rows back to back', async () => {
+      const day = getRecentDay(2);
+
+      const timesOfDay = await importCsv({
+        csv: csvOf('Date,From,To,Task', `${day},22:00,01:00,Night shift`),
+        mapping: { date: 'Date', startTime: 'From', endTime: 'To', description: 'Task' },
+      }).expect(200);
+
+      // An end time earlier than the start runs past midnight
+      expect(timesOfDay.body.data.rows[0].entry.startTime).toBe(`${day}T22:00:00.000Z`);
+      expect(timesOfDay.body.data.rows[0].entry.endTime).toBe(`${getRecentDay(1)}T01:00:00.000Z`);
+
+      const dateAndHours = await importCsv({
+        csv: csvOf('Date,Hours,Task', `${day},1.5,Emails`, `${day},2:15,Coding`),
+        mapping: { date: 'Date', hours: 'Hours', description: 'Task' },
+        dayStartTime: '08:00',
+      }).expect(200);
+
+      expect(dateAndHours.body.data.rows.map((row: any) => row.entry)).toEqual([
+        expect.objectContaining({
+          startTime: `${day}T08:00:00.000Z`,
+          endTime: `${day}T09:30:00.000Z`,
+        }),
+        expect.objectContaining({
+          startTime: `${day}T09:30:00.000Z`,
+          endTime: `${day}T11:45:00.000Z`,
+        }),
+      ]);
+    });
+
+    it('should report validation errors by line', async () => {
+      const day = getRecentDay(2);
+
+      const response = await importCsv({
+        csv: csvOf(
+          'Start,End,Description,Project',
+          `${day} 09:00,${day} 10:00,Valid row,`,
+          `soon,${day} 10:00,Bad start,`,
+          `${day} 11:00,${day} 11:05,Too short,`,
+          `${day} 12:00,${day} 13:00,Unknown project,Moonshot`
+        ),
+        mapping: { ...startEndMapping, project: 'Project' },
+      }).expect(200);
+
+      expect(response.body.data.summary.invalidRows).toBe(3);
+      expect(response.body.data.rows.map((row: any) => [row.line, row.status])).toEqual([
+        [2, 'valid'],
+        [3, 'invalid'],
+        [4, 'invalid'],
+        [5, 'invalid'],
+      ]);
+      expect(response.body.data.rows[1].errors).toEqual([
+        { field: 'startTime', message: 'Unrecognised start time "soon"' },
+      ]);
+      expect(response.body.data.rows[2].errors).toEqual([
+        { field: null, message: 'Work entry duration must be at least 15 minutes' },
+      ]);
+      expect(response.body.data.rows[3].errors).toEqual([
+        { field: 'project', message: 'Project "Moonshot" not found or archived' },
+      ]);
+    });
+
+    it('should flag duplicates of existing entries and of earlier rows', async () => {
+      const day = getRecentDay(2);
+      const existing = await prisma.workEntry.create({
+        data: {
+          userId,
+          startTime: new Date(`${day}T09:00:00.000Z`),
+          endTime: new Date(`${day}T10:00:00.000Z`),
+          description: 'Already tracked',
+        },
+      });
+
+      const response = await importCsv({
+        csv: csvOf(
+          'Start,End,Description',
+          `${day} 09:00,${day} 10:00,Same as existing`,
+          `${day} 13:00,${day} 14:00,First copy`,
+          `${day} 13:00,${day} 14:00,Second copy`,
+          `${day} 09:30,${day} 11:00,Overlaps existing`
+        ),
+        mapping: startEndMapping,
+      }).expect(200);
+
+      const rows = response.body.data.rows;
+      expect(rows[0]).toMatchObject({ status: 'duplicate', duplicateOf: { entryId: existing.id } });
+      expect(rows[1].status).toBe('valid');
+      expect(rows[2]).toMatchObject({ status: 'duplicate', duplicateOf: { line: 3 } });
+      expect(rows[3]).toMatchObject({
+        status: 'valid',
+        conflicts: [expect.objectContaining({ id: existing.id })],
+      });
+      expect(response.body.data.summary).toMatchObject({ duplicateRows: 2, conflictingRows: 1 });
+    });
+  });
+
+  describe('Import', () => {
+    it('should import valid rows with projects and tags, skipping duplicates', async () => {
+      const day = getRecentDay(2);
+      const project = await prisma.project.create({ data: { userId, name: 'Website' } });
+
+      const response = await importCsv({
+        csv: csvOf(
+          'Start;End;Description;Project;Tags',
+          `${day} 09:00;${day} 10:00;Landing page;website;design, frontend`,
+          `${day} 10:00;${day} 12:00;Review;;`,
+          `${day} 10:00;${day} 12:00;Review again;;`
+        ),
+        delimiter: ';',
+        mapping: { ...startEndMapping, project: 'Project', tags: 'Tags' },
+        dryRun: false,
+      }).expect(200);
+
+      expect(response.body.data.dryRun).toBe(false);
+      expect(response.body.data.result.summary).toEqual({
+        total: 2,
+        succeeded: 2,
+        failed: 0,
+        skipped: 0,
+      });
+      // Results are keyed by line
+      expect(response.body.data.result.results.map((result: any) => result.index)).toEqual([2, 3]);
+
+      const entries = await prisma.workEntry.findMany({
+        where: { userId },
+        include: { tags: { include: { tag: true } } },
+        orderBy: { startTime: 'asc' },
+      });
+      expect(entries).toHaveLength(2);
+      expect(entries[0]!.projectId).toBe(project.id);
+      expect(entries[0]!.tags.map((entryTag) => entryTag.tag.name).sort()).toEqual([
+        'design',
+        'frontend',
+      ]);
+    });
+
+    it('should import nothing in atomic mode when a row is invalid', async () => {
+      const day = getRecentDay(2);
+
+      const response = await importCsv({
+        csv: csvOf(
+          'Start,End,Description',
+          `${day} 09:00,${day} 10:00,Fine`,
+          `${day} 11:00,${day} 10:00,Backwards`
+        ),
+        mapping: startEndMapping,
+        dryRun: false,
+      }).expect(400);
+
+      expect(response.body.data.summary.invalidRows).toBe(1);
+      expect(await prisma.workEntry.count({ where: { userId } })).toBe(0);
+    });
+
+    it('should import the valid rows in best-effort mode', async () => {
+      const day = getRecentDay(2);
+
+      const response = await importCsv({
+        csv: csvOf(
+          'Start,End,Description',
+          `${day} 09:00,${day} 10:00,Fine`,
+          `${day} 11:00,${day} 10:00,Backwards`
+        ),
+        mapping: startEndMapping,
+        dryRun: false,
+        mode: 'best-effort',
+      }).expect(200);
+
+      expect(response.body.data.result.summary.succeeded).toBe(1);
+      expect(await prisma.workEntry.count({ where: { userId } })).toBe(1);
+    });
+
+    it('should accept timestamps older than 2 years only with minDate', async () => {
+      const body = {
+        csv: csvOf('Start,End,Description', '2020-01-06T09:00:00Z,2020-01-06T17:00:00Z,Old work'),
+        mapping: startEndMapping,
+        dryRun: false,
+      };
+
+      await importCsv(body).expect(400);
+      await importCsv({ ...body, minDate: '2019-01-01' }).expect(200);
+
+      expect(await prisma.workEntry.count({ where: { userId } })).toBe(1);
+    });
+
+    it('should accept files without a header row when columns are mapped by position', async () => {
+      const day = getRecentDay(2);
+
+      const response = await importCsv({
+        csv: csvOf(`Standup,${day} 09:00,${day} 09:15`),
+        hasHeader: false,
+        mapping: { description: 0, startTime: 1, endTime: 2 },
+      }).expect(200);
+
+      expect(response.body.data.rows[0]).toMatchObject({ line: 1, status: 'valid' });
+    });
+  });
+
+  describe('Request validation', () => {
+    it('should reject a mapping to a column that does not exist', async () => {
+      const response = await importCsv({
+        csv: csvOf('Start,End,Notes', '2025-01-01 09:00,2025-01-01 10:00,x'),
+        mapping: startEndMapping,
+      }).expect(400);
+
+      expect(response.body.code).toBe('INVALID_MAPPING');
+    });
+
+    it('should require either start and end, or date and hours', async () => {
+      await importCsv({
+        csv: csvOf('Start,Description', '2025-01-01 09:00,x'),
+        mapping: { startTime: 'Start', description: 'Description' },
+      }).expect(400);
+    });
+
+    it('should reject an unknown time zone', async () => {
+      await importCsv({
+        csv: csvOf('Start,End,Description', '2025-01-01 09:00,2025-01-01 10:00,x'),
+        mapping: startEndMapping,
+        timezone: 'Europe/Atlantis',
+      }).expect(400);
+    });
+
+    it('should reject malformed CSV', async () => {
+      const response = await importCsv({
+        csv: csvOf('Start,End,Description', '2025-01-01 09:00,2025-01-01 10:00,"unterminated'),
+        mapping: startEndMapping,
+      }).expect(400);
+
+      expect(response.body.code).toBe('INVALID_CSV');
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { createUserFactory, generateTestEmail } from '../factories/user.factory';
+import { SessionService } from '../../src/services/session.service';
+import { generateTotp, generateTotpForStep, getTimeStep } from '../../src/utils/totp.utils';
+
+const prisma = new PrismaClient();
+
+describe('Two-Factor Authentication Integration Tests', () => {
+  const password = 'SecurePassword123!';
+  let userId: string;
+  let email: string;
+  let accessToken: string;
+
+  /**
+   * Run the full enrollment flow and return the secret and recovery codes
+   */
+  const enrollMfa = async (): Promise<{ secret: string; recoveryCodes: string[] }> => {
+    const setup = await request(app)
+      .post('/api/auth/mfa/setup')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+
+    const { secret } = setup.body.data;
+
+    const enable = await request(app)
+      .post('/api/auth/mfa/enable')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ code: generateTotp(secret) })
+      .expect(200);
+
+    return { secret, recoveryCodes: enable.body.data.recoveryCodes };
+  };
+
+  const loginForChallenge = async (): Promise<string> => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password })
+      .expect(200);
+
+    expect(response.body.data.mfaRequired).toBe(true);
+    expect(response.body.data.tokens).toBeUndefined();
+
+    return response.body.data.challengeToken;
+  };
+
+  beforeEach(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    const testUser = await createUserFactory({
+      withHashedPassword: true,
+      override: { email: generateTestEmail('mfa'), password },
+    });
+
+    const dbUser = await prisma.user.create({
+      data: {
+        email: testUser.email,
+        password: testUser.password,
+        firstName: testUser.firstName,
+        lastName: testUser.lastName,
+      },
+    });
+
+    userId = dbUser.id;
+    email = dbUser.email;
+
+    const { tokens } = await SessionService.startSession(userId, email, {
+      ipAddress: null,
+      userAgent: null,
+    });
+    accessToken = tokens.accessToken;
+  });
+
+  afterAll(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  describe('Enrollment', () => {
+    it('should return a secret and otpauth URI and keep MFA off until confirmed', async () => {
+      const response = await request(app)
+        .post('/api/auth/mfa/setup')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data.secret).toMatch(/^[A-Z2-7]+$/);
+      expect(response.body.data.otpauthUri).toContain(`secret=${response.body.data.secret}`);
+
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      expect(user?.mfaEnabled).toBe(false);
+      expect(user?.mfaSecret).not.toBe(response.body.data.secret);
+    });
+
+    it('should reject an invalid confirmation code', async () => {
+      await request(app)
+        .post('/api/auth/mfa/setup')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const response = await request(app)
+        .post('/api/auth/mfa/enable')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ code: '000000' })
+        .expect(400);
+
+      expect(response.body.code).toBe('INVALID_MFA_CODE');
+    });
+
+    it('should enable MFA and return recovery codes', async () => {
+      const { recoveryCodes } = await enrollMfa();
+
+      expect(recoveryCodes).toHaveLength(10);
+
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      expect(user?.mfaEnabled).toBe(true);
+    });
+  });
+
+  describe('Two-step login', () => {
+    it('should issue tokens after a valid authenticator code', async () => {
+      const { secret } = await enrollMfa();
+      const challengeToken = await loginForChallenge();
+
+      // The enrollment code was already used for this time step, so use the next one
+      const code = generateTotpForStep(secret, getTimeStep() + 1);
+
+      const response = await request(app)
+        .post('/api/auth/mfa/verify')
+        .send({ challengeToken, code })
+        .expect(200);
+
+      expect(response.body.data.tokens.accessToken).toBeTruthy();
+      expect(response.body.data.user.mfaEnabled).toBe(true);
+    });
+
+    it('should not accept the same code twice', async () => {
+      const { secret } = await enrollMfa();
+      const challengeToken = await loginForChallenge();
+      const code = generateTotpForStep(secret, getTimeStep() + 1);
+
+      await request(app).post('/api/auth/mfa/verify').send({ challengeToken, code }).expect(200);
+
+      const replay = await request(app)
+        .post('/api/auth/mfa/verify')
+        .send({ challengeToken, code })
+        .expect(401);
+
+      expect(replay.body.code).toBe('INVALID_MFA_CODE');
+    });
+
+    it('should accept each recovery code only once', async () => {
+      const { recoveryCodes } = await enrollMfa();
+      const challengeToken = await loginForChallenge();
+
+      await request(app)
+        .post('/api/auth/mfa/verify')
+        .send({ challengeToken, recoveryCode: recoveryCodes[0] })
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/mfa/verify')
+        .send({ challengeToken, recoveryCode: recoveryCodes[0] })
+        .expect(401);
+    });
+
+    it('should not accept a challenge token as an access token', async () => {
+      await enrollMfa();
+      const challengeToken = await loginForChallenge();
+
+      await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${challengeToken}`)
+        .expect(401);
+    });
+  });
+
+  describe('Managing MFA', () => {
+    it('should require the current password to disable MFA', async () => {
+      await enrollMfa();
+
+      const rejected = await request(app)
+        .post('/api/auth/mfa/disable')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: 'WrongPassword123!' })
+        .expect(400);
+
+      expect(rejected.body.code).toBe('INVALID_CURRENT_PASSWORD');
+
+      await request(app)
+        .post('/api/auth/mfa/disable')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password })
+        .expect(200);
+
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email, password })
+        .expect(200);
+
+      expect(login.body.data.tokens.accessToken).toBeTruthy();
+      expect(await prisma.mfaRecoveryCode.count({ where: { userId } })).toBe(0);
+    });
+
+    it('should replace recovery codes when regenerated', async () => {
+      const { recoveryCodes } = await enrollMfa();
+
+      const response = await request(app)
+        .post('/api/auth/mfa/recovery-codes')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password })
+        .expect(200);
+
+      expect(response.body.data.recoveryCodes).not.toContain(recoveryCodes[0]);
+
+      const challengeToken = await loginForChallenge();
+      await request(app)
+        .post('/api/auth/mfa/verify')
+        .send({ challengeToken, recoveryCode: recoveryCodes[0] })
+        .expect(401);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { createUserFactory, generateTestEmail } from '../factories/user.factory';
+import { SessionService } from '../../src/services/session.service';
+
+const prisma = new PrismaClient();
+
+// Helper function to generate valid recent dates for tests
+const getRecentDate = (daysAgo: number, hour: number = 9, minute: number = 0): string => {
+  const date = new Date();
+  date.setDate(date.getDate() - daysAgo);
+  date.setHours(hour, minute, 0, 0);
+  return date.toISOString();
+};
+
+describe('Work Entry Overlap Integration Tests', () => {
+  let userId: string;
+  let accessToken: string;
+
+  beforeEach(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    const testUser = await createUserFactory({
+      withHashedPassword: true,
+      override: { email: generateTestEmail('overlap') },
+    });
+
+    const dbUser = await prisma.user.create({
+      data: {
+        email: testUser.email,
+        password: testUser.password,
+        firstName: testUser.firstName,
+        lastName: testUser.lastName,
+        emailVerified: true,
+      },
+    });
+
+    userId = dbUser.id;
+
+    const { tokens } = await SessionService.startSession(dbUser.id, dbUser.email, {
+      ipAddress: null,
+      userAgent: null,
+    });
+    accessToken = tokens.accessToken;
+  });
+
+  afterAll(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  const createEntry = (startHour: number, endHour: number, overlap?: string) =>
+    request(app)
+      .post('/api/work-entries')
+      .query(overlap ? { overlap } : {})
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({
+        startTime: getRecentDate(1, startHour),
+        endTime: getRecentDate(1, endHour),
+        description: `Work from ${startHour} to ${endHour}`,
+      });
+
+  describe('Creating overlapping entries', () => {
+    it('should reject overlaps by default and list the conflicting entries', async () => {
+      const existing = await createEntry(9, 12).expect(201);
+
+      const response = await createEntry(11, 13);
+
+      expect(response.status).toBe(409);
+      expect(response.body).toEqual({
+        success: false,
+        message: 'Work entry overlaps existing entries',
+        code: 'WORK_ENTRY_OVERLAP',
+        conflicts: [
+          {
+            id: existing.body.data.id,
+            startTime: getRecentDate(1, 9),
+            endTime: getRecentDate(1, 12),
+            description: 'Work from 9 to 12',
+          },
+        ],
+      });
+    });
+
+    it('should allow back-to-back entries', async () => {
+      await createEntry(9, 12).expect(201);
+      await createEntry(12, 13).expect(201);
+    });
+
+    it('should store overlapping entries when the policy is allow', async () => {
+      await createEntry(9, 12).expect(201);
+      await createEntry(9, 12, 'allow').expect(201);
+
+      expect(await prisma.workEntry.count({ where: { userId } })).toBe(2);
+    });
+
+    it('should trim the new entry around existing entries when the policy is trim', async () => {
+      await createEntry(9, 12).expect(201);
+
+      const response = await createEntry(11, 14, 'trim').expect(201);
+
+      expect(response.body.data.startTime).toBe(getRecentDate(1, 12));
+      expect(response.body.data.endTime).toBe(getRecentDate(1, 14));
+      expect(response.body.data.duration).toBe(2);
+    });
+
+    it('should reject trimming that would split the new entry', async () => {
+      await createEntry(10, 11).expect(201);
+
+      const response = await createEntry(9, 12, 'trim').expect(409);
+
+      expect(response.body.code).toBe('WORK_ENTRY_OVERLAP');
+      expect(response.body.conflicts).toHaveLength(1);
+    });
+
+    it('should reject an unknown policy', async () => {
+      await createEntry(9, 12, 'merge').expect(400);
+    });
+  });
+
+  describe('Updating entries', () => {
+    it('should reject moving an entry onto another one', async () => {
+      await createEntry(9, 12).expect(201);
+      const afternoon = await createEntry(13, 17).expect(201);
+
+      const response = await request(app)
+        .put(`/api/work-entries/${afternoon.body.data.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ startTime: getRecentDate(1, 11) })
+        .expect(409);
+
+      expect(response.body.code).toBe('WORK_ENTRY_OVERLAP');
+    });
+
+    it('should not treat an entry as overlapping itself', async () => {
+      const entry = await createEntry(9, 12).expect(201);
+
+      await request(app)
+        .put(`/api/work-entries/${entry.body.data.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ endTime: getRecentDate(1, 13) })
+        .expect(200);
+    });
+
+    it('should still allow description edits on historical overlaps', async () => {
+      await createEntry(9, 12).expect(201);
+      const duplicate = await createEntry(10, 11, 'allow').expect(201);
+
+      await request(app)
+        .put(`/api/work-entries/${duplicate.body.data.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ description: 'Reviewed duplicate' })
+        .expect(200);
+    });
+  });
+
+  describe('GET /api/work-entries/conflicts', () => {
+    it('should report overlaps in existing data', async () => {
+      const morning = await createEntry(9, 12).expect(201);
+      const duplicate = await createEntry(10, 11, 'allow').expect(201);
+      await createEntry(13, 17).expect(201);
+
+      const response = await request(app)
+        .get('/api/work-entries/conflicts')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data.totalOverlapHours).toBe(1);
+      expect(response.body.data.overlaps).toEqual([
+        {
+          first: expect.objectContaining({ id: morning.body.data.id }),
+          second: expect.objectContaining({ id: duplicate.body.data.id }),
+          overlapStart: getRecentDate(1, 10),
+          overlapEnd: getRecentDate(1, 11),
+          overlapHours: 1,
+        },
+      ]);
+    });
+
+    it('should return an empty report when nothing overlaps', async () => {
+      await createEntry(9, 12).expect(201);
+
+      const response = await request(app)
+        .get('/api/work-entries/conflicts')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data).toEqual({ overlaps: [], totalOverlapHours: 0 });
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { createUserFactory, generateTestEmail } from '../factories/user.factory';
+import { mailService } from '../../src/services/mail.service';
+import { SessionService } from '../../src/services/session.service';
+import type { MailTransport, OutgoingMail } from '../../src/types/mail.types';
+
+const prisma = new PrismaClient();
+
+/**
+ * Captures outgoing mail in memory so tests can read the reset link
+ */
+class CapturingMailTransport implements MailTransport {
+  sent: OutgoingMail[] = [];
+
+  async send(mail: OutgoingMail): Promise<void> {
+    this.sent.push(mail);
+  }
+}
+
+function extractResetToken(mail: OutgoingMail | undefined): string {
+  const match = mail?.text.match(/token=([a-f0-9]+)/);
+  if (!match?.[1]) {
+    throw new Error('No reset token found in email');
+  }
+  return match[1];
+}
+
+describe('Password Reset Integration Tests', () => {
+  const newPassword = 'FreshPassphrase#2025!';
+  let transport: CapturingMailTransport;
+  let userId: string;
+  let email: string;
+
+  beforeEach(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    transport = new CapturingMailTransport();
+    mailService.setTransport(transport);
+
+    const testUser = await createUserFactory({
+      withHashedPassword: true,
+      override: { email: generateTestEmail('reset') },
+    });
+
+    const dbUser = await prisma.user.create({
+      data: {
+        email: testUser.email,
+        password: testUser.password,
+        firstName: testUser.firstName,
+        lastName: testUser.lastName,
+      },
+    });
+
+    userId = dbUser.id;
+    email = dbUser.email;
+  });
+
+  afterAll(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  describe('POST /api/auth/forgot-password', () => {
+    it('should email a reset link and store only the token hash', async () => {
+      await request(app).post('/api/auth/forgot-password').send({ email }).expect(200);
+
+      expect(transport.sent).toHaveLength(1);
+      expect(transport.sent[0]?.to).toBe(email);
+
+      const token = extractResetToken(transport.sent[0]);
+      const stored = await prisma.passwordResetToken.findFirst({ where: { userId } });
+
+      expect(stored).toBeTruthy();
+      expect(stored?.tokenHash).not.toBe(token);
+    });
+
+    it('should respond identically for unknown emails without sending mail', async () => {
+      const response = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: generateTestEmail('unknown') })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(transport.sent).toHaveLength(0);
+    });
+  });
+
+  describe('POST /api/auth/reset-password', () => {
+    it('should reset the password and revoke existing sessions', async () => {
+      const { tokens } = await SessionService.startSession(userId, email, {
+        ipAddress: null,
+        userAgent: null,
+      });
+
+      await request(app).post('/api/auth/forgot-password').send({ email }).expect(200);
+      const token = extractResetToken(transport.sent[0]);
+
+      await request(app).post('/api/auth/reset-password').send({ token, newPassword }).expect(200);
+
+      await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${tokens.accessToken}`)
+        .expect(401);
+
+      await request(app).post('/api/auth/login').send({ email, password: newPassword }).expect(200);
+    });
+
+    it('should only accept a reset token once', async () => {
+      await request(app).post('/api/auth/forgot-password').send({ email }).expect(200);
+      const token = extractResetToken(transport.sent[0]);
+
+      await request(app).post('/api/auth/reset-password').send({ token, newPassword }).expect(200);
+
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, newPassword })
+        .expect(400);
+
+      expect(response.body.code).toBe('INVALID_RESET_TOKEN');
+    });
+
+    it('should reject an expired reset token', async () => {
+      await request(app).post('/api/auth/forgot-password').send({ email }).expect(200);
+      const token = extractResetToken(transport.sent[0]);
+
+      await prisma.passwordResetToken.updateMany({
+        where: { userId },
+        data: { expiresAt: new Date(Date.now() - 1000) },
+      });
+
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, newPassword })
+        .expect(400);
+
+      expect(response.body.code).toBe('INVALID_RESET_TOKEN');
+    });
+
+    it('should invalidate older links when a new one is requested', async () => {
+      await request(app).post('/api/auth/forgot-password').send({ email }).expect(200);
+      await request(app).post('/api/auth/forgot-password').send({ email }).expect(200);
+
+      const firstToken = extractResetToken(transport.sent[0]);
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: firstToken, newPassword })
+        .expect(400);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { createUserFactory, generateTestEmail } from '../factories/user.factory';
+import { SessionService } from '../../src/services/session.service';
+
+const prisma = new PrismaClient();
+
+const getRecentDate = (daysAgo: number, hour: number): string => {
+  const date = new Date();
+  date.setDate(date.getDate() - daysAgo);
+  date.setHours(hour, 0, 0, 0);
+  return date.toISOString();
+};
+
+describe('Personal Access Token Integration Tests', () => {
+  let userId: string;
+  let accessToken: string;
+
+  const createToken = async (scopes: string[], name = 'CI pipeline') => {
+    const response = await request(app)
+      .post('/api/auth/tokens')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ name, scopes })
+      .expect(201);
+
+    return response.body.data as {
+      token: string;
+      personalAccessToken: { id: string; tokenPrefix: string };
+    };
+  };
+
+  beforeEach(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    const testUser = await createUserFactory({
+      withHashedPassword: true,
+      override: { email: generateTestEmail('pat') },
+    });
+
+    const dbUser = await prisma.user.create({
+      data: {
+        email: testUser.email,
+        password: testUser.password,
+        firstName: testUser.firstName,
+        lastName: testUser.lastName,
+        emailVerified: true,
+      },
+    });
+
+    userId = dbUser.id;
+
+    const { tokens } = await SessionService.startSession(userId, dbUser.email, {
+      ipAddress: null,
+      userAgent: null,
+    });
+    accessToken = tokens.accessToken;
+  });
+
+  afterAll(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  describe('Token management', () => {
+    it('should return the token once and store only its hash', async () => {
+      const { token, personalAccessToken } = await createToken(['work-entries:read']);
+
+      expect(token.startsWith(personalAccessToken.tokenPrefix)).toBe(true);
+
+      const stored = await prisma.personalAccessToken.findUnique({
+        where: { id: personalAccessToken.id },
+      });
+      expect(stored?.tokenHash).not.toBe(token);
+
+      const list = await request(app)
+        .get('/api/auth/tokens')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(list.body.data.tokens).toHaveLength(1);
+      expect(JSON.stringify(list.body)).not.toContain(token);
+    });
+
+    it('should rename a token', async () => {
+      const { personalAccessToken } = await createToken(['work-entries:read']);
+
+      const response = await request(app)
+        .patch(`/api/auth/tokens/${personalAccessToken.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Nightly export' })
+        .expect(200);
+
+      expect(response.body.data.token.name).toBe('Nightly export');
+    });
+
+    it('should reject unknown scopes', async () => {
+      await request(app)
+        .post('/api/auth/tokens')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Bad scopes', scopes: ['admin:everything'] })
+        .expect(400);
+    });
+  });
+
+  describe('Authenticating with a token', () => {
+    it('should allow reads with the read scope and record last use', async () => {
+      const { token, personalAccessToken } = await createToken(['work-entries:read']);
+
+      await request(app)
+        .get('/api/work-entries')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      const stored = await prisma.personalAccessToken.findUnique({
+        where: { id: personalAccessToken.id },
+      });
+      expect(stored?.lastUsedAt).toBeTruthy();
+    });
+
+    it('should reject writes without the write scope', async () => {
+      const { token } = await createToken(['work-entries:read']);
+
+      const response = await request(app)
+        .post('/api/work-entries')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          startTime: getRecentDate(1, 9),
+          endTime: getRecentDate(1, 17),
+          description: 'Pushed from CI',
+        })
+        .expect(403);
+
+      expect(response.body.code).toBe('INSUFFICIENT_SCOPE');
+    });
+
+    it('should allow writes with the write scope', async () => {
+      const { token } = await createToken(['work-entries:write']);
+
+      await request(app)
+        .post('/api/work-entries')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          startTime: getRecentDate(1, 9),
+          endTime: getRecentDate(1, 17),
+          description: 'Pushed from CI',
+        })
+        .expect(201);
+    });
+
+    it('should not allow account management with a token', async () => {
+      const { token } = await createToken(['work-entries:read', 'work-entries:write']);
+
+      const response = await request(app)
+        .post('/api/auth/tokens')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'Escalation', scopes: ['work-entries:write'] })
+        .expect(403);
+
+      expect(response.body.code).toBe('SESSION_REQUIRED');
+    });
+
+    it('should reject a revoked token', async () => {
+      const { token, personalAccessToken } = await createToken(['work-entries:read']);
+
+      await request(app)
+        .delete(`/api/auth/tokens/${personalAccessToken.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      await request(app)
+        .get('/api/work-entries')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(401);
+    });
+
+    it('should reject an expired token', async () => {
+      const { token, personalAccessToken } = await createToken(['work-entries:read']);
+
+      await prisma.personalAccessToken.update({
+        where: { id: personalAccessToken.id },
+        data: { expiresAt: new Date(Date.now() - 1000) },
+      });
+
+      await request(app)
+        .get('/api/work-entries')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(401);
+    });
+  });
+});
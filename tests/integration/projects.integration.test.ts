@@ -0,0 +1,366 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { createUserFactory, generateTestEmail } from '../factories/user.factory';
+import { SessionService } from '../../src/services/session.service';
+
+const prisma = new PrismaClient();
+
+// Helper function to generate valid recent dates for tests
+const getRecentDate = (daysAgo: number, hour: number = 9, minute: number = 0): string => {
+  const date = new Date();
+  date.setDate(date.getDate() - daysAgo);
+  date.setHours(hour, minute, 0, 0);
+  return date.toISOString();
+};
+
+/**
+ * Create a verified user and return their id and an access token
+ */
+async function createUserWithToken(prefix: string): Promise<{ userId: string; token: string }> {
+  const testUser = await createUserFactory({
+    withHashedPassword: true,
+    override: { email: generateTestEmail(prefix) },
+  });
+
+  const dbUser = await prisma.user.create({
+    data: {
+      email: testUser.email,
+      password: testUser.password,
+      firstName: testUser.firstName,
+      lastName: testUser.lastName,
+      emailVerified: true,
+    },
+  });
+
+  const { tokens } = await SessionService.startSession(dbUser.id, dbUser.email, {
+    ipAddress: null,
+    userAgent: null,
+  });
+
+  return { userId: dbUser.id, token: tokens.accessToken };
+}
+
+describe('Projects and Clients Integration Tests', () => {
+  let userId: string;
+  let accessToken: string;
+  let otherToken: string;
+
+  beforeEach(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.project.deleteMany({});
+    await prisma.client.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    ({ userId, token: accessToken } = await createUserWithToken('projects'));
+    ({ token: otherToken } = await createUserWithToken('other'));
+  });
+
+  afterAll(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.project.deleteMany({});
+    await prisma.client.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  const createClient = async (name: string): Promise<string> => {
+    const response = await request(app)
+      .post('/api/clients')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ name })
+      .expect(201);
+    return response.body.data.id;
+  };
+
+  const createProject = async (body: Record<string, unknown>): Promise<string> => {
+    const response = await request(app)
+      .post('/api/projects')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send(body)
+      .expect(201);
+    return response.body.data.id;
+  };
+
+  const createEntry = async (daysAgo: number, hours: number, projectId?: string) => {
+    return request(app)
+      .post('/api/work-entries')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({
+        startTime: getRecentDate(daysAgo, 9),
+        endTime: getRecentDate(daysAgo, 9 + hours),
+        description: 'Working on project deliverables',
+        ...(projectId && { projectId }),
+      });
+  };
+
+  describe('Clients', () => {
+    it('should create and list clients with their project count', async () => {
+      const clientId = await createClient('Acme Corp');
+      await createProject({ name: 'Website', clientId });
+
+      const response = await request(app)
+        .get('/api/clients')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data).toEqual([
+        expect.objectContaining({
+          id: clientId,
+          name: 'Acme Corp',
+          archived: false,
+          archivedAt: null,
+          projectCount: 1,
+        }),
+      ]);
+    });
+
+    it('should reject duplicate client names', async () => {
+      await createClient('Acme Corp');
+
+      const response = await request(app)
+        .post('/api/clients')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Acme Corp' })
+        .expect(409);
+
+      expect(response.body.code).toBe('CLIENT_ALREADY_EXISTS');
+    });
+
+    it('should not expose clients of other users', async () => {
+      const clientId = await createClient('Acme Corp');
+
+      const response = await request(app)
+        .get(`/api/clients/${clientId}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(404);
+
+      expect(response.body.code).toBe('CLIENT_NOT_FOUND');
+    });
+
+    it('should keep projects when their client is deleted', async () => {
+      const clientId = await createClient('Acme Corp');
+      const projectId = await createProject({ name: 'Website', clientId });
+
+      await request(app)
+        .delete(`/api/clients/${clientId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const response = await request(app)
+        .get(`/api/projects/${projectId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data.clientId).toBeNull();
+      expect(response.body.data.client).toBeNull();
+    });
+  });
+
+  describe('Projects', () => {
+    it('should create a project with a client and colour', async () => {
+      const clientId = await createClient('Acme Corp');
+
+      const response = await request(app)
+        .post('/api/projects')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Website', clientId, color: '#3366FF' })
+        .expect(201);
+
+      expect(response.body.data).toEqual({
+        id: expect.any(String),
+        name: 'Website',
+        color: '#3366FF',
+        clientId,
+        client: { id: clientId, name: 'Acme Corp' },
+        archived: false,
+        archivedAt: null,
+        createdAt: expect.any(String),
+        updatedAt: expect.any(String),
+      });
+    });
+
+    it('should reject duplicate project names', async () => {
+      await createProject({ name: 'Website' });
+
+      const response = await request(app)
+        .post('/api/projects')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Website' })
+        .expect(409);
+
+      expect(response.body.code).toBe('PROJECT_ALREADY_EXISTS');
+    });
+
+    it('should reject a client that belongs to another user', async () => {
+      const clientId = await createClient('Acme Corp');
+
+      const response = await request(app)
+        .post('/api/projects')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send({ name: 'Website', clientId })
+        .expect(400);
+
+      expect(response.body.code).toBe('INVALID_CLIENT');
+    });
+
+    it('should reject invalid colours', async () => {
+      await request(app)
+        .post('/api/projects')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Website', color: 'blue' })
+        .expect(400);
+    });
+
+    it('should hide archived projects unless requested', async () => {
+      const projectId = await createProject({ name: 'Website' });
+      await createProject({ name: 'Mobile App' });
+
+      await request(app)
+        .patch(`/api/projects/${projectId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ archived: true })
+        .expect(200);
+
+      const activeResponse = await request(app)
+        .get('/api/projects')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(activeResponse.body.data.map((project: any) => project.name)).toEqual(['Mobile App']);
+
+      const allResponse = await request(app)
+        .get('/api/projects')
+        .query({ includeArchived: 'true' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(allResponse.body.data).toHaveLength(2);
+    });
+  });
+
+  describe('Work entries with projects', () => {
+    it('should assign a project to a new work entry', async () => {
+      const clientId = await createClient('Acme Corp');
+      const projectId = await createProject({ name: 'Website', clientId, color: '#3366FF' });
+
+      const response = await createEntry(1, 8, projectId);
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.projectId).toBe(projectId);
+      expect(response.body.data.project).toEqual({
+        id: projectId,
+        name: 'Website',
+        color: '#3366FF',
+        client: { id: clientId, name: 'Acme Corp' },
+      });
+    });
+
+    it('should reject archived projects for new work entries', async () => {
+      const projectId = await createProject({ name: 'Website' });
+
+      await request(app)
+        .patch(`/api/projects/${projectId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ archived: true })
+        .expect(200);
+
+      const response = await createEntry(1, 8, projectId);
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_PROJECT');
+    });
+
+    it('should unassign a project from a work entry with null', async () => {
+      const projectId = await createProject({ name: 'Website' });
+      const createResponse = await createEntry(1, 8, projectId);
+
+      const response = await request(app)
+        .put(`/api/work-entries/${createResponse.body.data.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ projectId: null })
+        .expect(200);
+
+      expect(response.body.data.projectId).toBeNull();
+      expect(response.body.data.project).toBeNull();
+    });
+
+    it('should filter work entries by project and client', async () => {
+      const clientId = await createClient('Acme Corp');
+      const websiteId = await createProject({ name: 'Website', clientId });
+      const internalId = await createProject({ name: 'Internal' });
+
+      await createEntry(1, 8, websiteId);
+      await createEntry(2, 6, internalId);
+      await createEntry(3, 4);
+
+      const byProject = await request(app)
+        .get('/api/work-entries')
+        .query({ projectId: internalId })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(byProject.body.data).toHaveLength(1);
+      expect(byProject.body.data[0].projectId).toBe(internalId);
+
+      const byClient = await request(app)
+        .get('/api/work-entries')
+        .query({ clientId })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(byClient.body.data).toHaveLength(1);
+      expect(byClient.body.data[0].projectId).toBe(websiteId);
+    });
+
+    it('should break statistics down by project', async () => {
+      const clientId = await createClient('Acme Corp');
+      const websiteId = await createProject({ name: 'Website', clientId });
+
+      await createEntry(1, 8, websiteId);
+      await createEntry(2, 6, websiteId);
+      await createEntry(3, 4);
+
+      const response = await request(app)
+        .get('/api/work-entries/stats')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data.byProject).toEqual([
+        {
+          projectId: websiteId,
+          projectName: 'Website',
+          clientId,
+          clientName: 'Acme Corp',
+          totalHours: 14,
+          totalEntries: 2,
+        },
+        {
+          projectId: null,
+          projectName: null,
+          clientId: null,
+          clientName: null,
+          totalHours: 4,
+          totalEntries: 1,
+        },
+      ]);
+    });
+
+    it('should leave work entries unassigned when their project is deleted', async () => {
+      const projectId = await createProject({ name: 'Website' });
+      const createResponse = await createEntry(1, 8, projectId);
+
+      await request(app)
+        .delete(`/api/projects/${projectId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const entry = await prisma.workEntry.findFirst({
+        where: { id: createResponse.body.data.id, userId },
+      });
+
+      expect(entry).not.toBeNull();
+      expect(entry!.projectId).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { createUserFactory, generateTestEmail } from '../factories/user.factory';
+import { SessionService } from '../../src/services/session.service';
+import { decodeTokenUnsafe } from '../../src/utils/jwt.utils';
+import type { Role } from '../../src/types/auth.types';
+
+const prisma = new PrismaClient();
+
+/**
+ * Create a user with the given role and return an access token for them
+ */
+async function createUserWithRole(role: Role): Promise<string> {
+  const testUser = await createUserFactory({
+    withHashedPassword: true,
+    override: { email: generateTestEmail(role) },
+  });
+
+  const dbUser = await prisma.user.create({
+    data: {
+      email: testUser.email,
+      password: testUser.password,
+      firstName: testUser.firstName,
+      lastName: testUser.lastName,
+      role,
+    },
+  });
+
+  const { tokens } = await SessionService.startSession(
+    dbUser.id,
+    dbUser.email,
+    { ipAddress: null, userAgent: null },
+    dbUser.role
+  );
+
+  return tokens.accessToken;
+}
+
+describe('Role-Based Access Control Integration Tests', () => {
+  let userToken: string;
+  let managerToken: string;
+  let adminToken: string;
+
+  beforeEach(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    userToken = await createUserWithRole('user');
+    managerToken = await createUserWithRole('manager');
+    adminToken = await createUserWithRole('admin');
+  });
+
+  afterAll(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  it('should embed the role in access tokens', () => {
+    expect(decodeTokenUnsafe(adminToken)?.role).toBe('admin');
+  });
+
+  it('should default new registrations to the user role', async () => {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({
+        email: generateTestEmail('register'),
+        password: 'SecurePassword123!',
+        firstName: 'New',
+        lastName: 'User',
+      })
+      .expect(201);
+
+    expect(response.body.data.user.role).toBe('user');
+  });
+
+  describe('GET /health/security', () => {
+    it('should require authentication', async () => {
+      await request(app).get('/health/security?includeIPs=true').expect(401);
+    });
+
+    it('should reject regular users', async () => {
+      const response = await request(app)
+        .get('/health/security?includeIPs=true')
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(403);
+
+      expect(response.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+    });
+
+    it('should allow managers and admins', async () => {
+      await request(app)
+        .get('/health/security?includeIPs=true')
+        .set('Authorization', `Bearer ${managerToken}`)
+        .expect(200);
+
+      await request(app)
+        .get('/health/security?includeIPs=true')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+    });
+  });
+
+  describe('POST /health/cache/clear', () => {
+    it('should require authentication', async () => {
+      await request(app).post('/health/cache/clear').expect(401);
+    });
+
+    it('should reject managers', async () => {
+      await request(app)
+        .post('/health/cache/clear')
+        .set('Authorization', `Bearer ${managerToken}`)
+        .expect(403);
+    });
+
+    it('should allow admins', async () => {
+      await request(app)
+        .post('/health/cache/clear')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+    });
+  });
+
+  it('should keep the basic health checks public', async () => {
+    await request(app).get('/health').expect(200);
+    await request(app).get('/health/detailed').expect(200);
+  });
+});
@@ -0,0 +1,292 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { createUserFactory, generateTestEmail } from '../factories/user.factory';
+import { getRecentDay } from '../factories/work-entry.factory';
+import { SessionService } from '../../src/services/session.service';
+
+const prisma = new PrismaClient();
+
+describe('Work Entry Revision History Integration Tests', () => {
+  let userId: string;
+  let accessToken: string;
+
+  const day = getRecentDay(2);
+  const at = (time: string) => `${day}T${time}:00.000Z`;
+
+  const createUser = async (name: string) => {
+    const testUser = await createUserFactory({
+      withHashedPassword: true,
+      override: { email: generateTestEmail(name) },
+    });
+
+    const dbUser = await prisma.user.create({
+      data: {
+        email: testUser.email,
+        password: testUser.password,
+        firstName: testUser.firstName,
+        lastName: testUser.lastName,
+        emailVerified: true,
+      },
+    });
+
+    const { tokens } = await SessionService.startSession(dbUser.id, dbUser.email, {
+      ipAddress: null,
+      userAgent: null,
+    });
+
+    return { id: dbUser.id, accessToken: tokens.accessToken };
+  };
+
+  beforeEach(async () => {
+    await prisma.workEntryRevision.deleteMany({});
+    await prisma.workEntry.deleteMany({});
+    await prisma.tag.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    ({ id: userId, accessToken } = await createUser('revisions'));
+  });
+
+  afterAll(async () => {
+    await prisma.workEntryRevision.deleteMany({});
+    await prisma.workEntry.deleteMany({});
+    await prisma.tag.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  const createEntry = async (from: string, to: string, description: string, tags?: string[]) => {
+    const response = await request(app)
+      .post('/api/work-entries')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ startTime: at(from), endTime: at(to), description, ...(tags && { tags }) })
+      .expect(201);
+    return response.body.data;
+  };
+
+  const getHistory = (id: string, token = accessToken) =>
+    request(app).get(`/api/work-entries/${id}/history`).set('Authorization', `Bearer ${token}`);
+
+  const revert = (id: string, revisionId: string, query = '') =>
+    request(app)
+      .post(`/api/work-entries/${id}/revert${query}`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ revisionId });
+
+  describe('GET /api/work-entries/:id/history', () => {
+    it('should record every change with before and after values, newest first', async () => {
+      const entry = await createEntry('09:00', '10:00', 'Planning', ['meeting']);
+
+      await request(app)
+        .put(`/api/work-entries/${entry.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ endTime: at('11:00'), description: 'Sprint planning' })
+        .expect(200);
+      await request(app)
+        .delete(`/api/work-entries/${entry.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+      await request(app)
+        .post(`/api/work-entries/${entry.id}/restore`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const response = await getHistory(entry.id).expect(200);
+      const [restore, remove, update, create] = response.body.data;
+
+      expect(response.body.data.map((revision: any) => revision.action)).toEqual([
+        'restore',
+        'delete',
+        'update',
+        'create',
+      ]);
+      expect(create).toMatchObject({
+        workEntryId: entry.id,
+        actorId: userId,
+        before: null,
+        after: {
+          startTime: at('09:00'),
+          endTime: at('10:00'),
+          description: 'Planning',
+          projectId: null,
+          tags: ['meeting'],
+        },
+      });
+      expect(create.ipAddress).toEqual(expect.any(String));
+      expect(update.before).toMatchObject({ endTime: at('10:00'), description: 'Planning' });
+      expect(update.after).toMatchObject({ endTime: at('11:00'), description: 'Sprint planning' });
+      expect(update.changedFields).toEqual(['endTime', 'description']);
+      expect(remove).toMatchObject({ before: { description: 'Sprint planning' }, after: null });
+      expect(restore).toMatchObject({ before: null, after: { description: 'Sprint planning' } });
+    });
+
+    it('should record timers and bulk operations', async () => {
+      const timer = await request(app)
+        .post('/api/work-entries/timer/start')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ startTime: at('09:00'), description: 'Timer' })
+        .expect(201);
+      await request(app)
+        .post('/api/work-entries/timer/stop')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ endTime: at('10:00') })
+        .expect(200);
+
+      const timerHistory = await getHistory(timer.body.data.id).expect(200);
+      expect(timerHistory.body.data.map((revision: any) => revision.action)).toEqual([
+        'update',
+        'create',
+      ]);
+      expect(timerHistory.body.data[0].changedFields).toEqual(['endTime']);
+
+      const bulk = await request(app)
+        .post('/api/work-entries/bulk')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          mode: 'best-effort',
+          operations: [
+            {
+              op: 'create',
+              data: { startTime: at('11:00'), endTime: at('12:00'), description: 'Bulk' },
+            },
+            { op: 'delete', id: 'cm0000000000000000000000' },
+          ],
+        })
+        .expect(200);
+
+      const bulkHistory = await getHistory(bulk.body.data.results[0].id).expect(200);
+      expect(bulkHistory.body.data).toHaveLength(1);
+      expect(await prisma.workEntryRevision.count({ where: { userId } })).toBe(3);
+    });
+
+    it('should not record changes that were rolled back', async () => {
+      const entry = await createEntry('09:00', '10:00', 'Kept');
+
+      await request(app)
+        .post('/api/work-entries/bulk')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          mode: 'atomic',
+          operations: [
+            { op: 'update', id: entry.id, data: { description: 'Rolled back' } },
+            { op: 'delete', id: 'cm0000000000000000000000' },
+          ],
+        })
+        .expect(409);
+
+      const response = await getHistory(entry.id).expect(200);
+      expect(response.body.data.map((revision: any) => revision.action)).toEqual(['create']);
+    });
+
+    it('should return an empty history for entries with no recorded changes', async () => {
+      const entry = await prisma.workEntry.create({
+        data: {
+          userId,
+          startTime: new Date(at('09:00')),
+          endTime: new Date(at('10:00')),
+          description: 'Logged before revisions were recorded',
+        },
+      });
+
+      const response = await getHistory(entry.id).expect(200);
+      expect(response.body.data).toEqual([]);
+    });
+
+    it("should not show another user's history", async () => {
+      const entry = await createEntry('09:00', '10:00', 'Private');
+      const other = await createUser('revisions-other');
+
+      await getHistory(entry.id, other.accessToken).expect(404);
+    });
+  });
+
+  describe('POST /api/work-entries/:id/revert', () => {
+    it('should revert an entry to an earlier revision and record the revert', async () => {
+      const entry = await createEntry('09:00', '10:00', 'Original', ['design']);
+
+      await request(app)
+        .put(`/api/work-entries/${entry.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ startTime: at('13:00'), endTime: at('15:00'), description: 'Edited', tags: [] })
+        .expect(200);
+
+      const history = await getHistory(entry.id).expect(200);
+      const created = history.body.data[1];
+
+      const response = await revert(entry.id, created.id).expect(200);
+
+      expect(response.body.data).toMatchObject({
+        startTime: at('09:00'),
+        endTime: at('10:00'),
+        description: 'Original',
+        tags: [expect.objectContaining({ name: 'design' })],
+      });
+
+      const after = await getHistory(entry.id).expect(200);
+      expect(after.body.data[0]).toMatchObject({
+        action: 'revert',
+        revertedToId: created.id,
+        before: { description: 'Edited' },
+        after: { description: 'Original' },
+      });
+    });
+
+    it('should apply the overlap policy', async () => {
+      const entry = await createEntry('09:00', '10:00', 'Moved');
+
+      await request(app)
+        .put(`/api/work-entries/${entry.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ startTime: at('13:00'), endTime: at('14:00') })
+        .expect(200);
+      await createEntry('09:30', '11:00', 'Logged since');
+
+      const history = await getHistory(entry.id).expect(200);
+      const created = history.body.data[1];
+
+      const rejected = await revert(entry.id, created.id).expect(409);
+      expect(rejected.body.code).toBe('WORK_ENTRY_OVERLAP');
+
+      const trimmed = await revert(entry.id, created.id, '?overlap=trim').expect(200);
+      expect(trimmed.body.data.endTime).toBe(at('09:30'));
+    });
+
+    it('should not revert to a deletion', async () => {
+      const entry = await createEntry('09:00', '10:00', 'Deleted');
+
+      await request(app)
+        .delete(`/api/work-entries/${entry.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+      await request(app)
+        .post(`/api/work-entries/${entry.id}/restore`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const history = await getHistory(entry.id).expect(200);
+      const deletion = history.body.data.find((revision: any) => revision.action === 'delete');
+
+      await revert(entry.id, deletion.id).expect(400);
+    });
+
+    it('should return 404 for a revision of another entry', async () => {
+      const first = await createEntry('09:00', '10:00', 'First');
+      const second = await createEntry('11:00', '12:00', 'Second');
+
+      const history = await getHistory(first.id).expect(200);
+
+      const response = await revert(second.id, history.body.data[0].id).expect(404);
+      expect(response.body.message).toBe('Revision not found');
+    });
+
+    it('should require a revision ID', async () => {
+      const entry = await createEntry('09:00', '10:00', 'Entry');
+
+      await request(app)
+        .post(`/api/work-entries/${entry.id}/revert`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({})
+        .expect(400);
+    });
+  });
+});
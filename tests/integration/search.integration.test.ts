@@ -0,0 +1,137 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { createUserFactory, generateTestEmail } from '../factories/user.factory';
+import { getRecentDay } from '../factories/work-entry.factory';
+import { SessionService } from '../../src/services/session.service';
+
+const prisma = new PrismaClient();
+
+describe('Work Entry Search Integration Tests', () => {
+  let userId: string;
+  let accessToken: string;
+
+  beforeEach(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    const testUser = await createUserFactory({
+      withHashedPassword: true,
+      override: { email: generateTestEmail('search') },
+    });
+
+    const dbUser = await prisma.user.create({
+      data: {
+        email: testUser.email,
+        password: testUser.password,
+        firstName: testUser.firstName,
+        lastName: testUser.lastName,
+        emailVerified: true,
+      },
+    });
+
+    userId = dbUser.id;
+
+    const { tokens } = await SessionService.startSession(dbUser.id, dbUser.email, {
+      ipAddress: null,
+      userAgent: null,
+    });
+    accessToken = tokens.accessToken;
+
+    const entry = (daysAgo: number, description: string, deletedAt: Date | null = null) => ({
+      userId,
+      startTime: new Date(`${getRecentDay(daysAgo)}T09:00:00.000Z`),
+      endTime: new Date(`${getRecentDay(daysAgo)}T11:00:00.000Z`),
+      description,
+      deletedAt,
+    });
+
+    await prisma.workEntry.createMany({
+      data: [
+        entry(1, 'Billing migration: moved invoices to the new billing service'),
+        entry(2, 'Planned the migration of billing data'),
+        entry(3, 'Code review for the search feature'),
+        entry(4, 'Billing migrations dry run', new Date()),
+      ],
+    });
+  });
+
+  afterAll(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  const search = (query: Record<string, string>) =>
+    request(app)
+      .get('/api/work-entries')
+      .query(query)
+      .set('Authorization', `Bearer ${accessToken}`);
+
+  it('should rank matching entries and highlight the matching words', async () => {
+    const response = await search({ q: 'billing migrat' }).expect(200);
+
+    // Entries in the trash are left out
+    expect(response.body.data).toHaveLength(2);
+    expect(response.body.pagination.total).toBe(2);
+
+    const [best, second] = response.body.data;
+    expect(best.description).toContain('Billing migration:');
+    expect(best.search.rank).toBeGreaterThan(second.search.rank);
+    expect(best.search.snippet).toContain('<mark>Billing</mark>');
+    expect(second.search.snippet).toContain('<mark>migration</mark>');
+  });
+
+  it('should match quoted text as a phrase', async () => {
+    const response = await search({ q: '"billing migration"' }).expect(200);
+
+    expect(response.body.data).toHaveLength(1);
+    expect(response.body.data[0].description).toContain('Billing migration:');
+  });
+
+  it('should combine search with other sort orders', async () => {
+    const sorted = await search({ q: 'billing', sortBy: 'startTime', sortOrder: 'asc' }).expect(
+      200
+    );
+    expect(sorted.body.data.map((entry: any) => entry.description)).toEqual([
+      'Planned the migration of billing data',
+      'Billing migration: moved invoices to the new billing service',
+    ]);
+  });
+
+  it('should page search results and combine them with filters', async () => {
+    const secondPage = await search({ q: 'billing', limit: '1', page: '2' }).expect(200);
+    expect(secondPage.body.data[0].description).toBe('Planned the migration of billing data');
+    expect(secondPage.body.data[0].search.snippet).toContain('<mark>billing</mark>');
+    expect(secondPage.body.pagination).toMatchObject({ total: 2, totalPages: 2, hasPrev: true });
+
+    const firstPage = await search({ q: 'billing', sortBy: 'startTime', limit: '1', cursor: '' });
+    const nextPage = await search({
+      q: 'billing',
+      sortBy: 'startTime',
+      limit: '1',
+      cursor: firstPage.body.pagination.nextCursor,
+    }).expect(200);
+    expect(nextPage.body.data.map((entry: any) => entry.description)).toEqual([
+      'Planned the migration of billing data',
+    ]);
+    expect(nextPage.body.pagination.hasNext).toBe(false);
+
+    const filtered = await search({ q: 'billing', startDate: getRecentDay(1) }).expect(200);
+    expect(filtered.body.data).toHaveLength(1);
+    expect(filtered.body.data[0].description).toContain('Billing migration:');
+  });
+
+  it('should accept search terms with quotes and SQL words', async () => {
+    const response = await search({ q: "review'; DELETE FROM users" }).expect(200);
+
+    expect(response.body.data).toHaveLength(0);
+    expect(await prisma.user.count()).toBe(1);
+  });
+
+  it('should reject relevance sorting without a search or with a cursor', async () => {
+    await search({ sortBy: 'relevance' }).expect(400);
+    await search({ q: 'billing', cursor: '' }).expect(400);
+    await search({ q: '&&' }).expect(400);
+  });
+});
@@ -0,0 +1,217 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { createUserFactory, generateTestEmail } from '../factories/user.factory';
+import { getRecentDay } from '../factories/work-entry.factory';
+import { SessionService } from '../../src/services/session.service';
+import { workEntryService } from '../../src/services/work-entry.service';
+import { workEntryFiltersSchema } from '../../src/utils/work-entry-validation.utils';
+
+const prisma = new PrismaClient();
+
+describe('User Settings Integration Tests', () => {
+  let userId: string;
+  let accessToken: string;
+
+  beforeEach(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    const testUser = await createUserFactory({
+      withHashedPassword: true,
+      override: { email: generateTestEmail('settings') },
+    });
+
+    const dbUser = await prisma.user.create({
+      data: {
+        email: testUser.email,
+        password: testUser.password,
+        firstName: testUser.firstName,
+        lastName: testUser.lastName,
+        emailVerified: true,
+      },
+    });
+
+    userId = dbUser.id;
+
+    const { tokens } = await SessionService.startSession(dbUser.id, dbUser.email, {
+      ipAddress: null,
+      userAgent: null,
+    });
+    accessToken = tokens.accessToken;
+  });
+
+  afterAll(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  const updateSettings = (body: Record<string, unknown>) =>
+    request(app).patch('/api/settings').set('Authorization', `Bearer ${accessToken}`).send(body);
+
+  describe('GET /api/settings', () => {
+    it('should return the defaults for a user who has not changed anything', async () => {
+      const response = await request(app)
+        .get('/api/settings')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data).toEqual({
+        timezone: 'UTC',
+        weekStart: 'monday',
+        locale: 'en-US',
+        dateFormat: 'YYYY-MM-DD',
+        defaultEntryMinutes: 60,
+        updatedAt: null,
+      });
+    });
+
+    it('should require authentication', async () => {
+      await request(app).get('/api/settings').expect(401);
+    });
+  });
+
+  describe('PATCH /api/settings', () => {
+    it('should update only the given settings', async () => {
+      const response = await updateSettings({
+        timezone: 'Europe/Berlin',
+        defaultEntryMinutes: 30,
+      }).expect(200);
+
+      expect(response.body.data).toMatchObject({
+        timezone: 'Europe/Berlin',
+        weekStart: 'monday',
+        defaultEntryMinutes: 30,
+      });
+      expect(response.body.data.updatedAt).not.toBeNull();
+
+      await updateSettings({ weekStart: 'sunday', locale: 'de-DE' }).expect(200);
+
+      const stored = await request(app)
+        .get('/api/settings')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(stored.body.data).toMatchObject({
+        timezone: 'Europe/Berlin',
+        weekStart: 'sunday',
+        locale: 'de-DE',
+        defaultEntryMinutes: 30,
+      });
+    });
+
+    it('should reject invalid settings', async () => {
+      await updateSettings({ timezone: 'Mars/Olympus_Mons' }).expect(400);
+      await updateSettings({ weekStart: 'friday' }).expect(400);
+      await updateSettings({ locale: 'not a locale' }).expect(400);
+      await updateSettings({ dateFormat: 'YY.MM.DD' }).expect(400);
+      await updateSettings({ defaultEntryMinutes: 5 }).expect(400);
+
+      const response = await updateSettings({}).expect(400);
+      expect(response.body.success).toBe(false);
+
+      expect(await prisma.userSettings.count({ where: { userId } })).toBe(0);
+    });
+  });
+
+  describe('dates in the user time zone', () => {
+    const day = getRecentDay(3);
+    const nextDay = getRecentDay(2);
+
+    beforeEach(async () => {
+      // 23:00-23:30 UTC is the early hours of the next day in Tokyo (UTC+9 all year)
+      await prisma.workEntry.create({
+        data: {
+          userId,
+          startTime: new Date(`${day}T23:00:00.000Z`),
+          endTime: new Date(`${day}T23:30:00.000Z`),
+          description: 'Late call',
+        },
+      });
+    });
+
+    it('should filter and total dates by local days', async () => {
+      const filters = workEntryFiltersSchema.parse({ startDate: nextDay, endDate: nextDay });
+
+      const utcEntries = await workEntryService.getWorkEntries(userId, filters);
+      expect(utcEntries.data).toHaveLength(0);
+
+      await updateSettings({ timezone: 'Asia/Tokyo' }).expect(200);
+
+      const localEntries = await workEntryService.getWorkEntries(userId, filters);
+      expect(localEntries.data).toHaveLength(1);
+
+      const stats = await workEntryService.getWorkEntryStats(userId, nextDay, nextDay);
+      expect(stats.totalHours).toBe(0.5);
+    });
+
+    it('should bucket the stats series in the user time zone and week', async () => {
+      await updateSettings({ timezone: 'Asia/Tokyo', weekStart: 'sunday' }).expect(200);
+
+      const daily = await request(app)
+        .get('/api/work-entries/stats/series')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(daily.body.data.timezone).toBe('Asia/Tokyo');
+      const bucket = daily.body.data.buckets.find((b: any) => b.date === nextDay);
+      expect(bucket).toMatchObject({ start: `${day}T15:00:00.000Z`, hours: 0.5, entries: 1 });
+
+      const weekly = await request(app)
+        .get('/api/work-entries/stats/series')
+        .query({ interval: 'week' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      for (const week of weekly.body.data.buckets) {
+        expect(new Date(week.date).getUTCDay()).toBe(0);
+      }
+    });
+  });
+
+  describe('entry defaults and formatting', () => {
+    const day = getRecentDay(3);
+
+    it('should end entries created without an end time after the default length', async () => {
+      await updateSettings({ defaultEntryMinutes: 45 }).expect(200);
+
+      const response = await request(app)
+        .post('/api/work-entries')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ startTime: `${day}T09:00:00.000Z`, description: 'Quick review' })
+        .expect(201);
+
+      expect(response.body.data.endTime).toBe(`${day}T09:45:00.000Z`);
+      expect(response.body.data.duration).toBe(0.75);
+    });
+
+    it('should format hours in calendar exports for the user locale', async () => {
+      await prisma.workEntry.create({
+        data: {
+          userId,
+          startTime: new Date(`${day}T09:00:00.000Z`),
+          endTime: new Date(`${day}T10:30:00.000Z`),
+          description: 'Planning',
+        },
+      });
+      await updateSettings({ locale: 'de-DE' }).expect(200);
+
+      const response = await request(app)
+        .get('/api/work-entries/export?format=ics')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .buffer(true)
+        .parse((res, callback) => {
+          let text = '';
+          res.setEncoding('utf8');
+          res.on('data', (chunk: string) => (text += chunk));
+          res.on('end', () => callback(null, text));
+        })
+        .expect(200);
+
+      // Commas are escaped in calendar text
+      expect(response.body).toContain('DESCRIPTION:Duration: 1\\,5 h');
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { createUserFactory, generateTestEmail } from '../factories/user.factory';
+import { SessionService } from '../../src/services/session.service';
+
+const prisma = new PrismaClient();
+
+// Helper function to generate valid recent dates for tests
+const getRecentDate = (daysAgo: number, hour: number = 9, minute: number = 0): string => {
+  const date = new Date();
+  date.setDate(date.getDate() - daysAgo);
+  date.setHours(hour, minute, 0, 0);
+  return date.toISOString();
+};
+
+/**
+ * Create a verified user and return an access token for them
+ */
+async function createUserWithToken(prefix: string): Promise<string> {
+  const testUser = await createUserFactory({
+    withHashedPassword: true,
+    override: { email: generateTestEmail(prefix) },
+  });
+
+  const dbUser = await prisma.user.create({
+    data: {
+      email: testUser.email,
+      password: testUser.password,
+      firstName: testUser.firstName,
+      lastName: testUser.lastName,
+      emailVerified: true,
+    },
+  });
+
+  const { tokens } = await SessionService.startSession(dbUser.id, dbUser.email, {
+    ipAddress: null,
+    userAgent: null,
+  });
+
+  return tokens.accessToken;
+}
+
+describe('Tags Integration Tests', () => {
+  let accessToken: string;
+  let otherToken: string;
+
+  beforeEach(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.tag.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    accessToken = await createUserWithToken('tags');
+    otherToken = await createUserWithToken('other');
+  });
+
+  afterAll(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.tag.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  const createEntry = async (daysAgo: number, hours: number, tags?: string[]) => {
+    const response = await request(app)
+      .post('/api/work-entries')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({
+        startTime: getRecentDate(daysAgo, 9),
+        endTime: getRecentDate(daysAgo, 9 + hours),
+        description: 'Tagged work',
+        ...(tags && { tags }),
+      })
+      .expect(201);
+    return response.body.data;
+  };
+
+  const getTagId = async (name: string): Promise<string> => {
+    const response = await request(app)
+      .get('/api/tags')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+    return response.body.data.find((tag: any) => tag.name === name).id;
+  };
+
+  describe('Tag CRUD', () => {
+    it('should create a tag with a lowercase name', async () => {
+      const response = await request(app)
+        .post('/api/tags')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Code-Review', color: '#FF9900' })
+        .expect(201);
+
+      expect(response.body.data).toEqual({
+        id: expect.any(String),
+        name: 'code-review',
+        color: '#FF9900',
+        entryCount: 0,
+        createdAt: expect.any(String),
+        updatedAt: expect.any(String),
+      });
+    });
+
+    it('should reject duplicate tag names regardless of case', async () => {
+      await request(app)
+        .post('/api/tags')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'meeting' })
+        .expect(201);
+
+      const response = await request(app)
+        .post('/api/tags')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Meeting' })
+        .expect(409);
+
+      expect(response.body.code).toBe('TAG_ALREADY_EXISTS');
+    });
+
+    it('should rename a tag', async () => {
+      await createEntry(1, 2, ['meeting']);
+      const tagId = await getTagId('meeting');
+
+      const response = await request(app)
+        .patch(`/api/tags/${tagId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'meetings' })
+        .expect(200);
+
+      expect(response.body.data.name).toBe('meetings');
+      expect(response.body.data.entryCount).toBe(1);
+    });
+
+    it('should not expose tags of other users', async () => {
+      await createEntry(1, 2, ['meeting']);
+      const tagId = await getTagId('meeting');
+
+      const response = await request(app)
+        .get(`/api/tags/${tagId}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(404);
+
+      expect(response.body.code).toBe('TAG_NOT_FOUND');
+    });
+
+    it('should remove a deleted tag from its work entries', async () => {
+      const entry = await createEntry(1, 2, ['meeting', 'support']);
+      const tagId = await getTagId('meeting');
+
+      await request(app)
+        .delete(`/api/tags/${tagId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const response = await request(app)
+        .get(`/api/work-entries/${entry.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data.tags.map((tag: any) => tag.name)).toEqual(['support']);
+    });
+  });
+
+  describe('Tag merging', () => {
+    it('should move entries to the target tag and delete the source tag', async () => {
+      await createEntry(1, 2, ['mtg']);
+      await createEntry(2, 3, ['mtg', 'meeting']);
+      await createEntry(3, 1, ['meeting']);
+      const sourceId = await getTagId('mtg');
+      const targetId = await getTagId('meeting');
+
+      const response = await request(app)
+        .post(`/api/tags/${sourceId}/merge`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ targetTagId: targetId })
+        .expect(200);
+
+      expect(response.body.data.id).toBe(targetId);
+      expect(response.body.data.entryCount).toBe(3);
+
+      await request(app)
+        .get(`/api/tags/${sourceId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
+    });
+
+    it('should reject merging a tag into itself', async () => {
+      await createEntry(1, 2, ['meeting']);
+      const tagId = await getTagId('meeting');
+
+      const response = await request(app)
+        .post(`/api/tags/${tagId}/merge`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ targetTagId: tagId })
+        .expect(400);
+
+      expect(response.body.code).toBe('INVALID_MERGE');
+    });
+  });
+
+  describe('Work entries with tags', () => {
+    it('should create missing tags when a work entry is created', async () => {
+      const entry = await createEntry(1, 2, ['Support', 'meeting', 'support']);
+
+      expect(entry.tags).toEqual([
+        { id: expect.any(String), name: 'meeting', color: null },
+        { id: expect.any(String), name: 'support', color: null },
+      ]);
+    });
+
+    it('should replace and clear tags on update', async () => {
+      const entry = await createEntry(1, 2, ['meeting']);
+
+      const replaced = await request(app)
+        .put(`/api/work-entries/${entry.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ tags: ['code-review'] })
+        .expect(200);
+
+      expect(replaced.body.data.tags.map((tag: any) => tag.name)).toEqual(['code-review']);
+
+      const cleared = await request(app)
+        .put(`/api/work-entries/${entry.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ tags: [] })
+        .expect(200);
+
+      expect(cleared.body.data.tags).toEqual([]);
+    });
+
+    it('should filter work entries by any or all of a set of tags', async () => {
+      await createEntry(1, 2, ['meeting']);
+      await createEntry(2, 3, ['meeting', 'support']);
+      await createEntry(3, 1, ['support']);
+      await createEntry(4, 4);
+      const meetingId = await getTagId('meeting');
+      const supportId = await getTagId('support');
+
+      const anyResponse = await request(app)
+        .get('/api/work-entries')
+        .query({ tagIds: `${meetingId},${supportId}` })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(anyResponse.body.data).toHaveLength(3);
+
+      const allResponse = await request(app)
+        .get('/api/work-entries')
+        .query({ tagIds: `${meetingId},${supportId}`, tagMatch: 'all' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(allResponse.body.data).toHaveLength(1);
+      expect(allResponse.body.data[0].tags).toHaveLength(2);
+    });
+
+    it('should break statistics down by tag', async () => {
+      await createEntry(1, 2, ['meeting']);
+      await createEntry(2, 3, ['meeting', 'support']);
+      await createEntry(3, 4);
+
+      const response = await request(app)
+        .get('/api/work-entries/stats')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data.byTag).toEqual([
+        {
+          tagId: expect.any(String),
+          tagName: 'meeting',
+          totalHours: 5,
+          totalEntries: 2,
+        },
+        {
+          tagId: expect.any(String),
+          tagName: 'support',
+          totalHours: 3,
+          totalEntries: 1,
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,311 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { createUserFactory, generateTestEmail } from '../factories/user.factory';
+import { getRecentDay } from '../factories/work-entry.factory';
+import { SessionService } from '../../src/services/session.service';
+
+const prisma = new PrismaClient();
+
+describe('Work Entry Templates Integration Tests', () => {
+  let userId: string;
+  let accessToken: string;
+
+  beforeEach(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.workEntryTemplate.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    const testUser = await createUserFactory({
+      withHashedPassword: true,
+      override: { email: generateTestEmail('templates') },
+    });
+
+    const dbUser = await prisma.user.create({
+      data: {
+        email: testUser.email,
+        password: testUser.password,
+        firstName: testUser.firstName,
+        lastName: testUser.lastName,
+        emailVerified: true,
+      },
+    });
+
+    userId = dbUser.id;
+
+    const { tokens } = await SessionService.startSession(dbUser.id, dbUser.email, {
+      ipAddress: null,
+      userAgent: null,
+    });
+    accessToken = tokens.accessToken;
+  });
+
+  afterAll(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.workEntryTemplate.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  const createTemplate = (body: Record<string, unknown>) =>
+    request(app).post('/api/templates').set('Authorization', `Bearer ${accessToken}`).send(body);
+
+  const materialize = (templateId: string, startDate: string, endDate: string) =>
+    request(app)
+      .post(`/api/templates/${templateId}/materialize`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ startDate, endDate });
+
+  const standup = {
+    description: 'Daily standup',
+    tags: ['meeting'],
+    startTime: '09:00',
+    durationMinutes: 15,
+    recurrence: { frequency: 'daily', startDate: getRecentDay(30) },
+  };
+
+  describe('Template CRUD', () => {
+    it('should create, read, update and delete a template', async () => {
+      const created = await createTemplate({
+        ...standup,
+        recurrence: {
+          frequency: 'weekly',
+          byWeekday: ['MO', 'WE', 'FR'],
+          startDate: '2025-01-06',
+        },
+      });
+
+      expect(created.status).toBe(201);
+      expect(created.body.data).toMatchObject({
+        description: 'Daily standup',
+        tags: ['meeting'],
+        startTime: '09:00',
+        durationMinutes: 15,
+        recurrence: {
+          frequency: 'weekly',
+          interval: 1,
+          byWeekday: ['MO', 'WE', 'FR'],
+          byMonthDay: null,
+          startDate: '2025-01-06',
+          endDate: null,
+        },
+        rrule: 'FREQ=WEEKLY;BYDAY=MO,WE,FR',
+      });
+
+      const id = created.body.data.id;
+
+      const list = await request(app)
+        .get('/api/templates')
+        .set('Authorization', `Bearer ${accessToken}`);
+      expect(list.status).toBe(200);
+      expect(list.body.data.map((template: any) => template.id)).toEqual([id]);
+
+      const updated = await request(app)
+        .patch(`/api/templates/${id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ durationMinutes: 30 });
+      expect(updated.status).toBe(200);
+      expect(updated.body.data.durationMinutes).toBe(30);
+      expect(updated.body.data.recurrence.byWeekday).toEqual(['MO', 'WE', 'FR']);
+
+      const deleted = await request(app)
+        .delete(`/api/templates/${id}`)
+        .set('Authorization', `Bearer ${accessToken}`);
+      expect(deleted.status).toBe(200);
+
+      const missing = await request(app)
+        .get(`/api/templates/${id}`)
+        .set('Authorization', `Bearer ${accessToken}`);
+      expect(missing.status).toBe(404);
+      expect(missing.body.code).toBe('TEMPLATE_NOT_FOUND');
+    });
+
+    it('should reject invalid templates', async () => {
+      const badTime = await createTemplate({ ...standup, startTime: '9am' });
+      expect(badTime.status).toBe(400);
+
+      const weekdaysOnDaily = await createTemplate({
+        ...standup,
+        recurrence: { frequency: 'daily', byWeekday: ['MO'], startDate: '2025-01-06' },
+      });
+      expect(weekdaysOnDaily.status).toBe(400);
+
+      const endBeforeStart = await createTemplate({
+        ...standup,
+        recurrence: { frequency: 'daily', startDate: '2025-01-06', endDate: '2025-01-01' },
+      });
+      expect(endBeforeStart.status).toBe(400);
+    });
+
+    it("should not expose other users' templates", async () => {
+      const template = await prisma.workEntryTemplate.create({
+        data: {
+          userId,
+          description: 'Planning',
+          startTime: '10:00',
+          durationMinutes: 60,
+          frequency: 'weekly',
+          startDate: new Date('2025-01-06'),
+        },
+      });
+
+      const otherUser = await prisma.user.create({
+        data: {
+          email: generateTestEmail('templates-other'),
+          password: 'hashed',
+          firstName: 'Other',
+          lastName: 'User',
+          emailVerified: true,
+        },
+      });
+      const { tokens } = await SessionService.startSession(otherUser.id, otherUser.email, {
+        ipAddress: null,
+        userAgent: null,
+      });
+
+      const response = await request(app)
+        .get(`/api/templates/${template.id}`)
+        .set('Authorization', `Bearer ${tokens.accessToken}`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/templates/:id/materialize', () => {
+    it('should create one work entry per past occurrence', async () => {
+      const template = await createTemplate(standup);
+      const response = await materialize(template.body.data.id, getRecentDay(5), getRecentDay(1));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.created).toBe(5);
+      expect(response.body.data.skipped).toBe(0);
+
+      const entries = await prisma.workEntry.findMany({
+        where: { userId },
+        include: { tags: { include: { tag: true } } },
+        orderBy: { startTime: 'asc' },
+      });
+      expect(entries).toHaveLength(5);
+      expect(entries[0]!.startTime.toISOString()).toBe(`${getRecentDay(5)}T09:00:00.000Z`);
+      expect(entries[0]!.endTime!.toISOString()).toBe(`${getRecentDay(5)}T09:15:00.000Z`);
+      expect(entries[0]!.tags.map((entryTag) => entryTag.tag.name)).toEqual(['meeting']);
+
+      // Entries are created like any other, so they have a revision history
+      const revisions = await prisma.workEntryRevision.count({
+        where: { userId, action: 'create' },
+      });
+      expect(revisions).toBe(5);
+    });
+
+    it('should create entries at the start time in the user time zone', async () => {
+      await prisma.userSettings.create({ data: { userId, timezone: 'Asia/Tokyo' } });
+
+      const template = await createTemplate(standup);
+      const day = getRecentDay(3);
+      await materialize(template.body.data.id, day, day);
+
+      const entry = await prisma.workEntry.findFirstOrThrow({ where: { userId } });
+      // 09:00 in Tokyo is midnight UTC
+      expect(entry.startTime.toISOString()).toBe(`${day}T00:00:00.000Z`);
+    });
+
+    it('should skip days that already have a matching entry', async () => {
+      const template = await createTemplate(standup);
+      const id = template.body.data.id;
+
+      await prisma.workEntry.create({
+        data: {
+          userId,
+          startTime: new Date(`${getRecentDay(2)}T14:00:00.000Z`),
+          endTime: new Date(`${getRecentDay(2)}T14:10:00.000Z`),
+          description: 'daily standup',
+        },
+      });
+
+      const first = await materialize(id, getRecentDay(3), getRecentDay(1));
+      expect(first.body.data.created).toBe(2);
+      expect(first.body.data.occurrences).toContainEqual({
+        date: getRecentDay(2),
+        status: 'skipped',
+        reason: 'exists',
+      });
+
+      // Running it again creates nothing new
+      const second = await materialize(id, getRecentDay(3), getRecentDay(1));
+      expect(second.body.data.created).toBe(0);
+      expect(second.body.data.skipped).toBe(3);
+      expect(await prisma.workEntry.count({ where: { userId } })).toBe(3);
+    });
+
+    it('should skip occurrences that overlap other entries or have not ended', async () => {
+      const template = await createTemplate(standup);
+      const day = getRecentDay(1);
+
+      await prisma.workEntry.create({
+        data: {
+          userId,
+          startTime: new Date(`${day}T08:30:00.000Z`),
+          endTime: new Date(`${day}T09:30:00.000Z`),
+          description: 'Customer call',
+        },
+      });
+
+      const overlapping = await materialize(template.body.data.id, day, day);
+      expect(overlapping.status).toBe(200);
+      expect(overlapping.body.data.occurrences).toEqual([
+        { date: day, status: 'skipped', reason: 'overlap' },
+      ]);
+
+      const tomorrow = getRecentDay(-1);
+      const future = await materialize(template.body.data.id, tomorrow, tomorrow);
+      expect(future.body.data.occurrences).toEqual([
+        { date: tomorrow, status: 'skipped', reason: 'future' },
+      ]);
+      expect(await prisma.workEntry.count({ where: { userId } })).toBe(1);
+    });
+
+    it('should skip occurrences that break the work entry rules', async () => {
+      const template = await createTemplate({
+        ...standup,
+        recurrence: { frequency: 'daily', startDate: '2021-01-01' },
+      });
+
+      // Work entries can't start more than 2 years ago
+      const response = await materialize(template.body.data.id, '2021-01-04', '2021-01-05');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.created).toBe(0);
+      expect(response.body.data.occurrences).toEqual([
+        { date: '2021-01-04', status: 'skipped', reason: 'invalid' },
+        { date: '2021-01-05', status: 'skipped', reason: 'invalid' },
+      ]);
+      expect(await prisma.workEntry.count({ where: { userId } })).toBe(0);
+    });
+
+    it('should only materialize days within the recurrence', async () => {
+      const template = await createTemplate({
+        ...standup,
+        recurrence: { frequency: 'daily', startDate: getRecentDay(2), endDate: getRecentDay(1) },
+      });
+
+      const response = await materialize(template.body.data.id, getRecentDay(5), getRecentDay(1));
+
+      expect(response.body.data.created).toBe(2);
+      expect(response.body.data.occurrences.map((occurrence: any) => occurrence.date)).toEqual([
+        getRecentDay(2),
+        getRecentDay(1),
+      ]);
+    });
+
+    it('should validate the date range', async () => {
+      const template = await createTemplate(standup);
+      const id = template.body.data.id;
+
+      const reversed = await materialize(id, getRecentDay(1), getRecentDay(5));
+      expect(reversed.status).toBe(400);
+
+      const tooLong = await materialize(id, '2023-01-01', '2024-12-31');
+      expect(tooLong.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { createUserFactory, generateTestEmail } from '../factories/user.factory';
+import { SessionService } from '../../src/services/session.service';
+
+const prisma = new PrismaClient();
+
+// Helper function to generate an ISO datetime a number of hours ago
+const getHoursAgo = (hours: number): string => {
+  const date = new Date(Date.now() - hours * 60 * 60 * 1000);
+  date.setMilliseconds(0);
+  return date.toISOString();
+};
+
+describe('Running Timer Integration Tests', () => {
+  let accessToken: string;
+
+  beforeEach(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    const testUser = await createUserFactory({
+      withHashedPassword: true,
+      override: { email: generateTestEmail('timer') },
+    });
+
+    const dbUser = await prisma.user.create({
+      data: {
+        email: testUser.email,
+        password: testUser.password,
+        firstName: testUser.firstName,
+        lastName: testUser.lastName,
+        emailVerified: true,
+      },
+    });
+
+    const { tokens } = await SessionService.startSession(dbUser.id, dbUser.email, {
+      ipAddress: null,
+      userAgent: null,
+    });
+    accessToken = tokens.accessToken;
+  });
+
+  afterAll(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  const startTimer = (body: Record<string, unknown>) =>
+    request(app)
+      .post('/api/work-entries/timer/start')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send(body);
+
+  const stopTimer = (body: Record<string, unknown> = {}) =>
+    request(app)
+      .post('/api/work-entries/timer/stop')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send(body);
+
+  describe('POST /api/work-entries/timer/start', () => {
+    it('should start a timer without an end time', async () => {
+      const startTime = getHoursAgo(2);
+      const response = await startTimer({ description: 'Pairing session', startTime });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({
+        startTime,
+        endTime: null,
+        isRunning: true,
+        description: 'Pairing session',
+      });
+      expect(response.body.data.duration).toBeGreaterThanOrEqual(2);
+    });
+
+    it('should default the start time to now', async () => {
+      const response = await startTimer({ description: 'Pairing session' });
+
+      expect(response.status).toBe(201);
+      expect(Date.now() - new Date(response.body.data.startTime).getTime()).toBeLessThan(60000);
+    });
+
+    it('should only allow one running timer per user', async () => {
+      await startTimer({ description: 'First timer' }).expect(201);
+
+      const response = await startTimer({ description: 'Second timer' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.message).toBe('A timer is already running');
+    });
+
+    it('should require a description', async () => {
+      await startTimer({}).expect(400);
+    });
+  });
+
+  describe('GET /api/work-entries/timer', () => {
+    it('should return null when no timer is running', async () => {
+      const response = await request(app)
+        .get('/api/work-entries/timer')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data).toBeNull();
+    });
+
+    it('should return the running timer', async () => {
+      const started = await startTimer({ description: 'Pairing session' }).expect(201);
+
+      const response = await request(app)
+        .get('/api/work-entries/timer')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data.id).toBe(started.body.data.id);
+      expect(response.body.data.isRunning).toBe(true);
+    });
+  });
+
+  describe('POST /api/work-entries/timer/stop', () => {
+    it('should stop the timer and turn it into a regular entry', async () => {
+      await startTimer({ description: 'Pairing session', startTime: getHoursAgo(2) }).expect(201);
+
+      const response = await stopTimer({ description: 'Pairing on the importer' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.isRunning).toBe(false);
+      expect(response.body.data.endTime).not.toBeNull();
+      expect(response.body.data.description).toBe('Pairing on the importer');
+      expect(response.body.data.duration).toBeCloseTo(2, 1);
+
+      const timer = await request(app)
+        .get('/api/work-entries/timer')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(timer.body.data).toBeNull();
+    });
+
+    it('should accept an explicit end time', async () => {
+      await startTimer({ description: 'Pairing session', startTime: getHoursAgo(3) }).expect(201);
+
+      const endTime = getHoursAgo(1);
+      const response = await stopTimer({ endTime }).expect(200);
+
+      expect(response.body.data.endTime).toBe(endTime);
+      expect(response.body.data.duration).toBe(2);
+    });
+
+    it('should return 404 when no timer is running', async () => {
+      const response = await stopTimer();
+
+      expect(response.status).toBe(404);
+      expect(response.body.message).toBe('No timer is running');
+    });
+
+    it('should reject timers shorter than the minimum duration and keep them running', async () => {
+      await startTimer({ description: 'Quick check' }).expect(201);
+
+      const response = await stopTimer();
+
+      expect(response.status).toBe(400);
+
+      const timer = await request(app)
+        .get('/api/work-entries/timer')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(timer.body.data.isRunning).toBe(true);
+    });
+
+    it('should reject timers longer than 24 hours', async () => {
+      await startTimer({ description: 'Forgot to stop', startTime: getHoursAgo(30) }).expect(201);
+
+      await stopTimer().expect(400);
+      await stopTimer({ endTime: getHoursAgo(22) }).expect(200);
+    });
+  });
+
+  describe('Running timers in listings and statistics', () => {
+    it('should list the running timer with a live duration', async () => {
+      await startTimer({ description: 'Pairing session', startTime: getHoursAgo(1) }).expect(201);
+
+      const response = await request(app)
+        .get('/api/work-entries')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].isRunning).toBe(true);
+      expect(response.body.data[0].duration).toBeGreaterThanOrEqual(1);
+    });
+
+    it('should not serve a running timer from the listing cache', async () => {
+      await startTimer({ description: 'Pairing session', startTime: getHoursAgo(1) }).expect(201);
+
+      const listEntries = () =>
+        request(app)
+          .get('/api/work-entries')
+          .set('Authorization', `Bearer ${accessToken}`)
+          .expect(200);
+
+      await listEntries();
+
+      // Move the timer back without going through the API, which would clear the cache
+      await prisma.workEntry.updateMany({
+        where: { endTime: null },
+        data: { startTime: new Date(getHoursAgo(2)) },
+      });
+
+      const response = await listEntries();
+      expect(response.body.data[0].duration).toBeGreaterThanOrEqual(2);
+    });
+
+    it('should leave running timers out of statistics', async () => {
+      await startTimer({ description: 'Pairing session', startTime: getHoursAgo(1) }).expect(201);
+
+      const response = await request(app)
+        .get('/api/work-entries/stats')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data.totalEntries).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { createUserFactory, generateTestEmail } from '../factories/user.factory';
+import { getRecentDay } from '../factories/work-entry.factory';
+import { SessionService } from '../../src/services/session.service';
+
+const prisma = new PrismaClient();
+
+// MM/DD/YYYY, as in Clockify's default settings
+const toUsDate = (day: string): string => {
+  const [year, month, date] = day.split('-');
+  return `${month}/${date}/${year}`;
+};
+
+const csvOf = (...lines: string[]) => lines.join('\n');
+
+const togglHeader =
+  'User,Email,Client,Project,Task,Description,Billable,Start date,Start time,End date,End time,Duration,Tags,Amount (USD)';
+
+describe('Tracker Import Integration Tests', () => {
+  let userId: string;
+  let accessToken: string;
+
+  beforeEach(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.tag.deleteMany({});
+    await prisma.project.deleteMany({});
+    await prisma.client.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    const testUser = await createUserFactory({
+      withHashedPassword: true,
+      override: { email: generateTestEmail('tracker-import') },
+    });
+
+    const dbUser = await prisma.user.create({
+      data: {
+        email: testUser.email,
+        password: testUser.password,
+        firstName: testUser.firstName,
+        lastName: testUser.lastName,
+        emailVerified: true,
+      },
+    });
+
+    userId = dbUser.id;
+
+    const { tokens } = await SessionService.startSession(dbUser.id, dbUser.email, {
+      ipAddress: null,
+      userAgent: null,
+    });
+    accessToken = tokens.accessToken;
+  });
+
+  afterAll(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.tag.deleteMany({});
+    await prisma.project.deleteMany({});
+    await prisma.client.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  const importExport = (body: object) =>
+    request(app)
+      .post('/api/work-entries/import/tracker')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send(body);
+
+  describe('Dry run', () => {
+    it('should detect a Toggl CSV export and preview projects to create', async () => {
+      const day = getRecentDay(3);
+
+      const response = await importExport({
+        content: csvOf(
+          togglHeader,
+          `Ada,ada@example.com,Acme,Website,,Landing page,Yes,${day},09:00:00,${day},10:30:00,01:30:00,design,150`
+        ),
+      }).expect(200);
+
+      expect(response.body.data.source).toEqual({ tracker: 'toggl', format: 'csv' });
+      expect(response.body.data.unmappedFields).toEqual(['User', 'Email', 'Amount (USD)']);
+      expect(response.body.data.newProjects).toEqual([{ name: 'Website', client: 'Acme' }]);
+      expect(response.body.data.rows).toEqual([
+        {
+          line: 2,
+          status: 'valid',
+          entry: {
+            startTime: `${day}T09:00:00.000Z`,
+            endTime: `${day}T10:30:00.000Z`,
+            description: 'Landing page',
+            projectId: null,
+            tags: ['design', 'billable'],
+          },
+          newProject: 'Website',
+        },
+      ]);
+      expect(await prisma.project.count({ where: { userId } })).toBe(0);
+      expect(await prisma.workEntry.count({ where: { userId } })).toBe(0);
+    });
+
+    it('should reject rows with unknown projects when projects are not created', async () => {
+      const day = getRecentDay(3);
+
+      const response = await importExport({
+        content: csvOf(
+          togglHeader,
+          `Ada,ada@example.com,,Moonshot,,Research,No,${day},09:00:00,${day},10:00:00,01:00:00,,0`
+        ),
+        createMissingProjects: false,
+      }).expect(200);
+
+      expect(response.body.data.rows[0].errors).toEqual([
+        { field: 'project', message: 'Project "Moonshot" not found or archived' },
+      ]);
+      expect(response.body.data.newProjects).toBeUndefined();
+    });
+  });
+
+  describe('Import', () => {
+    it('should import a Clockify CSV export into existing and new projects', async () => {
+      const day = getRecentDay(2);
+      const website = await prisma.project.create({ data: { userId, name: 'Website' } });
+
+      const response = await importExport({
+        content: csvOf(
+          'Project,Client,Description,Task,User,Email,Tags,Billable,Start Date,Start Time,End Date,End Time,Duration (h),Duration (decimal),Billable Rate (USD),Billable Amount (USD)',
+          `website,,Review,,Ada,ada@example.com,,No,${toUsDate(day)},09:00:00 AM,${toUsDate(day)},10:00:00 AM,01:00:00,1.00,0,0`,
+          `Mobile App,Acme,Sprint planning,,Ada,ada@example.com,meetings,Yes,${toUsDate(day)},01:00:00 PM,${toUsDate(day)},02:00:00 PM,01:00:00,1.00,0,0`,
+          `Mobile App,Acme,Sprint review,,Ada,ada@example.com,,Yes,${toUsDate(day)},03:00:00 PM,${toUsDate(day)},04:00:00 PM,01:00:00,1.00,0,0`
+        ),
+        dryRun: false,
+      }).expect(200);
+
+      expect(response.body.data.source).toEqual({ tracker: 'clockify', format: 'csv' });
+      expect(response.body.data.result.summary).toMatchObject({ succeeded: 3, failed: 0 });
+
+      const mobileApp = await prisma.project.findFirst({
+        where: { userId, name: 'Mobile App' },
+        include: { client: true },
+      });
+      expect(mobileApp?.client?.name).toBe('Acme');
+
+      const entries = await prisma.workEntry.findMany({
+        where: { userId },
+        include: { tags: { include: { tag: true } } },
+        orderBy: { startTime: 'asc' },
+      });
+      expect(entries.map((entry) => entry.projectId)).toEqual([
+        website.id,
+        mobileApp!.id,
+        mobileApp!.id,
+      ]);
+      expect(entries[1]!.tags.map((entryTag) => entryTag.tag.name).sort()).toEqual([
+        'billable',
+        'meetings',
+      ]);
+    });
+
+    it('should import Harvest JSON with and without times of day', async () => {
+      const day = getRecentDay(2);
+
+      const response = await importExport({
+        content: JSON.stringify({
+          time_entries: [
+            {
+              spent_date: day,
+              hours: 2,
+              notes: 'Coding',
+              project: { id: 1, name: 'Website' },
+              client: { id: 2, name: 'Acme' },
+              task: { id: 3, name: 'Development' },
+              billable: false,
+            },
+            {
+              spent_date: day,
+              hours: 1,
+              started_time: '2:00pm',
+              ended_time: '3:00pm',
+              notes: 'Call',
+              project: { id: 1, name: 'Website' },
+              client: { id: 2, name: 'Acme' },
+              task: { id: 4, name: 'Meetings' },
+              billable: true,
+            },
+          ],
+        }),
+        dayStartTime: '08:00',
+        billableTag: null,
+        dryRun: false,
+      }).expect(200);
+
+      expect(response.body.data.source).toEqual({ tracker: 'harvest', format: 'json' });
+
+      const entries = await prisma.workEntry.findMany({
+        where: { userId },
+        include: { tags: true },
+        orderBy: { startTime: 'asc' },
+      });
+      expect(entries.map((entry) => [entry.startTime.toISOString(), entry.description])).toEqual([
+        [`${day}T08:00:00.000Z`, 'Coding'],
+        [`${day}T14:00:00.000Z`, 'Call'],
+      ]);
+      expect(entries.every((entry) => entry.tags.length === 0)).toBe(true);
+      expect(await prisma.project.count({ where: { userId } })).toBe(1);
+    });
+
+    it('should skip entries that were already imported', async () => {
+      const day = getRecentDay(2);
+      const body = {
+        content: JSON.stringify([
+          {
+            description: 'Standup',
+            timeInterval: { start: `${day}T09:00:00Z`, end: `${day}T09:15:00Z` },
+            projectName: 'Internal',
+            tags: [],
+            billable: false,
+          },
+        ]),
+        dryRun: false,
+      };
+
+      await importExport(body).expect(200);
+      const response = await importExport(body).expect(200);
+
+      expect(response.body.data.summary.duplicateRows).toBe(1);
+      expect(response.body.data.newProjects).toEqual([]);
+      expect(await prisma.workEntry.count({ where: { userId } })).toBe(1);
+    });
+
+    it('should create nothing in atomic mode when a row is invalid', async () => {
+      const day = getRecentDay(2);
+
+      await importExport({
+        content: JSON.stringify([
+          {
+            description: 'Done',
+            start: `${day}T09:00:00Z`,
+            stop: `${day}T10:00:00Z`,
+            project: 'Website',
+          },
+          { description: 'Still running', start: `${day}T11:00:00Z`, stop: null },
+        ]),
+        dryRun: false,
+      }).expect(400);
+
+      expect(await prisma.project.count({ where: { userId } })).toBe(0);
+      expect(await prisma.workEntry.count({ where: { userId } })).toBe(0);
+    });
+  });
+
+  describe('Request validation', () => {
+    it('should reject files that are not tracker exports', async () => {
+      const response = await importExport({
+        content: csvOf('Start,End,Notes', '2025-01-01 09:00,2025-01-01 10:00,x'),
+      }).expect(400);
+
+      expect(response.body.code).toBe('INVALID_FILE');
+    });
+
+    it('should reject an invalid billable tag', async () => {
+      await importExport({ content: '[]', billableTag: '#billable!' }).expect(400);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import app from '../../src/app';
+import { createUserFactory, generateTestEmail } from '../factories/user.factory';
+import { getRecentDay } from '../factories/work-entry.factory';
+import { SessionService } from '../../src/services/session.service';
+import { workEntryService } from '../../src/services/work-entry.service';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Work Entry Trash Integration Tests', () => {
+  let userId: string;
+  let accessToken: string;
+
+  beforeEach(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.tag.deleteMany({});
+    await prisma.project.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    const testUser = await createUserFactory({
+      withHashedPassword: true,
+      override: { email: generateTestEmail('trash') },
+    });
+
+    const dbUser = await prisma.user.create({
+      data: {
+        email: testUser.email,
+        password: testUser.password,
+        firstName: testUser.firstName,
+        lastName: testUser.lastName,
+        emailVerified: true,
+      },
+    });
+
+    userId = dbUser.id;
+
+    const { tokens } = await SessionService.startSession(dbUser.id, dbUser.email, {
+      ipAddress: null,
+      userAgent: null,
+    });
+    accessToken = tokens.accessToken;
+  });
+
+  afterAll(async () => {
+    await prisma.workEntry.deleteMany({});
+    await prisma.tag.deleteMany({});
+    await prisma.project.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  const day = getRecentDay(2);
+
+  const createEntry = (from: string, to: string | null, description = 'Work') =>
+    prisma.workEntry.create({
+      data: {
+        userId,
+        startTime: new Date(`${day}T${from}:00.000Z`),
+        endTime: to ? new Date(`${day}T${to}:00.000Z`) : null,
+        description,
+      },
+    });
+
+  const deleteEntry = (id: string) =>
+    request(app)
+      .delete(`/api/work-entries/${id}`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(200);
+
+  const restoreEntry = (id: string, query = '') =>
+    request(app)
+      .post(`/api/work-entries/${id}/restore${query}`)
+      .set('Authorization', `Bearer ${accessToken}`);
+
+  describe('DELETE /api/work-entries/:id', () => {
+    it('should hide the entry from listings, lookups, stats and conflicts', async () => {
+      const kept = await createEntry('09:00', '10:00', 'Kept');
+      const deleted = await createEntry('09:30', '11:00', 'Deleted');
+
+      await deleteEntry(deleted.id);
+
+      const list = await request(app)
+        .get('/api/work-entries')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+      expect(list.body.data.map((entry: any) => entry.id)).toEqual([kept.id]);
+
+      await request(app)
+        .get(`/api/work-entries/${deleted.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
+
+      const stats = await request(app)
+        .get('/api/work-entries/stats')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+      expect(stats.body.data.totalEntries).toBe(1);
+
+      const conflicts = await request(app)
+        .get('/api/work-entries/conflicts')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+      expect(conflicts.body.data).toEqual([]);
+
+      // The trashed entry no longer blocks its time range
+      await request(app)
+        .post('/api/work-entries')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({
+          startTime: `${day}T10:00:00.000Z`,
+          endTime: `${day}T11:00:00.000Z`,
+          description: 'Replacement',
+        })
+        .expect(201);
+    });
+
+    it('should not delete an entry that is already in the trash', async () => {
+      const entry = await createEntry('09:00', '10:00');
+
+      await deleteEntry(entry.id);
+
+      await request(app)
+        .delete(`/api/work-entries/${entry.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/work-entries/trash', () => {
+    it('should list deleted entries with their purge date, most recently deleted first', async () => {
+      const first = await createEntry('09:00', '10:00', 'First');
+      const second = await createEntry('11:00', '12:00', 'Second');
+      await createEntry('13:00', '14:00', 'Active');
+
+      await deleteEntry(first.id);
+      await deleteEntry(second.id);
+
+      const response = await request(app)
+        .get('/api/work-entries/trash')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.data.map((entry: any) => entry.description)).toEqual([
+        'Second',
+        'First',
+      ]);
+      expect(response.body.pagination).toMatchObject({ page: 1, total: 2, totalPages: 1 });
+
+      const [trashed] = response.body.data;
+      expect(new Date(trashed.purgeAt).getTime() - new Date(trashed.deletedAt).getTime()).toBe(
+        30 * DAY_MS
+      );
+    });
+
+    it('should reject an invalid page size', async () => {
+      await request(app)
+        .get('/api/work-entries/trash?limit=500')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/work-entries/:id/restore', () => {
+    it('should restore an entry from the trash', async () => {
+      const entry = await createEntry('09:00', '10:00', 'Restore me');
+      await deleteEntry(entry.id);
+
+      const response = await restoreEntry(entry.id).expect(200);
+
+      expect(response.body.data).toMatchObject({ id: entry.id, description: 'Restore me' });
+      expect(
+        (await prisma.workEntry.findUnique({ where: { id: entry.id } }))?.deletedAt
+      ).toBeNull();
+
+      await request(app)
+        .get(`/api/work-entries/${entry.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+    });
+
+    it('should apply the overlap policy to entries logged since the deletion', async () => {
+      const entry = await createEntry('09:00', '11:00');
+      await deleteEntry(entry.id);
+      const replacement = await createEntry('10:00', '12:00', 'Replacement');
+
+      const rejected = await restoreEntry(entry.id).expect(409);
+      expect(rejected.body.code).toBe('WORK_ENTRY_OVERLAP');
+      expect(rejected.body.conflicts).toEqual([expect.objectContaining({ id: replacement.id })]);
+
+      const trimmed = await restoreEntry(entry.id, '?overlap=trim').expect(200);
+      expect(trimmed.body.data.endTime).toBe(`${day}T10:00:00.000Z`);
+    });
+
+    it('should not restore a timer while another timer is running', async () => {
+      const timer = await createEntry('09:00', null);
+      await deleteEntry(timer.id);
+      await createEntry('10:00', null);
+
+      const response = await restoreEntry(timer.id).expect(409);
+
+      expect(response.body.message).toBe('A timer is already running');
+    });
+
+    it('should return 404 for entries that are not in the trash', async () => {
+      const entry = await createEntry('09:00', '10:00');
+
+      await restoreEntry(entry.id).expect(404);
+      await restoreEntry('cm0000000000000000000000').expect(404);
+    });
+  });
+
+  describe('purgeDeletedWorkEntries', () => {
+    it('should permanently delete only entries past the retention period', async () => {
+      const expired = await createEntry('09:00', '10:00');
+      const recent = await createEntry('11:00', '12:00');
+      const active = await createEntry('13:00', '14:00');
+
+      await prisma.workEntry.update({
+        where: { id: expired.id },
+        data: { deletedAt: new Date(Date.now() - 31 * DAY_MS) },
+      });
+      await prisma.workEntry.update({
+        where: { id: recent.id },
+        data: { deletedAt: new Date(Date.now() - 29 * DAY_MS) },
+      });
+
+      expect(await workEntryService.purgeDeletedWorkEntries()).toBe(1);
+
+      const remaining = await prisma.workEntry.findMany({
+        where: { userId },
+        select: { id: true },
+      });
+      expect(remaining.map((entry) => entry.id).sort()).toEqual([recent.id, active.id].sort());
+    });
+  });
+});
@@ -51,6 +51,7 @@ describe('Work Entry Integration Tests', () => {
         password: testUser.password,
         firstName: testUser.firstName,
         lastName: testUser.lastName,
+        emailVerified: true,
       },
     });
 
@@ -130,7 +131,11 @@ describe('Work Entry Integration Tests', () => {
           startTime: getRecentDate(1, 9), // Yesterday, 9 AM
           endTime: getRecentDate(1, 17), // Yesterday, 5 PM
           duration: 8.0,
+          isRunning: false,
           description: 'Working on authentication system',
+          projectId: null,
+          project: null,
+          tags: [],
           createdAt: expect.any(String),
           updatedAt: expect.any(String),
         },
@@ -529,7 +534,11 @@ describe('Work Entry Integration Tests', () => {
           startTime: '2024-01-15T09:00:00.000Z',
           endTime: '2024-01-15T17:00:00.000Z',
           duration: 8.0,
+          isRunning: false,
           description: 'Test work entry',
+          projectId: null,
+          project: null,
+          tags: [],
           createdAt: expect.any(String),
           updatedAt: expect.any(String),
         },
@@ -613,7 +622,11 @@ describe('Work Entry Integration Tests', () => {
           startTime: '2024-01-16T10:00:00.000Z',
           endTime: '2024-01-16T17:30:00.000Z',
           duration: 7.5,
+          isRunning: false,
           description: 'Updated work entry',
+          projectId: null,
+          project: null,
+          tags: [],
           createdAt: expect.any(String),
           updatedAt: expect.any(String),
         },
@@ -747,12 +760,17 @@ describe('Work Entry Integration Tests', () => {
         message: 'Work entry deleted successfully',
       });
 
-      // Verify the entry was deleted from database
+      // Verify the entry was moved to the trash
       const deletedEntry = await prisma.workEntry.findFirst({
         where: { id: workEntry.id },
       });
 
-      expect(deletedEntry).toBeNull();
+      expect(deletedEntry?.deletedAt).toBeInstanceOf(Date);
+
+      await request(app)
+        .get(`/api/work-entries/${workEntry.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
     });
 
     it('should return 404 for non-existent work entry', async () => {
@@ -844,6 +862,17 @@ describe('Work Entry Integration Tests', () => {
           totalHours: 34.0, // 8 + 6 + 7.5 + 8.5 + 4
           averageHours: 6.8, // 34 / 5
           totalEntries: 5,
+          byProject: [
+            {
+              projectId: null,
+              projectName: null,
+              clientId: null,
+              clientName: null,
+              totalHours: 34,
+              totalEntries: 5,
+            },
+          ],
+          byTag: [],
         },
       });
     });
@@ -862,6 +891,17 @@ describe('Work Entry Integration Tests', () => {
         totalHours: 22.0, // 6 + 7.5 + 8.5
         averageHours: 7.33, // 22 / 3, rounded to 2 decimals
         totalEntries: 3,
+        byProject: [
+          {
+            projectId: null,
+            projectName: null,
+            clientId: null,
+            clientName: null,
+            totalHours: 22,
+            totalEntries: 3,
+          },
+        ],
+        byTag: [],
       });
     });
 
@@ -879,6 +919,8 @@ describe('Work Entry Integration Tests', () => {
         totalHours: 0,
         averageHours: 0,
         totalEntries: 0,
+        byProject: [],
+        byTag: [],
       });
     });
 
@@ -897,6 +939,118 @@ describe('Work Entry Integration Tests', () => {
     });
   });
 
+  describe('GET /api/work-entries/stats/series', () => {
+    // A recent calendar day as YYYY-MM-DD
+    const recentDay = (daysAgo: number): string => {
+      const date = new Date();
+      date.setUTCDate(date.getUTCDate() - daysAgo);
+      return date.toISOString().split('T')[0]!;
+    };
+
+    const getSeries = (query: Record<string, string>) =>
+      request(app)
+        .get('/api/work-entries/stats/series')
+        .query(query)
+        .set('Authorization', `Bearer ${accessToken}`);
+
+    beforeEach(async () => {
+      await prisma.workEntry.createMany({
+        data: [
+          {
+            // Crosses midnight UTC: 2 hours on each day
+            startTime: new Date(`${recentDay(4)}T22:00:00.000Z`),
+            endTime: new Date(`${recentDay(3)}T02:00:00.000Z`),
+            description: 'Night shift',
+            userId,
+          },
+          {
+            startTime: new Date(`${recentDay(2)}T09:00:00.000Z`),
+            endTime: new Date(`${recentDay(2)}T12:00:00.000Z`),
+            description: 'Morning',
+            userId,
+          },
+          {
+            // Running timers are left out
+            startTime: new Date(`${recentDay(1)}T09:00:00.000Z`),
+            endTime: null,
+            description: 'Running',
+            userId,
+          },
+          {
+            // Entries in the trash are left out
+            startTime: new Date(`${recentDay(1)}T13:00:00.000Z`),
+            endTime: new Date(`${recentDay(1)}T15:00:00.000Z`),
+            description: 'Deleted',
+            userId,
+            deletedAt: new Date(),
+          },
+        ],
+      });
+    });
+
+    it('should split entries at day boundaries and include empty days', async () => {
+      const response = await getSeries({}).expect(200);
+      const { data } = response.body;
+
+      expect(data).toMatchObject({
+        interval: 'day',
+        timezone: 'UTC',
+        startDate: recentDay(29),
+        endDate: recentDay(0),
+        totalHours: 7,
+      });
+      expect(data.buckets).toHaveLength(30);
+
+      const byDate = new Map(data.buckets.map((bucket: any) => [bucket.date, bucket]));
+      expect(byDate.get(recentDay(4))).toEqual({
+        date: recentDay(4),
+        start: `${recentDay(4)}T00:00:00.000Z`,
+        end: `${recentDay(3)}T00:00:00.000Z`,
+        hours: 2,
+        entries: 1,
+      });
+      expect(byDate.get(recentDay(3))).toMatchObject({ hours: 2, entries: 1 });
+      expect(byDate.get(recentDay(2))).toMatchObject({ hours: 3, entries: 1 });
+      expect(byDate.get(recentDay(1))).toMatchObject({ hours: 0, entries: 0 });
+    });
+
+    it('should bucket by local days in the requested time zone', async () => {
+      const response = await getSeries({ timezone: 'Asia/Tokyo' }).expect(200);
+
+      // Tokyo is UTC+9 all year, so the night shift falls on a single local day
+      const night = response.body.data.buckets.find(
+        (bucket: any) => bucket.start === `${recentDay(4)}T15:00:00.000Z`
+      );
+      expect(night).toMatchObject({ date: recentDay(3), hours: 4, entries: 1 });
+    });
+
+    it('should group weeks and months into whole periods', async () => {
+      const weekly = await getSeries({ interval: 'week' }).expect(200);
+
+      expect(weekly.body.data.buckets).toHaveLength(12);
+      expect(weekly.body.data.totalHours).toBe(7);
+      for (const bucket of weekly.body.data.buckets) {
+        // Weeks start on Monday by default
+        expect(new Date(bucket.date).getUTCDay()).toBe(1);
+      }
+
+      const monthly = await getSeries({ interval: 'month', timezone: 'Europe/Berlin' }).expect(200);
+
+      expect(monthly.body.data.buckets).toHaveLength(12);
+      expect(monthly.body.data.totalHours).toBe(7);
+      for (const bucket of monthly.body.data.buckets) {
+        expect(bucket.date.endsWith('-01')).toBe(true);
+        // Berlin midnight is 22:00 or 23:00 UTC the day before
+        expect(bucket.start).toMatch(/T2[23]:00:00\.000Z$/);
+      }
+    });
+
+    it('should reject an unknown interval or time zone', async () => {
+      await getSeries({ interval: 'hour' }).expect(400);
+      await getSeries({ timezone: 'Mars/Olympus_Mons' }).expect(400);
+    });
+  });
+
   describe('Authorization', () => {
     it('should require authentication for all endpoints', async () => {
       const workEntryData = {
@@ -34,6 +34,7 @@ describe('Performance Tests', () => {
         password: testUser.password,
         firstName: testUser.firstName,
         lastName: testUser.lastName,
+        emailVerified: true,
       },
     });
 
@@ -0,0 +1,34 @@
+import { hasPermission, rolePermissions } from '../../../src/config/permissions.config';
+
+describe('Permissions Config', () => {
+  it('should let every role manage its own work entries', () => {
+    for (const role of ['user', 'manager', 'admin'] as const) {
+      expect(hasPermission(role, 'work-entries:read')).toBe(true);
+      expect(hasPermission(role, 'work-entries:write')).toBe(true);
+    }
+  });
+
+  it('should only let managers and admins view operational metrics', () => {
+    expect(hasPermission('user', 'system:monitor')).toBe(false);
+    expect(hasPermission('manager', 'system:monitor')).toBe(true);
+    expect(hasPermission('admin', 'system:monitor')).toBe(true);
+  });
+
+  it('should only let admins run operational actions', () => {
+    expect(hasPermission('user', 'system:manage')).toBe(false);
+    expect(hasPermission('manager', 'system:manage')).toBe(false);
+    expect(hasPermission('admin', 'system:manage')).toBe(true);
+  });
+
+  it('should let managers look up users but only admins change them', () => {
+    expect(hasPermission('user', 'users:read')).toBe(false);
+    expect(hasPermission('manager', 'users:read')).toBe(true);
+    expect(hasPermission('manager', 'users:manage')).toBe(false);
+    expect(hasPermission('admin', 'users:manage')).toBe(true);
+  });
+
+  it('should grant each role everything the role below it has', () => {
+    expect(rolePermissions.manager).toEqual(expect.arrayContaining([...rolePermissions.user]));
+    expect(rolePermissions.admin).toEqual(expect.arrayContaining([...rolePermissions.manager]));
+  });
+});
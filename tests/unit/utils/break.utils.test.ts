@@ -0,0 +1,58 @@
+import { findBreakProblem, getBreakMs, getNetDurationMs } from '../../../src/utils/break.utils';
+
+// Build an ISO datetime on a fixed day from an HH:MM string
+const at = (time: string): string => `2025-01-15T${time}:00.000Z`;
+
+const range = (start: string, end: string) => ({ startTime: at(start), endTime: at(end) });
+
+const MINUTE_MS = 60 * 1000;
+
+describe('Break Utils', () => {
+  const workday = range('09:00', '17:30');
+
+  describe('getNetDurationMs', () => {
+    it('should subtract the breaks from the entry', () => {
+      const breaks = [range('12:00', '12:30'), range('15:00', '15:15')];
+
+      expect(getBreakMs(breaks)).toBe(45 * MINUTE_MS);
+      expect(getNetDurationMs(workday, breaks)).toBe(465 * MINUTE_MS);
+      expect(getNetDurationMs(workday, [])).toBe(510 * MINUTE_MS);
+    });
+
+    it('should accept dates as well as strings', () => {
+      const entry = { startTime: new Date(at('09:00')), endTime: new Date(at('10:00')) };
+
+      expect(getNetDurationMs(entry, [range('09:30', '09:45')])).toBe(45 * MINUTE_MS);
+    });
+  });
+
+  describe('findBreakProblem', () => {
+    it('should accept breaks inside the entry, including at its edges', () => {
+      expect(findBreakProblem(workday, [])).toBeNull();
+      expect(
+        findBreakProblem(workday, [range('17:00', '17:30'), range('09:00', '09:15')])
+      ).toBeNull();
+      expect(
+        findBreakProblem(workday, [range('12:00', '12:30'), range('12:30', '13:00')])
+      ).toBeNull();
+    });
+
+    it('should reject breaks outside the entry', () => {
+      expect(findBreakProblem(workday, [range('08:45', '09:15')])).toBe(
+        "Breaks must fall within the work entry's start and end time"
+      );
+      expect(findBreakProblem(workday, [range('17:00', '18:00')])).toBe(
+        "Breaks must fall within the work entry's start and end time"
+      );
+    });
+
+    it('should reject overlapping and empty breaks', () => {
+      expect(findBreakProblem(workday, [range('12:00', '12:30'), range('12:15', '12:45')])).toBe(
+        'Breaks cannot overlap each other'
+      );
+      expect(findBreakProblem(workday, [range('12:00', '12:00')])).toBe(
+        'Break start time must be before its end time'
+      );
+    });
+  });
+});
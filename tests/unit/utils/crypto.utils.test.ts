@@ -0,0 +1,88 @@
+import {
+  hashToken,
+  generateSecureToken,
+  safeCompare,
+  encryptSecret,
+  decryptSecret,
+} from '../../../src/utils/crypto.utils';
+
+describe('Crypto Utils', () => {
+  describe('hashToken', () => {
+    it('should produce a 64 character hex digest', () => {
+      const hash = hashToken('some-token');
+
+      expect(hash).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    it('should be deterministic', () => {
+      expect(hashToken('some-token')).toBe(hashToken('some-token'));
+    });
+
+    it('should produce different hashes for different tokens', () => {
+      expect(hashToken('token-a')).not.toBe(hashToken('token-b'));
+    });
+  });
+
+  describe('generateSecureToken', () => {
+    it('should generate hex tokens', () => {
+      const token = generateSecureToken();
+
+      expect(token).toMatch(/^[a-f0-9]+$/);
+    });
+
+    it('should respect the requested byte length', () => {
+      // 16 bytes encode to 32 hex characters
+      expect(generateSecureToken(16)).toHaveLength(32);
+    });
+
+    it('should generate unique tokens', () => {
+      const tokens = new Set(Array.from({ length: 50 }, () => generateSecureToken()));
+
+      expect(tokens.size).toBe(50);
+    });
+  });
+
+  describe('safeCompare', () => {
+    it('should return true for equal strings', () => {
+      expect(safeCompare('abc123', 'abc123')).toBe(true);
+    });
+
+    it('should return false for different strings', () => {
+      expect(safeCompare('abc123', 'abc124')).toBe(false);
+    });
+
+    it('should return false for strings of different length', () => {
+      expect(safeCompare('abc', 'abcd')).toBe(false);
+    });
+  });
+
+  describe('encryptSecret / decryptSecret', () => {
+    const key = 'test-encryption-key';
+
+    it('should round-trip a value', () => {
+      const encrypted = encryptSecret('JBSWY3DPEHPK3PXP', key);
+
+      expect(encrypted).not.toContain('JBSWY3DPEHPK3PXP');
+      expect(decryptSecret(encrypted, key)).toBe('JBSWY3DPEHPK3PXP');
+    });
+
+    it('should use a fresh IV for every encryption', () => {
+      expect(encryptSecret('same value', key)).not.toBe(encryptSecret('same value', key));
+    });
+
+    it('should reject a value decrypted with the wrong key', () => {
+      const encrypted = encryptSecret('secret', key);
+
+      expect(() => decryptSecret(encrypted, 'another-key')).toThrow();
+    });
+
+    it('should reject a tampered value', () => {
+      const [iv, tag, ciphertext] = encryptSecret('secret', key).split(':');
+      const tampered = [iv, tag, ciphertext!.replace(/^./, (c) => (c === '0' ? '1' : '0'))].join(
+        ':'
+      );
+
+      expect(() => decryptSecret(tampered, key)).toThrow();
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  parseCsv,
+  CsvParseError,
+  formatCsvRow,
+  protectFormula,
+} from '../../../src/utils/csv.utils';
+
+describe('CSV Utils', () => {
+  describe('parseCsv', () => {
+    it('should split rows and fields', () => {
+      expect(parseCsv('start,end\n09:00,10:00\n')).toEqual([
+        { line: 1, values: ['start', 'end'] },
+        { line: 2, values: ['09:00', '10:00'] },
+      ]);
+    });
+
+    it('should handle quoted fields with delimiters, quotes and line breaks', () => {
+      const records = parseCsv(
+        'description,tags\n"Fix ""login"" bug","api, auth"\n"Line one\nline two",x'
+      );
+
+      expect(records).toEqual([
+        { line: 1, values: ['description', 'tags'] },
+        { line: 2, values: ['Fix "login" bug', 'api, auth'] },
+        { line: 3, values: ['Line one\nline two', 'x'] },
+      ]);
+    });
+
+    it('should number records by the line they start on', () => {
+      const records = parseCsv('"a\nb",c\nd,e');
+
+      expect(records.map((record) => record.line)).toEqual([1, 3]);
+    });
+
+    it('should accept CRLF line endings, a byte order mark and other delimiters', () => {
+      expect(parseCsv('\uFEFFa;b\r\n1;2\r\n', ';')).toEqual([
+        { line: 1, values: ['a', 'b'] },
+        { line: 2, values: ['1', '2'] },
+      ]);
+    });
+
+    it('should skip blank lines but keep empty fields', () => {
+      expect(parseCsv('a,b\n\n,2\n')).toEqual([
+        { line: 1, values: ['a', 'b'] },
+        { line: 3, values: ['', '2'] },
+      ]);
+    });
+
+    it('should reject an unterminated quoted field', () => {
+      expect(() => parseCsv('a,b\n"open,2')).toThrow(CsvParseError);
+    });
+  });
+
+  describe('formatCsvRow', () => {
+    it('should quote only the fields that need it and end the row with CRLF', () => {
+      expect(formatCsvRow(['plain', 'a,b', 'say "hi"', 'two\nlines'])).toBe(
+        'plain,"a,b","say ""hi""","two\nlines"\r\n'
+      );
+    });
+
+    it('should round-trip through parseCsv', () => {
+      const values = ['Fix "login" bug', 'api, auth', 'Line one\nline two', ''];
+
+      expect(parseCsv(formatCsvRow(values, ';'), ';')).toEqual([{ line: 1, values }]);
+    });
+  });
+
+  describe('protectFormula', () => {
+    it('should prefix text that a spreadsheet would run as a formula', () => {
+      expect(protectFormula('=SUM(A1:A2)')).toBe("'=SUM(A1:A2)");
+      expect(protectFormula('+1')).toBe("'+1");
+      expect(protectFormula('@cmd')).toBe("'@cmd");
+    });
+
+    it('should leave other text alone', () => {
+      expect(protectFormula('Review 1 + 1')).toBe('Review 1 + 1');
+      expect(protectFormula('')).toBe('');
+    });
+  });
+});
@@ -0,0 +1,19 @@
+import { encodeCursor, decodeCursor } from '../../../src/utils/cursor.utils';
+
+describe('Cursor Utils', () => {
+  it('should round-trip a payload through an opaque cursor', () => {
+    const payload = { value: '2024-03-15T09:30:00.000Z', id: 'clm123abc456', direction: 'next' };
+    const cursor = encodeCursor(payload);
+
+    expect(cursor).toMatch(/^[0-9a-f]+$/);
+    expect(decodeCursor(cursor)).toEqual(payload);
+  });
+
+  it('should return null for malformed cursors', () => {
+    expect(decodeCursor('')).toBeNull();
+    expect(decodeCursor('not-hex')).toBeNull();
+    expect(decodeCursor('abc')).toBeNull();
+    // Valid hex, but not JSON
+    expect(decodeCursor(Buffer.from('{oops').toString('hex'))).toBeNull();
+  });
+});
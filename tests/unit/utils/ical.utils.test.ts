@@ -0,0 +1,79 @@
+import {
+  escapeICalText,
+  foldICalLine,
+  formatICalDate,
+  formatICalEvent,
+} from '../../../src/utils/ical.utils';
+
+describe('iCalendar Utils', () => {
+  describe('escapeICalText', () => {
+    it('should escape backslashes, semicolons, commas and line breaks', () => {
+      expect(escapeICalText('a\\b; c, d\r\ne')).toBe('a\\\\b\\; c\\, d\\ne');
+    });
+  });
+
+  describe('formatICalDate', () => {
+    it('should format a UTC date-time without separators or milliseconds', () => {
+      expect(formatICalDate(new Date('2025-01-15T09:05:30.250Z'))).toBe('20250115T090530Z');
+    });
+  });
+
+  describe('foldICalLine', () => {
+    it('should leave lines of up to 75 octets alone', () => {
+      const line = 'x'.repeat(75);
+
+      expect(foldICalLine(line)).toBe(line);
+    });
+
+    it('should fold long lines onto continuation lines of at most 75 octets', () => {
+      const folded = foldICalLine(`SUMMARY:${'x'.repeat(200)}`);
+      const lines = folded.split('\r\n');
+
+      expect(lines.length).toBeGreaterThan(1);
+      lines.forEach((line) => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75));
+      expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true);
+      // Unfolding restores the original line
+      expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'x'.repeat(200)}`);
+    });
+
+    it('should not split multi-byte characters', () => {
+      const line = `SUMMARY:${'é'.repeat(60)}`;
+      const folded = foldICalLine(line);
+
+      expect(folded).not.toContain('�');
+      expect(folded.replace(/\r\n /g, '')).toBe(line);
+      folded
+        .split('\r\n')
+        .forEach((part) => expect(Buffer.byteLength(part)).toBeLessThanOrEqual(75));
+    });
+  });
+
+  describe('formatICalEvent', () => {
+    it('should format a VEVENT with CRLF line endings', () => {
+      const event = formatICalEvent({
+        uid: 'entry-1@work-tracker',
+        start: new Date('2025-01-15T09:00:00Z'),
+        end: new Date('2025-01-15T10:30:00Z'),
+        summary: 'Planning, part 1',
+        description: 'Project: Website\nDuration: 1.5 h',
+        categories: ['design', 'client work'],
+        lastModified: new Date('2025-01-15T11:00:00Z'),
+      });
+
+      expect(event.split('\r\n')).toEqual([
+        'BEGIN:VEVENT',
+        'UID:entry-1@work-tracker',
+        'DTSTAMP:20250115T110000Z',
+        'LAST-MODIFIED:20250115T110000Z',
+        'DTSTART:20250115T090000Z',
+        'DTEND:20250115T103000Z',
+        'SUMMARY:Planning\\, part 1',
+        'DESCRIPTION:Project: Website\\nDuration: 1.5 h',
+        'CATEGORIES:design,client work',
+        'STATUS:CONFIRMED',
+        'END:VEVENT',
+        '',
+      ]);
+    });
+  });
+});
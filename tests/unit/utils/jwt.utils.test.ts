@@ -4,6 +4,8 @@ import {
   generateTokenPair,
   verifyAccessToken,
   verifyRefreshToken,
+  generateMfaChallengeToken,
+  verifyMfaChallengeToken,
   extractTokenFromHeader,
   getTokenExpirationTime,
   isTokenExpired,
@@ -42,6 +44,27 @@ describe('JWT Utils', () => {
       expect(decoded?.type).toBe('access');
     });
 
+    it('should embed the session ID when provided', () => {
+      const token = generateAccessToken(testUserId, testEmail, 'session-123');
+      const decoded = decodeTokenUnsafe(token);
+
+      expect(decoded?.sessionId).toBe('session-123');
+    });
+
+    it('should omit the session ID when not provided', () => {
+      const token = generateAccessToken(testUserId, testEmail);
+      const decoded = decodeTokenUnsafe(token);
+
+      expect(decoded).not.toHaveProperty('sessionId');
+    });
+
+    it('should embed the role when provided', () => {
+      const token = generateAccessToken(testUserId, testEmail, 'session-123', 'admin');
+      const decoded = decodeTokenUnsafe(token);
+
+      expect(decoded?.role).toBe('admin');
+    });
+
     it('should handle special characters in email', () => {
       const specialEmail = 'user+tag@domain.co.uk';
       const token = generateAccessToken(testUserId, specialEmail);
@@ -69,6 +92,14 @@ describe('JWT Utils', () => {
       expect(decoded?.type).toBe('refresh');
     });
 
+    it('should give every refresh token a unique token ID', () => {
+      const token1 = generateRefreshToken(testUserId, testEmail);
+      const token2 = generateRefreshToken(testUserId, testEmail);
+
+      expect(decodeTokenUnsafe(token1)?.jti).toBeTruthy();
+      expect(token1).not.toBe(token2);
+    });
+
     it('should generate different tokens than access tokens', () => {
       const accessToken = generateAccessToken(testUserId, testEmail);
       const refreshToken = generateRefreshToken(testUserId, testEmail);
@@ -173,6 +204,29 @@ describe('JWT Utils', () => {
     });
   });
 
+  describe('MFA challenge tokens', () => {
+    it('should verify a valid challenge token', () => {
+      const token = generateMfaChallengeToken(testUserId, testEmail);
+
+      const decoded = verifyMfaChallengeToken(token);
+
+      expect(decoded.userId).toBe(testUserId);
+      expect(decoded.type).toBe('mfa_challenge');
+    });
+
+    it('should not accept a challenge token as an access token', () => {
+      const token = generateMfaChallengeToken(testUserId, testEmail);
+
+      expect(() => verifyAccessToken(token)).toThrow(JWTError);
+    });
+
+    it('should not accept an access token as a challenge token', () => {
+      const accessToken = generateAccessToken(testUserId, testEmail);
+
+      expect(() => verifyMfaChallengeToken(accessToken)).toThrow(JWTError);
+    });
+  });
+
   describe('extractTokenFromHeader', () => {
     it('should extract token from valid Authorization header', () => {
       const token = 'valid-token';
@@ -0,0 +1,110 @@
+import {
+  rangesOverlap,
+  trimToFreeRange,
+  findOverlappingPairs,
+} from '../../../src/utils/overlap.utils';
+
+// Build a date on a fixed day from an HH:MM string
+const at = (time: string): Date => new Date(`2025-01-15T${time}:00.000Z`);
+
+const range = (start: string, end: string | null) => ({
+  startTime: at(start),
+  endTime: end ? at(end) : null,
+});
+
+describe('Overlap Utils', () => {
+  describe('rangesOverlap', () => {
+    it('should detect ranges that share time', () => {
+      expect(rangesOverlap(range('09:00', '12:00'), range('11:00', '13:00'))).toBe(true);
+      expect(rangesOverlap(range('09:00', '17:00'), range('10:00', '11:00'))).toBe(true);
+    });
+
+    it('should not treat touching ranges as overlapping', () => {
+      expect(rangesOverlap(range('09:00', '12:00'), range('12:00', '13:00'))).toBe(false);
+    });
+
+    it('should treat running timers as lasting until now', () => {
+      const now = at('15:00');
+
+      expect(rangesOverlap(range('14:00', null), range('14:30', '16:00'), now)).toBe(true);
+      expect(rangesOverlap(range('14:00', null), range('15:00', '16:00'), now)).toBe(false);
+    });
+  });
+
+  describe('trimToFreeRange', () => {
+    it('should leave a range without overlaps untouched', () => {
+      const trimmed = trimToFreeRange({ startTime: at('09:00'), endTime: at('12:00') }, [
+        range('12:00', '13:00'),
+      ]);
+
+      expect(trimmed).toEqual({ startTime: at('09:00'), endTime: at('12:00') });
+    });
+
+    it('should move the start past an entry covering the beginning', () => {
+      const trimmed = trimToFreeRange({ startTime: at('09:00'), endTime: at('12:00') }, [
+        range('08:00', '10:00'),
+      ]);
+
+      expect(trimmed).toEqual({ startTime: at('10:00'), endTime: at('12:00') });
+    });
+
+    it('should move the end before an entry covering the end', () => {
+      const trimmed = trimToFreeRange({ startTime: at('09:00'), endTime: at('12:00') }, [
+        range('11:00', '13:00'),
+      ]);
+
+      expect(trimmed).toEqual({ startTime: at('09:00'), endTime: at('11:00') });
+    });
+
+    it('should trim both ends', () => {
+      const trimmed = trimToFreeRange({ startTime: at('09:00'), endTime: at('12:00') }, [
+        range('11:30', '13:00'),
+        range('08:00', '09:30'),
+      ]);
+
+      expect(trimmed).toEqual({ startTime: at('09:30'), endTime: at('11:30') });
+    });
+
+    it('should give up when an entry sits strictly inside the range', () => {
+      expect(
+        trimToFreeRange({ startTime: at('09:00'), endTime: at('12:00') }, [range('10:00', '11:00')])
+      ).toBeNull();
+    });
+
+    it('should give up when the range is fully covered', () => {
+      expect(
+        trimToFreeRange({ startTime: at('09:00'), endTime: at('12:00') }, [range('08:00', '13:00')])
+      ).toBeNull();
+    });
+  });
+
+  describe('findOverlappingPairs', () => {
+    it('should return no pairs for back-to-back entries', () => {
+      expect(findOverlappingPairs([range('09:00', '12:00'), range('12:00', '13:00')])).toEqual([]);
+    });
+
+    it('should report each overlapping pair with the shared span', () => {
+      const morning = range('09:00', '12:00');
+      const duplicate = range('10:00', '11:00');
+      const lunch = range('11:30', '13:00');
+
+      const pairs = findOverlappingPairs([lunch, duplicate, morning]);
+
+      expect(pairs).toEqual([
+        { first: morning, second: duplicate, overlapStart: at('10:00'), overlapEnd: at('11:00') },
+        { first: morning, second: lunch, overlapStart: at('11:30'), overlapEnd: at('12:00') },
+      ]);
+    });
+
+    it('should measure running timers up to now', () => {
+      const timer = range('14:00', null);
+      const entry = range('14:30', '16:00');
+
+      const pairs = findOverlappingPairs([timer, entry], at('15:00'));
+
+      expect(pairs).toEqual([
+        { first: timer, second: entry, overlapStart: at('14:30'), overlapEnd: at('15:00') },
+      ]);
+    });
+  });
+});
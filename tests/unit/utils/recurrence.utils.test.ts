@@ -0,0 +1,72 @@
+import { getOccurrences, formatRRule, RecurrenceRule } from '../../../src/utils/recurrence.utils';
+
+const rule = (overrides: Partial<RecurrenceRule>): RecurrenceRule => ({
+  frequency: 'daily',
+  interval: 1,
+  byWeekday: [],
+  byMonthDay: null,
+  startDate: '2024-01-01', // A Monday
+  endDate: null,
+  ...overrides,
+});
+
+describe('Recurrence Utils', () => {
+  describe('getOccurrences', () => {
+    it('should repeat daily within the rule and the range', () => {
+      expect(getOccurrences(rule({ startDate: '2024-01-03' }), '2024-01-01', '2024-01-05')).toEqual(
+        ['2024-01-03', '2024-01-04', '2024-01-05']
+      );
+      expect(
+        getOccurrences(rule({ interval: 2, endDate: '2024-01-06' }), '2024-01-02', '2024-01-31')
+      ).toEqual(['2024-01-03', '2024-01-05']);
+    });
+
+    it('should repeat weekly on the given weekdays', () => {
+      const standup = rule({ frequency: 'weekly', byWeekday: ['MO', 'WE', 'FR'] });
+      expect(getOccurrences(standup, '2024-01-08', '2024-01-14')).toEqual([
+        '2024-01-08',
+        '2024-01-10',
+        '2024-01-12',
+      ]);
+
+      // Every other week, counted from the week of the start date
+      const planning = rule({ frequency: 'weekly', interval: 2, startDate: '2024-01-03' });
+      expect(getOccurrences(planning, '2024-01-01', '2024-01-31')).toEqual([
+        '2024-01-03',
+        '2024-01-17',
+        '2024-01-31',
+      ]);
+    });
+
+    it('should repeat monthly and skip months without the day', () => {
+      const review = rule({ frequency: 'monthly', byMonthDay: 31 });
+      expect(getOccurrences(review, '2024-01-01', '2024-05-31')).toEqual([
+        '2024-01-31',
+        '2024-03-31',
+        '2024-05-31',
+      ]);
+
+      const quarterly = rule({ frequency: 'monthly', interval: 3, startDate: '2024-01-15' });
+      expect(getOccurrences(quarterly, '2024-01-01', '2024-12-31')).toEqual([
+        '2024-01-15',
+        '2024-04-15',
+        '2024-07-15',
+        '2024-10-15',
+      ]);
+    });
+  });
+
+  describe('formatRRule', () => {
+    it('should format the rule as an RRULE value', () => {
+      expect(formatRRule(rule({}))).toBe('FREQ=DAILY');
+      expect(
+        formatRRule(
+          rule({ frequency: 'weekly', interval: 2, byWeekday: ['MO', 'WE'], endDate: '2024-06-30' })
+        )
+      ).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20240630');
+      expect(formatRRule(rule({ frequency: 'monthly', byMonthDay: 1 }))).toBe(
+        'FREQ=MONTHLY;BYMONTHDAY=1'
+      );
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { buildSearchQuery } from '../../../src/utils/search.utils';
+
+describe('Search Utils', () => {
+  describe('buildSearchQuery', () => {
+    it('should match every word as a prefix', () => {
+      expect(buildSearchQuery('Billing migr')).toBe('billing:* & migr:*');
+    });
+
+    it('should match quoted text as a phrase', () => {
+      expect(buildSearchQuery('"billing migration" review')).toBe(
+        '(billing <-> migration) & review:*'
+      );
+      expect(buildSearchQuery('"billing"')).toBe('billing');
+      // An unterminated quote runs to the end
+      expect(buildSearchQuery('invoice "data migration')).toBe('invoice:* & (data <-> migration)');
+    });
+
+    it('should drop tsquery operators and punctuation', () => {
+      expect(buildSearchQuery("e-mail & !drop | o'brien:*")).toBe(
+        'e:* & mail:* & drop:* & o:* & brien:*'
+      );
+      expect(buildSearchQuery('Überprüfung 2024')).toBe('überprüfung:* & 2024:*');
+    });
+
+    it('should return null without any words', () => {
+      expect(buildSearchQuery('')).toBeNull();
+      expect(buildSearchQuery('  "" & ! ')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  isValidTimeZone,
+  getTimeZoneOffset,
+  zonedTimeToUtc,
+  getLocalDate,
+  startOfLocalDay,
+  parseLocalDateTime,
+  resolveDateTime,
+} from '../../../src/utils/timezone.utils';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('Timezone Utils', () => {
+  describe('isValidTimeZone', () => {
+    it('should accept IANA time zones and reject anything else', () => {
+      expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+      expect(isValidTimeZone('UTC')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+
+  describe('getTimeZoneOffset', () => {
+    it('should follow daylight saving time', () => {
+      expect(getTimeZoneOffset(new Date('2024-01-15T12:00:00Z'), 'Europe/Berlin')).toBe(HOUR_MS);
+      expect(getTimeZoneOffset(new Date('2024-07-15T12:00:00Z'), 'Europe/Berlin')).toBe(
+        2 * HOUR_MS
+      );
+      expect(getTimeZoneOffset(new Date('2024-07-15T12:00:00Z'), 'America/New_York')).toBe(
+        -4 * HOUR_MS
+      );
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    const local = (month: number, day: number, hour: number, minute = 0) => ({
+      year: 2024,
+      month,
+      day,
+      hour,
+      minute,
+      second: 0,
+    });
+
+    it('should convert wall-clock time in winter and summer', () => {
+      expect(zonedTimeToUtc(local(1, 15, 9), 'Europe/Berlin').toISOString()).toBe(
+        '2024-01-15T08:00:00.000Z'
+      );
+      expect(zonedTimeToUtc(local(7, 15, 9), 'Europe/Berlin').toISOString()).toBe(
+        '2024-07-15T07:00:00.000Z'
+      );
+    });
+
+    it('should convert times around a daylight saving change', () => {
+      // Clocks in Berlin jumped from 02:00 to 03:00 on 2024-03-31
+      expect(zonedTimeToUtc(local(3, 31, 1, 30), 'Europe/Berlin').toISOString()).toBe(
+        '2024-03-31T00:30:00.000Z'
+      );
+      expect(zonedTimeToUtc(local(3, 31, 3, 30), 'Europe/Berlin').toISOString()).toBe(
+        '2024-03-31T01:30:00.000Z'
+      );
+    });
+
+    it('should roll over to the next day', () => {
+      expect(zonedTimeToUtc(local(1, 32, 9), 'UTC').toISOString()).toBe('2024-02-01T09:00:00.000Z');
+    });
+  });
+
+  describe('getLocalDate', () => {
+    it('should return the calendar date in the time zone', () => {
+      const instant = new Date('2024-03-15T23:30:00Z');
+      expect(getLocalDate(instant, 'UTC')).toBe('2024-03-15');
+      expect(getLocalDate(instant, 'Europe/Berlin')).toBe('2024-03-16');
+      expect(getLocalDate(instant, 'America/Los_Angeles')).toBe('2024-03-15');
+    });
+  });
+
+  describe('startOfLocalDay', () => {
+    it('should return local midnight as a UTC instant', () => {
+      expect(startOfLocalDay('2024-01-15', 'Europe/Berlin').toISOString()).toBe(
+        '2024-01-14T23:00:00.000Z'
+      );
+      expect(startOfLocalDay('2024-01-15', 'America/New_York').toISOString()).toBe(
+        '2024-01-15T05:00:00.000Z'
+      );
+    });
+
+    it('should move to later days across month ends and daylight saving changes', () => {
+      // Clocks in Berlin jumped forward on 2024-03-31, so the day is 23 hours long
+      expect(startOfLocalDay('2024-03-31', 'Europe/Berlin', 1).toISOString()).toBe(
+        '2024-03-31T22:00:00.000Z'
+      );
+      expect(startOfLocalDay('2024-12-31', 'UTC', 1).toISOString()).toBe(
+        '2025-01-01T00:00:00.000Z'
+      );
+    });
+  });
+
+  describe('parseLocalDateTime', () => {
+    it('should parse dates with and without a time', () => {
+      expect(parseLocalDateTime('2024-03-15')).toEqual({
+        year: 2024,
+        month: 3,
+        day: 15,
+        hour: 0,
+        minute: 0,
+        second: 0,
+      });
+      expect(parseLocalDateTime('2024-03-15T09:30:15.250')).toMatchObject({
+        hour: 9,
+        minute: 30,
+        second: 15,
+      });
+      expect(parseLocalDateTime('2024-03-15 9:30')).toMatchObject({ hour: 9, minute: 30 });
+    });
+
+    it('should read the date in the requested order', () => {
+      expect(parseLocalDateTime('03/04/2024', 'DD/MM/YYYY')).toMatchObject({ month: 4, day: 3 });
+      expect(parseLocalDateTime('03/04/2024', 'MM/DD/YYYY')).toMatchObject({ month: 3, day: 4 });
+      expect(parseLocalDateTime('15.03.2024 17:00', 'DD.MM.YYYY')).toMatchObject({
+        month: 3,
+        day: 15,
+        hour: 17,
+      });
+    });
+
+    it('should read 12-hour clock times', () => {
+      expect(parseLocalDateTime('03/15/2024 09:30:00 PM', 'MM/DD/YYYY')).toMatchObject({
+        hour: 21,
+        minute: 30,
+      });
+      expect(parseLocalDateTime('2024-03-15 12:15am')).toMatchObject({ hour: 0, minute: 15 });
+      expect(parseLocalDateTime('2024-03-15 12:15 PM')).toMatchObject({ hour: 12, minute: 15 });
+      expect(parseLocalDateTime('2024-03-15 13:00 PM')).toBeNull();
+    });
+
+    it('should reject values that are not real dates and times', () => {
+      expect(parseLocalDateTime('2024-02-30')).toBeNull();
+      expect(parseLocalDateTime('2024-03-15 25:00')).toBeNull();
+      expect(parseLocalDateTime('15.03.2024')).toBeNull();
+      expect(parseLocalDateTime('yesterday')).toBeNull();
+    });
+  });
+
+  describe('resolveDateTime', () => {
+    it('should keep timestamps that carry an offset', () => {
+      expect(resolveDateTime('2024-03-15T09:30:00+01:00', 'America/New_York')?.toISOString()).toBe(
+        '2024-03-15T08:30:00.000Z'
+      );
+      expect(resolveDateTime('2024-03-15T09:30:00Z', 'Europe/Berlin')?.toISOString()).toBe(
+        '2024-03-15T09:30:00.000Z'
+      );
+    });
+
+    it('should read other values as local time in the time zone', () => {
+      expect(resolveDateTime('2024-03-15 09:30', 'Europe/Berlin')?.toISOString()).toBe(
+        '2024-03-15T08:30:00.000Z'
+      );
+    });
+
+    it('should return null for unrecognised values', () => {
+      expect(resolveDateTime('not a date', 'UTC')).toBeNull();
+    });
+  });
+});
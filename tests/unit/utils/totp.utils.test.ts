@@ -0,0 +1,91 @@
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  generateTotp,
+  generateTotpForStep,
+  verifyTotp,
+  getTimeStep,
+  buildOtpauthUri,
+} from '../../../src/utils/totp.utils';
+
+// RFC 6238 test secret ("12345678901234567890" as ASCII)
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP Utils', () => {
+  describe('base32', () => {
+    it('should encode using the RFC 4648 alphabet', () => {
+      expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+    });
+
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should ignore case, padding and spaces when decoding', () => {
+      expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotp', () => {
+    it('should match the RFC 6238 SHA-1 test vectors', () => {
+      // RFC vectors are 8 digits - the last 6 digits are the 6 digit code
+      expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082');
+      expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+      expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe('005924');
+      expect(generateTotp(RFC_SECRET, 2000000000 * 1000)).toBe('279037');
+    });
+  });
+
+  describe('generateTotpSecret', () => {
+    it('should generate a 160-bit base32 secret', () => {
+      const secret = generateTotpSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Decode(secret)).toHaveLength(20);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const timestamp = 1234567890 * 1000;
+
+    it('should return the matching time step for a valid code', () => {
+      expect(verifyTotp(RFC_SECRET, '005924', 1, timestamp)).toBe(getTimeStep(timestamp));
+    });
+
+    it('should accept codes from adjacent steps within the window', () => {
+      const previousStep = getTimeStep(timestamp) - 1;
+      const previousCode = generateTotpForStep(RFC_SECRET, previousStep);
+
+      expect(verifyTotp(RFC_SECRET, previousCode, 1, timestamp)).toBe(previousStep);
+    });
+
+    it('should reject codes outside the window', () => {
+      const oldCode = generateTotpForStep(RFC_SECRET, getTimeStep(timestamp) - 2);
+
+      expect(verifyTotp(RFC_SECRET, oldCode, 1, timestamp)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '12345', 1, timestamp)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, 'abcdef', 1, timestamp)).toBeNull();
+    });
+  });
+
+  describe('buildOtpauthUri', () => {
+    it('should build an otpauth URI with an encoded label and issuer', () => {
+      const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', 'user@example.com', 'BloomTech Work Tracker');
+
+      expect(uri).toBe(
+        'otpauth://totp/BloomTech%20Work%20Tracker%3Auser%40example.com' +
+          '?secret=JBSWY3DPEHPK3PXP&issuer=BloomTech%20Work%20Tracker&algorithm=SHA1&digits=6&period=30'
+      );
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { readTrackerExport, TrackerFormatError } from '../../../src/utils/tracker-import.utils';
+
+const lines = (...rows: string[]) => rows.join('\n');
+
+describe('Tracker Import Utils', () => {
+  describe('Toggl Track', () => {
+    it('should read a detailed CSV report in the given time zone', () => {
+      const file = readTrackerExport(
+        lines(
+          'User,Email,Client,Project,Task,Description,Billable,Start date,Start time,End date,End time,Duration,Tags,Amount (USD)',
+          'Ada,ada@example.com,Acme,Website,,Landing page,Yes,2025-01-15,09:00:00,2025-01-15,10:30:00,01:30:00,"design, frontend",150'
+        ),
+        { timezone: 'Europe/Berlin' }
+      );
+
+      expect(file.source).toEqual({ tracker: 'toggl', format: 'csv' });
+      expect(file.unmappedFields).toEqual(['User', 'Email', 'Amount (USD)']);
+      expect(file.rows).toEqual([
+        {
+          line: 2,
+          timing: {
+            startTime: new Date('2025-01-15T08:00:00.000Z'),
+            endTime: new Date('2025-01-15T09:30:00.000Z'),
+          },
+          description: 'Landing page',
+          project: 'Website',
+          client: 'Acme',
+          tags: ['design', 'frontend'],
+          billable: true,
+          errors: [],
+        },
+      ]);
+    });
+
+    it('should read report JSON and report fields it cannot map', () => {
+      const file = readTrackerExport(
+        JSON.stringify({
+          data: [
+            {
+              id: 1,
+              description: '',
+              start: '2025-01-15T09:00:00+01:00',
+              end: '2025-01-15T10:00:00+01:00',
+              dur: 3600000,
+              project: 'Website',
+              client: null,
+              task: 'Planning',
+              tags: ['meetings'],
+              is_billable: false,
+              project_hex_color: '#06aaf5',
+            },
+          ],
+        }),
+        { timezone: 'UTC' }
+      );
+
+      expect(file.source).toEqual({ tracker: 'toggl', format: 'json' });
+      expect(file.unmappedFields).toEqual(['id', 'project_hex_color']);
+      expect(file.rows[0]).toMatchObject({
+        line: 1,
+        timing: {
+          startTime: new Date('2025-01-15T08:00:00.000Z'),
+          endTime: new Date('2025-01-15T09:00:00.000Z'),
+        },
+        // An empty description falls back to the task
+        description: 'Planning',
+        client: null,
+        billable: false,
+      });
+    });
+
+    it('should flag running timers', () => {
+      const file = readTrackerExport(
+        JSON.stringify([{ start: '2025-01-15T09:00:00Z', stop: null, description: 'Running' }]),
+        { timezone: 'UTC' }
+      );
+
+      expect(file.rows[0]!.timing).toBeNull();
+      expect(file.rows[0]!.errors).toEqual([
+        {
+          field: 'endTime',
+          message: 'The entry has no end time; running timers cannot be imported',
+        },
+      ]);
+    });
+  });
+
+  describe('Clockify', () => {
+    it('should read a detailed CSV report with US dates and 12-hour times', () => {
+      const file = readTrackerExport(
+        lines(
+          'Project,Client,Description,Task,User,Email,Tags,Billable,Start Date,Start Time,End Date,End Time,Duration (h),Duration (decimal),Billable Rate (USD),Billable Amount (USD)',
+          'Website,Acme,Review,,Ada,ada@example.com,,No,01/15/2025,01:00:00 PM,01/15/2025,02:15:00 PM,01:15:00,1.25,0,0'
+        ),
+        { timezone: 'UTC' }
+      );
+
+      expect(file.source).toEqual({ tracker: 'clockify', format: 'csv' });
+      expect(file.unmappedFields).toEqual([
+        'User',
+        'Email',
+        'Billable Rate (USD)',
+        'Billable Amount (USD)',
+      ]);
+      expect(file.rows[0]!.timing).toEqual({
+        startTime: new Date('2025-01-15T13:00:00.000Z'),
+        endTime: new Date('2025-01-15T14:15:00.000Z'),
+      });
+    });
+
+    it('should read time entries JSON with nested projects and tags', () => {
+      const file = readTrackerExport(
+        JSON.stringify([
+          {
+            id: 'abc',
+            description: 'Standup',
+            timeInterval: { start: '2025-01-15T09:00:00Z', end: '2025-01-15T09:15:00Z' },
+            project: { name: 'Internal', clientName: 'Acme' },
+            tags: [{ name: 'meetings' }],
+            billable: true,
+            hourlyRate: { amount: 5000 },
+          },
+        ]),
+        { timezone: 'UTC' }
+      );
+
+      expect(file.source).toEqual({ tracker: 'clockify', format: 'json' });
+      expect(file.unmappedFields).toEqual(['id', 'hourlyRate']);
+      expect(file.rows[0]).toMatchObject({
+        project: 'Internal',
+        client: 'Acme',
+        tags: ['meetings'],
+        billable: true,
+      });
+    });
+  });
+
+  describe('Harvest', () => {
+    it('should read a detailed CSV report as dates and hours', () => {
+      const file = readTrackerExport(
+        lines(
+          'Date,Client,Project,Project Code,Task,Notes,Hours,Hours Rounded,Billable?,Invoiced?,First Name,Last Name',
+          '2025-01-15,Acme,Website,WEB,Design,,1.5,1.5,Yes,No,Ada,Lovelace'
+        ),
+        { timezone: 'UTC' }
+      );
+
+      expect(file.source).toEqual({ tracker: 'harvest', format: 'csv' });
+      expect(file.unmappedFields).toEqual(['Project Code', 'Invoiced?', 'First Name', 'Last Name']);
+      expect(file.rows[0]).toMatchObject({
+        timing: { date: { year: 2025, month: 1, day: 15 }, hours: 1.5 },
+        // Empty notes fall back to the task
+        description: 'Design',
+        billable: true,
+      });
+    });
+
+    it('should use the times of day in API JSON when they are recorded', () => {
+      const file = readTrackerExport(
+        JSON.stringify({
+          time_entries: [
+            {
+              spent_date: '2025-01-15',
+              hours: 1.5,
+              started_time: '8:00am',
+              ended_time: '9:30am',
+              notes: 'Design review',
+              project: { id: 1, name: 'Website' },
+              client: { id: 2, name: 'Acme' },
+              task: { id: 3, name: 'Design' },
+              billable: true,
+            },
+            { spent_date: '2025-01-15', hours: 2, notes: 'Coding' },
+          ],
+        }),
+        { timezone: 'America/New_York' }
+      );
+
+      expect(file.source).toEqual({ tracker: 'harvest', format: 'json' });
+      expect(file.rows.map((row) => row.timing)).toEqual([
+        {
+          startTime: new Date('2025-01-15T13:00:00.000Z'),
+          endTime: new Date('2025-01-15T14:30:00.000Z'),
+        },
+        { date: expect.objectContaining({ year: 2025, month: 1, day: 15 }), hours: 2 },
+      ]);
+    });
+  });
+
+  describe('Format detection', () => {
+    it('should reject files from unknown trackers', () => {
+      expect(() =>
+        readTrackerExport('Start,End,Notes\n09:00,10:00,x', { timezone: 'UTC' })
+      ).toThrow(TrackerFormatError);
+      expect(() => readTrackerExport('[{"when": "today"}]', { timezone: 'UTC' })).toThrow(
+        TrackerFormatError
+      );
+      expect(() => readTrackerExport('{ not json', { timezone: 'UTC' })).toThrow(
+        TrackerFormatError
+      );
+    });
+  });
+});